@@ -6,8 +6,20 @@ import HomePage from './components/HomePage';
 import SettingsPage from './components/SettingsPage';
 import DiagnosisPage from './components/DiagnosisPage';
 import ProgressPage from './components/ProgressPage';
+import AssistantPage from './components/AssistantPage';
 import { Header } from './components/Header';
-import { supabase, apiService } from './services/supabaseService';
+import { clickerGame } from './components/ClickerGame';
+import { memoryGame } from './components/MemoryGame';
+import { choiceReactionGame, simpleReactionGame } from './components/ReactionTimeGame';
+import { apiService } from './services/apiService';
+import { registerGames } from './services/gameRegistry';
+import {
+  DEFAULT_LANGUAGE, LanguageCode, MessageKey, MessageParams, getLanguage, resolveLanguage, translate,
+  formatNumber, formatDate, formatUnit,
+} from './services/i18n';
+
+// The games on the Engagement menu, in menu order.
+registerGames([clickerGame, memoryGame, simpleReactionGame, choiceReactionGame]);
 
 // Authentication Context
 interface AuthContextType {
@@ -31,9 +43,9 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
 
   useEffect(() => {
     const checkSession = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session) {
-        const { user: fullUser, health, error } = await apiService.auth.getFullUserProfile(session.user.id);
+      const account = await apiService.auth.getSession();
+      if (account) {
+        const { user: fullUser, health, error } = await apiService.auth.getFullUserProfile(account.id);
         if (fullUser && !error) {
           login(fullUser, health);
         }
@@ -53,7 +65,7 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   };
 
   const logout = async () => {
-    await supabase.auth.signOut();
+    await apiService.auth.signOut();
     setUser(null);
     setHealthData(null);
   };
@@ -81,7 +93,7 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   if (loading) {
       return (
           <div className="min-h-screen flex items-center justify-center bg-gray-50">
-              <div className="text-xl font-semibold">Loading Application...</div>
+              <div className="text-xl font-semibold">{translate(deviceLanguage(), 'app.loading')}</div>
           </div>
       );
   }
@@ -89,6 +101,65 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 };
 
+// Localization Context
+interface I18nContextType {
+  language: LanguageCode;
+  dir: 'ltr' | 'rtl';
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (date: Date | string, options?: Intl.DateTimeFormatOptions) => string;
+  formatUnit: (value: number, unit: string) => string;
+  setLanguage: (language: LanguageCode) => Promise<{ error?: string }>;
+}
+
+const I18nContext = createContext<I18nContextType>(null!);
+
+export const useI18n = () => useContext(I18nContext);
+
+const LANGUAGE_STORAGE_KEY = 'language';
+
+// Language used before anyone signs in: the last one chosen on this device, then the browser's.
+const deviceLanguage = (): LanguageCode =>
+  resolveLanguage(localStorage.getItem(LANGUAGE_STORAGE_KEY)) ?? resolveLanguage(navigator.language) ?? DEFAULT_LANGUAGE;
+
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, healthData, updateHealthData } = useAuth();
+  const [deviceChoice, setDeviceChoice] = useState<LanguageCode>(deviceLanguage);
+
+  // The profile's preferred language wins once the user is signed in.
+  const language = resolveLanguage(healthData?.preferredLanguage) ?? deviceChoice;
+  const { dir } = getLanguage(language);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = dir;
+  }, [language, dir]);
+
+  const setLanguage = async (code: LanguageCode): Promise<{ error?: string }> => {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, code);
+    setDeviceChoice(code);
+    if (!user || !healthData) return {};
+
+    const updated = { ...healthData, preferredLanguage: getLanguage(code).name };
+    const { error } = await apiService.user.updateHealthProfile(user.id, updated);
+    if (error) return { error };
+    updateHealthData(updated);
+    return {};
+  };
+
+  const value = useMemo(() => ({
+    language,
+    dir,
+    t: (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(language, value, options),
+    formatDate: (date: Date | string, options?: Intl.DateTimeFormatOptions) => formatDate(language, date, options),
+    formatUnit: (value: number, unit: string) => formatUnit(language, value, unit),
+    setLanguage,
+  }), [language, dir, user, healthData]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { isAuthenticated } = useAuth();
   const location = useLocation();
@@ -121,6 +192,7 @@ const AppContent = () => {
                     <Route path="/settings" element={<ProtectedRoute><SettingsPage /></ProtectedRoute>} />
                     <Route path="/diagnosis" element={<ProtectedRoute><DiagnosisPage /></ProtectedRoute>} />
                     <Route path="/progress" element={<ProtectedRoute><ProgressPage /></ProtectedRoute>} />
+                    <Route path="/assistant" element={<ProtectedRoute><AssistantPage /></ProtectedRoute>} />
                     <Route path="*" element={<Navigate to={isAuthenticated ? "/home" : "/"} />} />
                 </Routes>
             </main>
@@ -133,7 +205,9 @@ function App() {
   return (
     <HashRouter>
       <AuthProvider>
-        <AppContent />
+        <I18nProvider>
+          <AppContent />
+        </I18nProvider>
       </AuthProvider>
     </HashRouter>
   );
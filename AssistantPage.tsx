@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useRef, FormEvent } from 'react';
+import { useAuth, useI18n } from '../App';
+import { AssistantConversation, AssistantMessage } from '../types';
+import { apiService } from '../services/apiService';
+import { addDays, todayKey } from '../services/dateUtils';
+import { isGeminiConfigured } from '../services/geminiService';
+import {
+    ASSISTANT_LOOKBACK_DAYS, AssistantContext, AssistantModelClient, askAssistant, getAssistantClient,
+} from '../services/assistant';
+
+// Conversation titles are the opening question, cut to fit the list.
+const TITLE_LENGTH = 60;
+
+const titleFor = (question: string) =>
+    question.length > TITLE_LENGTH ? `${question.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : question;
+
+const SUGGESTIONS = ['assistant.suggestion.goals', 'assistant.suggestion.heartRate', 'assistant.suggestion.sleep'] as const;
+
+const MessageBubble: React.FC<{ message: AssistantMessage }> = ({ message }) => {
+    const { t } = useI18n();
+    if (message.role === 'user') {
+        return <div className="ms-auto max-w-[85%] bg-primary text-white rounded-lg px-4 py-2 whitespace-pre-wrap">{message.content}</div>;
+    }
+    const style = message.guardrail === 'red-flag'
+        ? 'bg-red-50 border-red-300 text-red-900'
+        : message.guardrail === 'diagnosis' ? 'bg-yellow-50 border-yellow-200 text-yellow-900' : 'bg-white border-gray-200 text-gray-800';
+    return (
+        <div className={`me-auto max-w-[85%] border rounded-lg px-4 py-2 ${style}`}>
+            {message.guardrail && (
+                <p className="text-xs font-semibold uppercase mb-1">
+                    {t(message.guardrail === 'red-flag' ? 'assistant.urgent' : 'assistant.notADiagnosis')}
+                </p>
+            )}
+            <p className="whitespace-pre-wrap">{message.content}</p>
+        </div>
+    );
+};
+
+// `client` defaults to Gemini when configured and the on-device helper otherwise.
+const AssistantPage: React.FC<{ client?: AssistantModelClient }> = ({ client = getAssistantClient() }) => {
+    const { user, healthData } = useAuth();
+    const { language, t, formatDate } = useI18n();
+    const [conversations, setConversations] = useState<AssistantConversation[]>([]);
+    const [activeId, setActiveId] = useState<number | null>(null);
+    const [messages, setMessages] = useState<AssistantMessage[]>([]);
+    const [draft, setDraft] = useState('');
+    const [sending, setSending] = useState(false);
+    const [error, setError] = useState('');
+    const endRef = useRef<HTMLDivElement>(null);
+
+    const openConversation = async (id: number | null) => {
+        setActiveId(id);
+        setError('');
+        setMessages(id !== null && user ? await apiService.assistant.getMessages(user.id, id) : []);
+    };
+
+    useEffect(() => {
+        if (!user) return;
+        apiService.assistant.getConversations(user.id).then(list => {
+            setConversations(list);
+            if (list.length > 0) openConversation(list[0].id);
+        });
+    }, [user]);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [messages, sending]);
+
+    const loadContext = async (): Promise<AssistantContext> => {
+        const today = todayKey();
+        const [recentMetrics, goals] = await Promise.all([
+            apiService.metrics.getRange(user!.id, addDays(today, -(ASSISTANT_LOOKBACK_DAYS - 1)), today),
+            apiService.recommendations.get(user!.id),
+        ]);
+        return { health: healthData, recentMetrics, goals, language };
+    };
+
+    const send = async (question: string) => {
+        const text = question.trim();
+        if (!user || !text || sending) return;
+        setSending(true);
+        setError('');
+
+        let reply;
+        try {
+            const history = messages.map(({ role, content }) => ({ role, content }));
+            reply = await askAssistant(client, await loadContext(), history, text);
+        } catch (askError: any) {
+            // The question stays in the box so it can be sent again.
+            setError(t('assistant.failed', { error: askError?.message || String(askError) }));
+            setSending(false);
+            return;
+        }
+        setDraft('');
+
+        let conversationId = activeId;
+        if (conversationId === null) {
+            const { conversation, error: createError } = await apiService.assistant.createConversation(user.id, titleFor(text));
+            conversationId = conversation?.id ?? null;
+            if (createError) setError(t('assistant.saveFailed', { error: createError }));
+            if (conversation) {
+                setConversations(prev => [conversation, ...prev]);
+                setActiveId(conversation.id);
+            }
+        }
+
+        const turn = [{ role: 'user' as const, content: text }, { role: 'assistant' as const, content: reply.content, guardrail: reply.guardrail }];
+        const saved = conversationId !== null ? await apiService.assistant.addMessages(user.id, conversationId, turn) : null;
+        if (saved?.error) setError(t('assistant.saveFailed', { error: saved.error }));
+        // The reply is shown even when it couldn't be saved; it may be a safety message.
+        const now = new Date().toISOString();
+        const shown = saved && saved.messages.length > 0
+            ? saved.messages
+            : turn.map((message, i) => ({ ...message, id: -Date.now() - i, conversationId: conversationId ?? -1, createdAt: now }));
+        setMessages(prev => [...prev, ...shown]);
+        if (saved && !saved.error) {
+            setConversations(prev => {
+                const current = prev.find(c => c.id === conversationId);
+                return current ? [{ ...current, updatedAt: now }, ...prev.filter(c => c !== current)] : prev;
+            });
+        }
+        setSending(false);
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        send(draft);
+    };
+
+    const handleDelete = async (id: number) => {
+        if (!user || !window.confirm(t('assistant.deleteConfirm'))) return;
+        const { error: deleteError } = await apiService.assistant.deleteConversation(user.id, id);
+        if (deleteError) {
+            setError(t('assistant.deleteFailed', { error: deleteError }));
+            return;
+        }
+        setConversations(prev => prev.filter(c => c.id !== id));
+        if (activeId === id) openConversation(null);
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto">
+            <h1 className="text-3xl font-bold text-gray-900">{t('assistant.title')}</h1>
+            <p className="mt-2 text-gray-600">{t('assistant.intro')}</p>
+            <p className="mt-4 text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-md px-4 py-2">{t('assistant.disclaimer')}</p>
+            {!isGeminiConfigured() && <p className="mt-2 text-xs text-gray-500">{t('assistant.localMode')}</p>}
+
+            <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+                <aside className="bg-white rounded-lg shadow-md p-4 h-fit">
+                    <button
+                        onClick={() => openConversation(null)}
+                        className="w-full py-2 px-4 text-sm font-medium rounded-md text-primary border border-primary hover:bg-light-blue"
+                    >
+                        {t('assistant.newConversation')}
+                    </button>
+                    <h2 className="mt-4 text-sm font-semibold text-gray-500 uppercase">{t('assistant.conversations')}</h2>
+                    {conversations.length === 0 ? (
+                        <p className="mt-2 text-sm text-gray-500">{t('assistant.noConversations')}</p>
+                    ) : (
+                        <ul className="mt-2 space-y-1">
+                            {conversations.map(conversation => (
+                                <li key={conversation.id} className={`group flex items-start gap-2 rounded-md px-2 py-1 ${conversation.id === activeId ? 'bg-light-blue' : 'hover:bg-gray-50'}`}>
+                                    <button onClick={() => openConversation(conversation.id)} className="flex-1 text-start">
+                                        <p className="text-sm text-gray-800 line-clamp-2">{conversation.title}</p>
+                                        <p className="text-xs text-gray-500">{formatDate(conversation.updatedAt, { dateStyle: 'medium', timeStyle: 'short' })}</p>
+                                    </button>
+                                    <button onClick={() => handleDelete(conversation.id)} className="text-xs text-gray-400 hover:text-red-600">
+                                        {t('assistant.delete')}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </aside>
+
+                <section className="md:col-span-2 bg-gray-50 rounded-lg shadow-md flex flex-col min-h-[28rem]">
+                    <div className="flex-1 p-4 space-y-3 overflow-y-auto max-h-[60vh]">
+                        {messages.length === 0 && !sending && (
+                            <div className="text-sm text-gray-600">
+                                <p>{t('assistant.tryAsking')}</p>
+                                <div className="mt-2 flex flex-wrap gap-2">
+                                    {SUGGESTIONS.map(key => (
+                                        <button key={key} onClick={() => send(t(key))} className="px-3 py-1 rounded-full border border-gray-300 bg-white hover:border-primary text-gray-700">
+                                            {t(key)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {messages.map(message => <MessageBubble key={message.id} message={message} />)}
+                        {sending && <p className="text-sm text-gray-500">{t('assistant.thinking')}</p>}
+                        <div ref={endRef} />
+                    </div>
+                    {error && <p className="px-4 text-sm text-red-600">{error}</p>}
+                    <form onSubmit={handleSubmit} className="p-4 border-t border-gray-200 flex gap-2">
+                        <input
+                            type="text"
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            placeholder={t('assistant.placeholder')}
+                            aria-label={t('assistant.placeholder')}
+                            className="flex-1 px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+                        />
+                        <button type="submit" disabled={sending || !draft.trim()} className="py-2 px-4 text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 disabled:bg-opacity-50">
+                            {t('assistant.send')}
+                        </button>
+                    </form>
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default AssistantPage;
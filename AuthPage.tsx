@@ -1,8 +1,10 @@
-import React, { useState, FormEvent } from 'react';
-import { useAuth } from '../App';
+import React, { useState, useEffect, FormEvent } from 'react';
+import { useAuth, useI18n } from '../App';
 import { HealthData, User } from '../types';
 import { HeartIcon } from './icons';
-import { apiService, getOtp, verifyOtp, supabase } from '../services/supabaseService';
+import { apiService } from '../services/apiService';
+import { validateHealthProfile, GENDERS, FITNESS_LEVELS } from '../services/healthProfile';
+import { LANGUAGES, getLanguage, resolveLanguage } from '../services/i18n';
 
 type AuthView = 'login' | 'otp' | 'signup' | 'healthDetails';
 
@@ -31,10 +33,48 @@ const AuthPage: React.FC = () => {
     const [loading, setLoading] = useState(false);
     const [message, setMessage] = useState('');
     const [newUser, setNewUser] = useState<Partial<User>>({});
-    
-    const [healthDetails, setHealthDetails] = useState(initialHealthDetailsState);
+    // New accounts verify their email with the same code step before entering health details.
+    const [signingUp, setSigningUp] = useState(false);
+    const [resendAvailableAt, setResendAvailableAt] = useState(0);
+    const [now, setNow] = useState(Date.now());
     
     const auth = useAuth();
+    const { language, t, setLanguage } = useI18n();
+
+    const [healthDetails, setHealthDetails] = useState(() => ({ ...initialHealthDetailsState, preferredLanguage: getLanguage(language).name }));
+
+    // Tick once a second while the resend cooldown is running.
+    useEffect(() => {
+        if (view !== 'otp' || resendAvailableAt <= now) return;
+        const timer = window.setTimeout(() => setNow(Date.now()), 1000);
+        return () => window.clearTimeout(timer);
+    }, [view, resendAvailableAt, now]);
+
+    const resendSecondsLeft = Math.max(0, Math.ceil((resendAvailableAt - now) / 1000));
+
+    const sendOtp = async (): Promise<boolean> => {
+        const result = await apiService.otp.request(email);
+        if (result.resendAvailableAt) {
+            setResendAvailableAt(new Date(result.resendAvailableAt).getTime());
+            setNow(Date.now());
+        }
+        if (!result.sent) {
+            setError(result.error || t('auth.otpFailed'));
+            return false;
+        }
+        return true;
+    };
+
+    const handleResendOtp = async () => {
+        setLoading(true);
+        setError('');
+        setMessage('');
+        if (await sendOtp()) {
+            setOtp('');
+            setMessage(t('auth.otpResent'));
+        }
+        setLoading(false);
+    };
 
     const handleLogin = async (e: FormEvent) => {
         e.preventDefault();
@@ -42,23 +82,21 @@ const AuthPage: React.FC = () => {
         setError('');
         setMessage('');
 
-        const { data, error } = await apiService.auth.signInWithPassword({ email, password });
+        const { account, error } = await apiService.auth.signInWithPassword({ email, password });
 
-        if (error || !data.user) {
-            setError(error?.message || 'Invalid credentials.');
+        if (error || !account) {
+            setError(error || t('auth.invalidCredentials'));
             setLoading(false);
             return;
         }
 
-        try {
-            await getOtp(email);
-            setMessage('OTP sent to your email!');
+        if (await sendOtp()) {
+            setMessage(t('auth.otpSent'));
             setView('otp');
-        } catch (otpError: any) {
-            setError(otpError.message || 'Failed to send OTP. Please try again.');
-        } finally {
-            setLoading(false);
+        } else {
+            await apiService.auth.signOut();
         }
+        setLoading(false);
     };
 
     const handleOtpVerification = async (e: FormEvent) => {
@@ -66,29 +104,44 @@ const AuthPage: React.FC = () => {
         setLoading(true);
         setError('');
         
-        const isValid = await verifyOtp(email, otp);
-        if (!isValid) {
-            setError('Invalid OTP.');
-            await supabase.auth.signOut();
+        const result = await apiService.otp.verify(email, otp);
+        if (!result.valid) {
+            const attemptsNote = result.attemptsRemaining ? ` ${t('auth.attemptsRemaining', { count: result.attemptsRemaining })}` : '';
+            setError(`${result.error || t('auth.invalidOtp')}${attemptsNote}`);
+            setMessage('');
+            // A locked-out code can't be retried, so end the half-authenticated session.
+            if (result.lockedUntil) {
+                await apiService.auth.signOut();
+                setSigningUp(false);
+                setView('login');
+            }
+            setLoading(false);
+            return;
+        }
+
+        if (signingUp) {
+            setSigningUp(false);
+            setMessage('');
+            setView('healthDetails');
             setLoading(false);
             return;
         }
         
-        const { data: sessionData } = await supabase.auth.getSession();
-        if (!sessionData.session) {
-             setError('Session expired. Please log in again.');
+        const account = await apiService.auth.getSession();
+        if (!account) {
+             setError(t('auth.sessionExpired'));
              setView('login');
              setLoading(false);
              return;
         }
 
-        const { user: fullUser, health, error: profileError } = await apiService.auth.getFullUserProfile(sessionData.session.user.id);
+        const { user: fullUser, health, error: profileError } = await apiService.auth.getFullUserProfile(account.id);
 
         if (fullUser && !profileError) {
             auth.login(fullUser, health);
         } else {
-            setError(profileError || "Could not retrieve user profile.");
-            await supabase.auth.signOut();
+            setError(profileError || t('auth.profileFailed'));
+            await apiService.auth.signOut();
         }
         setLoading(false);
     };
@@ -96,31 +149,36 @@ const AuthPage: React.FC = () => {
     const handleSignUp = async (e: FormEvent) => {
         e.preventDefault();
         if (password.length < 8) {
-            setError('Password must be at least 8 characters long.');
+            setError(t('auth.passwordTooShort'));
             return;
         }
         if (password !== confirmPassword) {
-            setError('Passwords do not match.');
+            setError(t('auth.passwordMismatch'));
             return;
         }
         setLoading(true);
         setError('');
         
-        const { data, error } = await apiService.auth.signUp({ email, password });
-        if (error || !data.user) {
-            setError(error?.message || 'Could not sign up user.');
+        const { account, error } = await apiService.auth.signUp({ email, password });
+        if (error || !account) {
+            setError(error || t('auth.signUpFailed'));
             setLoading(false);
             return;
         }
 
-        setNewUser({ id: data.user.id, email: data.user.email });
-        setView('healthDetails');
+        setNewUser({ id: account.id, email: account.email });
+        if (await sendOtp()) {
+            setSigningUp(true);
+            setMessage(t('auth.otpSent'));
+            setView('otp');
+        } else {
+            await apiService.auth.signOut();
+        }
         setLoading(false);
     };
 
     const handleHealthDetailsSubmit = async (e: FormEvent) => {
         e.preventDefault();
-        setLoading(true);
         setError('');
         
         // Conversion to number happens here, ONLY on submit
@@ -136,8 +194,15 @@ const AuthPage: React.FC = () => {
             preferredLanguage: healthDetails.preferredLanguage || 'English',
         };
 
+        const validationErrors = Object.values(validateHealthProfile(finalHealthData, language));
+        if (validationErrors.length > 0) {
+            setError(validationErrors[0]!);
+            return;
+        }
+        setLoading(true);
+
         if (!newUser.id || !newUser.email) {
-            setError("Session error. Please start over.");
+            setError(t('auth.sessionError'));
             setLoading(false);
             setView('signup');
             return;
@@ -153,7 +218,7 @@ const AuthPage: React.FC = () => {
         const { user, error } = await apiService.user.saveInitialDetails(userToSave, finalHealthData);
         
         if (error || !user) {
-            setError(error || "Could not save health details.");
+            setError(error || t('auth.saveDetailsFailed'));
             setLoading(false);
             return;
         }
@@ -174,11 +239,11 @@ const AuthPage: React.FC = () => {
             <textarea id={id} name={id} value={value || ''} onChange={onChange} rows={2} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
         </div>
     );
-    const renderSelect = (id: string, label: string, value: any, options: string[], onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void) => (
+    const renderSelect = (id: string, label: string, value: any, options: { value: string; label: string }[], onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void) => (
         <div>
             <label htmlFor={id} className="block text-sm font-medium text-gray-700">{label}</label>
             <select id={id} name={id} value={value || ''} onChange={onChange} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary sm:text-sm">
-                {options.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                {options.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
             </select>
         </div>
     );
@@ -202,23 +267,23 @@ const AuthPage: React.FC = () => {
 
     if (view === 'login') {
         return (
-            <AuthWrapper title="Sign in to your account" footer={
-                <p>Not a member?{' '}
+            <AuthWrapper title={t('auth.signInTitle')} footer={
+                <p>{t('auth.notMember')}{' '}
                     <button onClick={() => setView('signup')} className="font-medium text-primary hover:text-primary/80">
-                        Sign up now
+                        {t('auth.signUpNow')}
                     </button>
                 </p>
             }>
                 <form className="mt-8 space-y-6" onSubmit={handleLogin}>
                     <div className="rounded-md shadow-sm -space-y-px flex flex-col gap-4">
-                        {renderInput('email', 'Email address', 'email', email, (e) => setEmail(e.target.value))}
-                        {renderInput('password', 'Password', 'password', password, (e) => setPassword(e.target.value))}
+                        {renderInput('email', t('common.email'), 'email', email, (e) => setEmail(e.target.value))}
+                        {renderInput('password', t('common.password'), 'password', password, (e) => setPassword(e.target.value))}
                     </div>
                     {error && <p className="text-red-500 text-sm">{error}</p>}
                     {message && <p className="text-green-500 text-sm">{message}</p>}
                     <div>
                         <button type="submit" disabled={loading} className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-opacity-50">
-                            {loading ? 'Signing In...' : 'Get OTP'}
+                            {loading ? t('auth.signingIn') : t('auth.getOtp')}
                         </button>
                     </div>
                 </form>
@@ -228,20 +293,26 @@ const AuthPage: React.FC = () => {
     
     if (view === 'otp') {
         return (
-             <AuthWrapper title="Enter Verification Code" footer={
-                <button onClick={() => setView('login')} className="font-medium text-primary hover:text-primary/80">
-                    Back to login
+             <AuthWrapper title={t('auth.otpTitle')} footer={
+                <button onClick={async () => { await apiService.auth.signOut(); setSigningUp(false); setView('login'); }} className="font-medium text-primary hover:text-primary/80">
+                    {t('auth.backToLogin')}
                 </button>
              }>
                 <form className="mt-8 space-y-6" onSubmit={handleOtpVerification}>
-                    <p className="text-center text-gray-600">An OTP has been sent to {email}.</p>
+                    <p className="text-center text-gray-600">{t('auth.otpSentTo', { email })}</p>
                     <div className="rounded-md shadow-sm">
-                        {renderInput('otp', 'OTP', 'text', otp, (e) => setOtp(e.target.value))}
+                        {renderInput('otp', t('auth.otp'), 'text', otp, (e) => setOtp(e.target.value))}
                     </div>
                     {error && <p className="text-red-500 text-sm">{error}</p>}
+                    {message && <p className="text-green-500 text-sm">{message}</p>}
                     <div>
                         <button type="submit" disabled={loading} className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-opacity-50">
-                           {loading ? 'Verifying...' : 'Verify & Login'}
+                           {loading ? t('auth.verifying') : t('auth.verify')}
+                        </button>
+                    </div>
+                    <div className="text-center text-sm">
+                        <button type="button" onClick={handleResendOtp} disabled={loading || resendSecondsLeft > 0} className="font-medium text-primary hover:text-primary/80 disabled:text-gray-400">
+                            {resendSecondsLeft > 0 ? t('auth.resendIn', { seconds: resendSecondsLeft }) : t('auth.resend')}
                         </button>
                     </div>
                 </form>
@@ -251,23 +322,23 @@ const AuthPage: React.FC = () => {
     
     if (view === 'signup') {
         return (
-             <AuthWrapper title="Create a new account" footer={
-                 <p>Already have an account?{' '}
+             <AuthWrapper title={t('auth.signUpTitle')} footer={
+                 <p>{t('auth.haveAccount')}{' '}
                     <button onClick={() => setView('login')} className="font-medium text-primary hover:text-primary/80">
-                        Sign In
+                        {t('auth.signIn')}
                     </button>
                  </p>
              }>
                 <form className="mt-8 space-y-6" onSubmit={handleSignUp}>
                     <div className="rounded-md shadow-sm flex flex-col gap-4">
-                       {renderInput('email', 'Email address', 'email', email, (e) => setEmail(e.target.value))}
-                       {renderInput('password', 'Password', 'password', password, (e) => setPassword(e.target.value))}
-                       {renderInput('confirm-password', 'Confirm Password', 'password', confirmPassword, (e) => setConfirmPassword(e.target.value))}
+                       {renderInput('email', t('common.email'), 'email', email, (e) => setEmail(e.target.value))}
+                       {renderInput('password', t('common.password'), 'password', password, (e) => setPassword(e.target.value))}
+                       {renderInput('confirm-password', t('common.confirmPassword'), 'password', confirmPassword, (e) => setConfirmPassword(e.target.value))}
                     </div>
                     {error && <p className="text-red-500 text-sm">{error}</p>}
                     <div>
                         <button type="submit" disabled={loading} className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-opacity-50">
-                           {loading ? 'Creating Account...' : 'Sign Up'}
+                           {loading ? t('auth.creatingAccount') : t('auth.signUp')}
                         </button>
                     </div>
                 </form>
@@ -279,28 +350,31 @@ const AuthPage: React.FC = () => {
         const handleHealthInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
             // All inputs are stored as strings to prevent typing issues
             setHealthDetails(prev => ({ ...prev, [e.target.name]: e.target.value }));
+            // Show the rest of sign-up in the language just picked.
+            const picked = e.target.name === 'preferredLanguage' ? resolveLanguage(e.target.value) : null;
+            if (picked) setLanguage(picked);
         };
         return (
-             <AuthWrapper title="Tell us about yourself" footer={<p>This helps us personalize your experience.</p>}>
+             <AuthWrapper title={t('auth.aboutYouTitle')} footer={<p>{t('auth.aboutYouFooter')}</p>}>
                 <form className="mt-8 space-y-4" onSubmit={handleHealthDetailsSubmit}>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                         {renderInput('firstName', 'First Name', 'text', healthDetails.firstName, handleHealthInputChange)}
-                         {renderInput('lastName', 'Last Name', 'text', healthDetails.lastName, handleHealthInputChange)}
-                         {renderInput('age', 'Age', 'number', healthDetails.age, handleHealthInputChange)}
-                         {renderInput('height', 'Height (cm)', 'number', healthDetails.height, handleHealthInputChange)}
-                         {renderInput('weight', 'Weight (kg)', 'number', healthDetails.weight, handleHealthInputChange)}
-                         {renderSelect('gender', 'Gender', healthDetails.gender, ['Male', 'Female', 'Other'], handleHealthInputChange)}
-                         {renderSelect('fitnessLevel', 'Fitness Level', healthDetails.fitnessLevel, ['Beginner', 'Intermediate', 'Advanced'], handleHealthInputChange)}
+                         {renderInput('firstName', t('common.firstName'), 'text', healthDetails.firstName, handleHealthInputChange)}
+                         {renderInput('lastName', t('common.lastName'), 'text', healthDetails.lastName, handleHealthInputChange)}
+                         {renderInput('age', t('common.age'), 'number', healthDetails.age, handleHealthInputChange)}
+                         {renderInput('height', t('common.heightCm'), 'number', healthDetails.height, handleHealthInputChange)}
+                         {renderInput('weight', t('common.weightKg'), 'number', healthDetails.weight, handleHealthInputChange)}
+                         {renderSelect('gender', t('common.gender'), healthDetails.gender, GENDERS.map(g => ({ value: g, label: t(`gender.${g}`) })), handleHealthInputChange)}
+                         {renderSelect('fitnessLevel', t('common.fitnessLevel'), healthDetails.fitnessLevel, FITNESS_LEVELS.map(f => ({ value: f, label: t(`fitness.${f}`) })), handleHealthInputChange)}
                     </div>
-                     {renderTextarea('existingConditions', 'Existing Conditions (e.g., Diabetes, Asthma)', healthDetails.existingConditions, handleHealthInputChange)}
-                     {renderTextarea('allergies', 'Allergies (e.g., Peanuts, Pollen)', healthDetails.allergies, handleHealthInputChange)}
-                     {renderTextarea('medications', 'Current Medications', healthDetails.medications, handleHealthInputChange)}
-                     {renderInput('preferredLanguage', 'Preferred Language', 'text', healthDetails.preferredLanguage, handleHealthInputChange)}
+                     {renderTextarea('existingConditions', t('auth.conditionsHint'), healthDetails.existingConditions, handleHealthInputChange)}
+                     {renderTextarea('allergies', t('auth.allergiesHint'), healthDetails.allergies, handleHealthInputChange)}
+                     {renderTextarea('medications', t('common.medications'), healthDetails.medications, handleHealthInputChange)}
+                     {renderSelect('preferredLanguage', t('common.preferredLanguage'), healthDetails.preferredLanguage, LANGUAGES.map(l => ({ value: l.name, label: l.nativeName })), handleHealthInputChange)}
 
                     {error && <p className="text-red-500 text-sm text-center">{error}</p>}
                     <div>
                         <button type="submit" disabled={loading} className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-opacity-50 mt-4">
-                            {loading ? 'Saving...' : 'Complete Profile'}
+                            {loading ? t('common.saving') : t('auth.completeProfile')}
                         </button>
                     </div>
                 </form>
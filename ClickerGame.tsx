@@ -0,0 +1,71 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useI18n } from '../App';
+import { GameComponentProps, GameDefinition } from '../services/gameRegistry';
+import { GAME_SESSION_POINTS } from '../services/pointsRules';
+
+const CLICKER_SECONDS = 10;
+
+// Saved as the session's details.
+export interface ClickerDetails {
+    seconds: number;
+}
+
+const ClickerGame: React.FC<GameComponentProps> = ({ onGameEnd }) => {
+    const { t } = useI18n();
+    const [clicks, setClicks] = useState(0);
+    const [timeLeft, setTimeLeft] = useState(CLICKER_SECONDS);
+    const [isActive, setIsActive] = useState(false);
+    const startedAt = useRef(0);
+
+    useEffect(() => {
+        let timer: number;
+        if (isActive && timeLeft > 0) {
+            timer = window.setTimeout(() => setTimeLeft(prevTime => prevTime - 1), 1000);
+        } else if (isActive && timeLeft === 0) {
+            setIsActive(false);
+            onGameEnd({ score: clicks, durationMs: Math.round(performance.now() - startedAt.current), status: 'completed', details: { seconds: CLICKER_SECONDS } satisfies ClickerDetails });
+        }
+        return () => window.clearTimeout(timer);
+    }, [timeLeft, isActive, clicks, onGameEnd]);
+
+    const startGame = () => {
+        setClicks(0);
+        setTimeLeft(CLICKER_SECONDS);
+        setIsActive(true);
+        startedAt.current = performance.now();
+    };
+
+    return (
+        <div className="p-6 bg-white rounded-lg shadow-md text-center w-full max-w-md mx-auto">
+            <h3 className="text-xl font-bold">{t('game.clicker')}</h3>
+            <p className="text-gray-600 mt-2">{t('game.clickerInstructions', { seconds: CLICKER_SECONDS })}</p>
+            <div className="my-6">
+                <p className="text-5xl font-bold text-primary">{isActive ? timeLeft : clicks}</p>
+                <p className="text-gray-500">{isActive ? t('game.secondsLeft') : t('game.totalClicks')}</p>
+            </div>
+            {isActive ? (
+                <button
+                    onClick={() => setClicks(c => c + 1)}
+                    className="w-full h-32 text-lg font-semibold rounded-md text-white bg-green-500 hover:bg-green-600 transition-colors focus:outline-none focus:ring-2 focus:ring-green-400"
+                >
+                    {t('game.clickMe')}
+                </button>
+            ) : (
+                <button onClick={startGame} className="w-full py-3 text-lg font-semibold rounded-md text-white bg-primary hover:bg-primary/90 transition-colors">
+                    {timeLeft === 0 ? t('game.playAgain') : t('game.start')}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export const clickerGame: GameDefinition = {
+    id: 'Clicker',
+    titleKey: 'game.clicker',
+    descriptionKey: 'game.clickerDescription',
+    component: ClickerGame,
+    scoring: { direction: 'higher', unitKey: 'game.score.clicks' },
+    points: () => GAME_SESSION_POINTS,
+};
+
+export default ClickerGame;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { useI18n } from '../App';
+import { COGNITIVE_TREND_POLICY, CognitiveTrend } from '../services/cognitiveTrends';
+import { difficultyLabel, formatGameScore, gameTitle } from '../services/gameStats';
+import { LineChart } from './MetricTrends';
+
+const NEXT_STEPS = ['cognitive.step.retry', 'cognitive.step.sleep', 'cognitive.step.doctor'] as const;
+
+const useTrendLabels = () => {
+    const { language, t } = useI18n();
+    return {
+        title: (trend: CognitiveTrend) => trend.difficulty
+            ? t('cognitive.gameLevel', { game: gameTitle(language, trend.gameType), level: difficultyLabel(language, trend.gameType, trend.difficulty) })
+            : gameTitle(language, trend.gameType),
+        score: (trend: CognitiveTrend, score: number) => formatGameScore(language, trend.gameType, score),
+    };
+};
+
+// Shown at the top of the dashboard when any game shows a sustained decline.
+export const CognitiveAlerts: React.FC<{ trends: CognitiveTrend[] }> = ({ trends }) => {
+    const { t } = useI18n();
+    const labels = useTrendLabels();
+    const declining = trends.filter(trend => trend.declining);
+    if (declining.length === 0) return null;
+
+    return (
+        <div className="mt-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-900">
+            <h2 className="font-semibold">{t('cognitive.alertTitle')}</h2>
+            <ul className="mt-2 space-y-1">
+                {declining.map(trend => (
+                    <li key={`${trend.gameType}:${trend.difficulty ?? ''}`}>
+                        {t('cognitive.decline', {
+                            game: labels.title(trend),
+                            days: COGNITIVE_TREND_POLICY.recentDays,
+                            recent: labels.score(trend, trend.recentMedian!),
+                            baseline: labels.score(trend, trend.baseline!.median),
+                        })}
+                    </li>
+                ))}
+            </ul>
+            <p className="mt-3 font-semibold">{t('cognitive.nextSteps')}</p>
+            <ul className="mt-1 list-disc list-inside space-y-1">
+                {NEXT_STEPS.map(key => <li key={key}>{t(key)}</li>)}
+            </ul>
+            <p className="mt-3 text-xs text-yellow-800">{t('cognitive.disclaimer')}</p>
+        </div>
+    );
+};
+
+// A trend line per game with the user's usual level next to the recent one.
+const CognitiveTrends: React.FC<{ trends: CognitiveTrend[] }> = ({ trends }) => {
+    const { t } = useI18n();
+    const labels = useTrendLabels();
+    const days = COGNITIVE_TREND_POLICY.recentDays;
+    if (trends.length === 0) return null;
+
+    return (
+        <section className="mt-10">
+            <h2 className="text-xl font-semibold text-gray-900">{t('cognitive.title')}</h2>
+            <p className="mt-1 text-sm text-gray-600">{t('cognitive.intro', { days: COGNITIVE_TREND_POLICY.chartDays })} {t('trends.legend')}</p>
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                {trends.map(trend => (
+                    <div key={`${trend.gameType}:${trend.difficulty ?? ''}`} className={`bg-white p-4 rounded-lg shadow-sm border ${trend.declining ? 'border-yellow-300' : 'border-gray-200'}`}>
+                        <div className="flex justify-between items-baseline gap-2">
+                            <h3 className="font-semibold text-gray-900">{labels.title(trend)}</h3>
+                            {trend.declining && <span className="text-xs font-medium text-yellow-800 bg-yellow-100 rounded-full px-2 py-0.5">{t('cognitive.declining')}</span>}
+                        </div>
+                        <LineChart points={trend.points} />
+                        <div className="mt-2 flex justify-between gap-2 text-xs text-gray-600">
+                            <span>{trend.baseline ? t('cognitive.baseline', { score: labels.score(trend, trend.baseline.median) }) : t('cognitive.buildingBaseline')}</span>
+                            <span>
+                                {trend.recentMedian !== null
+                                    ? t('cognitive.recent', { days, score: labels.score(trend, trend.recentMedian) })
+                                    : t('cognitive.noRecent', { days })}
+                            </span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </section>
+    );
+};
+
+export default CognitiveTrends;
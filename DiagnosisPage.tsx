@@ -1,272 +1,292 @@
 import React, { useState, useEffect, useCallback, FormEvent } from 'react';
-import { useAuth } from '../App';
+import { useAuth, useI18n } from '../App';
 import { GamepadIcon, ChartIcon, ChevronLeftIcon } from './icons';
-import { apiService } from '../services/supabaseService';
-import { DailyMetrics } from '../types';
+import { apiService } from '../services/apiService';
+import { DailyMetrics, GameType, MetricFlag } from '../types';
+import { METRIC_FIELDS, MetricKey } from '../services/metricFields';
+import { metricLabel, unitLabel } from '../services/i18n';
+import { addDays, todayKey } from '../services/dateUtils';
+import { metricsEntryPoints } from '../services/pointsRules';
+import { validateMetrics } from '../services/metricValidation';
+import { verifyMetricGoals, describeVerification } from '../services/goalVerification';
+import MetricTrends from './MetricTrends';
+import MetricsDataTransfer from './MetricsDataTransfer';
+import FhirTransfer from './FhirTransfer';
+import WearableDataImport from './WearableDataImport';
+import { GameDefinition, GameResult, getGame, listGames } from '../services/gameRegistry';
+import { GameStats, difficultyLabel, formatGameScore } from '../services/gameStats';
 
-type DiagnosisView = 'main' | 'engagement' | 'tracking';
-type GameView = 'menu' | 'clicker' | 'memory';
+type DiagnosisView = 'main' | 'engagement' | 'tracking' | 'trends' | 'data';
 
-// --- Game Components ---
-
-const ClickerGame = ({ onGameEnd }: { onGameEnd: (score: number) => void }) => {
-    const [clicks, setClicks] = useState(0);
-    const [timeLeft, setTimeLeft] = useState(10);
-    const [isActive, setIsActive] = useState(false);
-
-    useEffect(() => {
-        let timer: number;
-        if (isActive && timeLeft > 0) {
-            timer = window.setTimeout(() => setTimeLeft(prevTime => prevTime - 1), 1000);
-        } else if (isActive && timeLeft === 0) {
-            setIsActive(false);
-            onGameEnd(clicks);
-        }
-        return () => window.clearTimeout(timer);
-    }, [timeLeft, isActive, clicks, onGameEnd]);
-
-    const startGame = () => {
-        setClicks(0);
-        setTimeLeft(10);
-        setIsActive(true);
-    };
-
-    return (
-        <div className="p-6 bg-white rounded-lg shadow-md text-center w-full max-w-md mx-auto">
-            <h3 className="text-xl font-bold">Click Frenzy</h3>
-            <p className="text-gray-600 mt-2">Click the button as many times as you can in 10 seconds!</p>
-            <div className="my-6">
-                <p className="text-5xl font-bold text-primary">{isActive ? timeLeft : clicks}</p>
-                <p className="text-gray-500">{isActive ? 'Seconds Left' : 'Total Clicks'}</p>
-            </div>
-            {isActive ? (
-                <button 
-                    onClick={() => setClicks(c => c + 1)} 
-                    className="w-full h-32 text-lg font-semibold rounded-md text-white bg-green-500 hover:bg-green-600 transition-colors focus:outline-none focus:ring-2 focus:ring-green-400"
-                >
-                    Click Me!
-                </button>
-            ) : (
-                <button onClick={startGame} className="w-full py-3 text-lg font-semibold rounded-md text-white bg-primary hover:bg-primary/90 transition-colors">
-                    {timeLeft === 0 ? 'Play Again' : 'Start Game'}
-                </button>
-            )}
-        </div>
-    );
-};
-
-const EMOJIS = ['🐶', '🐱', '🐭', '🐹', '🐰', '🦊', '🐻', '🐼', '🐨', '🐯', '🦁', '🐮', '🐷', '🐸', '🐵', '🐔', '🐧', '🐦'];
-const createShuffledGrid = () => [...EMOJIS, ...EMOJIS].sort(() => Math.random() - 0.5);
-
-const MemoryGame = ({ onGameEnd }: { onGameEnd: (score: number) => void }) => {
-    const [grid, setGrid] = useState(createShuffledGrid());
-    const [flippedIndices, setFlippedIndices] = useState<number[]>([]);
-    const [matchedPairs, setMatchedPairs] = useState<string[]>([]);
-    const [tries, setTries] = useState(0);
-
-    const isFlipped = (index: number) => flippedIndices.includes(index);
-    const isMatched = (emoji: string) => matchedPairs.includes(emoji);
-
-    useEffect(() => {
-        if (flippedIndices.length === 2) {
-            const [firstIndex, secondIndex] = flippedIndices;
-            setTries(t => t + 1);
-            if (grid[firstIndex] === grid[secondIndex]) {
-                setMatchedPairs(prev => [...prev, grid[firstIndex]]);
-                setFlippedIndices([]);
-            } else {
-                setTimeout(() => setFlippedIndices([]), 1000);
-            }
-        }
-    }, [flippedIndices, grid]);
-
-    useEffect(() => {
-        if (matchedPairs.length === EMOJIS.length) {
-            onGameEnd(tries);
-        }
-    }, [matchedPairs, tries, onGameEnd]);
-
-    const handleCardClick = (index: number) => {
-        if (flippedIndices.length < 2 && !isFlipped(index) && !isMatched(grid[index])) {
-            setFlippedIndices(prev => [...prev, index]);
-        }
-    };
-
-    const resetGame = () => {
-        setGrid(createShuffledGrid());
-        setFlippedIndices([]);
-        setMatchedPairs([]);
-        setTries(0);
-    };
-
-    const isGameOver = matchedPairs.length === EMOJIS.length;
-
-    return (
-         <div className="p-6 bg-white rounded-lg shadow-md text-center w-full max-w-2xl mx-auto">
-             <h3 className="text-xl font-bold">Memory Match</h3>
-             <p className="text-gray-600 mt-2">Find all the matching pairs.</p>
-             <div className="my-4 flex justify-around items-center">
-                <p><span className="font-bold">{tries}</span> Tries</p>
-                <p><span className="font-bold">{matchedPairs.length} / {EMOJIS.length}</span> Pairs Found</p>
-             </div>
-             <div className="grid grid-cols-6 gap-2 sm:gap-4 my-6">
-                {grid.map((emoji, index) => (
-                    <div key={index} className="aspect-square" onClick={() => handleCardClick(index)}>
-                         <div className={`w-full h-full rounded-md flex items-center justify-center text-2xl sm:text-4xl transition-transform duration-500 cursor-pointer ${isFlipped(index) || isMatched(emoji) ? 'bg-primary text-white [transform:rotateY(180deg)]' : 'bg-gray-300 [transform:rotateY(0deg)]'}`}>
-                             {(isFlipped(index) || isMatched(emoji)) && <span>{emoji}</span>}
-                         </div>
-                    </div>
-                ))}
-             </div>
-             {(isGameOver || tries > 0) && (
-                <button onClick={resetGame} className="w-full py-3 text-lg font-semibold rounded-md text-white bg-primary hover:bg-primary/90 transition-colors">
-                    {isGameOver ? 'Play Again' : 'Reset Game'}
-                </button>
-             )}
-        </div>
-    );
-};
+// How far back users can backfill or correct their daily entries.
+const EDITABLE_HISTORY_DAYS = 90;
 
 // --- Main Diagnosis Page Component ---
 
 const DiagnosisPage: React.FC = () => {
     const [view, setView] = useState<DiagnosisView>('main');
-    const [gameView, setGameView] = useState<GameView>('menu');
-    const { user, updateUser } = useAuth();
+    // The game being played, or null on the games menu.
+    const [activeGame, setActiveGame] = useState<GameType | null>(null);
+    const { user, healthData, updateUser } = useAuth();
+    const { language, t } = useI18n();
     const [metrics, setMetrics] = useState<{ [key: string]: string }>({});
-    const [submittedToday, setSubmittedToday] = useState(false);
+    const [entryDate, setEntryDate] = useState(todayKey());
+    const [hasExistingEntry, setHasExistingEntry] = useState(false);
+    const [fieldErrors, setFieldErrors] = useState<Partial<Record<MetricKey, string>>>({});
+    // Unusual readings awaiting confirmation; cleared whenever an input changes.
+    const [pendingWarnings, setPendingWarnings] = useState<MetricFlag[]>([]);
+    const [savedFlags, setSavedFlags] = useState<MetricFlag[]>([]);
     const [loading, setLoading] = useState(false);
     const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+    const [gameStats, setGameStats] = useState<GameStats[]>([]);
 
-    const checkSubmissionStatus = useCallback(async () => {
+    const loadEntry = useCallback(async () => {
         if (!user) return;
-        const status = await apiService.metrics.hasSubmittedToday(user.id);
-        setSubmittedToday(status);
-    }, [user]);
+        const entry = await apiService.metrics.getByDate(user.id, entryDate);
+        setHasExistingEntry(!!entry);
+        setSavedFlags(entry?.flags ?? []);
+        setFieldErrors({});
+        setPendingWarnings([]);
+        setMetrics(Object.fromEntries(METRIC_FIELDS.map(({ key }) => [key, entry?.[key] != null ? String(entry[key]) : ''])));
+    }, [user, entryDate]);
 
     useEffect(() => {
         if (view === 'tracking') {
-            checkSubmissionStatus();
+            loadEntry();
         }
-    }, [view, checkSubmissionStatus]);
+    }, [view, loadEntry]);
     
-    const handleGameEnd = async (gameType: 'Clicker' | 'Memory', score: number) => {
+    useEffect(() => {
+        if (view === 'engagement' && activeGame === null && user) {
+            apiService.games.getStats(user.id).then(setGameStats);
+        }
+    }, [view, activeGame, user]);
+
+    const formatScore = (gameType: GameType, score: number) => formatGameScore(language, gameType, score);
+
+    const handleGameEnd = async (game: GameDefinition, result: GameResult) => {
         if (!user) return;
-        await apiService.games.saveSession({ userId: user.id, gameType, score });
-        const newPoints = user.points + 10;
-        updateUser({ points: newPoints });
-        await apiService.user.updatePoints(user.id, newPoints);
-        alert(`Game over! Your score: ${score}. You earned 10 points!`);
+        const { id, error } = await apiService.games.saveSession({ userId: user.id, gameType: game.id, scoreDirection: game.scoring.direction, ...result });
+        // Abandoned games are kept for the history but earn nothing.
+        if (result.status !== 'completed') return;
+        const displayScore = formatScore(game.id, result.score);
+        if (error || id === null) {
+            alert(t('diagnosis.gameNotSaved', { score: displayScore }));
+            return;
+        }
+        const points = game.points(result);
+        if (points <= 0) {
+            alert(t('diagnosis.gameSaved', { score: displayScore }));
+            return;
+        }
+        const { balance } = await apiService.points.award(user.id, { source: 'game', amount: points, referenceId: String(id) });
+        updateUser({ points: balance });
+        alert(t('diagnosis.gameOver', { score: displayScore, points }));
     };
     
     const handleMetricsSubmit = async (e: FormEvent) => {
         e.preventDefault();
         if (!user) return;
-        setLoading(true);
         setMessage('');
+        setError('');
 
-        const metricsToSave: Partial<DailyMetrics> = Object.entries(metrics).reduce((acc, [key, value]) => {
-            if (value.trim() !== '') {
-                const numValue = parseFloat(value);
-                if (!isNaN(numValue)) {
-                    (acc as any)[key] = numValue;
-                }
+        const entry: Omit<DailyMetrics, 'userId'> = { date: entryDate };
+        METRIC_FIELDS.forEach(({ key }) => {
+            const value = (metrics[key] || '').trim();
+            if (value !== '') {
+                entry[key] = Number(value);
             }
-            return acc;
-        }, {});
+        });
+        // A blank entry records nothing, so it isn't saved and earns no points.
+        if (METRIC_FIELDS.every(({ key }) => entry[key] === undefined)) {
+            setError(t('diagnosis.emptyEntry'));
+            return;
+        }
 
+        const { errors, warnings } = validateMetrics(entry, healthData, language);
+        setFieldErrors(errors);
+        if (Object.keys(errors).length > 0) {
+            setError(t('diagnosis.outOfRange'));
+            return;
+        }
+        // Ask once before saving unusual values; submitting again with the same values confirms them.
+        if (warnings.length > 0 && pendingWarnings.length === 0) {
+            setPendingWarnings(warnings);
+            return;
+        }
+        entry.flags = warnings;
 
-        const { error } = await apiService.metrics.save(user.id, metricsToSave);
-        if (error) {
-            setMessage(`Error: ${error}`);
+        setLoading(true);
+        const { id, error } = await apiService.metrics.upsert(user.id, entry);
+        if (error || id === null) {
+            setError(error || t('diagnosis.saveFailed'));
         } else {
-            const newPoints = user.points + 25;
-            updateUser({ points: newPoints });
-            await apiService.user.updatePoints(user.id, newPoints);
-            setMessage('Metrics saved successfully! You earned 25 points.');
-            setSubmittedToday(true);
+            // Points are keyed by date in the ledger, so edits and re-saves never earn twice.
+            const amount = metricsEntryPoints(entryDate, todayKey());
+            const { balance, awarded } = amount > 0
+                ? await apiService.points.award(user.id, { source: 'metrics', amount, referenceId: entryDate })
+                : { balance: user.points, awarded: false };
+            const verification = await verifyMetricGoals(user.id);
+            updateUser({ points: verification.balance ?? balance });
+            setMessage((awarded ? t('diagnosis.savedWithPoints', { points: amount }) : t('diagnosis.updated')) + describeVerification(verification, language));
+            setHasExistingEntry(true);
+            setSavedFlags(warnings);
+            setPendingWarnings([]);
         }
         setLoading(false);
     };
 
     const renderHeader = (title: string, backAction: () => void) => (
          <div className="flex items-center mb-6">
-            <button onClick={backAction} className="p-2 rounded-full hover:bg-gray-200 mr-4">
-                <ChevronLeftIcon className="w-6 h-6"/>
+            <button onClick={backAction} className="p-2 rounded-full hover:bg-gray-200 me-4">
+                <ChevronLeftIcon className="w-6 h-6 rtl:rotate-180"/>
             </button>
             <h1 className="text-3xl font-bold text-gray-900">{title}</h1>
         </div>
     );
 
-    const renderMetricInput = (id: keyof Omit<DailyMetrics, 'userId' | 'date'>, label: string, unit: string, type = "number") => (
+    const renderGameCard = (game: GameDefinition) => {
+        // The level played most recently.
+        const stats = gameStats.find(entry => entry.gameType === game.id);
+        return (
+            <button key={game.id} onClick={() => setActiveGame(game.id)} className="p-8 bg-white rounded-lg shadow-md hover:shadow-xl transition-shadow text-center border border-gray-200 hover:border-primary">
+                <h3 className="text-xl font-semibold text-gray-900">{t(game.titleKey)}</h3>
+                <p className="mt-1 text-gray-600">{t(game.descriptionKey)}</p>
+                {stats && (
+                    <div className="mt-4 pt-3 border-t border-gray-100 text-sm text-gray-600 space-y-1">
+                        {stats.difficulty && <p className="font-medium text-gray-800">{difficultyLabel(language, game.id, stats.difficulty)}</p>}
+                        {stats.best && <p>{t('game.stats.best', { score: formatScore(game.id, stats.best.score) })}</p>}
+                        {stats.latestPercentile !== null && <p>{t('game.stats.percentile', { percent: stats.latestPercentile })}</p>}
+                        <p className="text-xs text-gray-500">
+                            {t('game.stats.recent', {
+                                scores: stats.recent.map(session => (session.status === 'completed' ? formatScore(game.id, session.score) : t(session.status === 'timed-out' ? 'game.stats.timedOut' : 'game.stats.abandoned'))).join(', '),
+                            })}
+                        </p>
+                    </div>
+                )}
+            </button>
+        );
+    };
+
+    const renderMetricInput = (id: MetricKey, unit: string, type = "number") => (
         <div>
-            <label htmlFor={id} className="block text-sm font-medium text-gray-700">{label} ({unit})</label>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-700">{metricLabel(language, id)} ({unitLabel(language, unit)})</label>
             <input 
                 type={type} 
                 id={id} 
                 name={id}
                 value={metrics[id] || ''} 
-                onChange={(e) => setMetrics(prev => ({ ...prev, [e.target.name]: e.target.value }))}
-                className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+                onChange={(e) => {
+                    setMetrics(prev => ({ ...prev, [e.target.name]: e.target.value }));
+                    setPendingWarnings([]);
+                }}
+                className={`mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary ${fieldErrors[id] ? 'border-red-500' : 'border-gray-300'}`}
                 step="any"
             />
+            {fieldErrors[id] && <p className="mt-1 text-xs text-red-600">{fieldErrors[id]}</p>}
         </div>
     );
 
     if (view === 'engagement') {
-        if (gameView === 'clicker') {
-            return <div className="max-w-4xl mx-auto">{renderHeader('Click Frenzy', () => setGameView('menu'))}<ClickerGame onGameEnd={(score) => handleGameEnd('Clicker', score)} /></div>;
-        }
-        if (gameView === 'memory') {
-            return <div className="max-w-4xl mx-auto">{renderHeader('Memory Match', () => setGameView('menu'))}<MemoryGame onGameEnd={(score) => handleGameEnd('Memory', score)} /></div>;
+        const game = activeGame !== null ? getGame(activeGame) : undefined;
+        if (game) {
+            const GameComponent = game.component;
+            return <div className="max-w-4xl mx-auto">{renderHeader(t(game.titleKey), () => setActiveGame(null))}<GameComponent onGameEnd={(result) => handleGameEnd(game, result)} /></div>;
         }
         return (
             <div className="max-w-4xl mx-auto">
-                {renderHeader('Engagement', () => setView('main'))}
-                 <p className="text-gray-600 mb-8">Play these games to test your cognitive and physical abilities. You get points for each game played!</p>
+                {renderHeader(t('diagnosis.engagement'), () => setView('main'))}
+                 <p className="text-gray-600 mb-8">{t('diagnosis.gamesIntro')}</p>
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <button onClick={() => setGameView('clicker')} className="p-8 bg-white rounded-lg shadow-md hover:shadow-xl transition-shadow text-center border border-gray-200 hover:border-primary">
-                        <h3 className="text-xl font-semibold text-gray-900">Click Frenzy</h3>
-                        <p className="mt-1 text-gray-600">Test your speed and reflexes.</p>
-                    </button>
-                    <button onClick={() => setGameView('memory')} className="p-8 bg-white rounded-lg shadow-md hover:shadow-xl transition-shadow text-center border border-gray-200 hover:border-primary">
-                        <h3 className="text-xl font-semibold text-gray-900">Memory Match</h3>
-                        <p className="mt-1 text-gray-600">Challenge your memory skills.</p>
-                    </button>
+                    {listGames().map(renderGameCard)}
                  </div>
             </div>
         );
     }
     
+    if (view === 'data') {
+        return (
+            <div className="max-w-4xl mx-auto">
+                {renderHeader(t('diagnosis.importExport'), () => setView('tracking'))}
+                <MetricsDataTransfer />
+                <div className="mt-8"><WearableDataImport /></div>
+                <div className="mt-8"><FhirTransfer /></div>
+            </div>
+        );
+    }
+
+    if (view === 'trends') {
+        return (
+            <div className="max-w-4xl mx-auto">
+                {renderHeader(t('diagnosis.trends'), () => setView('tracking'))}
+                <MetricTrends />
+            </div>
+        );
+    }
+
     if (view === 'tracking') {
         return (
             <div className="max-w-2xl mx-auto">
-                {renderHeader('Your Tracking', () => setView('main'))}
+                {renderHeader(t('diagnosis.tracking'), () => setView('main'))}
+                <div className="flex justify-end gap-6 mb-4">
+                    <button onClick={() => setView('data')} className="text-sm font-medium text-primary hover:text-primary/80">
+                        {t('diagnosis.importExport')}
+                    </button>
+                    <button onClick={() => setView('trends')} className="flex items-center gap-2 text-sm font-medium text-primary hover:text-primary/80">
+                        <ChartIcon className="w-5 h-5" />
+                        <span>{t('diagnosis.viewTrends')}</span>
+                    </button>
+                </div>
                 <div className="bg-white p-8 rounded-lg shadow-md">
-                    {submittedToday ? (
-                        <div className="text-center">
-                            <h2 className="text-xl font-semibold text-green-700">Thanks for submitting today!</h2>
-                            <p className="text-gray-600 mt-2">Come back tomorrow to log your new metrics.</p>
+                    <form onSubmit={handleMetricsSubmit} className="space-y-6">
+                        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+                            <div>
+                                <h2 className="text-xl font-semibold text-gray-900">{t('diagnosis.logTitle')}</h2>
+                                <p className="text-sm text-gray-500 mt-1">
+                                    {hasExistingEntry ? t('diagnosis.alreadyLogged') : t('diagnosis.nothingLogged')}
+                                </p>
+                            </div>
+                            <div>
+                                <label htmlFor="entryDate" className="block text-sm font-medium text-gray-700">{t('diagnosis.date')}</label>
+                                <input
+                                    type="date"
+                                    id="entryDate"
+                                    value={entryDate}
+                                    min={addDays(todayKey(), -EDITABLE_HISTORY_DAYS)}
+                                    max={todayKey()}
+                                    onChange={(e) => { if (e.target.value) { setEntryDate(e.target.value); setMessage(''); setError(''); } }}
+                                    className="mt-1 block px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+                                />
+                            </div>
                         </div>
-                    ) : (
-                        <form onSubmit={handleMetricsSubmit} className="space-y-6">
-                            <h2 className="text-xl font-semibold text-gray-900">Log Your Daily Health Records</h2>
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                               {renderMetricInput('heartRate', 'Heart Rate', 'bpm')}
-                               {renderMetricInput('steps', 'Steps', 'count')}
-                               {renderMetricInput('sleepHours', 'Sleep', 'hours')}
-                               {renderMetricInput('breathingRate', 'Breathing Rate', 'breaths/min')}
-                               {renderMetricInput('distanceTravelled', 'Distance Travelled', 'km')}
-                               {renderMetricInput('caloriesBurnt', 'Calories Burnt', 'kcal')}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                           {METRIC_FIELDS.map(field => <React.Fragment key={field.key}>{renderMetricInput(field.key, field.unit)}</React.Fragment>)}
+                        </div>
+                        {pendingWarnings.length > 0 ? (
+                            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800">
+                                <p className="font-semibold">{t('diagnosis.doubleCheck')}</p>
+                                <ul className="list-disc list-inside mt-1">
+                                    {pendingWarnings.map(w => <li key={w.field}>{w.message}</li>)}
+                                </ul>
+                                <p className="mt-2">{t('diagnosis.saveAgainToFlag')}</p>
                             </div>
-                            {message && <p className={`text-sm text-center ${message.startsWith('Error') ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
-                            <div className="flex justify-end">
-                                <button type="submit" disabled={loading} className="py-2 px-6 border border-transparent text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-opacity-50">
-                                    {loading ? 'Submitting...' : 'Submit'}
-                                </button>
+                        ) : savedFlags.length > 0 && (
+                            <div className="bg-gray-50 border border-gray-200 rounded-md p-4 text-sm text-gray-700">
+                                <p className="font-semibold">{t('diagnosis.flagged')}</p>
+                                <ul className="list-disc list-inside mt-1">
+                                    {savedFlags.map(f => <li key={f.field}>{f.message}</li>)}
+                                </ul>
                             </div>
-                        </form>
-                    )}
+                        )}
+                        {error && <p className="text-sm text-center text-red-600">{error}</p>}
+                        {message && <p className="text-sm text-center text-green-600">{message}</p>}
+                        <div className="flex justify-end">
+                            <button type="submit" disabled={loading} className="py-2 px-6 border border-transparent text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-opacity-50">
+                                {loading ? t('common.saving') : pendingWarnings.length > 0 ? t('diagnosis.saveAnyway') : hasExistingEntry ? t('diagnosis.update') : t('diagnosis.submit')}
+                            </button>
+                        </div>
+                    </form>
                 </div>
             </div>
         );
@@ -275,18 +295,18 @@ const DiagnosisPage: React.FC = () => {
     // Default 'main' view
     return (
         <div className="max-w-4xl mx-auto">
-             <h1 className="text-3xl font-bold text-gray-900">Diagnosis</h1>
-             <p className="mt-2 text-gray-600 mb-8">Choose an activity to proceed.</p>
+             <h1 className="text-3xl font-bold text-gray-900">{t('diagnosis.title')}</h1>
+             <p className="mt-2 text-gray-600 mb-8">{t('diagnosis.intro')}</p>
              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                  <button onClick={() => setView('engagement')} className="p-8 bg-white rounded-lg shadow-md hover:shadow-xl transition-shadow text-center border border-gray-200 hover:border-primary">
                     <GamepadIcon className="w-12 h-12 mx-auto text-primary"/>
-                    <h3 className="mt-4 text-xl font-semibold text-gray-900">Engagement</h3>
-                    <p className="mt-1 text-gray-600">Play games to assess your skills.</p>
+                    <h3 className="mt-4 text-xl font-semibold text-gray-900">{t('diagnosis.engagement')}</h3>
+                    <p className="mt-1 text-gray-600">{t('diagnosis.engagementDescription')}</p>
                  </button>
                  <button onClick={() => setView('tracking')} className="p-8 bg-white rounded-lg shadow-md hover:shadow-xl transition-shadow text-center border border-gray-200 hover:border-primary">
                     <ChartIcon className="w-12 h-12 mx-auto text-primary"/>
-                    <h3 className="mt-4 text-xl font-semibold text-gray-900">Your Tracking</h3>
-                    <p className="mt-1 text-gray-600">Input your daily health records.</p>
+                    <h3 className="mt-4 text-xl font-semibold text-gray-900">{t('diagnosis.tracking')}</h3>
+                    <p className="mt-1 text-gray-600">{t('diagnosis.trackingDescription')}</p>
                  </button>
              </div>
         </div>
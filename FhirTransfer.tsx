@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { useAuth, useI18n } from '../App';
+import { DailyMetrics } from '../types';
+import { apiService } from '../services/apiService';
+import { todayKey } from '../services/dateUtils';
+import { downloadFile } from '../services/fileDownload';
+import { buildFhirBundle, parseFhirBundle, FhirImportResult } from '../services/fhir';
+import { validateHealthProfile } from '../services/healthProfile';
+import { buildEntryImportPreview } from '../services/metricsTransfer';
+import { verifyMetricGoals, describeVerification } from '../services/goalVerification';
+
+type DuplicatePolicy = 'skip' | 'overwrite';
+
+// Earliest date included in an export or checked for days already logged.
+const HISTORY_START = '1900-01-01';
+
+const FhirTransfer: React.FC = () => {
+    const { user, healthData, updateUser, updateHealthData } = useAuth();
+    const { language, t } = useI18n();
+    const [exporting, setExporting] = useState(false);
+    const [pending, setPending] = useState<FhirImportResult | null>(null);
+    const [existing, setExisting] = useState<Map<string, DailyMetrics>>(new Map());
+    const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>('skip');
+    const [importing, setImporting] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+
+    const handleExport = async () => {
+        if (!user) return;
+        setExporting(true);
+        const metrics = await apiService.metrics.getRange(user.id, HISTORY_START, todayKey());
+        const bundle = buildFhirBundle(user, healthData, metrics);
+        downloadFile(`health-record-fhir-${todayKey()}.json`, JSON.stringify(bundle, null, 2), 'application/fhir+json');
+        setExporting(false);
+    };
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !user) return;
+        setError('');
+        setMessage('');
+        try {
+            const result = parseFhirBundle(JSON.parse(await file.text()));
+            const logged = await apiService.metrics.getRange(user.id, HISTORY_START, todayKey());
+            setExisting(new Map(logged.map(entry => [entry.date, entry])));
+            setPending(result);
+        } catch (parseError: any) {
+            setError(t('transfer.readFailed', { error: parseError.message || parseError }));
+        }
+    };
+
+    // The profile goes through the same checks as the profile form; an invalid one is left out.
+    const healthErrors = useMemo(
+        () => pending?.health ? Object.values(validateHealthProfile(pending.health, language)) : [],
+        [pending, language],
+    );
+    const importedHealth = pending?.health && healthErrors.length === 0 ? pending.health : null;
+
+    // Metrics get the same limits, flags and duplicate handling as a CSV or JSON import.
+    const preview = useMemo(() => {
+        if (!pending) return [];
+        return buildEntryImportPreview(pending.metrics, { existing, today: todayKey(), profile: importedHealth ?? healthData, language });
+    }, [pending, existing, importedHealth, healthData, language]);
+
+    const rowsToImport = preview.filter(row => row.entry && (row.duplicateOf !== 'existing' || duplicatePolicy === 'overwrite'));
+    const errorCount = preview.filter(row => row.errors.length > 0).length;
+    const duplicateCount = preview.filter(row => row.duplicateOf !== null).length;
+    const rowsToReview = preview.filter(row => row.errors.length > 0 || row.warnings.length > 0 || row.duplicateOf);
+
+    const handleImport = async () => {
+        if (!user || !pending) return;
+        setImporting(true);
+        setError('');
+
+        const { firstName, lastName } = pending.name;
+        if (firstName || lastName) {
+            const { updatedUser, error } = await apiService.user.updateDetails(user.id, { firstName, lastName });
+            if (error) setError(error);
+            if (updatedUser) updateUser(updatedUser);
+        }
+        if (importedHealth) {
+            const { health, error } = await apiService.user.updateHealthProfile(user.id, importedHealth);
+            if (error) setError(error);
+            if (health) updateHealthData(health);
+        }
+        const { count, error } = await apiService.metrics.upsertMany(user.id, rowsToImport.map(row => row.entry!));
+        if (error) {
+            setError(t('transfer.importFailed', { error }));
+        } else {
+            const verification = await verifyMetricGoals(user.id);
+            if (verification.balance !== null) updateUser({ points: verification.balance });
+            setMessage(`${t(importedHealth ? 'fhir.importedWithProfile' : 'fhir.imported', { count })} ${t('transfer.skippedRows', { count: preview.length - count })}${describeVerification(verification, language)}`);
+            setPending(null);
+        }
+        setImporting(false);
+    };
+
+    return (
+        <div className="bg-white p-8 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold text-gray-900">{t('fhir.title')}</h2>
+            <p className="text-gray-600 mt-1 text-sm">
+                {t('fhir.intro')}
+            </p>
+            <div className="flex flex-wrap items-center gap-4 mt-4">
+                <button onClick={handleExport} disabled={exporting} className="py-2 px-4 text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 disabled:bg-opacity-50">
+                    {exporting ? t('fhir.preparing') : t('fhir.download')}
+                </button>
+                <label className="py-2 px-4 text-sm font-medium rounded-md text-primary border border-primary hover:bg-light-blue cursor-pointer">
+                    {t('fhir.upload')}
+                    <input type="file" accept=".json,application/json,application/fhir+json" onChange={handleFileSelected} className="hidden" />
+                </label>
+            </div>
+
+            {pending && (
+                <div className="mt-6 border border-gray-200 rounded-md p-4 text-sm space-y-2">
+                    <p className="font-semibold text-gray-900">{t('fhir.ready')}</p>
+                    <ul className="list-disc list-inside text-gray-700">
+                        {(pending.name.firstName || pending.name.lastName) && <li>{t('fhir.name', { name: `${pending.name.firstName} ${pending.name.lastName}`.trim() })}</li>}
+                        <li>{importedHealth ? t('fhir.health') : pending.health ? t('fhir.invalidHealth', { errors: healthErrors.join(' ') }) : t('fhir.noHealth')}</li>
+                        <li>{t('fhir.metrics', { count: pending.metrics.length })}</li>
+                    </ul>
+                    <p className="text-gray-600">
+                        {t('transfer.previewSummary', { ready: rowsToImport.length, errors: errorCount, duplicates: duplicateCount })}
+                    </p>
+                    {duplicateCount > 0 && (
+                        <div>
+                            <label className="block font-medium text-gray-700">{t('transfer.duplicatePolicy')}</label>
+                            <select value={duplicatePolicy} onChange={(e) => setDuplicatePolicy(e.target.value as DuplicatePolicy)} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary text-sm">
+                                <option value="skip">{t('transfer.keepExisting')}</option>
+                                <option value="overwrite">{t('transfer.overwrite')}</option>
+                            </select>
+                        </div>
+                    )}
+                    {rowsToReview.length > 0 && (
+                        <ul className="max-h-64 overflow-auto border border-gray-200 rounded-md p-2 space-y-1">
+                            {rowsToReview.map(row => (
+                                <li key={row.rowNumber}>
+                                    <span className="font-medium text-gray-900">{pending.metrics[row.rowNumber - 1].date}</span>
+                                    {row.errors.map(message => <p key={message} className="text-red-700">{message}</p>)}
+                                    {row.duplicateOf === 'existing' && <p className="text-yellow-800">{t(duplicatePolicy === 'skip' ? 'transfer.alreadyLoggedKept' : 'transfer.alreadyLoggedReplaced')}</p>}
+                                    {row.warnings.map(flag => <p key={flag.field} className="text-gray-600">{flag.message}</p>)}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {pending.skipped.length > 0 && (
+                        <details className="text-gray-600">
+                            <summary className="cursor-pointer">{t('fhir.skipped', { count: pending.skipped.length })}</summary>
+                            <ul className="list-disc list-inside mt-1">
+                                {pending.skipped.map((reason, i) => <li key={i}>{reason}</li>)}
+                            </ul>
+                        </details>
+                    )}
+                    <div className="flex justify-end gap-4 pt-2">
+                        <button onClick={() => setPending(null)} className="py-2 px-4 text-sm font-medium rounded-md text-gray-700 border border-gray-300 hover:bg-gray-100">{t('transfer.cancel')}</button>
+                        <button onClick={handleImport} disabled={importing || (rowsToImport.length === 0 && !importedHealth && !pending.name.firstName && !pending.name.lastName)} className="py-2 px-4 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:bg-opacity-50">
+                            {importing ? t('transfer.importing') : t('transfer.import')}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+            {message && <p className="mt-4 text-sm text-green-600">{message}</p>}
+        </div>
+    );
+};
+
+export default FhirTransfer;
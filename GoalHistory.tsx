@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth, useI18n } from '../App';
+import { GoalBatch, Recommendation } from '../types';
+import { apiService } from '../services/apiService';
+import { summarizeGoalHistory, CompletionStat, BatchSummary } from '../services/goalHistoryStats';
+import { LanguageCode, formatNumber } from '../services/i18n';
+
+const formatRate = (language: LanguageCode, stat: CompletionStat) =>
+    stat.total > 0 ? formatNumber(language, stat.rate, { style: 'percent' }) : '—';
+
+const RateBar: React.FC<{ stat: CompletionStat; label: string }> = ({ stat, label }) => {
+    const { language } = useI18n();
+    return (
+        <div className="flex items-center gap-3 text-sm">
+            <span className="w-28 text-gray-700">{label}</span>
+            <div className="flex-1 bg-gray-200 rounded-full h-2">
+                <div className="bg-primary h-2 rounded-full" style={{ width: `${Math.round(stat.rate * 100)}%` }} />
+            </div>
+            <span className="w-24 text-end text-gray-600">{formatNumber(language, stat.completed)}/{formatNumber(language, stat.total)} ({formatRate(language, stat)})</span>
+        </div>
+    );
+};
+
+const BatchRow: React.FC<{ summary: BatchSummary }> = ({ summary }) => {
+    const { language, t, formatDate } = useI18n();
+    const { batch, goals } = summary;
+    return (
+        <details className="bg-white p-4 rounded-lg shadow-sm">
+            <summary className="cursor-pointer flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium text-gray-900">
+                    {batch ? formatDate(batch.createdAt, { dateStyle: 'medium', timeStyle: 'short' }) : t('history.earlier')}
+                    {batch && batch.archivedAt === null && <span className="ms-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-light-blue text-primary">{t('history.current')}</span>}
+                    {batch?.source && <span className="ms-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{t(`goalSource.${batch.source}`)}</span>}
+                </span>
+                <span className="text-sm text-gray-600">{t('history.batchSummary', { completed: summary.completed, total: summary.total, rate: formatRate(language, summary) })}</span>
+            </summary>
+            <ul className="mt-3 divide-y divide-gray-100 text-sm">
+                {goals.map(goal => (
+                    <li key={goal.id} className="py-1.5 flex justify-between gap-4">
+                        <span className={goal.isCompleted ? 'text-gray-500 line-through' : 'text-gray-800'}>{goal.goal}</span>
+                        <span className="text-gray-500 whitespace-nowrap">{t(`category.${goal.category}`)} · {t(`difficulty.${goal.difficulty}`)}</span>
+                    </li>
+                ))}
+            </ul>
+        </details>
+    );
+};
+
+const GoalHistory: React.FC = () => {
+    const { user } = useAuth();
+    const { language, t } = useI18n();
+    const [batches, setBatches] = useState<GoalBatch[]>([]);
+    const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        if (!user) return;
+        setLoading(true);
+        apiService.recommendations.getHistory(user.id).then(history => {
+            setBatches(history.batches);
+            setRecommendations(history.recommendations);
+            setLoading(false);
+        });
+    }, [user]);
+
+    const summary = useMemo(() => summarizeGoalHistory(batches, recommendations), [batches, recommendations]);
+
+    if (loading) {
+        return <p className="mt-8 text-center text-gray-500">{t('history.loading')}</p>;
+    }
+    if (summary.overall.total === 0) {
+        return (
+            <div className="mt-8 text-center bg-white p-8 rounded-lg shadow">
+                <p className="text-gray-600">{t('history.empty')}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mt-8 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="bg-white p-4 rounded-lg shadow-sm space-y-2">
+                    <h3 className="font-semibold text-gray-900">{t('history.byCategory')}</h3>
+                    {summary.byCategory.map(stat => <RateBar key={stat.label} stat={stat} label={t(`category.${stat.label as Recommendation['category']}`)} />)}
+                </div>
+                <div className="bg-white p-4 rounded-lg shadow-sm space-y-2">
+                    <h3 className="font-semibold text-gray-900">{t('history.byDifficulty')}</h3>
+                    {summary.byDifficulty.map(stat => <RateBar key={stat.label} stat={stat} label={t(`difficulty.${stat.label as Recommendation['difficulty']}`)} />)}
+                </div>
+            </div>
+            <div className="space-y-2">
+                <h3 className="font-semibold text-gray-900">{t('history.batches')} <span className="text-sm font-normal text-gray-600">· {t('history.overall', { rate: formatRate(language, summary.overall) })}</span></h3>
+                {summary.batches.map(batchSummary => <BatchRow key={batchSummary.batch?.id ?? 'earlier'} summary={batchSummary} />)}
+            </div>
+        </div>
+    );
+};
+
+export default GoalHistory;
@@ -0,0 +1,126 @@
+import React from 'react';
+import { useI18n } from '../App';
+import { GoalCheckIn, Recommendation } from '../types';
+import { addDays } from '../services/dateUtils';
+import { habitStatus, recurrenceLabel, buildHeatmap, HabitStatus } from '../services/habits';
+import { GOAL_DIFFICULTY_POINTS } from '../services/pointsRules';
+import { LanguageCode, formatDate, translate } from '../services/i18n';
+import { StarIcon } from './icons';
+
+// Days shown in each habit's check-in strip; earlier days can't be checked in.
+const CHECK_IN_WINDOW_DAYS = 7;
+
+const heatmapColor = (count: number) =>
+    count === 0 ? 'bg-gray-100' : count === 1 ? 'bg-primary/30' : count === 2 ? 'bg-primary/60' : 'bg-primary';
+
+const statusText = (language: LanguageCode, rec: Recommendation, status: HabitStatus, today: string) => {
+    if (rec.startDate && today < rec.startDate) return translate(language, 'habits.startsOn', { date: formatDate(language, rec.startDate) });
+    if (!status.active) return translate(language, 'habits.ended', { date: rec.dueDate ? formatDate(language, rec.dueDate) : '' });
+    if (rec.recurrence?.type === 'weekly') {
+        const params = { count: status.periodCount, target: status.periodTarget };
+        return translate(language, status.periodCount >= status.periodTarget ? 'habits.weekDone' : 'habits.weekProgress', params);
+    }
+    return translate(language, status.doneToday ? 'habits.doneToday' : 'habits.dueToday');
+};
+
+interface HabitCardProps {
+    rec: Recommendation;
+    checkIns: GoalCheckIn[];
+    today: string;
+    busy: boolean;
+    onCheckIn: (rec: Recommendation, date: string, done: boolean) => void;
+}
+
+const HabitCard: React.FC<HabitCardProps> = ({ rec, checkIns, today, busy, onCheckIn }) => {
+    const { language, t, formatDate, formatNumber } = useI18n();
+    const status = habitStatus(rec, checkIns, today);
+    const checkedDates = new Set(checkIns.filter(c => c.recommendationId === rec.id).map(c => c.date));
+    const days = Array.from({ length: CHECK_IN_WINDOW_DAYS }, (_, i) => addDays(today, i - CHECK_IN_WINDOW_DAYS + 1));
+    const canCheckIn = (date: string) => (!rec.startDate || date >= rec.startDate) && (!rec.dueDate || date <= rec.dueDate);
+
+    return (
+        <div className={`p-4 bg-white rounded-lg shadow-sm ${status.fulfilled ? 'opacity-70' : ''}`}>
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <p className="font-medium text-gray-900">{rec.goal}</p>
+                    {rec.rationale && <p className="text-sm text-gray-600 mt-0.5">{rec.rationale}</p>}
+                    <div className="mt-1 flex flex-wrap gap-2">
+                        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-light-blue text-primary">{recurrenceLabel(rec.recurrence!, language)}</span>
+                        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{t(`difficulty.${rec.difficulty}`)}</span>
+                        {rec.verifiedAt && <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-green-100 text-green-800">{t('progress.verified')}</span>}
+                    </div>
+                </div>
+                <div className="flex items-center gap-1 text-yellow-600 font-semibold whitespace-nowrap" title={t('habits.pointsPerCheckIn')}>
+                    <StarIcon className="w-4 h-4" />
+                    <span>{formatNumber(GOAL_DIFFICULTY_POINTS[rec.difficulty])}</span>
+                </div>
+            </div>
+            <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
+                <div className="flex gap-1">
+                    {days.map(date => (
+                        <button
+                            key={date}
+                            onClick={() => onCheckIn(rec, date, !checkedDates.has(date))}
+                            disabled={busy || !canCheckIn(date)}
+                            title={formatDate(date)}
+                            className={`w-8 h-8 rounded-full text-xs font-semibold border ${checkedDates.has(date) ? 'bg-primary text-white border-primary' : 'bg-white text-gray-600 border-gray-300 hover:bg-light-blue'} ${date === today ? 'ring-2 ring-offset-1 ring-primary/40' : ''} disabled:opacity-40 disabled:hover:bg-white`}
+                        >
+                            {formatDate(date, { weekday: 'narrow' })}
+                        </button>
+                    ))}
+                </div>
+                <div className="text-sm text-end">
+                    <p className="font-medium text-gray-800">{statusText(language, rec, status, today)}</p>
+                    <p className="text-gray-500">
+                        {t(status.streakUnit === 'day' ? 'habits.streakDays' : 'habits.streakWeeks', { count: status.currentStreak })} · {t('habits.best', { count: status.longestStreak })}
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export const HabitHeatmap: React.FC<{ checkIns: GoalCheckIn[]; today: string }> = ({ checkIns, today }) => {
+    const { t, formatDate } = useI18n();
+    const weeks = buildHeatmap(checkIns, today);
+    return (
+        <div className="p-4 bg-white rounded-lg shadow-sm">
+            <h3 className="font-semibold text-gray-900">{t('habits.calendar')}</h3>
+            <p className="text-sm text-gray-600">{t('habits.calendarIntro', { count: weeks.length })}</p>
+            <div className="mt-3 flex gap-1 overflow-x-auto">
+                {weeks.map(week => (
+                    <div key={week[0].date} className="flex flex-col gap-1">
+                        {week.map(day => (
+                            <div
+                                key={day.date}
+                                title={t('habits.dayCheckIns', { date: formatDate(day.date), count: day.count })}
+                                className={`w-4 h-4 rounded-sm ${day.inRange ? heatmapColor(day.count) : 'bg-transparent'}`}
+                            />
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+interface HabitTrackerProps {
+    habits: Recommendation[];
+    checkIns: GoalCheckIn[];
+    today: string;
+    busy: boolean;
+    onCheckIn: (rec: Recommendation, date: string, done: boolean) => void;
+}
+
+const HabitTracker: React.FC<HabitTrackerProps> = ({ habits, checkIns, today, busy, onCheckIn }) => {
+    const { t } = useI18n();
+    return (
+        <div className="space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">{t('habits.title')}</h2>
+            {habits.map(rec => <HabitCard key={rec.id} rec={rec} checkIns={checkIns} today={today} busy={busy} onCheckIn={onCheckIn} />)}
+            <HabitHeatmap checkIns={checkIns} today={today} />
+        </div>
+    );
+};
+
+export default HabitTracker;
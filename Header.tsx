@@ -1,12 +1,54 @@
-
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { useAuth } from '../App';
+import { useAuth, useI18n } from '../App';
+import { PointsTransaction } from '../types';
+import { apiService } from '../services/apiService';
 import { HeartIcon, StarIcon, SignOutIcon } from './icons';
 
+const PointsHistory: React.FC<{ userId: string; onClose: () => void }> = ({ userId, onClose }) => {
+    const { t, formatDate, formatNumber } = useI18n();
+    const [history, setHistory] = useState<PointsTransaction[] | null>(null);
+
+    useEffect(() => {
+        apiService.points.getHistory(userId).then(setHistory);
+    }, [userId]);
+
+    return (
+        <div className="absolute end-0 top-12 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-20">
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-100">
+                <h3 className="font-semibold text-gray-900">{t('header.pointsHistory')}</h3>
+                <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-sm">{t('common.close')}</button>
+            </div>
+            <div className="max-h-80 overflow-y-auto">
+                {history === null ? (
+                    <p className="p-4 text-sm text-gray-500">{t('common.loading')}</p>
+                ) : history.length === 0 ? (
+                    <p className="p-4 text-sm text-gray-500">{t('header.noPoints')}</p>
+                ) : (
+                    <ul className="divide-y divide-gray-100">
+                        {history.map(entry => (
+                            <li key={entry.id} className="px-4 py-2 flex justify-between items-center text-sm">
+                                <div>
+                                    <p className="text-gray-800">{t(`points.${entry.source}`)}</p>
+                                    <p className="text-xs text-gray-500">{formatDate(entry.createdAt, { dateStyle: 'medium', timeStyle: 'short' })}</p>
+                                </div>
+                                <span className={`font-semibold ${entry.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                    {formatNumber(entry.amount, { signDisplay: 'always' })}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
 export const Header: React.FC = () => {
     const { user, logout } = useAuth();
+    const { t } = useI18n();
     const navigate = useNavigate();
+    const [showHistory, setShowHistory] = useState(false);
 
     const handleSignOut = () => {
         logout();
@@ -17,21 +59,27 @@ export const Header: React.FC = () => {
         <header className="bg-white shadow-sm sticky top-0 z-10">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
                 <div className="flex justify-between items-center h-16">
-                    <Link to="/home" className="flex items-center space-x-2 text-primary">
+                    <Link to="/home" className="flex items-center gap-2 text-primary">
                         <HeartIcon className="h-8 w-8" />
-                        <span className="font-bold text-xl text-slate-800">Health Monitor</span>
+                        <span className="font-bold text-xl text-slate-800">{t('header.brand')}</span>
                     </Link>
-                    <div className="flex items-center space-x-4">
-                        <div className="flex items-center space-x-2 bg-yellow-100 text-yellow-800 font-semibold px-3 py-1.5 rounded-full">
-                            <StarIcon className="w-5 h-5" />
-                            <span>{user?.points ?? 0} Points</span>
+                    <div className="flex items-center gap-4">
+                        <div className="relative">
+                            <button
+                                onClick={() => setShowHistory(open => !open)}
+                                className="flex items-center gap-2 bg-yellow-100 text-yellow-800 font-semibold px-3 py-1.5 rounded-full hover:bg-yellow-200 transition-colors"
+                            >
+                                <StarIcon className="w-5 h-5" />
+                                <span>{t('common.points', { count: user?.points ?? 0 })}</span>
+                            </button>
+                            {showHistory && user && <PointsHistory userId={user.id} onClose={() => setShowHistory(false)} />}
                         </div>
                         <button 
                             onClick={handleSignOut}
-                            className="flex items-center space-x-2 text-gray-500 hover:text-gray-900 transition-colors"
+                            className="flex items-center gap-2 text-gray-500 hover:text-gray-900 transition-colors"
                         >
                             <SignOutIcon className="w-5 h-5"/>
-                            <span className="hidden sm:inline">Sign Out</span>
+                            <span className="hidden sm:inline">{t('common.signOut')}</span>
                         </button>
                     </div>
                 </div>
@@ -39,3 +87,4 @@ export const Header: React.FC = () => {
         </header>
     );
 };
+
@@ -1,8 +1,12 @@
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../App';
-import { SettingsIcon, DiagnosisIcon, ProgressIcon, SignOutIcon } from './icons';
+import { useAuth, useI18n } from '../App';
+import { SettingsIcon, DiagnosisIcon, ProgressIcon, SignOutIcon, ChatIcon } from './icons';
+import { apiService } from '../services/apiService';
+import { CognitiveTrend, analyzeCognitiveTrends } from '../services/cognitiveTrends';
+import { todayKey } from '../services/dateUtils';
+import CognitiveTrends, { CognitiveAlerts } from './CognitiveTrends';
 
 interface NavButtonProps {
     icon: React.ReactNode;
@@ -14,7 +18,7 @@ interface NavButtonProps {
 const NavButton: React.FC<NavButtonProps> = ({ icon, title, description, onClick }) => (
     <button
         onClick={onClick}
-        className="bg-white p-6 rounded-lg shadow-md hover:shadow-xl transition-shadow text-left w-full flex items-start space-x-4 border border-gray-200 hover:border-primary"
+        className="bg-white p-6 rounded-lg shadow-md hover:shadow-xl transition-shadow text-start w-full flex items-start gap-4 border border-gray-200 hover:border-primary"
     >
         <div className="text-primary bg-light-blue p-3 rounded-full">
             {icon}
@@ -29,36 +33,50 @@ const NavButton: React.FC<NavButtonProps> = ({ icon, title, description, onClick
 
 const HomePage: React.FC = () => {
     const { user } = useAuth();
+    const { t } = useI18n();
     const navigate = useNavigate();
+    const [trends, setTrends] = useState<CognitiveTrend[]>([]);
+
+    useEffect(() => {
+        if (!user) return;
+        apiService.games.getSessions(user.id).then(sessions => setTrends(analyzeCognitiveTrends(sessions, todayKey())));
+    }, [user]);
 
     return (
         <div className="max-w-4xl mx-auto">
-            <h1 className="text-3xl font-bold text-gray-900">Welcome back, {user?.firstName}!</h1>
-            <p className="mt-2 text-gray-600">Here's your personal health dashboard. What would you like to do today?</p>
-        
+            <h1 className="text-3xl font-bold text-gray-900">{t('home.welcome', { name: user?.firstName ?? '' })}</h1>
+            <p className="mt-2 text-gray-600">{t('home.intro')}</p>
+            <CognitiveAlerts trends={trends} />
+
             <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-6">
                 <NavButton 
                     icon={<DiagnosisIcon className="w-6 h-6"/>}
-                    title="Diagnosis"
-                    description="Engage in activities and track your daily health metrics."
+                    title={t('home.diagnosis')}
+                    description={t('home.diagnosisDescription')}
                     onClick={() => navigate('/diagnosis')}
                 />
                  <NavButton 
                     icon={<ProgressIcon className="w-6 h-6"/>}
-                    title="Progress"
-                    description="View and manage your AI-generated health goals."
+                    title={t('home.progress')}
+                    description={t('home.progressDescription')}
                     onClick={() => navigate('/progress')}
+                />
+                <NavButton
+                    icon={<ChatIcon className="w-6 h-6"/>}
+                    title={t('home.assistant')}
+                    description={t('home.assistantDescription')}
+                    onClick={() => navigate('/assistant')}
                 />
                  <NavButton 
                     icon={<SettingsIcon className="w-6 h-6"/>}
-                    title="Settings"
-                    description="Manage your account details and preferences."
+                    title={t('home.settings')}
+                    description={t('home.settingsDescription')}
                     onClick={() => navigate('/settings')}
                 />
                   <NavButton 
                     icon={<SignOutIcon className="w-6 h-6"/>}
-                    title="Sign Out"
-                    description="End your session and sign out from the application."
+                    title={t('common.signOut')}
+                    description={t('home.signOutDescription')}
                     onClick={() => {
                         // This would be in the header, but for demo purposes, it's also a big button.
                         // Ideally, we'd call auth.logout() here.
@@ -67,6 +85,7 @@ const HomePage: React.FC = () => {
                     }}
                 />
             </div>
+            <CognitiveTrends trends={trends} />
         </div>
     );
 };
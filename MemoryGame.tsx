@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth, useI18n } from '../App';
+import { apiService } from '../services/apiService';
+import { GameComponentProps, GameDefinition, GameResult } from '../services/gameRegistry';
+import { GAME_SESSION_POINTS } from '../services/pointsRules';
+import {
+    MEMORY_LEVELS, MemoryDetails, MemoryLevel, MemoryLevelId, chooseAdaptiveLevel, dealBoard, getMemoryLevel, memoryDifficulty,
+    memoryDifficultyLabel, randomSeed,
+} from '../services/memoryGame';
+
+type Phase = 'setup' | 'preview' | 'playing' | 'over';
+
+type LevelChoice = MemoryLevelId | 'adaptive';
+
+interface Board {
+    level: MemoryLevel;
+    timed: boolean;
+    adaptive: boolean;
+    seed: number;
+    cards: string[];
+}
+
+// How long a mismatched pair stays face up.
+const MISMATCH_MS = 1000;
+
+const MemoryGame: React.FC<GameComponentProps> = ({ onGameEnd }) => {
+    const { user } = useAuth();
+    const { language, t } = useI18n();
+    const [choice, setChoice] = useState<LevelChoice>('adaptive');
+    const [timed, setTimed] = useState(false);
+    const [adaptiveLevel, setAdaptiveLevel] = useState<MemoryLevelId>('easy');
+    const [phase, setPhase] = useState<Phase>('setup');
+    const [board, setBoard] = useState<Board | null>(null);
+    const [flippedIndices, setFlippedIndices] = useState<number[]>([]);
+    const [matchedPairs, setMatchedPairs] = useState<string[]>([]);
+    const [tries, setTries] = useState(0);
+    const [timeLeftMs, setTimeLeftMs] = useState(0);
+    const [outcome, setOutcome] = useState<GameResult['status'] | null>(null);
+    // Timed from the end of the preview.
+    const startedAt = useRef(0);
+    const previewTimer = useRef<number | undefined>(undefined);
+
+    // Recomputed each time the setup screen shows, so it reflects the game just played.
+    useEffect(() => {
+        if (phase !== 'setup' || !user) return;
+        apiService.games.getSessions(user.id, 'Memory').then(sessions => setAdaptiveLevel(chooseAdaptiveLevel(sessions)));
+    }, [phase, user]);
+
+    useEffect(() => () => window.clearTimeout(previewTimer.current), []);
+
+    useEffect(() => {
+        if (phase !== 'playing' || !board?.timed) return;
+        const deadline = startedAt.current + board.level.timeLimitMs;
+        const interval = window.setInterval(() => setTimeLeftMs(Math.max(deadline - performance.now(), 0)), 250);
+        return () => window.clearInterval(interval);
+    }, [phase, board]);
+
+    const selectedLevel = getMemoryLevel(choice === 'adaptive' ? adaptiveLevel : choice);
+    const isFlipped = (index: number) => flippedIndices.includes(index);
+    const isMatched = (emoji: string) => matchedPairs.includes(emoji);
+
+    const finish = (status: GameResult['status'], score: number, matched: number) => {
+        setPhase('over');
+        setOutcome(status);
+        onGameEnd({
+            score,
+            durationMs: Math.round(performance.now() - startedAt.current),
+            difficulty: memoryDifficulty(board!.level.id, board!.timed),
+            status,
+            details: {
+                pairs: board!.level.pairs,
+                matchedPairs: matched,
+                seed: board!.seed,
+                previewMs: board!.level.previewMs,
+                timeLimitMs: board!.timed ? board!.level.timeLimitMs : undefined,
+                adaptive: board!.adaptive,
+            } satisfies MemoryDetails,
+        });
+    };
+
+    // Read on the render after the clock runs out, so the current tries and pairs are reported.
+    useEffect(() => {
+        if (phase === 'playing' && board?.timed && timeLeftMs <= 0) {
+            finish('timed-out', tries, matchedPairs.length);
+        }
+    }, [timeLeftMs]);
+
+    const start = () => {
+        const next: Board = { level: selectedLevel, timed, adaptive: choice === 'adaptive', seed: randomSeed(), cards: [] };
+        next.cards = dealBoard(next.level, next.seed);
+        setBoard(next);
+        setFlippedIndices([]);
+        setMatchedPairs([]);
+        setTries(0);
+        setOutcome(null);
+        setPhase('preview');
+        previewTimer.current = window.setTimeout(() => {
+            startedAt.current = performance.now();
+            setTimeLeftMs(next.level.timeLimitMs);
+            setPhase('playing');
+        }, next.level.previewMs);
+    };
+
+    // Pairs are checked here rather than in an effect so the end of the game is reported exactly once.
+    const handleCardClick = (index: number) => {
+        if (phase !== 'playing' || !board) return;
+        if (flippedIndices.length >= 2 || isFlipped(index) || isMatched(board.cards[index])) return;
+        const flipped = [...flippedIndices, index];
+        setFlippedIndices(flipped);
+        if (flipped.length < 2) return;
+
+        const attempts = tries + 1;
+        setTries(attempts);
+        if (board.cards[flipped[0]] !== board.cards[flipped[1]]) {
+            setTimeout(() => setFlippedIndices([]), MISMATCH_MS);
+            return;
+        }
+        const matched = [...matchedPairs, board.cards[index]];
+        setMatchedPairs(matched);
+        setFlippedIndices([]);
+        if (matched.length === board.level.pairs) {
+            finish('completed', attempts, matched.length);
+        }
+    };
+
+    const stop = () => {
+        window.clearTimeout(previewTimer.current);
+        // Stopping part-way through is recorded as an abandoned game.
+        if (phase === 'playing' && tries > 0) {
+            finish('abandoned', tries, matchedPairs.length);
+        }
+        setPhase('setup');
+    };
+
+    if (phase === 'setup' || !board) {
+        return (
+            <div className="p-6 bg-white rounded-lg shadow-md text-center w-full max-w-2xl mx-auto">
+                <h3 className="text-xl font-bold">{t('game.memory')}</h3>
+                <p className="text-gray-600 mt-2">{t('game.memoryInstructions')}</p>
+                <div className="mt-6 inline-flex rounded-md border border-gray-300 overflow-hidden">
+                    {(['adaptive', ...MEMORY_LEVELS.map(level => level.id)] as LevelChoice[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setChoice(option)}
+                            className={`px-4 py-1 text-sm font-medium ${choice === option ? 'bg-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                        >
+                            {option === 'adaptive' ? t('game.memory.adaptive') : memoryDifficultyLabel(language, option)}
+                        </button>
+                    ))}
+                </div>
+                {choice === 'adaptive' && (
+                    <p className="mt-2 text-sm text-gray-600">{t('game.memory.adaptiveNext', { level: memoryDifficultyLabel(language, adaptiveLevel) })}</p>
+                )}
+                <label className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={timed} onChange={(e) => setTimed(e.target.checked)} className="rounded border-gray-300 text-primary focus:ring-primary" />
+                    {t('game.memory.timed', { seconds: selectedLevel.timeLimitMs / 1000 })}
+                </label>
+                <button onClick={start} className="mt-6 w-full py-3 text-lg font-semibold rounded-md text-white bg-primary hover:bg-primary/90 transition-colors">
+                    {t('game.start')}
+                </button>
+            </div>
+        );
+    }
+
+    const showAll = phase === 'preview';
+    const isGameOver = phase === 'over';
+
+    return (
+         <div className="p-6 bg-white rounded-lg shadow-md text-center w-full max-w-2xl mx-auto">
+             <h3 className="text-xl font-bold">{t('game.memory')}</h3>
+             <p className="text-gray-600 mt-2">{memoryDifficultyLabel(language, memoryDifficulty(board.level.id, board.timed))}</p>
+             <div className="my-4 flex justify-around items-center">
+                <p>{t('game.tries', { count: tries })}</p>
+                <p>{t('game.pairsFound', { found: matchedPairs.length, total: board.level.pairs })}</p>
+                {board.timed && phase === 'playing' && <p className="font-semibold">{t('game.memory.timeLeft', { seconds: Math.ceil(timeLeftMs / 1000) })}</p>}
+             </div>
+             {showAll && <p className="text-sm font-medium text-primary">{t('game.memory.preview')}</p>}
+             {outcome === 'timed-out' && (
+                <p className="text-sm font-medium text-yellow-800">{t('game.memory.timedOut', { found: matchedPairs.length, total: board.level.pairs })}</p>
+             )}
+             <div className={`grid ${board.level.gridClass} gap-2 sm:gap-4 my-6`}>
+                {board.cards.map((emoji, index) => {
+                    const faceUp = showAll || isFlipped(index) || isMatched(emoji);
+                    return (
+                        <div key={index} className="aspect-square" onClick={() => handleCardClick(index)}>
+                             <div className={`w-full h-full rounded-md flex items-center justify-center text-2xl sm:text-4xl transition-transform duration-500 cursor-pointer ${faceUp ? 'bg-primary text-white [transform:rotateY(180deg)]' : 'bg-gray-300 [transform:rotateY(0deg)]'}`}>
+                                 {faceUp && <span>{emoji}</span>}
+                             </div>
+                        </div>
+                    );
+                })}
+             </div>
+             <button onClick={stop} className="w-full py-3 text-lg font-semibold rounded-md text-white bg-primary hover:bg-primary/90 transition-colors">
+                {isGameOver ? t('game.playAgain') : t('game.reset')}
+             </button>
+        </div>
+    );
+};
+
+export const memoryGame: GameDefinition = {
+    id: 'Memory',
+    titleKey: 'game.memory',
+    descriptionKey: 'game.memoryDescription',
+    component: MemoryGame,
+    scoring: { direction: 'lower', unitKey: 'game.score.tries' },
+    points: () => GAME_SESSION_POINTS,
+    difficultyLabel: memoryDifficultyLabel,
+};
+
+export default MemoryGame;
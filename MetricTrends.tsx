@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth, useI18n } from '../App';
+import { DailyMetrics } from '../types';
+import { apiService } from '../services/apiService';
+import { METRIC_FIELDS, MetricField } from '../services/metricFields';
+import { buildSeries, summarize, MetricPoint } from '../services/metricStats';
+import { addDays, todayKey } from '../services/dateUtils';
+import { LanguageCode, formatNumber, metricLabel, unitLabel } from '../services/i18n';
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+
+const formatValue = (language: LanguageCode, value: number | null) =>
+    value === null ? '—' : formatNumber(language, value, { maximumFractionDigits: 1 });
+
+type Segment = { x: number; y: number }[];
+
+const toSegments = (values: (number | null)[], min: number, max: number): Segment[] => {
+    const span = max - min || 1;
+    const step = values.length > 1 ? CHART_WIDTH / (values.length - 1) : 0;
+    // Split at missing days so gaps stay visible instead of being bridged by a straight line.
+    const segments: Segment[] = [];
+    let current: Segment = [];
+    values.forEach((value, index) => {
+        if (value === null) {
+            if (current.length > 0) segments.push(current);
+            current = [];
+            return;
+        }
+        current.push({ x: index * step, y: CHART_HEIGHT - ((value - min) / span) * CHART_HEIGHT });
+    });
+    if (current.length > 0) segments.push(current);
+    return segments;
+};
+
+const toPoints = (segment: Segment) => segment.map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ');
+
+export const LineChart: React.FC<{ points: MetricPoint[] }> = ({ points }) => {
+    const { t } = useI18n();
+    const numeric = points.flatMap(p => [p.value, p.rollingAverage]).filter((v): v is number => v !== null);
+    if (numeric.length === 0) {
+        return <div className="h-24 flex items-center justify-center text-sm text-gray-400">{t('trends.noData')}</div>;
+    }
+    const min = Math.min(...numeric);
+    const max = Math.max(...numeric);
+
+    return (
+        <svg viewBox={`0 -4 ${CHART_WIDTH} ${CHART_HEIGHT + 8}`} preserveAspectRatio="none" className="w-full h-24">
+            {toSegments(points.map(p => p.value), min, max).map((segment, i) => (
+                segment.length > 1
+                    ? <polyline key={`v${i}`} points={toPoints(segment)} fill="none" stroke="#0062FF" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                    : <circle key={`v${i}`} cx={segment[0].x} cy={segment[0].y} r={1.5} fill="#0062FF" />
+            ))}
+            {toSegments(points.map(p => p.rollingAverage), min, max).map((segment, i) => (
+                <polyline key={`a${i}`} points={toPoints(segment)} fill="none" stroke="#64748B" strokeWidth={1} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+            ))}
+        </svg>
+    );
+};
+
+const MetricCard: React.FC<{ field: MetricField; points: MetricPoint[] }> = ({ field, points }) => {
+    const { language, t, formatDate } = useI18n();
+    const summary = summarize(points);
+    return (
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+            <div className="flex justify-between items-baseline">
+                <h3 className="font-semibold text-gray-900">{metricLabel(language, field.key)}</h3>
+                <span className="text-sm text-gray-500">{unitLabel(language, field.unit)}</span>
+            </div>
+            <p className="text-2xl font-bold text-primary mt-1">{formatValue(language, summary.latest)}</p>
+            <LineChart points={points} />
+            <div className="grid grid-cols-3 gap-2 text-xs text-gray-600 mt-2">
+                <div><p className="font-semibold text-gray-800">{formatValue(language, summary.average)}</p>{t('trends.average')}</div>
+                <div title={summary.min && formatDate(summary.min.date)}><p className="font-semibold text-gray-800">{formatValue(language, summary.min?.value ?? null)}</p>{t('trends.min')}</div>
+                <div title={summary.max && formatDate(summary.max.date)}><p className="font-semibold text-gray-800">{formatValue(language, summary.max?.value ?? null)}</p>{t('trends.max')}</div>
+            </div>
+        </div>
+    );
+};
+
+const MetricTrends: React.FC = () => {
+    const { user } = useAuth();
+    const { t, formatDate } = useI18n();
+    const [days, setDays] = useState(30);
+    const [entries, setEntries] = useState<DailyMetrics[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const to = todayKey();
+    const from = addDays(to, -(days - 1));
+
+    useEffect(() => {
+        if (!user) return;
+        setLoading(true);
+        // Fetch a week of extra history so the rolling average is warm from the first day shown.
+        apiService.metrics.getRange(user.id, addDays(from, -6), to).then(data => {
+            setEntries(data);
+            setLoading(false);
+        });
+    }, [user, from, to]);
+
+    const series = useMemo(
+        () => METRIC_FIELDS.map(field => ({ field, points: buildSeries(entries, field.key, from, to) })),
+        [entries, from, to]
+    );
+    const flaggedEntries = entries.filter(entry => entry.date >= from && entry.flags && entry.flags.length > 0).reverse();
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-4">
+                <p className="text-sm text-gray-600">{t('trends.legend')}</p>
+                <div className="flex rounded-md border border-gray-300 overflow-hidden">
+                    {RANGE_OPTIONS.map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setDays(option)}
+                            className={`px-3 py-1 text-sm font-medium ${days === option ? 'bg-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                        >
+                            {t('trends.range', { count: option })}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {loading ? (
+                <p className="text-center text-gray-500">{t('trends.loading')}</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {series.map(({ field, points }) => <MetricCard key={field.key} field={field} points={points} />)}
+                    </div>
+                    {flaggedEntries.length > 0 && (
+                        <div className="mt-6 bg-white p-4 rounded-lg shadow-sm border border-yellow-200">
+                            <h3 className="font-semibold text-gray-900">{t('trends.flagged')}</h3>
+                            <ul className="mt-2 divide-y divide-gray-100 text-sm">
+                                {flaggedEntries.map(entry => (
+                                    <li key={entry.date} className="py-2">
+                                        <p className="font-medium text-gray-700">{formatDate(entry.date)}</p>
+                                        {entry.flags!.map(flag => <p key={flag.field} className="text-yellow-800">{flag.message}</p>)}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default MetricTrends;
@@ -0,0 +1,252 @@
+import React, { useState, useMemo } from 'react';
+import { useAuth, useI18n } from '../App';
+import { DailyMetrics } from '../types';
+import { apiService } from '../services/apiService';
+import { METRIC_FIELDS } from '../services/metricFields';
+import { metricLabel } from '../services/i18n';
+import { todayKey } from '../services/dateUtils';
+import { downloadFile } from '../services/fileDownload';
+import { verifyMetricGoals, describeVerification } from '../services/goalVerification';
+import {
+    metricsToCsv, metricsToJson, parseImportFile, guessColumnMapping, buildImportPreview,
+    ParsedImportFile, ColumnMapping, UnitSelection, DateFormat, DATE_FORMATS, UNIT_OPTIONS, ImportTarget,
+    DecimalSeparator, DECIMAL_SEPARATORS, decimalSeparatorFor,
+} from '../services/metricsTransfer';
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+type DuplicatePolicy = 'skip' | 'overwrite';
+
+// Earliest date included in a "full history" export.
+const HISTORY_START = '1900-01-01';
+
+const selectClassName = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary text-sm";
+
+const MetricsDataTransfer: React.FC = () => {
+    const { user, healthData, updateUser } = useAuth();
+    const { language, t } = useI18n();
+    const [exporting, setExporting] = useState(false);
+    const [step, setStep] = useState<ImportStep>('upload');
+    const [fileName, setFileName] = useState('');
+    const [parsed, setParsed] = useState<ParsedImportFile | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [units, setUnits] = useState<UnitSelection>({});
+    const [dateFormat, setDateFormat] = useState<DateFormat>('YYYY-MM-DD');
+    const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>('.');
+    const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>('skip');
+    const [existing, setExisting] = useState<Map<string, DailyMetrics>>(new Map());
+    const [importing, setImporting] = useState(false);
+    const [error, setError] = useState('');
+    const [resultMessage, setResultMessage] = useState('');
+
+    const handleExport = async (format: 'csv' | 'json') => {
+        if (!user) return;
+        setExporting(true);
+        const entries = await apiService.metrics.getRange(user.id, HISTORY_START, todayKey());
+        const stamp = todayKey();
+        if (format === 'csv') {
+            downloadFile(`health-metrics-${stamp}.csv`, metricsToCsv(entries), 'text/csv');
+        } else {
+            downloadFile(`health-metrics-${stamp}.json`, metricsToJson(entries), 'application/json');
+        }
+        setExporting(false);
+    };
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !user) return;
+        setError('');
+        try {
+            const result = parseImportFile(file.name, await file.text());
+            if (result.records.length === 0) {
+                setError(t('transfer.noRows'));
+                return;
+            }
+            const logged = await apiService.metrics.getRange(user.id, HISTORY_START, todayKey());
+            setExisting(new Map(logged.map(entry => [entry.date, entry])));
+            setFileName(file.name);
+            setParsed(result);
+            setMapping(guessColumnMapping(result.columns));
+            setUnits({});
+            // JSON numbers always use a decimal point; CSV files follow the user's locale by default.
+            setDecimalSeparator(result.format === 'json' ? '.' : decimalSeparatorFor(language));
+            setStep('map');
+        } catch (parseError: any) {
+            setError(t('transfer.readFailed', { error: parseError.message || parseError }));
+        }
+    };
+
+    const preview = useMemo(() => {
+        if (!parsed || step === 'upload') return [];
+        return buildImportPreview(parsed.records, { mapping, units, dateFormat, decimalSeparator, existing, today: todayKey(), profile: healthData, language });
+    }, [parsed, step, mapping, units, dateFormat, decimalSeparator, existing, healthData, language]);
+
+    const rowsToImport = preview.filter(row =>
+        row.entry && row.duplicateOf !== 'file' && (row.duplicateOf !== 'existing' || duplicatePolicy === 'overwrite'));
+    const errorCount = preview.filter(row => row.errors.length > 0).length;
+    const duplicateCount = preview.filter(row => row.duplicateOf !== null).length;
+
+    const handleImport = async () => {
+        if (!user) return;
+        setImporting(true);
+        setError('');
+        const { count, error } = await apiService.metrics.upsertMany(user.id, rowsToImport.map(row => row.entry!));
+        if (error) {
+            setError(t('transfer.importFailed', { error }));
+        } else {
+            const verification = await verifyMetricGoals(user.id);
+            if (verification.balance !== null) updateUser({ points: verification.balance });
+            setResultMessage(`${t('transfer.imported', { count })} ${t('transfer.skippedRows', { count: preview.length - count })}${describeVerification(verification, language)}`);
+            setStep('done');
+        }
+        setImporting(false);
+    };
+
+    const resetImport = () => {
+        setStep('upload');
+        setParsed(null);
+        setFileName('');
+        setResultMessage('');
+        setError('');
+    };
+
+    const renderMappingSelect = (target: ImportTarget, label: string) => (
+        <div key={target}>
+            <label className="block text-sm font-medium text-gray-700">{label}</label>
+            <select
+                value={mapping[target] ?? ''}
+                onChange={(e) => setMapping(prev => ({ ...prev, [target]: e.target.value || undefined }))}
+                className={selectClassName}
+            >
+                <option value="">{t('transfer.dontImport')}</option>
+                {parsed?.columns.map(column => <option key={column} value={column}>{column}</option>)}
+            </select>
+        </div>
+    );
+
+    return (
+        <div className="space-y-8">
+            <div className="bg-white p-8 rounded-lg shadow-md">
+                <h2 className="text-xl font-semibold text-gray-900">{t('transfer.export')}</h2>
+                <p className="text-gray-600 mt-1 text-sm">{t('transfer.exportIntro')}</p>
+                <div className="flex gap-4 mt-4">
+                    <button onClick={() => handleExport('csv')} disabled={exporting} className="py-2 px-4 text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 disabled:bg-opacity-50">{t('transfer.downloadCsv')}</button>
+                    <button onClick={() => handleExport('json')} disabled={exporting} className="py-2 px-4 text-sm font-medium rounded-md text-primary border border-primary hover:bg-light-blue disabled:opacity-50">{t('transfer.downloadJson')}</button>
+                </div>
+            </div>
+
+            <div className="bg-white p-8 rounded-lg shadow-md">
+                <h2 className="text-xl font-semibold text-gray-900">{t('transfer.import')}</h2>
+
+                {step === 'upload' && (
+                    <>
+                        <p className="text-gray-600 mt-1 text-sm">{t('transfer.importIntro')}</p>
+                        <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileSelected} className="mt-4 block text-sm" />
+                    </>
+                )}
+
+                {step === 'map' && parsed && (
+                    <div className="mt-4 space-y-6">
+                        <p className="text-sm text-gray-600">{t('transfer.mapIntro', { file: fileName, count: parsed.records.length })}</p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {renderMappingSelect('date', t('transfer.date'))}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">{t('transfer.dateFormat')}</label>
+                                <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)} className={selectClassName}>
+                                    {DATE_FORMATS.map(format => <option key={format} value={format}>{format}</option>)}
+                                </select>
+                            </div>
+                            {parsed.format === 'csv' && (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">{t('transfer.numberFormat')}</label>
+                                    <select value={decimalSeparator} onChange={(e) => setDecimalSeparator(e.target.value as DecimalSeparator)} className={selectClassName}>
+                                        {DECIMAL_SEPARATORS.map(separator => <option key={separator} value={separator}>{separator === '.' ? '1,234.5' : '1.234,5'}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                            {METRIC_FIELDS.map(field => (
+                                <div key={field.key} className="grid grid-cols-3 gap-2">
+                                    <div className="col-span-2">{renderMappingSelect(field.key, metricLabel(language, field.key))}</div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700">{t('transfer.unit')}</label>
+                                        {UNIT_OPTIONS[field.key] ? (
+                                            <select value={units[field.key] ?? UNIT_OPTIONS[field.key]![0].label} onChange={(e) => setUnits(prev => ({ ...prev, [field.key]: e.target.value }))} className={selectClassName}>
+                                                {UNIT_OPTIONS[field.key]!.map(unit => <option key={unit.label} value={unit.label}>{unit.label}</option>)}
+                                            </select>
+                                        ) : (
+                                            <p className="mt-3 text-sm text-gray-500">{field.unit}</p>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-between">
+                            <button onClick={resetImport} className="py-2 px-4 text-sm font-medium rounded-md text-gray-700 border border-gray-300 hover:bg-gray-100">{t('transfer.cancel')}</button>
+                            <button onClick={() => setStep('preview')} disabled={!mapping.date} className="py-2 px-4 text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 disabled:bg-opacity-50">{t('transfer.preview')}</button>
+                        </div>
+                    </div>
+                )}
+
+                {step === 'preview' && (
+                    <div className="mt-4 space-y-4">
+                        <p className="text-sm text-gray-600">
+                            {t('transfer.previewSummary', { ready: rowsToImport.length, errors: errorCount, duplicates: duplicateCount })}
+                        </p>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">{t('transfer.duplicatePolicy')}</label>
+                            <select value={duplicatePolicy} onChange={(e) => setDuplicatePolicy(e.target.value as DuplicatePolicy)} className={selectClassName}>
+                                <option value="skip">{t('transfer.keepExisting')}</option>
+                                <option value="overwrite">{t('transfer.overwrite')}</option>
+                            </select>
+                        </div>
+                        <div className="max-h-96 overflow-auto border border-gray-200 rounded-md">
+                            <table className="min-w-full text-xs">
+                                <thead className="bg-gray-50 sticky top-0">
+                                    <tr>
+                                        <th className="px-2 py-2 text-start">{t('transfer.row')}</th>
+                                        <th className="px-2 py-2 text-start">{t('transfer.date')}</th>
+                                        {METRIC_FIELDS.map(field => <th key={field.key} className="px-2 py-2 text-start">{metricLabel(language, field.key)}</th>)}
+                                        <th className="px-2 py-2 text-start">{t('transfer.status')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {preview.map(row => (
+                                        <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : row.duplicateOf ? 'bg-yellow-50' : ''}>
+                                            <td className="px-2 py-1">{row.rowNumber}</td>
+                                            <td className="px-2 py-1">{row.entry?.date ?? '—'}</td>
+                                            {METRIC_FIELDS.map(field => <td key={field.key} className="px-2 py-1">{row.entry?.[field.key] ?? ''}</td>)}
+                                            <td className="px-2 py-1">
+                                                {row.errors.map(message => <p key={message} className="text-red-700">{message}</p>)}
+                                                {row.duplicateOf === 'file' && <p className="text-yellow-800">{t('transfer.sameDateInFile')}</p>}
+                                                {row.duplicateOf === 'existing' && <p className="text-yellow-800">{t(duplicatePolicy === 'skip' ? 'transfer.alreadyLoggedKept' : 'transfer.alreadyLoggedReplaced')}</p>}
+                                                {row.warnings.map(flag => <p key={flag.field} className="text-gray-600">{flag.message}</p>)}
+                                                {row.errors.length === 0 && !row.duplicateOf && row.warnings.length === 0 && <p className="text-green-700">{t('transfer.ok')}</p>}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="flex justify-between">
+                            <button onClick={() => setStep('map')} className="py-2 px-4 text-sm font-medium rounded-md text-gray-700 border border-gray-300 hover:bg-gray-100">{t('transfer.back')}</button>
+                            <button onClick={handleImport} disabled={importing || rowsToImport.length === 0} className="py-2 px-4 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:bg-opacity-50">
+                                {importing ? t('transfer.importing') : t('transfer.importRows', { count: rowsToImport.length })}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {step === 'done' && (
+                    <div className="mt-4">
+                        <p className="text-sm text-green-600">{resultMessage}</p>
+                        <button onClick={resetImport} className="mt-4 py-2 px-4 text-sm font-medium rounded-md text-primary border border-primary hover:bg-light-blue">{t('transfer.importAnother')}</button>
+                    </div>
+                )}
+
+                {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default MetricsDataTransfer;
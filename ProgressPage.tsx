@@ -1,9 +1,20 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { useAuth } from '../App';
-import { Recommendation } from '../types';
-import { fetchHealthGoalsFromN8n } from '../services/geminiService';
-import { apiService } from '../services/supabaseService';
+import { useAuth, useI18n } from '../App';
+import { Recommendation, GoalMetricTarget, GoalCheckIn, DailyMetrics } from '../types';
+import { GOAL_LOOKBACK_DAYS, GoalParseIssue } from '../services/goalProvider';
+import { METRIC_FIELDS } from '../services/metricFields';
+import { ScreeningNote } from '../services/goalSafety';
+import { generateGoals, getPreferredGoalSource } from '../services/goalGeneration';
+import { apiService } from '../services/apiService';
+import { addDays, todayKey } from '../services/dateUtils';
+import { isHabit, habitStatus, checkInPointsReference } from '../services/habits';
+import { GOAL_DIFFICULTY_POINTS } from '../services/pointsRules';
+import { GOAL_QUOTA_POLICY, GoalQuota } from '../services/goalQuota';
+import { targetProgress, targetWindow } from '../services/goalVerification';
+import { LanguageCode, formatDate, formatUnit, hasMessage, metricLabel, translate } from '../services/i18n';
 import { StarIcon } from './icons';
+import GoalHistory from './GoalHistory';
+import HabitTracker from './HabitTracker';
 
 const difficultyColors = {
     Easy: 'bg-green-100 text-green-800',
@@ -11,180 +22,337 @@ const difficultyColors = {
     Hard: 'bg-red-100 text-red-800',
 };
 
-const difficultyPoints = {
-    Easy: 2,
-    Medium: 5,
-    Hard: 8,
+interface GoalDiagnostics {
+    summary: string;
+    issues: GoalParseIssue[];
+}
+
+const describeTarget = (language: LanguageCode, { metric, comparator, value, days }: GoalMetricTarget) => {
+    const unit = METRIC_FIELDS.find(f => f.key === metric)?.unit ?? '';
+    return translate(language, 'progress.target', {
+        metric: metricLabel(language, metric),
+        comparator: comparator === 'atLeast' ? '≥' : '≤',
+        value: formatUnit(language, value, unit),
+        days: translate(language, 'progress.days', { count: days }),
+    });
+};
+
+const describeProgress = (language: LanguageCode, rec: Recommendation, metrics: DailyMetrics[]) => {
+    const progress = targetProgress(rec, metrics, todayKey());
+    return progress && !rec.verifiedAt
+        ? ` · ${translate(language, 'progress.targetProgress', { met: Math.min(progress.metDays, progress.requiredDays), required: progress.requiredDays })}`
+        : '';
 };
 
-const isSameDay = (d1: Date, d2: Date) => {
-    return d1.getFullYear() === d2.getFullYear() &&
-           d1.getMonth() === d2.getMonth() &&
-           d1.getDate() === d2.getDate();
+const describeQuota = (language: LanguageCode, quota: GoalQuota) => {
+    if (quota.nextAllowedAt) {
+        const next = formatDate(language, quota.nextAllowedAt, { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+        return translate(language, quota.period === 'day' ? 'progress.quotaUsedToday' : 'progress.quotaUsedWeek', { next });
+    }
+    return translate(language, quota.period === 'day' ? 'progress.quotaLeftToday' : 'progress.quotaLeftWeek', { count: quota.remaining, limit: quota.limit });
 };
 
+// Screening reasons are written in English; the catalogs have one per rule.
+const describeSafetyNote = (language: LanguageCode, note: ScreeningNote) => {
+    const key = `safety.${note.ruleId}`;
+    const reason = hasMessage(key) ? translate(language, key) : note.reason;
+    return note.outcome === 'rejected'
+        ? translate(language, 'progress.safetyRemoved', { goal: note.goal, reason })
+        : translate(language, 'progress.safetyDowngraded', { goal: note.goal, reason, difficulty: translate(language, `difficulty.${note.difficulty ?? 'Easy'}`) });
+};
+
+// The next points tier that would raise the quota, if any.
+const nextQuotaTier = (points: number) =>
+    GOAL_QUOTA_POLICY.tiers.filter(tier => tier.minPoints > points).sort((a, b) => a.minPoints - b.minPoints)[0];
+
 const ProgressPage: React.FC = () => {
-    const { user, updateUser } = useAuth();
+    const { user, healthData, updateUser } = useAuth();
+    const { language, t, formatNumber } = useI18n();
     const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+    const [checkIns, setCheckIns] = useState<GoalCheckIn[]>([]);
+    const [metrics, setMetrics] = useState<DailyMetrics[]>([]);
+    const [checkingIn, setCheckingIn] = useState(false);
     const [loading, setLoading] = useState(true);
     const [generating, setGenerating] = useState(false);
     const [saving, setSaving] = useState(false);
     const [message, setMessage] = useState('');
-    const [canGenerate, setCanGenerate] = useState(true);
+    const [quota, setQuota] = useState<GoalQuota | null>(null);
+    const [diagnostics, setDiagnostics] = useState<GoalDiagnostics | null>(null);
+    const [safetyNotes, setSafetyNotes] = useState<ScreeningNote[]>([]);
+    const [view, setView] = useState<'current' | 'history'>('current');
 
     const fetchRecommendations = useCallback(async () => {
         if (!user) return;
         setLoading(true);
-        const data = await apiService.recommendations.get(user.id);
+        const [data, checkInData, quotaData] = await Promise.all([
+            apiService.recommendations.get(user.id),
+            apiService.recommendations.getCheckIns(user.id),
+            apiService.recommendations.getQuota(user.id),
+        ]);
         setRecommendations(data);
+        setCheckIns(checkInData);
+        setQuota(quotaData);
+        // Metrics covering every target's window, for the progress shown under each goal.
+        const today = todayKey();
+        const windowStarts = data.filter(rec => rec.metricTarget).map(rec => targetWindow(rec, today)[0]).sort();
+        setMetrics(windowStarts.length > 0 ? await apiService.metrics.getRange(user.id, windowStarts[0], today) : []);
         setLoading(false);
     }, [user]);
 
     useEffect(() => {
         fetchRecommendations();
-        const lastGenString = localStorage.getItem(`lastGoalGen_${user?.id}`);
-        if (lastGenString) {
-            const lastGenDate = new Date(lastGenString);
-            if (isSameDay(lastGenDate, new Date())) {
-                setCanGenerate(false);
-            }
-        }
-    }, [fetchRecommendations, user?.id]);
+    }, [fetchRecommendations]);
 
     const handleGenerateGoals = async () => {
         if (!user) {
-            setMessage('User not found.');
+            setMessage(t('progress.userNotFound'));
             return;
         }
-        if (!canGenerate) {
-            setMessage('You can only generate new goals once per day.');
+        if (quota?.remaining === 0) {
+            setMessage(describeQuota(language, quota));
             return;
         }
 
         setGenerating(true);
         setMessage('');
-        const newGoals = await fetchHealthGoalsFromN8n(user.id);
-
+        setDiagnostics(null);
+        setSafetyNotes([]);
+        const today = todayKey();
+        const recentMetrics = await apiService.metrics.getRange(user.id, addDays(today, -(GOAL_LOOKBACK_DAYS - 1)), today);
+        const { goals: newGoals, issues, screening, fallback } = await generateGoals(
+            { userId: user.id, health: healthData, recentMetrics, language },
+            getPreferredGoalSource(user.id),
+        );
+        if (fallback) {
+            setDiagnostics({ summary: t('progress.fallbackSummary', { source: t(`goalSource.${fallback.from.id}`), error: fallback.error }), issues: fallback.issues });
+        } else if (issues.length > 0) {
+            setDiagnostics({ summary: t('progress.formatIssues'), issues });
+        }
+        setSafetyNotes(screening);
         if (newGoals.length === 0) {
-             setMessage('Could not generate new goals from the service. Please try again later.');
-             setGenerating(false);
-             return;
+            setMessage(t('progress.noSuitableGoals'));
+            setGenerating(false);
+            return;
         }
-        
+
         const { recommendations: savedRecs, error } = await apiService.recommendations.create(user.id, newGoals);
-        
+        // The data layer has the final say on the quota, so refresh it whether or not the save went through.
+        setQuota(await apiService.recommendations.getQuota(user.id));
+
         if (error) {
-            setMessage('Error saving new goals.');
+            setMessage(t('progress.saveGoalsFailed', { error }));
         } else {
             setRecommendations(savedRecs);
-            localStorage.setItem(`lastGoalGen_${user.id}`, new Date().toISOString());
-            setCanGenerate(false);
-            setMessage('New goals have been generated!');
+            setMessage(fallback
+                ? t('progress.fallbackMessage', { source: t(`goalSource.${fallback.from.id}`) })
+                : t('progress.generated'));
         }
         setGenerating(false);
     };
 
+    // Goals verified from metrics stay completed.
     const handleToggleCompletion = (id: number) => {
         setRecommendations(prev => 
-            prev.map(rec => rec.id === id ? { ...rec, isCompleted: !rec.isCompleted } : rec)
+            prev.map(rec => rec.id === id && !rec.verifiedAt ? { ...rec, isCompleted: !rec.isCompleted } : rec)
         );
     };
 
+    // Habits earn points per check-in; their completion follows from the check-ins.
+    const handleCheckIn = async (rec: Recommendation, date: string, done: boolean) => {
+        if (!user) return;
+        setCheckingIn(true);
+        setMessage('');
+        const { error } = await apiService.recommendations.setCheckIn(user.id, rec.id, date, done);
+        if (error) {
+            setMessage(t('progress.checkInFailed'));
+            setCheckingIn(false);
+            return;
+        }
+
+        const nextCheckIns = done
+            ? [...checkIns, { userId: user.id, recommendationId: rec.id, date, createdAt: new Date().toISOString() }]
+            : checkIns.filter(c => !(c.recommendationId === rec.id && c.date === date));
+        setCheckIns(nextCheckIns);
+
+        const referenceId = done ? checkInPointsReference(rec, checkIns, date) : null;
+        if (referenceId) {
+            const amount = GOAL_DIFFICULTY_POINTS[rec.difficulty];
+            const { balance, awarded } = await apiService.points.award(user.id, { source: 'goal', amount, referenceId });
+            updateUser({ points: balance });
+            if (awarded) setMessage(t('progress.checkedIn', { points: amount }));
+        }
+
+        const fulfilled = habitStatus(rec, nextCheckIns, todayKey()).fulfilled;
+        if (!rec.verifiedAt && fulfilled !== rec.isCompleted) {
+            const updated = { ...rec, isCompleted: fulfilled };
+            await apiService.recommendations.updateStatus(user.id, [updated]);
+            setRecommendations(prev => prev.map(r => r.id === rec.id ? updated : r));
+        }
+        setCheckingIn(false);
+    };
+
+    const habits = recommendations.filter(isHabit);
+    const oneOffGoals = recommendations.filter(rec => !isHabit(rec));
+
     const handleSaveChanges = async () => {
         if (!user) return;
         setSaving(true);
         setMessage('');
         
-        let pointsEarned = 0;
         const originalRecs = await apiService.recommendations.get(user.id);
-
-        for (const rec of recommendations) {
+        const newlyCompleted = oneOffGoals.filter(rec => {
             const originalRec = originalRecs.find(r => r.id === rec.id);
-            if (originalRec && !originalRec.isCompleted && rec.isCompleted) {
-                pointsEarned += difficultyPoints[rec.difficulty];
-            }
-        }
+            return originalRec && !originalRec.isCompleted && rec.isCompleted;
+        });
 
-        const { error } = await apiService.recommendations.updateStatus(user.id, recommendations);
+        const { error } = await apiService.recommendations.updateStatus(user.id, oneOffGoals);
         if (error) {
-            setMessage('Error saving changes.');
+            setMessage(t('progress.saveFailed'));
         } else {
+            // The ledger ignores repeat awards for the same goal, so re-ticking a goal earns nothing.
+            let pointsEarned = 0;
+            for (const rec of newlyCompleted) {
+                const amount = GOAL_DIFFICULTY_POINTS[rec.difficulty];
+                const { balance, awarded } = await apiService.points.award(user.id, { source: 'goal', amount, referenceId: String(rec.id) });
+                if (awarded) pointsEarned += amount;
+                updateUser({ points: balance });
+            }
             if (pointsEarned > 0) {
-                const newTotalPoints = user.points + pointsEarned;
-                await apiService.user.updatePoints(user.id, newTotalPoints);
-                updateUser({ points: newTotalPoints });
-                setMessage(`Changes saved! You've earned ${pointsEarned} points!`);
+                setMessage(t('progress.savedWithPoints', { points: pointsEarned }));
             } else {
-                setMessage('Your progress has been saved.');
+                setMessage(t('progress.saved'));
             }
         }
         setSaving(false);
     };
 
+    const nextTier = user ? nextQuotaTier(user.points) : undefined;
+
     return (
         <div className="max-w-4xl mx-auto">
             <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
                 <div>
-                    <h1 className="text-3xl font-bold text-gray-900">Your Progress</h1>
-                    <p className="mt-2 text-gray-600">Complete your goals to earn points and improve your health.</p>
+                    <h1 className="text-3xl font-bold text-gray-900">{t('progress.title')}</h1>
+                    <p className="mt-2 text-gray-600">{t('progress.intro')}</p>
                 </div>
                 <button 
                     onClick={handleGenerateGoals} 
-                    disabled={generating || !canGenerate}
+                    disabled={generating || quota?.remaining === 0}
                     className="py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-opacity-50 flex items-center justify-center"
                 >
                     {generating ? (
-                        <><svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <><svg className="animate-spin -ms-1 me-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg> Generating...</>
+                        </svg> {t('progress.generating')}</>
                     ) : (
-                        'Generate New Goals'
+                        t('progress.generate')
                     )}
                 </button>
             </div>
             
-            {!canGenerate && <p className="text-sm text-center text-secondary mt-4">You can generate new goals again tomorrow.</p>}
+            {quota && (
+                <p className={`text-sm text-center mt-4 ${quota.remaining === 0 ? 'text-secondary' : 'text-gray-600'}`}>
+                    {describeQuota(language, quota)}
+                    {nextTier && ` ${t('progress.nextTier', { points: nextTier.minPoints })}`}
+                </p>
+            )}
 
-            {loading ? (
-                <p className="mt-8 text-center text-gray-500">Loading your goals...</p>
+            {diagnostics && (
+                <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+                    <p className="text-yellow-800">{diagnostics.summary}</p>
+                    {diagnostics.issues.length > 0 && (
+                        <details className="mt-2 text-gray-700">
+                            <summary className="cursor-pointer">{t('progress.problemsFound', { count: diagnostics.issues.length })}</summary>
+                            <ul className="mt-1 list-disc list-inside">
+                                {diagnostics.issues.map((issue, i) => <li key={i}><span className="font-mono">{issue.location}</span>: {issue.message}</li>)}
+                            </ul>
+                        </details>
+                    )}
+                </div>
+            )}
+
+            {safetyNotes.length > 0 && (
+                <div className="mt-4 p-4 bg-light-blue border border-primary/20 rounded-lg text-sm">
+                    <p className="text-primary font-medium">{t('progress.safetySummary')}</p>
+                    <ul className="mt-2 list-disc list-inside text-gray-700">
+                        {safetyNotes.map((note, i) => (
+                            <li key={i}>{describeSafetyNote(language, note)}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="mt-6 flex rounded-md border border-gray-300 overflow-hidden w-fit">
+                {(['current', 'history'] as const).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setView(option)}
+                        className={`px-4 py-1.5 text-sm font-medium ${view === option ? 'bg-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                    >
+                        {option === 'current' ? t('progress.current') : t('progress.history')}
+                    </button>
+                ))}
+            </div>
+
+            {view === 'history' ? (
+                <GoalHistory />
+            ) : loading ? (
+                <p className="mt-8 text-center text-gray-500">{t('progress.loading')}</p>
             ) : recommendations.length === 0 ? (
                 <div className="mt-8 text-center bg-white p-8 rounded-lg shadow">
-                    <h3 className="text-xl font-semibold">No goals yet!</h3>
-                    <p className="text-gray-600 mt-2">Click the "Generate New Goals" button to get started.</p>
+                    <h3 className="text-xl font-semibold">{t('progress.noGoals')}</h3>
+                    <p className="text-gray-600 mt-2">{t('progress.noGoalsHint')}</p>
                 </div>
             ) : (
-                <div className="mt-8 space-y-4">
-                    {recommendations.map(rec => (
-                        <div key={rec.id} className={`p-4 bg-white rounded-lg shadow-sm flex items-center justify-between transition-all ${rec.isCompleted ? 'opacity-60' : ''}`}>
-                            <div className="flex items-center">
-                                <input 
-                                    type="checkbox"
-                                    checked={rec.isCompleted}
-                                    onChange={() => handleToggleCompletion(rec.id)}
-                                    className="h-5 w-5 rounded border-gray-300 text-primary focus:ring-primary"
-                                />
-                                <div className="ml-4">
-                                    <p className={`font-medium ${rec.isCompleted ? 'line-through text-gray-500' : 'text-gray-900'}`}>{rec.goal}</p>
-                                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${difficultyColors[rec.difficulty]}`}>{rec.difficulty}</span>
+                <div className="mt-8 space-y-8">
+                    {habits.length > 0 && (
+                        <HabitTracker habits={habits} checkIns={checkIns} today={todayKey()} busy={checkingIn} onCheckIn={handleCheckIn} />
+                    )}
+                    {oneOffGoals.length === 0 ? (
+                        message && <p className="text-sm text-center text-green-600">{message}</p>
+                    ) : (
+                        <div className="space-y-4">
+                            {habits.length > 0 && <h2 className="text-xl font-semibold text-gray-900">{t('progress.goals')}</h2>}
+                            {oneOffGoals.map(rec => (
+                                <div key={rec.id} className={`p-4 bg-white rounded-lg shadow-sm flex items-center justify-between transition-all ${rec.isCompleted ? 'opacity-60' : ''}`}>
+                                    <div className="flex items-center">
+                                        <input 
+                                            type="checkbox"
+                                            checked={rec.isCompleted}
+                                            disabled={!!rec.verifiedAt}
+                                            title={rec.verifiedAt ? t('progress.verifiedHint') : undefined}
+                                            onChange={() => handleToggleCompletion(rec.id)}
+                                            className="h-5 w-5 rounded border-gray-300 text-primary focus:ring-primary"
+                                        />
+                                        <div className="ms-4">
+                                            <p className={`font-medium ${rec.isCompleted ? 'line-through text-gray-500' : 'text-gray-900'}`}>{rec.goal}</p>
+                                            {rec.rationale && <p className="text-sm text-gray-600 mt-0.5">{rec.rationale}</p>}
+                                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${difficultyColors[rec.difficulty]}`}>{t(`difficulty.${rec.difficulty}`)}</span>
+                                            {rec.durationDays && <span className="ms-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-light-blue text-primary">{t('progress.days', { count: rec.durationDays })}</span>}
+                                            {rec.source && <span className="ms-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{t(`goalSource.${rec.source}`)}</span>}
+                                            {rec.verifiedAt && <span className="ms-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-green-100 text-green-800">{t('progress.verified')}</span>}
+                                            {rec.metricTarget && <p className="text-xs text-gray-500 mt-1">{describeTarget(language, rec.metricTarget)}{describeProgress(language, rec, metrics)}</p>}
+                                        </div>
+                                    </div>
+                                     <div className="flex items-center gap-1 text-yellow-600 font-semibold">
+                                        <StarIcon className="w-4 h-4" />
+                                        <span>{formatNumber(GOAL_DIFFICULTY_POINTS[rec.difficulty])}</span>
+                                     </div>
                                 </div>
+                            ))}
+                             <div className="pt-4 text-center">
+                                 {message && <p className="text-sm text-green-600 mb-4">{message}</p>}
+                                <button 
+                                    onClick={handleSaveChanges} 
+                                    disabled={saving}
+                                    className="py-2 px-6 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:bg-opacity-50"
+                                >
+                                    {saving ? t('common.saving') : t('common.saveChanges')}
+                                </button>
                             </div>
-                             <div className="flex items-center space-x-1 text-yellow-600 font-semibold">
-                                <StarIcon className="w-4 h-4" />
-                                <span>{difficultyPoints[rec.difficulty]}</span>
-                             </div>
                         </div>
-                    ))}
-                     <div className="pt-4 text-center">
-                         {message && <p className="text-sm text-green-600 mb-4">{message}</p>}
-                        <button 
-                            onClick={handleSaveChanges} 
-                            disabled={saving}
-                            className="py-2 px-6 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:bg-opacity-50"
-                        >
-                            {saving ? 'Saving...' : 'Save Changes'}
-                        </button>
-                    </div>
+                    )}
                 </div>
             )}
         </div>
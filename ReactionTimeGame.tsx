@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { useI18n } from '../App';
+import { GameComponentProps, GameDefinition } from '../services/gameRegistry';
+import { GAME_SESSION_POINTS } from '../services/pointsRules';
+import {
+    REACTION_TEST, ReactionDetails, ReactionMode, ReactionSide, ReactionTrial, classifyResponse, randomDelay, randomSide, summarizeTrials,
+} from '../services/reactionTest';
+
+type Phase = 'ready' | 'waiting' | 'stimulus' | 'feedback' | 'done';
+
+// How long the result of one trial stays up before the next wait begins.
+const FEEDBACK_MS = 800;
+
+const KEY_SIDES: Record<string, ReactionSide> = { ArrowLeft: 'left', ArrowRight: 'right' };
+
+const feedbackKey = (trial: ReactionTrial) => (
+    trial.outcome === 'false-start' ? 'game.reaction.tooSoon'
+        : trial.outcome === 'wrong' ? 'game.reaction.wrong'
+        : trial.outcome === 'miss' ? 'game.reaction.miss' : null
+);
+
+// Runs with too few valid trials to score are reported as abandoned.
+const ReactionTimeGame: React.FC<GameComponentProps & { mode: ReactionMode }> = ({ onGameEnd, mode }) => {
+    const { t } = useI18n();
+    const [phase, setPhase] = useState<Phase>('ready');
+    const [trials, setTrials] = useState<ReactionTrial[]>([]);
+    const [stimulus, setStimulus] = useState<ReactionSide | undefined>();
+    // Timing lives in refs so input handlers always see the current trial, whatever has rendered.
+    const phaseRef = useRef<Phase>('ready');
+    const trialsRef = useRef<ReactionTrial[]>([]);
+    const trialRef = useRef<{ delayMs: number; stimulus?: ReactionSide }>({ delayMs: 0 });
+    const onsetRef = useRef(0);
+    const startedAtRef = useRef(0);
+    const timerRef = useRef<number | undefined>(undefined);
+
+    const enterPhase = (next: Phase) => {
+        phaseRef.current = next;
+        setPhase(next);
+    };
+
+    const schedule = (callback: () => void, ms: number) => {
+        window.clearTimeout(timerRef.current);
+        timerRef.current = window.setTimeout(callback, ms);
+    };
+
+    useEffect(() => () => window.clearTimeout(timerRef.current), []);
+
+    // The stimulus is timed from when it is committed to the page, just before the browser paints it,
+    // so React's render time isn't counted against the user.
+    useLayoutEffect(() => {
+        if (phase !== 'stimulus') return;
+        onsetRef.current = performance.now();
+        schedule(() => record(classifyResponse(trialRef.current.delayMs, trialRef.current.stimulus, undefined, null)), REACTION_TEST.timeoutMs);
+    }, [phase]);
+
+    const nextTrial = () => {
+        const trial = { delayMs: randomDelay(), stimulus: mode === 'choice' ? randomSide() : undefined };
+        trialRef.current = trial;
+        setStimulus(trial.stimulus);
+        enterPhase('waiting');
+        schedule(() => enterPhase('stimulus'), trial.delayMs);
+    };
+
+    const record = (trial: ReactionTrial) => {
+        trialsRef.current = [...trialsRef.current, trial];
+        setTrials(trialsRef.current);
+        enterPhase('feedback');
+        schedule(() => {
+            if (trialsRef.current.length < REACTION_TEST.trials) {
+                nextTrial();
+                return;
+            }
+            enterPhase('done');
+            const { medianMs, scored, ...counts } = summarizeTrials(trialsRef.current);
+            onGameEnd({
+                score: medianMs ?? 0,
+                durationMs: Math.round(performance.now() - startedAtRef.current),
+                status: scored ? 'completed' : 'abandoned',
+                details: { trials: trialsRef.current, ...counts } satisfies ReactionDetails,
+            });
+        }, FEEDBACK_MS);
+    };
+
+    const start = () => {
+        trialsRef.current = [];
+        startedAtRef.current = performance.now();
+        setTrials([]);
+        nextTrial();
+    };
+
+    const respond = (side?: ReactionSide) => {
+        const now = performance.now();
+        const { delayMs, stimulus: shown } = trialRef.current;
+        if (phaseRef.current === 'waiting') {
+            record(classifyResponse(delayMs, shown, side, null, true));
+        } else if (phaseRef.current === 'stimulus') {
+            record(classifyResponse(delayMs, shown, side, now - onsetRef.current));
+        }
+    };
+
+    useEffect(() => {
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.repeat || (phaseRef.current !== 'waiting' && phaseRef.current !== 'stimulus')) return;
+            if (mode === 'simple' && e.code === 'Space') {
+                e.preventDefault();
+                respond();
+            } else if (mode === 'choice' && KEY_SIDES[e.key]) {
+                e.preventDefault();
+                respond(KEY_SIDES[e.key]);
+            }
+        };
+        window.addEventListener('keydown', handleKey);
+        return () => window.removeEventListener('keydown', handleKey);
+    });
+
+    const running = phase === 'waiting' || phase === 'stimulus' || phase === 'feedback';
+    const last = trials[trials.length - 1];
+    const summary = phase === 'done' ? summarizeTrials(trials) : null;
+    const sides: (ReactionSide | undefined)[] = mode === 'simple' ? [undefined] : ['left', 'right'];
+
+    const renderStatus = () => {
+        if (phase === 'stimulus') {
+            return mode === 'simple' ? t('game.reaction.go') : <span className="text-6xl">{stimulus === 'left' ? '←' : '→'}</span>;
+        }
+        if (phase === 'feedback' && last) {
+            const key = feedbackKey(last);
+            return key ? t(key) : t('game.reaction.ms', { value: Math.round(last.reactionMs!) });
+        }
+        return mode === 'simple' ? t('game.reaction.wait') : t('game.reaction.waitChoice');
+    };
+
+    const renderStat = (label: string, value: string | number) => (
+        <div className="p-3 bg-gray-50 rounded-md">
+            <p className="text-2xl font-bold text-primary">{value}</p>
+            <p className="text-xs text-gray-500">{label}</p>
+        </div>
+    );
+
+    return (
+        <div className="p-6 bg-white rounded-lg shadow-md text-center w-full max-w-md mx-auto">
+            <h3 className="text-xl font-bold">{t(mode === 'simple' ? 'game.title.simpleReaction' : 'game.title.choiceReaction')}</h3>
+            <p className="text-gray-600 mt-2">
+                {t(mode === 'simple' ? 'game.reaction.simpleInstructions' : 'game.reaction.choiceInstructions')}
+            </p>
+
+            {running ? (
+                <>
+                    <p className="mt-4 text-sm text-gray-500">{t('game.reaction.trial', { current: phase === 'feedback' ? trials.length : trials.length + 1, total: REACTION_TEST.trials })}</p>
+                    {/* Left and right are physical sides of the screen, so this row ignores the text direction. */}
+                    <div dir="ltr" className="my-4 flex gap-2 select-none touch-none">
+                        {sides.map(side => (
+                            <div
+                                key={side ?? 'any'}
+                                onPointerDown={(e) => { e.preventDefault(); respond(side); }}
+                                className={`flex-1 h-48 rounded-md flex items-center justify-center text-2xl font-semibold cursor-pointer ${
+                                    phase === 'stimulus' && (mode === 'simple' || side === stimulus) ? 'bg-green-500 text-white' : 'bg-gray-200 text-gray-700'
+                                }`}
+                            >
+                                {mode === 'simple' ? renderStatus() : phase === 'stimulus' ? (side === stimulus ? renderStatus() : null) : t(side === 'left' ? 'game.reaction.left' : 'game.reaction.right')}
+                            </div>
+                        ))}
+                    </div>
+                    {mode === 'choice' && phase !== 'stimulus' && <p className="text-lg font-semibold text-gray-700">{renderStatus()}</p>}
+                </>
+            ) : summary && (
+                <div className="my-6">
+                    {summary.scored ? (
+                        <div className="grid grid-cols-2 gap-3">
+                            {renderStat(t('game.reaction.median'), t('game.reaction.ms', { value: summary.medianMs! }))}
+                            {renderStat(t('game.reaction.variability'), summary.sdMs !== null ? t('game.reaction.ms', { value: summary.sdMs }) : '–')}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md px-4 py-2">{t('game.reaction.notScored')}</p>
+                    )}
+                    <p className="mt-3 text-sm text-gray-600">
+                        {t('game.reaction.breakdown', { hits: summary.hits, falseStarts: summary.falseStarts, wrong: summary.wrong, misses: summary.misses })}
+                    </p>
+                </div>
+            )}
+
+            {!running && (
+                <button onClick={start} className="mt-4 w-full py-3 text-lg font-semibold rounded-md text-white bg-primary hover:bg-primary/90 transition-colors">
+                    {phase === 'done' ? t('game.playAgain') : t('game.start')}
+                </button>
+            )}
+        </div>
+    );
+};
+
+const reactionDefinition = (mode: ReactionMode): Omit<GameDefinition, 'id' | 'titleKey' | 'descriptionKey'> => ({
+    component: ({ onGameEnd }) => <ReactionTimeGame mode={mode} onGameEnd={onGameEnd} />,
+    scoring: { direction: 'lower', unitKey: 'game.score.ms' },
+    points: () => GAME_SESSION_POINTS,
+});
+
+export const simpleReactionGame: GameDefinition = {
+    id: 'SimpleReaction',
+    titleKey: 'game.title.simpleReaction',
+    descriptionKey: 'game.simpleReactionDescription',
+    ...reactionDefinition('simple'),
+};
+
+export const choiceReactionGame: GameDefinition = {
+    id: 'ChoiceReaction',
+    titleKey: 'game.title.choiceReaction',
+    descriptionKey: 'game.choiceReactionDescription',
+    ...reactionDefinition('choice'),
+};
+
+export default ReactionTimeGame;
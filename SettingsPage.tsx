@@ -1,9 +1,208 @@
-import React, { useState, FormEvent } from 'react';
-import { useAuth } from '../App';
-import { apiService } from '../services/supabaseService';
+import React, { useState, useEffect, FormEvent } from 'react';
+import { useAuth, useI18n } from '../App';
+import { GoalSource, HealthData, WeightEntry } from '../types';
+import { apiService } from '../services/apiService';
+import { validateHealthProfile, HealthProfile, HealthProfileErrors, GENDERS, FITNESS_LEVELS } from '../services/healthProfile';
+import { GOAL_PROVIDERS, getPreferredGoalSource, setPreferredGoalSource } from '../services/goalGeneration';
+import { LANGUAGES, LanguageCode, getLanguage } from '../services/i18n';
+
+const inputClassName = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary";
+
+const toFormState = (health: HealthData | null) => ({
+    age: health ? String(health.age) : '',
+    height: health ? String(health.height) : '',
+    weight: health ? String(health.weight) : '',
+    gender: health?.gender ?? 'Male',
+    fitnessLevel: health?.fitnessLevel ?? 'Beginner',
+    existingConditions: health?.existingConditions ?? '',
+    allergies: health?.allergies ?? '',
+    medications: health?.medications ?? '',
+});
+
+const HealthProfileSection: React.FC = () => {
+    const { user, healthData, updateHealthData } = useAuth();
+    const { language, t, formatDate, formatUnit } = useI18n();
+    const [form, setForm] = useState(toFormState(healthData));
+    const [fieldErrors, setFieldErrors] = useState<HealthProfileErrors>({});
+    const [weightHistory, setWeightHistory] = useState<WeightEntry[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!user) return;
+        apiService.user.getWeightHistory(user.id).then(setWeightHistory);
+    }, [user]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+        setForm(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    };
+
+    const handleSave = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+        setError('');
+        setMessage('');
+
+        const profile: HealthProfile = {
+            age: form.age.trim() === '' ? NaN : Number(form.age),
+            height: form.height.trim() === '' ? NaN : Number(form.height),
+            weight: form.weight.trim() === '' ? NaN : Number(form.weight),
+            gender: form.gender as HealthData['gender'],
+            fitnessLevel: form.fitnessLevel as HealthData['fitnessLevel'],
+            existingConditions: form.existingConditions.trim(),
+            allergies: form.allergies.trim(),
+            medications: form.medications.trim(),
+            // Changed in the Language section, which saves it straight away.
+            preferredLanguage: healthData?.preferredLanguage ?? getLanguage(language).name,
+        };
+        const errors = validateHealthProfile(profile, language);
+        setFieldErrors(errors);
+        if (Object.keys(errors).length > 0) {
+            setError(t('settings.fixFields'));
+            return;
+        }
+
+        setLoading(true);
+        const { health, error } = await apiService.user.updateHealthProfile(user.id, profile);
+        if (health) {
+            updateHealthData(health);
+            setWeightHistory(await apiService.user.getWeightHistory(user.id));
+        }
+        if (error || !health) {
+            setError(error || t('settings.healthUpdateFailed'));
+        } else {
+            setMessage(t('settings.healthSaved'));
+        }
+        setLoading(false);
+    };
+
+    const renderField = (id: keyof typeof form, label: string, control: React.ReactNode) => (
+        <div>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-700">{label}</label>
+            {control}
+            {fieldErrors[id] && <p className="mt-1 text-xs text-red-600">{fieldErrors[id]}</p>}
+        </div>
+    );
+
+    const recentWeights = weightHistory.slice(-5).reverse();
+
+    return (
+        <form onSubmit={handleSave} className="mt-8 bg-white p-8 rounded-lg shadow-md space-y-6">
+            <div>
+                <h2 className="text-lg font-semibold text-gray-800">{t('settings.healthProfile')}</h2>
+                <p className="mt-1 text-sm text-gray-600">{t('settings.healthProfileIntro')}</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {renderField('age', t('common.age'), <input type="number" id="age" name="age" value={form.age} onChange={handleChange} className={inputClassName} />)}
+                {renderField('height', t('common.heightCm'), <input type="number" id="height" name="height" step="any" value={form.height} onChange={handleChange} className={inputClassName} />)}
+                {renderField('weight', t('common.weightKg'), <input type="number" id="weight" name="weight" step="any" value={form.weight} onChange={handleChange} className={inputClassName} />)}
+                {renderField('gender', t('common.gender'), (
+                    <select id="gender" name="gender" value={form.gender} onChange={handleChange} className={inputClassName}>
+                        {GENDERS.map(opt => <option key={opt} value={opt}>{t(`gender.${opt}`)}</option>)}
+                    </select>
+                ))}
+                {renderField('fitnessLevel', t('common.fitnessLevel'), (
+                    <select id="fitnessLevel" name="fitnessLevel" value={form.fitnessLevel} onChange={handleChange} className={inputClassName}>
+                        {FITNESS_LEVELS.map(opt => <option key={opt} value={opt}>{t(`fitness.${opt}`)}</option>)}
+                    </select>
+                ))}
+            </div>
+            {renderField('existingConditions', t('common.existingConditions'), <textarea id="existingConditions" name="existingConditions" rows={2} value={form.existingConditions} onChange={handleChange} className={inputClassName} />)}
+            {renderField('allergies', t('common.allergies'), <textarea id="allergies" name="allergies" rows={2} value={form.allergies} onChange={handleChange} className={inputClassName} />)}
+            {renderField('medications', t('common.medications'), <textarea id="medications" name="medications" rows={2} value={form.medications} onChange={handleChange} className={inputClassName} />)}
+
+            {recentWeights.length > 0 && (
+                <div>
+                    <h3 className="text-sm font-medium text-gray-700">{t('settings.weightHistory')}</h3>
+                    <ul className="mt-2 divide-y divide-gray-100 text-sm">
+                        {recentWeights.map(entry => (
+                            <li key={entry.date} className="flex justify-between py-1.5">
+                                <span className="text-gray-600">{formatDate(entry.date)}</span>
+                                <span className="font-medium text-gray-900">{formatUnit(entry.weight, 'kg')}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {message && <p className="text-sm text-green-600">{message}</p>}
+            <div className="flex justify-end">
+                <button type="submit" disabled={loading} className="py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-opacity-50">
+                    {loading ? t('common.saving') : t('settings.saveHealthProfile')}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+const GoalSourceSection: React.FC = () => {
+    const { user } = useAuth();
+    const { t } = useI18n();
+    const [selected, setSelected] = useState<GoalSource>(() => user ? getPreferredGoalSource(user.id) : 'n8n');
+
+    const handleSelect = (source: GoalSource) => {
+        if (!user) return;
+        setPreferredGoalSource(user.id, source);
+        setSelected(source);
+    };
+
+    return (
+        <div className="mt-8 bg-white p-8 rounded-lg shadow-md">
+            <h2 className="text-lg font-semibold text-gray-800">{t('settings.goalSource')}</h2>
+            <p className="mt-1 text-sm text-gray-600">{t('settings.goalSourceIntro')}</p>
+            <div className="mt-4 space-y-3">
+                {GOAL_PROVIDERS.map(provider => (
+                    <label key={provider.id} className={`flex items-start gap-3 ${provider.isAvailable() ? 'cursor-pointer' : 'opacity-50'}`}>
+                        <input
+                            type="radio"
+                            name="goalSource"
+                            value={provider.id}
+                            checked={selected === provider.id}
+                            disabled={!provider.isAvailable()}
+                            onChange={() => handleSelect(provider.id)}
+                            className="mt-1 h-4 w-4 text-primary focus:ring-primary"
+                        />
+                        <span>
+                            <span className="block text-sm font-medium text-gray-900">{t(`goalSource.${provider.id}`)}{!provider.isAvailable() && ` ${t('settings.notConfigured')}`}</span>
+                            <span className="block text-sm text-gray-600">{t(`goalSource.${provider.id}.description`)}</span>
+                        </span>
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const LanguageSection: React.FC = () => {
+    const { language, t, setLanguage } = useI18n();
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+        setError('');
+        setSaving(true);
+        const { error } = await setLanguage(e.target.value as LanguageCode);
+        if (error) setError(t('settings.languageFailed'));
+        setSaving(false);
+    };
+
+    return (
+        <div className="mt-8 bg-white p-8 rounded-lg shadow-md">
+            <h2 className="text-lg font-semibold text-gray-800">{t('settings.language')}</h2>
+            <p className="mt-1 text-sm text-gray-600">{t('settings.languageIntro')}</p>
+            <select id="language" aria-label={t('settings.language')} value={language} onChange={handleChange} disabled={saving} className={inputClassName}>
+                {LANGUAGES.map(l => <option key={l.code} value={l.code} lang={l.code}>{l.nativeName}</option>)}
+            </select>
+            {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+    );
+};
 
 const SettingsPage: React.FC = () => {
     const { user, updateUser, logout } = useAuth();
+    const { t } = useI18n();
     const [firstName, setFirstName] = useState(user?.firstName || '');
     const [lastName, setLastName] = useState(user?.lastName || '');
     const [email, setEmail] = useState(user?.email || '');
@@ -19,12 +218,12 @@ const SettingsPage: React.FC = () => {
         setMessage('');
 
         if (password && password.length < 8) {
-            setError('New password must be at least 8 characters long.');
+            setError(t('settings.newPasswordTooShort'));
             return;
         }
 
         if (password !== confirmPassword) {
-            setError('New passwords do not match.');
+            setError(t('settings.newPasswordMismatch'));
             return;
         }
         
@@ -37,10 +236,10 @@ const SettingsPage: React.FC = () => {
         });
 
         if (error || !updatedUser) {
-            setError(error || 'Failed to update settings.');
+            setError(error || t('settings.updateFailed'));
         } else {
             updateUser(updatedUser);
-            setMessage('Your changes have been saved successfully!');
+            setMessage(t('settings.saved'));
             setPassword('');
             setConfirmPassword('');
         }
@@ -49,33 +248,33 @@ const SettingsPage: React.FC = () => {
 
     return (
         <div className="max-w-2xl mx-auto">
-            <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
-            <p className="mt-2 text-gray-600">Update your personal information and password.</p>
+            <h1 className="text-3xl font-bold text-gray-900">{t('settings.title')}</h1>
+            <p className="mt-2 text-gray-600">{t('settings.intro')}</p>
             
             <form onSubmit={handleSaveChanges} className="mt-8 bg-white p-8 rounded-lg shadow-md space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div>
-                        <label htmlFor="firstName" className="block text-sm font-medium text-gray-700">First Name</label>
+                        <label htmlFor="firstName" className="block text-sm font-medium text-gray-700">{t('common.firstName')}</label>
                         <input type="text" id="firstName" value={firstName} onChange={e => setFirstName(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary" />
                     </div>
                      <div>
-                        <label htmlFor="lastName" className="block text-sm font-medium text-gray-700">Last Name</label>
+                        <label htmlFor="lastName" className="block text-sm font-medium text-gray-700">{t('common.lastName')}</label>
                         <input type="text" id="lastName" value={lastName} onChange={e => setLastName(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary" />
                     </div>
                 </div>
                  <div>
-                    <label htmlFor="email" className="block text-sm font-medium text-gray-700">Email Address</label>
+                    <label htmlFor="email" className="block text-sm font-medium text-gray-700">{t('settings.emailAddress')}</label>
                     <input type="email" id="email" value={email} onChange={e => setEmail(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary" />
                 </div>
                  <hr/>
-                 <h2 className="text-lg font-semibold text-gray-800">Change Password</h2>
+                 <h2 className="text-lg font-semibold text-gray-800">{t('settings.changePassword')}</h2>
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div>
-                        <label htmlFor="new-password"className="block text-sm font-medium text-gray-700">New Password</label>
-                        <input type="password" id="new-password" value={password} onChange={e => setPassword(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary" placeholder="Leave blank to keep current password"/>
+                        <label htmlFor="new-password"className="block text-sm font-medium text-gray-700">{t('settings.newPassword')}</label>
+                        <input type="password" id="new-password" value={password} onChange={e => setPassword(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary" placeholder={t('settings.keepPassword')}/>
                     </div>
                      <div>
-                        <label htmlFor="confirm-password"className="block text-sm font-medium text-gray-700">Confirm New Password</label>
+                        <label htmlFor="confirm-password"className="block text-sm font-medium text-gray-700">{t('settings.confirmNewPassword')}</label>
                         <input type="password" id="confirm-password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"/>
                     </div>
                 </div>
@@ -83,16 +282,19 @@ const SettingsPage: React.FC = () => {
                 {message && <p className="text-sm text-green-600">{message}</p>}
                 <div className="flex justify-end">
                     <button type="submit" disabled={loading} className="py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-opacity-50">
-                        {loading ? 'Saving...' : 'Save Changes'}
+                        {loading ? t('common.saving') : t('common.saveChanges')}
                     </button>
                 </div>
             </form>
+            <HealthProfileSection />
+            <LanguageSection />
+            <GoalSourceSection />
              <div className="mt-8 bg-white p-8 rounded-lg shadow-md">
-                <h2 className="text-lg font-semibold text-red-600">Sign Out</h2>
-                <p className="mt-2 text-gray-600">This will sign you out of your account on this device.</p>
+                <h2 className="text-lg font-semibold text-red-600">{t('common.signOut')}</h2>
+                <p className="mt-2 text-gray-600">{t('settings.signOutDescription')}</p>
                 <div className="flex justify-end mt-4">
                      <button onClick={() => { logout(); }} className="py-2 px-4 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500">
-                        Sign Out
+                        {t('common.signOut')}
                     </button>
                 </div>
             </div>
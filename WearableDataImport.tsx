@@ -0,0 +1,184 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { useAuth, useI18n } from '../App';
+import { DailyMetrics } from '../types';
+import { apiService } from '../services/apiService';
+import { METRIC_FIELDS } from '../services/metricFields';
+import { metricLabel } from '../services/i18n';
+import { parseWearableFiles, mergeWithExisting, ImportedDay, MergePolicy, WearableParseProgress } from '../services/wearableImport';
+import { verifyMetricGoals, describeVerification } from '../services/goalVerification';
+import type { WearableWorkerResponse } from '../services/wearableImport.worker';
+
+const selectClassName = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary text-sm";
+
+// How many parsed days to show in the preview table; the import itself covers every day.
+const PREVIEW_DAYS = 14;
+
+const CANCELLED = 'cancelled';
+
+// Parses in a Web Worker where available. `cancelRef` receives a function that stops the worker.
+const parseInWorker = (files: File[], onProgress: (progress: WearableParseProgress) => void, cancelRef: React.MutableRefObject<(() => void) | null>) => {
+    if (typeof Worker === 'undefined') {
+        return parseWearableFiles(files, onProgress);
+    }
+    return new Promise<ImportedDay[]>((resolve, reject) => {
+        const worker = new Worker(new URL('../services/wearableImport.worker.ts', import.meta.url), { type: 'module' });
+        const finish = () => {
+            worker.terminate();
+            cancelRef.current = null;
+        };
+        cancelRef.current = () => {
+            finish();
+            reject(new Error(CANCELLED));
+        };
+        worker.onmessage = (event: MessageEvent<WearableWorkerResponse>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                onProgress(message.progress);
+            } else if (message.type === 'result') {
+                finish();
+                resolve(message.days);
+            } else {
+                finish();
+                reject(new Error(message.message));
+            }
+        };
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || 'The file could not be parsed.'));
+        };
+        worker.postMessage({ files });
+    });
+};
+
+const WearableDataImport: React.FC = () => {
+    const { user, healthData, updateUser } = useAuth();
+    const { language, t, formatDate } = useI18n();
+    const [parsing, setParsing] = useState(false);
+    const [progress, setProgress] = useState<WearableParseProgress | null>(null);
+    const [days, setDays] = useState<ImportedDay[] | null>(null);
+    const [existing, setExisting] = useState<DailyMetrics[]>([]);
+    const [policy, setPolicy] = useState<MergePolicy>('keep-manual');
+    const [importing, setImporting] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+    const cancelRef = useRef<(() => void) | null>(null);
+
+    useEffect(() => () => cancelRef.current?.(), []);
+
+    const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = '';
+        if (files.length === 0 || !user) return;
+        setError('');
+        setMessage('');
+        setParsing(true);
+        try {
+            const parsed = await parseInWorker(files, setProgress, cancelRef);
+            if (parsed.length === 0) {
+                setError(t('wearable.noReadings'));
+            } else {
+                setExisting(await apiService.metrics.getRange(user.id, parsed[0].date, parsed[parsed.length - 1].date));
+                setDays(parsed);
+            }
+        } catch (parseError: any) {
+            if (parseError.message !== CANCELLED) setError(t('wearable.readFailed', { error: parseError.message || parseError }));
+        }
+        setParsing(false);
+        setProgress(null);
+    };
+
+    const merge = useMemo(
+        () => days ? mergeWithExisting(days, existing, policy, healthData, language) : null,
+        [days, existing, policy, healthData, language]
+    );
+
+    const handleImport = async () => {
+        if (!user || !merge) return;
+        setImporting(true);
+        setError('');
+        const { count, error } = await apiService.metrics.upsertMany(user.id, merge.entries);
+        if (error) {
+            setError(t('transfer.importFailed', { error }));
+        } else {
+            const verification = await verifyMetricGoals(user.id);
+            if (verification.balance !== null) updateUser({ points: verification.balance });
+            setMessage(t('wearable.imported', { count }) + describeVerification(verification, language));
+            setDays(null);
+        }
+        setImporting(false);
+    };
+
+    const percent = progress && progress.totalBytes > 0 ? Math.round((progress.bytesRead / progress.totalBytes) * 100) : 0;
+
+    return (
+        <div className="bg-white p-8 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold text-gray-900">{t('wearable.title')}</h2>
+
+            {!days && !parsing && (
+                <>
+                    <p className="text-gray-600 mt-1 text-sm">
+                        {t('wearable.intro', { appleFile: 'export.xml', fitCsv: 'Daily activity metrics.csv', fitFolder: 'All Data' })}
+                    </p>
+                    <input type="file" multiple accept=".xml,.json,.csv" onChange={handleFilesSelected} className="mt-4 block text-sm" />
+                </>
+            )}
+
+            {parsing && (
+                <div className="mt-4 space-y-2">
+                    <p className="text-sm text-gray-600">{t('wearable.reading', { file: progress?.fileName || t('wearable.export'), percent })}</p>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div className="bg-primary h-2 rounded-full" style={{ width: `${percent}%` }} />
+                    </div>
+                    <button onClick={() => cancelRef.current?.()} className="py-2 px-4 text-sm font-medium rounded-md text-gray-700 border border-gray-300 hover:bg-gray-100">{t('transfer.cancel')}</button>
+                </div>
+            )}
+
+            {days && merge && (
+                <div className="mt-4 space-y-4">
+                    <p className="text-sm text-gray-600">
+                        {t('wearable.found', { count: days.length, from: formatDate(days[0].date), to: formatDate(days[days.length - 1].date) })}
+                        {' '}{t('wearable.mergeSummary', { newDays: merge.newDays, updatedDays: merge.updatedDays, unchangedDays: merge.unchangedDays })}
+                        {' '}{t('wearable.conflicts', { count: merge.conflicts })}
+                    </p>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">{t('wearable.policy')}</label>
+                        <select value={policy} onChange={(e) => setPolicy(e.target.value as MergePolicy)} className={selectClassName}>
+                            <option value="keep-manual">{t('wearable.keepManual')}</option>
+                            <option value="prefer-device">{t('wearable.preferDevice')}</option>
+                        </select>
+                    </div>
+                    <div className="max-h-96 overflow-auto border border-gray-200 rounded-md">
+                        <table className="min-w-full text-xs">
+                            <thead className="bg-gray-50 sticky top-0">
+                                <tr>
+                                    <th className="px-2 py-2 text-start">{t('transfer.date')}</th>
+                                    {METRIC_FIELDS.map(field => <th key={field.key} className="px-2 py-2 text-start">{metricLabel(language, field.key)}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {merge.entries.slice(-PREVIEW_DAYS).reverse().map(entry => (
+                                    <tr key={entry.date} className={entry.flags && entry.flags.length > 0 ? 'bg-yellow-50' : ''}>
+                                        <td className="px-2 py-1">{entry.date}</td>
+                                        {METRIC_FIELDS.map(field => <td key={field.key} className="px-2 py-1">{entry[field.key] ?? ''}</td>)}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {merge.entries.length > PREVIEW_DAYS && <p className="text-xs text-gray-500">{t('wearable.showingLatest', { shown: PREVIEW_DAYS, total: merge.entries.length })}</p>}
+                    <div className="flex justify-between">
+                        <button onClick={() => setDays(null)} className="py-2 px-4 text-sm font-medium rounded-md text-gray-700 border border-gray-300 hover:bg-gray-100">{t('transfer.cancel')}</button>
+                        <button onClick={handleImport} disabled={importing || merge.entries.length === 0} className="py-2 px-4 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:bg-opacity-50">
+                            {importing ? t('transfer.importing') : t('wearable.importDays', { count: merge.entries.length })}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {message && <p className="mt-4 text-sm text-green-600">{message}</p>}
+            {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+        </div>
+    );
+};
+
+export default WearableDataImport;
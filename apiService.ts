@@ -0,0 +1,124 @@
+import {
+    User, HealthData, GameSession, GameType, Recommendation, DailyMetrics, PointsTransaction, WeightEntry, GoalBatch, GoalCheckIn,
+    AssistantConversation, AssistantMessage,
+} from '../types';
+import { supabaseApiService } from './supabaseService';
+import { localApiService } from './localDataService';
+import { GoalQuota } from './goalQuota';
+import { GameStats } from './gameStats';
+
+export interface Credentials {
+    email: string;
+    password: string;
+}
+
+// The minimal identity returned by the auth backend, before the app profile is loaded.
+export interface AuthAccount {
+    id: string;
+    email: string;
+}
+
+export interface OtpRequestResult {
+    sent: boolean;
+    expiresAt?: string;
+    // Earliest time another code may be requested for this email.
+    resendAvailableAt?: string;
+    error?: string;
+}
+
+export interface OtpVerifyResult {
+    valid: boolean;
+    attemptsRemaining?: number;
+    lockedUntil?: string;
+    error?: string;
+}
+
+export type NewPointsTransaction = Omit<PointsTransaction, 'id' | 'userId' | 'createdAt'>;
+
+export type NewRecommendation = Omit<Recommendation, 'id' | 'userId' | 'isCompleted' | 'batchId' | 'verifiedAt'>;
+
+export type NewGameSession = Omit<GameSession, 'id' | 'timestamp'>;
+
+export type NewAssistantMessage = Omit<AssistantMessage, 'id' | 'conversationId' | 'createdAt'>;
+
+export interface ApiService {
+    auth: {
+        // Both leave the session pending, and getSession ignores it, until otp.verify succeeds for
+        // the same email. signInWithPassword checks the password only.
+        signUp: (credentials: Credentials) => Promise<{ account: AuthAccount | null; error?: string }>;
+        signInWithPassword: (credentials: Credentials) => Promise<{ account: AuthAccount | null; error?: string }>;
+        getSession: () => Promise<AuthAccount | null>;
+        signOut: () => Promise<void>;
+        getFullUserProfile: (userId: string) => Promise<{ user: User | null; health: HealthData | null; error: string | null }>;
+    };
+    // One-time codes are generated, hashed and checked by the backend; the client never sees the stored code.
+    otp: {
+        request: (email: string) => Promise<OtpRequestResult>;
+        // A valid code activates the pending sign-in session for that email.
+        verify: (email: string, code: string) => Promise<OtpVerifyResult>;
+    };
+    user: {
+        saveInitialDetails: (userData: Omit<User, 'points' | 'id'> & { id: string }, healthData: Omit<HealthData, 'userId'>) => Promise<{ user: User | null; error: string | null }>;
+        updateDetails: (userId: string, updates: Partial<User> & { password?: string }) => Promise<{ updatedUser: User | null; error?: string }>;
+        // Saves the profile and, when the weight changed, records it in the weight history for today.
+        updateHealthProfile: (userId: string, healthData: Omit<HealthData, 'userId'>) => Promise<{ health: HealthData | null; error?: string }>;
+        getWeightHistory: (userId: string) => Promise<WeightEntry[]>;
+    };
+    // Points are only ever appended. An award is idempotent per (source, referenceId): repeating it
+    // returns `awarded: false` and leaves the balance unchanged. The Supabase backend recomputes the
+    // amount from the saved game, metrics entry or goal, and awards nothing if it doesn't qualify.
+    points: {
+        award: (userId: string, entry: NewPointsTransaction) => Promise<{ balance: number; awarded: boolean; error?: string }>;
+        getBalance: (userId: string) => Promise<number>;
+        getHistory: (userId: string) => Promise<PointsTransaction[]>;
+    };
+    metrics: {
+        // There is at most one entry per user per local calendar date.
+        getByDate: (userId: string, date: string) => Promise<DailyMetrics | null>;
+        // Creates or replaces the entry for `entry.date`. Fields left out of `entry` are cleared.
+        upsert: (userId: string, entry: Omit<DailyMetrics, 'userId'>) => Promise<{ id: number | null; created: boolean; error?: string }>;
+        // Bulk form of `upsert` for imports. Entries must have distinct dates.
+        upsertMany: (userId: string, entries: Omit<DailyMetrics, 'userId'>[]) => Promise<{ count: number; error?: string }>;
+        // Entries whose date falls within [from, to] (inclusive 'YYYY-MM-DD' keys), oldest first.
+        getRange: (userId: string, from: string, to: string) => Promise<DailyMetrics[]>;
+    };
+    games: {
+        saveSession: (session: NewGameSession) => Promise<{ id: number | null; error?: string }>;
+        // Newest first, optionally for one game only.
+        getSessions: (userId: string, gameType?: GameType) => Promise<GameSession[]>;
+        // Personal bests, recent sessions and percentiles for every game and level played.
+        getStats: (userId: string) => Promise<GameStats[]>;
+    };
+    recommendations: {
+        // Goals in the current batch.
+        get: (userId: string) => Promise<Recommendation[]>;
+        // Generations left under GOAL_QUOTA_POLICY, counted from the batches already created.
+        getQuota: (userId: string) => Promise<GoalQuota>;
+        // Archives the current batch and starts a new one with these goals. Fails without changing
+        // anything when the quota is used up.
+        create: (userId: string, newGoals: NewRecommendation[]) => Promise<{ batch: GoalBatch | null; recommendations: Recommendation[]; error?: string }>;
+        // Every batch (newest first) and every goal ever generated, with completion.
+        getHistory: (userId: string) => Promise<{ batches: GoalBatch[]; recommendations: Recommendation[] }>;
+        updateStatus: (userId: string, updatedRecs: Recommendation[]) => Promise<{ error?: string }>;
+        // Habit check-ins, one per goal per day.
+        getCheckIns: (userId: string) => Promise<GoalCheckIn[]>;
+        setCheckIn: (userId: string, recommendationId: number, date: string, done: boolean) => Promise<{ error?: string }>;
+    };
+    // Health assistant chats. Every call is scoped to the user; other users' conversations are never returned.
+    assistant: {
+        // Most recently active first.
+        getConversations: (userId: string) => Promise<AssistantConversation[]>;
+        // Oldest first.
+        getMessages: (userId: string, conversationId: number) => Promise<AssistantMessage[]>;
+        createConversation: (userId: string, title: string) => Promise<{ conversation: AssistantConversation | null; error?: string }>;
+        // Appends in order and moves the conversation's `updatedAt` forward.
+        addMessages: (userId: string, conversationId: number, messages: NewAssistantMessage[]) => Promise<{ messages: AssistantMessage[]; error?: string }>;
+        // Deletes the conversation and its messages.
+        deleteConversation: (userId: string, conversationId: number) => Promise<{ error?: string }>;
+    };
+}
+
+// Select the backend with DATA_BACKEND in .env.local: 'supabase' (default) or 'local'.
+export const dataBackend = process.env.DATA_BACKEND === 'local' ? 'local' : 'supabase';
+
+export const apiService: ApiService = dataBackend === 'local' ? localApiService : supabaseApiService;
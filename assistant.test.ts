@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Recommendation } from '../types';
+import { AssistantContext, AssistantModelClient, AssistantTurn, askAssistant, checkGuardrails } from './assistant';
+
+describe('checkGuardrails', () => {
+    it('lets ordinary questions through', () => {
+        expect(checkGuardrails('How did I sleep this week?', 'en')).toBeNull();
+        expect(checkGuardrails('How can I improve my swimming stroke?', 'en')).toBeNull();
+    });
+
+    it('escalates red-flag symptoms', () => {
+        expect(checkGuardrails('I think I am having a stroke', 'en')?.guardrail).toBe('red-flag');
+        expect(checkGuardrails('What are the signs of a stroke?', 'en')?.guardrail).toBe('red-flag');
+        expect(checkGuardrails('I can’t breathe properly', 'en')?.guardrail).toBe('red-flag');
+    });
+
+    it('refuses to diagnose', () => {
+        expect(checkGuardrails('Can you diagnose my headaches?', 'en')?.guardrail).toBe('diagnosis');
+    });
+
+    it('prefers the red-flag reply when a question is both', () => {
+        const reply = checkGuardrails('Do I have a heart attack? Please diagnose me', 'en');
+        expect(reply?.guardrail).toBe('red-flag');
+        expect(reply?.content).not.toBe(checkGuardrails('Can you diagnose me?', 'en')?.content);
+    });
+
+    it('recognises Spanish phrases and replies in Spanish', () => {
+        const redFlag = checkGuardrails('Tengo dolor en el pecho desde esta mañana', 'es');
+        expect(redFlag?.guardrail).toBe('red-flag');
+        expect(redFlag?.content).not.toBe(checkGuardrails('I have chest pain', 'en')?.content);
+        expect(checkGuardrails('¿Qué enfermedad tengo?', 'es')?.guardrail).toBe('diagnosis');
+    });
+
+    it('recognises Hindi phrases', () => {
+        expect(checkGuardrails('मुझे सीने में दर्द हो रहा है', 'hi')?.guardrail).toBe('red-flag');
+        expect(checkGuardrails('क्या मुझे मधुमेह है?', 'hi')?.guardrail).toBe('diagnosis');
+    });
+});
+
+const goal: Recommendation = {
+    id: 1,
+    userId: 'user-1',
+    goal: 'Drink 2 litres of water today',
+    category: 'Diet',
+    difficulty: 'Easy',
+    isCompleted: false,
+    rationale: 'Your logged water intake has been low.',
+};
+
+const context: AssistantContext = { health: null, recentMetrics: [], goals: [goal], language: 'en' };
+
+// Stands in for the model; each test sets the reply it returns.
+const stubClient = (reply: string) => ({ reply: vi.fn<AssistantModelClient['reply']>().mockResolvedValue(reply) });
+
+describe('askAssistant', () => {
+    it('sends the question with the user context and returns the trimmed reply', async () => {
+        const client = stubClient('  Because your water intake was low.  ');
+
+        const reply = await askAssistant(client, context, [], 'Why was I given the water goal?');
+
+        expect(reply).toEqual({ content: 'Because your water intake was low.' });
+        const request = client.reply.mock.calls[0][0];
+        expect(request.context).toBe(context);
+        expect(request.systemInstruction).toContain('Drink 2 litres of water today');
+        expect(request.systemInstruction).toContain('Your logged water intake has been low.');
+        expect(request.turns).toEqual([{ role: 'user', content: 'Why was I given the water goal?' }]);
+    });
+
+    it('sends only the latest 20 turns of history', async () => {
+        const client = stubClient('Sure.');
+        const history: AssistantTurn[] = Array.from({ length: 30 }, (_, i) => ({ role: i % 2 ? 'assistant' : 'user', content: `turn ${i}` }));
+
+        await askAssistant(client, context, history, 'And today?');
+
+        const { turns } = client.reply.mock.calls[0][0];
+        expect(turns).toHaveLength(21);
+        expect(turns[0].content).toBe('turn 10');
+        expect(turns[19].content).toBe('turn 29');
+        expect(turns[20]).toEqual({ role: 'user', content: 'And today?' });
+    });
+
+    it('rejects an empty reply', async () => {
+        await expect(askAssistant(stubClient('   '), context, [], 'How am I doing?')).rejects.toThrow('The assistant returned an empty reply.');
+    });
+
+    it('answers guarded questions without calling the model', async () => {
+        const client = stubClient('This should not be sent.');
+
+        const reply = await askAssistant(client, context, [], 'I have chest pain');
+
+        expect(reply.guardrail).toBe('red-flag');
+        expect(client.reply).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,104 @@
+import { AssistantGuardrail, DailyMetrics, HealthData, Recommendation } from '../types';
+import { describeHealthData } from './healthSummary';
+import { mentions } from './goalSafety';
+import { DIAGNOSIS_PHRASES, RED_FLAG_PHRASES } from './assistantGuardrails';
+import { geminiAssistantClient, isGeminiConfigured } from './geminiService';
+import { localAssistantClient } from './localAssistant';
+import { LanguageCode, getLanguage, translate } from './i18n';
+
+// The health assistant answers questions about the user's own profile, metrics and goals. Guardrails
+// run first: red-flag symptoms and requests for a diagnosis get a fixed reply and never reach the model.
+
+// What the assistant knows about the user, gathered fresh for each question.
+export interface AssistantContext {
+    health: HealthData | null;
+    recentMetrics: DailyMetrics[]; // oldest first, covering ASSISTANT_LOOKBACK_DAYS
+    goals: Recommendation[]; // the current batch
+    language: LanguageCode;
+}
+
+export interface AssistantTurn {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface AssistantModelRequest {
+    systemInstruction: string; // the rules, with the context written out as text
+    context: AssistantContext;
+    turns: AssistantTurn[]; // oldest first; the last one is the new question
+}
+
+// Writes the next reply. Gemini is used when an API key is configured and the on-device client
+// otherwise; tests can pass their own stub.
+export interface AssistantModelClient {
+    reply: (request: AssistantModelRequest) => Promise<string>;
+}
+
+export interface AssistantReply {
+    content: string;
+    guardrail?: AssistantGuardrail;
+}
+
+// Days of metrics the assistant can see.
+export const ASSISTANT_LOOKBACK_DAYS = 14;
+
+// Older turns are left out of the request so long conversations stay within the model's budget.
+const MAX_HISTORY_TURNS = 20;
+
+export const getAssistantClient = (): AssistantModelClient =>
+    isGeminiConfigured() ? geminiAssistantClient : localAssistantClient;
+
+const describeGoal = (goal: Recommendation): string => {
+    const details = [goal.category, goal.difficulty, goal.isCompleted ? 'completed' : 'not completed yet'];
+    if (goal.recurrence) {
+        details.push(goal.recurrence.type === 'daily' ? 'daily habit' : `habit, ${goal.recurrence.timesPerWeek} times a week`);
+    }
+    if (goal.dueDate) details.push(`due ${goal.dueDate}`);
+    return `- "${goal.goal}" (${details.join(', ')})${goal.rationale ? `. Why it was suggested: ${goal.rationale}` : ''}`;
+};
+
+export const buildSystemInstruction = (context: AssistantContext): string => [
+    'You are the health assistant in a personal health monitoring app. Answer questions about this user\'s health profile, ' +
+        'logged daily metrics and current goals using only the data below, and say so when the data does not cover a question. ' +
+        'When asked why a goal was given, explain it from the goal\'s reason and the user\'s data.',
+    'You are not a doctor. Never diagnose a condition, say which illness the user might have, or suggest starting, stopping or changing a medication; ' +
+        'suggest they discuss those questions with a clinician. If the user describes symptoms that could be an emergency, such as chest pain, ' +
+        'trouble breathing, fainting, signs of a stroke or thoughts of self-harm, tell them to contact emergency services or a doctor right away.',
+    `Keep answers short and plain, and write them in ${getLanguage(context.language).name}.`,
+    '',
+    ...describeHealthData(context.health, context.recentMetrics),
+    '',
+    context.goals.length > 0 ? 'Current goals:' : 'No current goals.',
+    ...context.goals.map(describeGoal),
+].join('\n');
+
+// Fixed replies for questions the model must not answer. Null when the question may go to the model.
+export const checkGuardrails = (question: string, language: LanguageCode): AssistantReply | null => {
+    const text = question.replace(/[‘’]/g, "'");
+    if (mentions(text, RED_FLAG_PHRASES)) {
+        return { content: translate(language, 'assistant.redFlag'), guardrail: 'red-flag' };
+    }
+    if (mentions(text, DIAGNOSIS_PHRASES)) {
+        return { content: translate(language, 'assistant.diagnosis'), guardrail: 'diagnosis' };
+    }
+    return null;
+};
+
+// `history` holds the earlier turns of the conversation, oldest first. Rejects when the model fails.
+export const askAssistant = async (
+    client: AssistantModelClient,
+    context: AssistantContext,
+    history: AssistantTurn[],
+    question: string,
+): Promise<AssistantReply> => {
+    const guarded = checkGuardrails(question, context.language);
+    if (guarded) return guarded;
+
+    const content = (await client.reply({
+        systemInstruction: buildSystemInstruction(context),
+        context,
+        turns: [...history.slice(-MAX_HISTORY_TURNS), { role: 'user', content: question }],
+    })).trim();
+    if (!content) throw new Error('The assistant returned an empty reply.');
+    return { content };
+};
@@ -0,0 +1,32 @@
+// Questions the health assistant answers with a fixed reply instead of asking the model. Phrases
+// match whole words, plural forms included, in any case. Users write in their UI language, so the
+// lists include Spanish and Hindi phrases too.
+//
+// Red flags win over diagnosis requests: "do I have a heart attack?" gets the escalation reply.
+
+// Symptoms that may need urgent care. The reply tells the user to contact emergency services or a
+// doctor now.
+export const RED_FLAG_PHRASES = [
+    'chest pain', 'chest pressure', 'tight chest', 'chest tightness', 'heart attack',
+    "can't breathe", 'cannot breathe', 'trouble breathing', 'struggling to breathe', 'shortness of breath', 'short of breath',
+    'fainted', 'fainting', 'passed out', 'unconscious', 'seizure',
+    // "Stroke" alone would catch swimming strokes and past strokes, so only phrases about one happening now.
+    'having a stroke', 'signs of a stroke', 'symptoms of a stroke', 'stroke symptoms', 'slurred speech', 'face drooping', 'face is drooping', 'sudden numbness', 'sudden weakness',
+    'coughing up blood', 'vomiting blood', 'severe bleeding', 'worst headache',
+    'throat swelling', 'throat is closing', 'anaphylaxis',
+    'suicide', 'suicidal', 'kill myself', 'end my life', 'self-harm', 'hurt myself',
+    'dolor en el pecho', 'dolor de pecho', 'presión en el pecho', 'infarto', 'ataque al corazón',
+    'no puedo respirar', 'dificultad para respirar', 'falta de aire', 'me desmayé', 'desmayo', 'convulsión',
+    'derrame cerebral', 'sangre al toser', 'vómito con sangre', 'suicidio', 'quitarme la vida', 'hacerme daño',
+    'सीने में दर्द', 'छाती में दर्द', 'दिल का दौरा', 'सांस नहीं', 'सांस लेने में तकलीफ', 'बेहोश', 'दौरा पड़ा',
+    'लकवा', 'खून की उल्टी', 'आत्महत्या', 'खुद को नुकसान',
+];
+
+// Requests to name a condition. The assistant can explain the user's data but never diagnoses.
+export const DIAGNOSIS_PHRASES = [
+    'diagnose', 'diagnosis', 'what is wrong with me', "what's wrong with me", 'what disease', 'what illness',
+    'what condition do i have', 'do i have cancer', 'do i have diabetes', 'do i have covid', 'do i have a disease',
+    'is it cancer', 'is this cancer',
+    'diagnóstico', 'diagnosticar', 'diagnosticarme', 'qué me pasa', 'qué enfermedad tengo', 'tengo cáncer', 'tengo diabetes',
+    'निदान', 'कौन सी बीमारी', 'क्या मुझे कैंसर', 'क्या मुझे डायबिटीज़', 'क्या मुझे मधुमेह',
+];
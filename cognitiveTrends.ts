@@ -0,0 +1,143 @@
+import { GameSession, GameType, ScoreDirection } from '../types';
+import { MetricPoint } from './metricStats';
+import { addDays, fromDateKey, toDateKey } from './dateUtils';
+import { isBetter } from './gameStats';
+
+// Change over time in the user's game results. Each game (and level) gets a personal baseline from
+// the sessions before the recent window; a decline is flagged only when the recent sessions are
+// consistently worse than that baseline by more than its normal spread, over more than a few days.
+// This is a prompt to pay attention, not a clinical assessment.
+
+export const COGNITIVE_TREND_POLICY = {
+    // The window compared against the baseline.
+    recentDays: 14,
+    // Days of daily medians in each trend line.
+    chartDays: 45,
+    // The baseline uses at most this many of the latest sessions before the window, so it follows
+    // slow changes such as practice effects.
+    maxBaselineSessions: 20,
+    minBaselineSessions: 5,
+    minRecentSessions: 4,
+    // The first and last recent sessions must be at least this far apart.
+    minRecentSpanDays: 7,
+    // How far the recent median must sit beyond the baseline median, in baseline standard deviations.
+    declineSds: 1.5,
+    // The share of recent sessions that must be worse than the baseline median.
+    sustainedShare: 0.75,
+    // A floor on the baseline spread, as a fraction of its median, so a very steady baseline doesn't
+    // turn ordinary noise into a flag.
+    minRelativeSd: 0.05,
+};
+
+export interface CognitiveBaseline {
+    median: number;
+    sd: number;
+    sessions: number;
+}
+
+export interface CognitiveTrend {
+    gameType: GameType;
+    difficulty?: string;
+    direction: ScoreDirection;
+    baseline: CognitiveBaseline | null; // null until there are enough earlier sessions
+    recentMedian: number | null;
+    recentSessions: number;
+    slopePerWeek: number | null; // change in score per week across the recent window, by least squares
+    points: MetricPoint[]; // daily medians over the chart window, oldest first
+    declining: boolean;
+}
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const standardDeviation = (values: number[]) => {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(values.length - 1, 1));
+};
+
+const daysBetween = (from: string, to: string) => Math.round((fromDateKey(to).getTime() - fromDateKey(from).getTime()) / 86_400_000);
+
+const slope = (points: { x: number; y: number }[]): number | null => {
+    if (points.length < 2) return null;
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const spread = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+    return spread === 0 ? null : points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / spread;
+};
+
+// One point per day; the rolling average covers the trailing seven days' sessions.
+const dailyMedians = (sessions: { date: string; score: number }[], from: string, to: string): MetricPoint[] => {
+    const points: MetricPoint[] = [];
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+        const day = sessions.filter(s => s.date === date).map(s => s.score);
+        const trailing = sessions.filter(s => s.date > addDays(date, -7) && s.date <= date).map(s => s.score);
+        points.push({
+            date,
+            value: day.length > 0 ? median(day) : null,
+            rollingAverage: trailing.length > 0 ? trailing.reduce((sum, v) => sum + v, 0) / trailing.length : null,
+        });
+    }
+    return points;
+};
+
+const trendFor = (sessions: GameSession[], today: string): CognitiveTrend => {
+    const policy = COGNITIVE_TREND_POLICY;
+    const { gameType, difficulty, scoreDirection: direction } = sessions[0];
+    const dated = sessions
+        .map(s => ({ date: toDateKey(s.timestamp), score: s.score }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    const windowStart = addDays(today, -(policy.recentDays - 1));
+    const recent = dated.filter(s => s.date >= windowStart && s.date <= today);
+    const earlier = dated.filter(s => s.date < windowStart).slice(-policy.maxBaselineSessions).map(s => s.score);
+
+    let baseline: CognitiveBaseline | null = null;
+    if (earlier.length >= policy.minBaselineSessions) {
+        const baselineMedian = median(earlier);
+        baseline = {
+            median: baselineMedian,
+            sd: Math.max(standardDeviation(earlier), Math.abs(baselineMedian) * policy.minRelativeSd),
+            sessions: earlier.length,
+        };
+    }
+
+    const recentScores = recent.map(s => s.score);
+    const recentMedian = recentScores.length > 0 ? median(recentScores) : null;
+    const perDay = slope(recent.map(s => ({ x: daysBetween(windowStart, s.date), y: s.score })));
+
+    let declining = false;
+    if (baseline && recentMedian !== null && recent.length >= policy.minRecentSessions
+        && daysBetween(recent[0].date, recent[recent.length - 1].date) >= policy.minRecentSpanDays) {
+        const threshold = baseline.median + (direction === 'higher' ? -1 : 1) * policy.declineSds * baseline.sd;
+        const worseThanUsual = recentScores.filter(score => isBetter(baseline!.median, score, direction)).length;
+        declining = isBetter(threshold, recentMedian, direction) && worseThanUsual / recentScores.length >= policy.sustainedShare;
+    }
+
+    return {
+        gameType,
+        difficulty,
+        direction,
+        baseline,
+        recentMedian,
+        recentSessions: recent.length,
+        slopePerWeek: perDay === null ? null : perDay * 7,
+        points: dailyMedians(dated, addDays(today, -(policy.chartDays - 1)), today),
+        declining,
+    };
+};
+
+// One trend per game and level with completed sessions, declining ones first. `today` is a date key.
+export const analyzeCognitiveTrends = (sessions: GameSession[], today: string): CognitiveTrend[] => {
+    const groups = new Map<string, GameSession[]>();
+    sessions
+        .filter(session => session.status === 'completed')
+        .forEach(session => {
+            const key = `${session.gameType}:${session.difficulty ?? ''}`;
+            groups.set(key, [...(groups.get(key) ?? []), session]);
+        });
+    return [...groups.values()]
+        .map(group => trendFor(group, today))
+        .sort((a, b) => Number(b.declining) - Number(a.declining));
+};
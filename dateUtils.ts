@@ -0,0 +1,24 @@
+// Calendar dates are stored as 'YYYY-MM-DD' strings in the user's local timezone.
+
+export const toDateKey = (date: Date): string => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
+export const fromDateKey = (key: string): Date => {
+    const [y, m, d] = key.split('-').map(Number);
+    return new Date(y, m - 1, d);
+};
+
+export const addDays = (key: string, days: number): string => {
+    const date = fromDateKey(key);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+};
+
+export const todayKey = (): string => toDateKey(new Date());
+
+// Monday of the week containing `key`.
+export const weekStartKey = (key: string): string => addDays(key, -((fromDateKey(key).getDay() + 6) % 7));
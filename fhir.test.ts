@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DailyMetrics, HealthData, User } from '../types';
+import { buildFhirBundle, parseFhirBundle } from './fhir';
+
+const user: User = { id: '3f1c2a9e-7b4d-4e8a-9c61-2d5f0b7e8a13', email: 'asha@example.com', firstName: 'Asha', lastName: 'Rao', points: 0 };
+
+const health: HealthData = {
+    userId: user.id,
+    age: 52,
+    height: 168,
+    weight: 71.5,
+    gender: 'Female',
+    fitnessLevel: 'Intermediate',
+    existingConditions: 'Asthma, Hypertension',
+    allergies: 'Penicillin',
+    medications: '',
+    preferredLanguage: 'English',
+};
+
+const metrics: DailyMetrics[] = [
+    { userId: user.id, date: '2026-10-17', heartRate: 64, steps: 8200, sleepHours: 7.5, breathingRate: 14, distanceTravelled: 6.1, caloriesBurnt: 2100 },
+    { userId: user.id, date: '2026-10-18', heartRate: 61, steps: 10450 },
+];
+
+describe('FHIR Bundle', () => {
+    it('gives every resource a valid FHIR id', () => {
+        const bundle = buildFhirBundle(user, health, metrics);
+
+        for (const { fullUrl, resource } of bundle.entry) {
+            expect(resource.id).toMatch(/^[A-Za-z0-9\-.]{1,64}$/);
+            expect(fullUrl).toMatch(/^urn:uuid:/);
+        }
+        const ids = bundle.entry.map(({ resource }) => resource.id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('reads back what it exports', () => {
+        const bundle = JSON.parse(JSON.stringify(buildFhirBundle(user, health, metrics)));
+
+        const result = parseFhirBundle(bundle);
+
+        expect(result.skipped).toEqual([]);
+        expect(result.name).toEqual({ firstName: 'Asha', lastName: 'Rao' });
+        const { userId, ...profile } = health;
+        expect(result.health).toEqual(profile);
+        expect(result.metrics).toEqual(metrics.map(({ userId, ...entry }) => entry));
+    });
+
+    it('rejects a file that is not a Bundle', () => {
+        expect(() => parseFhirBundle({ resourceType: 'Patient' })).toThrow('not a FHIR Bundle');
+    });
+});
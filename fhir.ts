@@ -0,0 +1,276 @@
+import { User, HealthData, DailyMetrics } from '../types';
+import { MetricKey } from './metricFields';
+import { HealthProfile, FITNESS_LEVELS } from './healthProfile';
+import { todayKey } from './dateUtils';
+
+// Conversion between our records and FHIR R4 resources. Only the subset of each resource that we
+// produce or read is typed here.
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const ALLERGY_CLINICAL_STATUS = 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical';
+const CONDITION_CLINICAL_STATUS = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+// Patient extensions for profile fields that FHIR has no core element for.
+const EXTENSION_BASE = 'https://proactive-health-monitor.app/fhir/StructureDefinition';
+const AGE_EXTENSION = `${EXTENSION_BASE}/age`;
+const FITNESS_LEVEL_EXTENSION = `${EXTENSION_BASE}/fitness-level`;
+
+interface Coding { system: string; code: string; display?: string }
+interface CodeableConcept { coding?: Coding[]; text?: string }
+interface Quantity { value: number; unit?: string; system?: string; code?: string }
+interface Reference { reference: string }
+
+export interface FhirResource {
+    resourceType: string;
+    id?: string;
+    [key: string]: unknown;
+}
+
+export interface FhirBundle {
+    resourceType: 'Bundle';
+    type: 'collection';
+    timestamp: string;
+    entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+interface ObservationCode {
+    loinc: string;
+    display: string;
+    category: 'vital-signs' | 'activity';
+    ucum: string;
+    unit: string;
+}
+
+// LOINC codes and UCUM units for each tracked metric.
+export const OBSERVATION_CODES: Record<MetricKey, ObservationCode> = {
+    heartRate: { loinc: '8867-4', display: 'Heart rate', category: 'vital-signs', ucum: '/min', unit: 'beats/minute' },
+    breathingRate: { loinc: '9279-1', display: 'Respiratory rate', category: 'vital-signs', ucum: '/min', unit: 'breaths/minute' },
+    steps: { loinc: '41950-7', display: 'Number of steps in 24 hour Measured', category: 'activity', ucum: '/(24.h)', unit: 'steps/day' },
+    sleepHours: { loinc: '93832-4', display: 'Sleep duration', category: 'activity', ucum: 'h', unit: 'hours' },
+    distanceTravelled: { loinc: '41953-1', display: 'Distance traveled in 24 hour Measured', category: 'activity', ucum: 'km', unit: 'km' },
+    caloriesBurnt: { loinc: '41981-2', display: 'Calories burned', category: 'activity', ucum: 'kcal', unit: 'kcal' },
+};
+
+const BODY_WEIGHT = { loinc: '29463-7', display: 'Body weight', ucum: 'kg' };
+const BODY_HEIGHT = { loinc: '8302-2', display: 'Body height', ucum: 'cm' };
+
+// Multipliers from other UCUM units we may receive into the unit we store.
+const UNIT_CONVERSIONS: Record<string, Record<string, number>> = {
+    h: { min: 1 / 60, s: 1 / 3600 },
+    km: { m: 0.001, '[mi_i]': 1.609344 },
+    kcal: { kJ: 1 / 4.184 },
+    kg: { g: 0.001, '[lb_av]': 0.45359237 },
+    cm: { m: 100, '[in_i]': 2.54 },
+};
+
+const convert = (quantity: Quantity, target: string): number | null => {
+    const code = quantity.code ?? quantity.unit;
+    if (!code || code === target) return quantity.value;
+    const factor = UNIT_CONVERSIONS[target]?.[code];
+    return factor === undefined ? null : Math.round(quantity.value * factor * 100) / 100;
+};
+
+// FHIR ids are at most 64 characters, too short for the user id plus a metric and date. Resource ids
+// start with this 8-character FNV-1a hash of the user id instead; the fullUrl identifies each entry.
+const idPrefix = (userId: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < userId.length; i++) {
+        hash = Math.imul(hash ^ userId.charCodeAt(i), 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Free-text lists such as "Asthma, Diabetes" become one resource per item.
+const splitList = (text: string) => text.split(/[,;\n]/).map(item => item.trim()).filter(Boolean);
+
+const vitalCategory = (code: 'vital-signs' | 'activity'): CodeableConcept[] => [
+    { coding: [{ system: OBSERVATION_CATEGORY, code, display: code === 'vital-signs' ? 'Vital Signs' : 'Activity' }] },
+];
+
+const observation = (id: string, subject: Reference, code: { loinc: string; display: string }, category: 'vital-signs' | 'activity', effective: string, quantity: Quantity): FhirResource => ({
+    resourceType: 'Observation',
+    id,
+    status: 'final',
+    category: vitalCategory(category),
+    code: { coding: [{ system: LOINC, code: code.loinc, display: code.display }], text: code.display },
+    subject,
+    effectiveDateTime: effective,
+    valueQuantity: quantity,
+});
+
+export const buildFhirBundle = (user: User, health: HealthData | null, metrics: DailyMetrics[]): FhirBundle => {
+    const patientUrl = `urn:uuid:${crypto.randomUUID()}`;
+    const subject: Reference = { reference: patientUrl };
+    const today = todayKey();
+    const prefix = idPrefix(user.id);
+    const entries: { fullUrl: string; resource: FhirResource }[] = [];
+    const add = (resource: FhirResource) => entries.push({
+        fullUrl: resource.resourceType === 'Patient' ? patientUrl : `urn:uuid:${crypto.randomUUID()}`,
+        resource,
+    });
+
+    add({
+        resourceType: 'Patient',
+        id: user.id,
+        name: [{ given: [user.firstName], family: user.lastName }],
+        telecom: [{ system: 'email', value: user.email }],
+        ...(health && {
+            gender: health.gender.toLowerCase(),
+            communication: [{ language: { text: health.preferredLanguage }, preferred: true }],
+            extension: [
+                { url: AGE_EXTENSION, valueInteger: health.age },
+                { url: FITNESS_LEVEL_EXTENSION, valueString: health.fitnessLevel },
+            ],
+        }),
+    });
+
+    if (health) {
+        splitList(health.existingConditions).forEach((text, i) => add({
+            resourceType: 'Condition',
+            id: `${prefix}-condition-${i + 1}`,
+            clinicalStatus: { coding: [{ system: CONDITION_CLINICAL_STATUS, code: 'active' }] },
+            code: { text },
+            subject,
+        }));
+        splitList(health.allergies).forEach((text, i) => add({
+            resourceType: 'AllergyIntolerance',
+            id: `${prefix}-allergy-${i + 1}`,
+            clinicalStatus: { coding: [{ system: ALLERGY_CLINICAL_STATUS, code: 'active' }] },
+            code: { text },
+            patient: subject,
+        }));
+        splitList(health.medications).forEach((text, i) => add({
+            resourceType: 'MedicationStatement',
+            id: `${prefix}-medication-${i + 1}`,
+            status: 'active',
+            medicationCodeableConcept: { text },
+            subject,
+        }));
+        add(observation(`${prefix}-weight`, subject, BODY_WEIGHT, 'vital-signs', today, { value: health.weight, unit: 'kg', system: UCUM, code: BODY_WEIGHT.ucum }));
+        add(observation(`${prefix}-height`, subject, BODY_HEIGHT, 'vital-signs', today, { value: health.height, unit: 'cm', system: UCUM, code: BODY_HEIGHT.ucum }));
+    }
+
+    metrics.forEach(entry => {
+        (Object.keys(OBSERVATION_CODES) as MetricKey[]).forEach(key => {
+            const value = entry[key];
+            if (value == null) return;
+            const code = OBSERVATION_CODES[key];
+            add(observation(`${prefix}-${key}-${entry.date}`, subject, code, code.category, entry.date, { value, unit: code.unit, system: UCUM, code: code.ucum }));
+        });
+    });
+
+    return { resourceType: 'Bundle', type: 'collection', timestamp: new Date().toISOString(), entry: entries };
+};
+
+// --- Import ---
+
+export interface FhirImportResult {
+    name: { firstName?: string; lastName?: string };
+    // Only present when the bundle has a Patient with the fields needed for a complete profile.
+    health: HealthProfile | null;
+    metrics: Omit<DailyMetrics, 'userId'>[];
+    // Resources that were skipped, with the reason, for display to the user.
+    skipped: string[];
+}
+
+const textOf = (concept: CodeableConcept | undefined) => concept?.text ?? concept?.coding?.[0]?.display ?? '';
+
+export const parseFhirBundle = (json: unknown): FhirImportResult => {
+    const bundle = json as Partial<FhirBundle> | null;
+    if (!bundle || bundle.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+        throw new Error('This file is not a FHIR Bundle.');
+    }
+
+    const result: FhirImportResult = { name: {}, health: null, metrics: [], skipped: [] };
+    const conditions: string[] = [];
+    const allergies: string[] = [];
+    const medications: string[] = [];
+    const byDate = new Map<string, Omit<DailyMetrics, 'userId'>>();
+    let patient: FhirResource | null = null;
+    let weight: number | null = null;
+    let height: number | null = null;
+
+    bundle.entry.forEach(({ resource }, index) => {
+        const label = `${resource?.resourceType ?? 'Entry'} ${resource?.id ?? `#${index + 1}`}`;
+        switch (resource?.resourceType) {
+            case 'Patient':
+                patient = resource;
+                break;
+            case 'Condition':
+                conditions.push(textOf(resource.code as CodeableConcept));
+                break;
+            case 'AllergyIntolerance':
+                allergies.push(textOf(resource.code as CodeableConcept));
+                break;
+            case 'MedicationStatement':
+                medications.push(textOf(resource.medicationCodeableConcept as CodeableConcept));
+                break;
+            case 'Observation': {
+                const loinc = (resource.code as CodeableConcept | undefined)?.coding?.find(c => c.system === LOINC)?.code;
+                const quantity = resource.valueQuantity as Quantity | undefined;
+                const date = typeof resource.effectiveDateTime === 'string' ? resource.effectiveDateTime.slice(0, 10) : null;
+                if (!loinc || !quantity || typeof quantity.value !== 'number' || !date) {
+                    result.skipped.push(`${label}: missing LOINC code, value or date.`);
+                    break;
+                }
+                if (loinc === BODY_WEIGHT.loinc) {
+                    weight = convert(quantity, BODY_WEIGHT.ucum);
+                    break;
+                }
+                if (loinc === BODY_HEIGHT.loinc) {
+                    height = convert(quantity, BODY_HEIGHT.ucum);
+                    break;
+                }
+                const key = (Object.keys(OBSERVATION_CODES) as MetricKey[]).find(k => OBSERVATION_CODES[k].loinc === loinc);
+                if (!key) {
+                    result.skipped.push(`${label}: LOINC ${loinc} is not a tracked metric.`);
+                    break;
+                }
+                // Steps and breathing/heart rates are counts per time; their unit codes vary too much to convert.
+                const value = ['steps', 'heartRate', 'breathingRate'].includes(key) ? quantity.value : convert(quantity, OBSERVATION_CODES[key].ucum);
+                if (value === null) {
+                    result.skipped.push(`${label}: unsupported unit "${quantity.code ?? quantity.unit}".`);
+                    break;
+                }
+                const entry = byDate.get(date) ?? { date };
+                entry[key] = value;
+                byDate.set(date, entry);
+                break;
+            }
+            default:
+                result.skipped.push(`${label}: resource type is not supported.`);
+        }
+    });
+
+    const p = patient as FhirResource | null;
+    if (p) {
+        const name = (p.name as { given?: string[]; family?: string }[] | undefined)?.[0];
+        result.name = { firstName: name?.given?.join(' '), lastName: name?.family };
+
+        const extensions = (p.extension as { url: string; valueInteger?: number; valueString?: string }[] | undefined) ?? [];
+        const age = extensions.find(e => e.url === AGE_EXTENSION)?.valueInteger;
+        const fitnessLevel = extensions.find(e => e.url === FITNESS_LEVEL_EXTENSION)?.valueString as HealthData['fitnessLevel'] | undefined;
+        const gender = typeof p.gender === 'string' ? p.gender.charAt(0).toUpperCase() + p.gender.slice(1) : undefined;
+        const language = (p.communication as { language?: CodeableConcept }[] | undefined)?.[0]?.language;
+
+        if (age !== undefined && weight !== null && height !== null && fitnessLevel && FITNESS_LEVELS.includes(fitnessLevel)) {
+            result.health = {
+                age,
+                height,
+                weight,
+                gender: gender === 'Male' || gender === 'Female' ? gender : 'Other',
+                fitnessLevel,
+                existingConditions: conditions.filter(Boolean).join(', '),
+                allergies: allergies.filter(Boolean).join(', '),
+                medications: medications.filter(Boolean).join(', '),
+                preferredLanguage: textOf(language) || 'English',
+            };
+        } else {
+            result.skipped.push('Patient: age, height, weight or fitness level is missing, so the health profile was not imported.');
+        }
+    }
+
+    result.metrics = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    return result;
+};
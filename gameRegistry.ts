@@ -0,0 +1,47 @@
+import type { ComponentType } from 'react';
+import { GameSession, GameType, ScoreDirection } from '../types';
+import { LanguageCode, MessageKey } from './i18n';
+
+// Every game on the Engagement menu is described by a GameDefinition. The menu, the game screens,
+// saving sessions, points and the stats and trends all read these definitions, so a new assessment
+// is a module that exports one, added to the list registered in App.tsx.
+
+// What a game reports when it ends. The page adds the user, the game type and the score direction.
+export type GameResult = Pick<GameSession, 'score' | 'durationMs' | 'difficulty' | 'status' | 'details'>;
+
+export interface GameComponentProps {
+    onGameEnd: (result: GameResult) => void;
+}
+
+export interface GameDefinition {
+    id: GameType; // saved with every session, so it must never change once released
+    titleKey: MessageKey;
+    descriptionKey: MessageKey;
+    component: ComponentType<GameComponentProps>;
+    scoring: {
+        direction: ScoreDirection;
+        // A message with a {count} placeholder, such as "{count} tries".
+        unitKey: MessageKey;
+    };
+    // Points for a completed session.
+    points: (result: GameResult) => number;
+    // For games with levels: how a stored difficulty reads.
+    difficultyLabel?: (language: LanguageCode, difficulty: string) => string;
+}
+
+const registry = new Map<GameType, GameDefinition>();
+
+// Games are listed in the order they are registered.
+export const registerGames = (games: GameDefinition[]) => {
+    games.forEach(game => {
+        if (registry.has(game.id)) {
+            throw new Error(`A game with the id "${game.id}" is already registered.`);
+        }
+        registry.set(game.id, game);
+    });
+};
+
+// Undefined for sessions of games that have since been removed.
+export const getGame = (id: GameType): GameDefinition | undefined => registry.get(id);
+
+export const listGames = (): GameDefinition[] => [...registry.values()];
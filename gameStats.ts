@@ -0,0 +1,79 @@
+import { GameSession, GameType, ScoreDirection } from '../types';
+import { LanguageCode, translate } from './i18n';
+import { getGame } from './gameRegistry';
+
+// Sessions of games no longer registered show their stored id and values as is.
+export const gameTitle = (language: LanguageCode, gameType: GameType) => {
+    const game = getGame(gameType);
+    return game ? translate(language, game.titleKey) : gameType;
+};
+
+// Level names are game-specific; games without named levels show the stored value as is.
+export const difficultyLabel = (language: LanguageCode, gameType: GameType, difficulty: string) =>
+    getGame(gameType)?.difficultyLabel?.(language, difficulty) ?? difficulty;
+
+// "12 tries", "310 ms". Fractional scores, such as medians of several sessions, are rounded.
+export const formatGameScore = (language: LanguageCode, gameType: GameType, score: number) => {
+    const game = getGame(gameType);
+    const count = Math.round(score);
+    return game ? translate(language, game.scoring.unitKey, { count }) : String(count);
+};
+
+// The direction for sessions saved before it was stored with them.
+export const defaultScoreDirection = (gameType: GameType): ScoreDirection => getGame(gameType)?.scoring.direction ?? 'higher';
+
+// Sessions shown under each game on the menu.
+export const RECENT_SESSION_COUNT = 5;
+
+// Percentiles from a handful of sessions say more about luck than progress.
+export const MIN_SESSIONS_FOR_PERCENTILE = 3;
+
+export interface GameStats {
+    gameType: GameType;
+    difficulty?: string; // stats compare sessions at the same level only
+    best: GameSession | null; // the personal best among completed sessions
+    recent: GameSession[]; // newest first, abandoned ones included
+    latestPercentile: number | null; // 0–100; see percentileAgainst
+    completedCount: number;
+}
+
+export const isBetter = (a: number, b: number, direction: ScoreDirection) => (direction === 'higher' ? a > b : a < b);
+
+// The share of `history` that `score` beats, as a percentage, with ties counting half. Null when
+// there is too little history to compare against.
+export const percentileAgainst = (score: number, history: number[], direction: ScoreDirection): number | null => {
+    if (history.length < MIN_SESSIONS_FOR_PERCENTILE) return null;
+    const beaten = history.filter(other => isBetter(score, other, direction)).length;
+    const tied = history.filter(other => other === score).length;
+    return Math.round(((beaten + tied / 2) / history.length) * 100);
+};
+
+const statsFor = (sessions: GameSession[]): GameStats => {
+    const { gameType, difficulty } = sessions[0];
+    const completed = sessions.filter(session => session.status === 'completed');
+    const best = completed.reduce<GameSession | null>(
+        (current, session) => (!current || isBetter(session.score, current.score, session.scoreDirection) ? session : current),
+        null,
+    );
+    const [latest, ...earlier] = completed;
+    return {
+        gameType,
+        difficulty,
+        best,
+        recent: sessions.slice(0, RECENT_SESSION_COUNT),
+        latestPercentile: latest ? percentileAgainst(latest.score, earlier.map(session => session.score), latest.scoreDirection) : null,
+        completedCount: completed.length,
+    };
+};
+
+// One entry per game and level played, most recently played first.
+export const summarizeGameHistory = (sessions: GameSession[]): GameStats[] => {
+    const groups = new Map<string, GameSession[]>();
+    [...sessions]
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+        .forEach(session => {
+            const key = `${session.gameType}:${session.difficulty ?? ''}`;
+            groups.set(key, [...(groups.get(key) ?? []), session]);
+        });
+    return [...groups.values()].map(statsFor);
+};
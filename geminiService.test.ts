@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { HealthData } from '../types';
+import { GoalRequest } from './goalProvider';
+import { GOAL_CONTRACT_VERSION } from './goalContract';
+import { createGeminiGoalProvider, GeminiModelClient, isUsableGeminiKey } from './geminiService';
+import { generateGoals } from './goalGeneration';
+
+// The stub stands in for the Gemini models API; each test sets the text it answers with.
+const stub = vi.hoisted(() => ({ generateContent: vi.fn<GeminiModelClient['generateContent']>() }));
+
+// generateGoals picks providers from its own list, so swap in a Gemini provider backed by the stub.
+vi.mock('./geminiService', async importOriginal => {
+    const actual = await importOriginal<typeof import('./geminiService')>();
+    return { ...actual, geminiGoalProvider: actual.createGeminiGoalProvider(() => stub, () => true) };
+});
+
+const health: HealthData = {
+    userId: 'user-1',
+    age: 40,
+    height: 175,
+    weight: 80,
+    gender: 'Female',
+    fitnessLevel: 'Beginner',
+    existingConditions: '',
+    allergies: '',
+    medications: '',
+    preferredLanguage: 'en',
+};
+
+const request: GoalRequest = { userId: 'user-1', health, recentMetrics: [], language: 'en' };
+
+const walkGoal = {
+    goal: 'Walk 8,000 steps a day',
+    category: 'Exercise',
+    difficulty: 'Medium',
+    rationale: 'Your step count has been below 5,000.',
+    durationDays: 7,
+    recurrence: { type: 'weekly', timesPerWeek: 5 },
+    metricTarget: { metric: 'steps', comparator: 'atLeast', value: 8000, days: 5 },
+};
+
+const respondWith = (text: string) => stub.generateContent.mockResolvedValue({ text });
+
+const provider = createGeminiGoalProvider(() => stub, () => true);
+
+beforeEach(() => {
+    stub.generateContent.mockReset();
+});
+
+describe('isUsableGeminiKey', () => {
+    it('treats a missing, blank or placeholder key as unconfigured', () => {
+        expect(isUsableGeminiKey(undefined)).toBe(false);
+        expect(isUsableGeminiKey('  ')).toBe(false);
+        expect(isUsableGeminiKey('PLACEHOLDER_API_KEY')).toBe(false);
+        expect(isUsableGeminiKey('AIza-real-key')).toBe(true);
+    });
+});
+
+describe('Gemini goal provider', () => {
+    it('requests JSON matching the goal schema and returns valid goals', async () => {
+        respondWith(JSON.stringify({ version: GOAL_CONTRACT_VERSION, goals: [walkGoal] }));
+
+        const result = await provider.generate(request);
+
+        const params = stub.generateContent.mock.calls[0][0];
+        expect(params.config?.responseMimeType).toBe('application/json');
+        expect(params.config?.responseJsonSchema).toBeDefined();
+        expect(result.error).toBeUndefined();
+        expect(result.issues).toEqual([]);
+        expect(result.goals).toEqual([{
+            goal: walkGoal.goal,
+            category: 'Exercise',
+            difficulty: 'Medium',
+            rationale: walkGoal.rationale,
+            durationDays: 7,
+            recurrence: { type: 'weekly', timesPerWeek: 5 },
+            metricTarget: { metric: 'steps', comparator: 'atLeast', value: 8000, days: 5 },
+        }]);
+    });
+
+    it('reports a response that is not valid JSON', async () => {
+        respondWith('{"version": 1, "goals": [');
+
+        const result = await provider.generate(request);
+
+        expect(result.goals).toEqual([]);
+        expect(result.error).toMatch(/not valid JSON/);
+    });
+
+    it('drops goals with values outside the schema enums and keeps the rest', async () => {
+        respondWith(JSON.stringify({
+            version: GOAL_CONTRACT_VERSION,
+            goals: [walkGoal, { ...walkGoal, category: 'Cardio' }, { ...walkGoal, difficulty: 'Extreme' }],
+        }));
+
+        const result = await provider.generate(request);
+
+        expect(result.goals).toHaveLength(1);
+        expect(result.issues.map(issue => issue.location)).toEqual(['goals[1].category', 'goals[2].difficulty']);
+    });
+
+    it('reports an empty reply', async () => {
+        stub.generateContent.mockResolvedValue({});
+
+        const result = await provider.generate(request);
+
+        expect(result.goals).toEqual([]);
+        expect(result.error).toBe('The response was empty.');
+    });
+});
+
+describe('generateGoals with Gemini preferred', () => {
+    it('uses the Gemini goals when the response is valid', async () => {
+        respondWith(JSON.stringify({ version: GOAL_CONTRACT_VERSION, goals: [walkGoal] }));
+
+        const result = await generateGoals(request, 'gemini');
+
+        expect(result.source).toBe('gemini');
+        expect(result.fallback).toBeUndefined();
+        expect(result.goals.map(goal => goal.goal)).toEqual([walkGoal.goal]);
+        expect(result.goals[0].source).toBe('gemini');
+    });
+
+    it('falls back to on-device goals when every Gemini goal is invalid', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        respondWith(JSON.stringify({ version: GOAL_CONTRACT_VERSION, goals: [{ ...walkGoal, category: 'Cardio' }] }));
+
+        const result = await generateGoals(request, 'gemini');
+
+        expect(result.source).toBe('local');
+        expect(result.goals.length).toBeGreaterThan(0);
+        expect(result.fallback?.from.id).toBe('gemini');
+        expect(result.fallback?.issues.map(issue => issue.location)).toEqual(['goals[0].category']);
+    });
+
+    it('falls back to on-device goals when the client throws', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        stub.generateContent.mockRejectedValue(new Error('quota exceeded'));
+
+        const result = await generateGoals(request, 'gemini');
+
+        expect(result.source).toBe('local');
+        expect(result.fallback?.error).toBe('quota exceeded');
+    });
+});
@@ -1,53 +1,66 @@
-import { Recommendation } from '../types';
-
-const N8N_GOAL_WEBHOOK_URL = 'https://shreyopb.app.n8n.cloud/webhook/cb52693f-9da6-4d2c-99e4-8549f15bac40/';
-
-// This function now fetches goals from the n8n workflow instead of Gemini
-export const fetchHealthGoalsFromN8n = async (userId: string): Promise<Omit<Recommendation, 'id' | 'userId' | 'isCompleted'>[]> => {
-    try {
-        const response = await fetch(`${N8N_GOAL_WEBHOOK_URL}${userId}`);
-        if (!response.ok) {
-            throw new Error(`n8n workflow failed with status: ${response.status}`);
-        }
-        
-        const text = await response.text();
-        
-        // Parse the text response. Assuming format: "Goal Text;Category;Difficulty" on each line.
-        const lines = text.trim().split('\n').filter(line => line.length > 0);
-
-        const goals = lines.map(line => {
-            const parts = line.split(';');
-            if (parts.length !== 3) {
-                console.warn(`Skipping malformed goal line: ${line}`);
-                return null;
-            }
-            const [goal, category, difficulty] = parts;
-
-            // Basic validation for category and difficulty
-            const validCategories = ['Diet', 'Exercise', 'Mental Health', 'General'];
-            const validDifficulties = ['Easy', 'Medium', 'Hard'];
-
-            if (!validCategories.includes(category) || !validDifficulties.includes(difficulty)) {
-                console.warn(`Skipping goal with invalid category/difficulty: ${line}`);
-                return null;
-            }
-
-            return {
-                goal: goal.trim(),
-                category: category.trim() as Recommendation['category'],
-                difficulty: difficulty.trim() as Recommendation['difficulty'],
-            };
-        }).filter((goal): goal is NonNullable<typeof goal> => goal !== null);
-
-        if (goals.length === 0 && lines.length > 0) {
-            throw new Error("Failed to parse any goals from n8n response.");
-        }
-
-        return goals;
-
-    } catch (error) {
-        console.error("Error fetching or parsing goals from n8n:", error);
-        // Return an empty array or a default message on error
-        return [];
-    }
-};
\ No newline at end of file
+import { GoogleGenAI, GenerateContentParameters } from '@google/genai';
+import { describeHealthData } from './healthSummary';
+import { GoalProvider } from './goalProvider';
+import type { AssistantModelClient } from './assistant';
+import { GOAL_CONTRACT_VERSION, GOAL_RESPONSE_SCHEMA, parseGoalResponse } from './goalContract';
+import { getLanguage } from './i18n';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+// The part of the GoogleGenAI client used here. `new GoogleGenAI(...).models` satisfies it, and tests
+// can pass a stub that returns canned text.
+export interface GeminiModelClient {
+    generateContent: (params: GenerateContentParameters) => Promise<{ text?: string }>;
+}
+
+// .env.local ships with this value, so a checkout that was never given a key reads as unconfigured.
+const PLACEHOLDER_API_KEY = 'PLACEHOLDER_API_KEY';
+
+export const isUsableGeminiKey = (key: string | undefined) => !!key?.trim() && key.trim() !== PLACEHOLDER_API_KEY;
+
+export const isGeminiConfigured = () => isUsableGeminiKey(process.env.API_KEY);
+
+export const createGeminiGoalProvider = (getClient: () => GeminiModelClient, isAvailable = isGeminiConfigured): GoalProvider => ({
+    id: 'gemini',
+    label: 'Gemini',
+    description: 'Goals written by Google Gemini. Your health profile and recent metrics are sent to Google to generate them.',
+    isAvailable,
+    generate: async (request) => {
+        const response = await getClient().generateContent({
+            model: GEMINI_MODEL,
+            contents: describeHealthData(request.health, request.recentMetrics).join('\n'),
+            config: {
+                systemInstruction: 'You are a health coach. Suggest 4 to 6 safe, specific daily or weekly health goals for this person, ' +
+                    'covering several categories at mixed difficulties. Respect their conditions, allergies and medications, and never give medical advice. ' +
+                    'Make repeatable habits (such as drinking water or a daily walk) recurring rather than one-off. ' +
+                    `Explain each goal in its rationale, and add a metricTarget when a tracked metric would show it was met. Set version to ${GOAL_CONTRACT_VERSION}. ` +
+                    `Write the goal and rationale text in ${getLanguage(request.language).name}, but keep category, difficulty and other enum values exactly as the schema lists them.`,
+                responseMimeType: 'application/json',
+                responseJsonSchema: GOAL_RESPONSE_SCHEMA,
+            },
+        });
+        return parseGoalResponse(response.text ?? '');
+    },
+});
+
+// Chat replies for the health assistant. Guardrails run in assistant.ts before this is called.
+export const createGeminiAssistantClient = (getClient: () => GeminiModelClient): AssistantModelClient => ({
+    reply: async ({ systemInstruction, turns }) => {
+        const response = await getClient().generateContent({
+            model: GEMINI_MODEL,
+            contents: turns.map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.content }] })),
+            config: { systemInstruction },
+        });
+        return response.text ?? '';
+    },
+});
+
+// The real client is created on first use so builds without an API key never construct it.
+let client: GoogleGenAI | null = null;
+const getModels = () => {
+    client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+    return client.models;
+};
+
+export const geminiGoalProvider = createGeminiGoalProvider(getModels);
+export const geminiAssistantClient = createGeminiAssistantClient(getModels);
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { GOAL_CONTRACT_VERSION, parseGoalResponse } from './goalContract';
+
+const walkGoal = {
+    goal: 'Walk 8,000 steps a day',
+    category: 'Exercise',
+    difficulty: 'Medium',
+    rationale: 'Your step count has been below 5,000.',
+    durationDays: 7,
+};
+
+const respond = (...goals: object[]) => parseGoalResponse(JSON.stringify({ version: GOAL_CONTRACT_VERSION, goals }));
+
+describe('parseGoalResponse', () => {
+    it('accepts durations and lengths exactly at the limits', () => {
+        const result = respond(
+            { ...walkGoal, durationDays: 1 },
+            { ...walkGoal, durationDays: 90, goal: 'g'.repeat(200), rationale: 'r'.repeat(500) },
+        );
+
+        expect(result.issues).toEqual([]);
+        expect(result.goals.map(goal => goal.durationDays)).toEqual([1, 90]);
+    });
+
+    it('rejects durations and lengths just past the limits', () => {
+        const result = respond(
+            { ...walkGoal, durationDays: 0 },
+            { ...walkGoal, durationDays: 91 },
+            { ...walkGoal, durationDays: 7.5 },
+            { ...walkGoal, goal: 'g'.repeat(201) },
+            { ...walkGoal, rationale: '   ' },
+        );
+
+        expect(result.goals).toEqual([]);
+        expect(result.issues).toEqual([
+            { location: 'goals[0].durationDays', message: 'must be at least 1' },
+            { location: 'goals[1].durationDays', message: 'must be at most 90' },
+            { location: 'goals[2].durationDays', message: 'expected integer, got number' },
+            { location: 'goals[3].goal', message: 'must be at most 200 characters' },
+            { location: 'goals[4].rationale', message: 'must not be empty' },
+        ]);
+    });
+
+    it('requires timesPerWeek for weekly goals and drops unknown recurrence fields', () => {
+        const result = respond(
+            { ...walkGoal, recurrence: { type: 'weekly' } },
+            { ...walkGoal, recurrence: { type: 'daily', timesPerWeek: 3 } },
+        );
+
+        expect(result.issues).toEqual([{ location: 'goals[0].recurrence.timesPerWeek', message: 'is required for weekly goals' }]);
+        expect(result.goals[0].recurrence).toEqual({ type: 'daily' });
+    });
+
+    it('rejects other contract versions', () => {
+        const result = parseGoalResponse(JSON.stringify({ version: 2, goals: [walkGoal] }));
+
+        expect(result.goals).toEqual([]);
+        expect(result.error).toMatch(/Unsupported goal response version 2/);
+    });
+
+    it('reads legacy goal;category;difficulty lines', () => {
+        const result = parseGoalResponse('Drink water; then tea;diet;EASY\nStretch;Yoga;Easy\n');
+
+        expect(result.format).toBe('legacy-lines');
+        expect(result.goals).toEqual([{ goal: 'Drink water; then tea', category: 'Diet', difficulty: 'Easy' }]);
+        expect(result.issues).toEqual([{ location: 'line 2', message: 'unknown category "Yoga"' }]);
+    });
+});
@@ -0,0 +1,217 @@
+import { Recommendation } from '../types';
+import { METRIC_FIELDS } from './metricFields';
+import { GeneratedGoal, GoalParseIssue, GoalProviderResult } from './goalProvider';
+
+// The response format goal providers are expected to return. Version 1:
+//
+//   { "version": 1, "goals": [{ "goal": "Walk 8,000 steps a day", "category": "Exercise", "difficulty": "Medium",
+//       "rationale": "...", "durationDays": 7, "recurrence": { "type": "weekly", "timesPerWeek": 5 },
+//       "metricTarget": { "metric": "steps", "comparator": "atLeast", "value": 8000, "days": 5 } }] }
+//
+// `recurrence` and `metricTarget` are optional; a goal without `recurrence` is done once.
+//
+// Plain-text "goal;category;difficulty" lines from older n8n workflows are still accepted.
+
+export const GOAL_CONTRACT_VERSION = 1;
+
+const CATEGORIES: Recommendation['category'][] = ['Diet', 'Exercise', 'Mental Health', 'General'];
+const DIFFICULTIES: Recommendation['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+const MAX_DURATION_DAYS = 90;
+
+// --- Schema ---
+
+// The subset of JSON Schema understood by validateSchema below (and by Gemini's structured output).
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: (string | number)[];
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+}
+
+export const GOAL_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        goal: { type: 'string', minLength: 1, maxLength: 200, description: 'One concrete, achievable action.' },
+        category: { type: 'string', enum: CATEGORIES },
+        difficulty: { type: 'string', enum: DIFFICULTIES },
+        rationale: { type: 'string', minLength: 1, maxLength: 500, description: 'Why this goal suits the person, citing their data.' },
+        durationDays: { type: 'integer', minimum: 1, maximum: MAX_DURATION_DAYS, description: 'How many days the goal should run.' },
+        recurrence: {
+            type: 'object',
+            description: 'For habits: repeat daily, or timesPerWeek times each week. Omit for one-off goals.',
+            properties: {
+                type: { type: 'string', enum: ['daily', 'weekly'] },
+                timesPerWeek: { type: 'integer', minimum: 1, maximum: 7 },
+            },
+            required: ['type'],
+        },
+        metricTarget: {
+            type: 'object',
+            description: 'Optional target on a tracked daily metric that shows the goal was met.',
+            properties: {
+                metric: { type: 'string', enum: METRIC_FIELDS.map(field => field.key) },
+                comparator: { type: 'string', enum: ['atLeast', 'atMost'] },
+                value: { type: 'number', minimum: 0 },
+                days: { type: 'integer', minimum: 1, maximum: MAX_DURATION_DAYS, description: 'Days on which the target must be met.' },
+            },
+            required: ['metric', 'comparator', 'value', 'days'],
+        },
+    },
+    required: ['goal', 'category', 'difficulty', 'rationale', 'durationDays'],
+};
+
+export const GOAL_RESPONSE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        version: { type: 'integer', enum: [GOAL_CONTRACT_VERSION] },
+        goals: { type: 'array', minItems: 1, maxItems: 10, items: GOAL_SCHEMA },
+    },
+    required: ['version', 'goals'],
+};
+
+const typeOf = (value: unknown) =>
+    Array.isArray(value) ? 'array' : value === null ? 'null' : Number.isInteger(value) ? 'integer' : typeof value;
+
+// Returns every way `value` fails `schema`; an empty list means it is valid.
+export const validateSchema = (value: unknown, schema: JsonSchema, path = ''): GoalParseIssue[] => {
+    const at = path || '(root)';
+    const actual = typeOf(value);
+    if (schema.type && actual !== schema.type && !(schema.type === 'number' && actual === 'integer')) {
+        return [{ location: at, message: `expected ${schema.type}, got ${actual}` }];
+    }
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+        return [{ location: at, message: `must be one of ${schema.enum.join(', ')}; got ${JSON.stringify(value)}` }];
+    }
+
+    const issues: GoalParseIssue[] = [];
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.trim().length < schema.minLength) issues.push({ location: at, message: 'must not be empty' });
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) issues.push({ location: at, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) issues.push({ location: at, message: `must be at least ${schema.minimum}` });
+        if (schema.maximum !== undefined && value > schema.maximum) issues.push({ location: at, message: `must be at most ${schema.maximum}` });
+    }
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) issues.push({ location: at, message: `must have at least ${schema.minItems} item(s)` });
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) issues.push({ location: at, message: `must have at most ${schema.maxItems} item(s)` });
+        if (schema.items) value.forEach((item, i) => issues.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+    if (actual === 'object') {
+        const record = value as Record<string, unknown>;
+        schema.required?.forEach(key => {
+            if (record[key] === undefined) issues.push({ location: path ? `${path}.${key}` : key, message: 'is required' });
+        });
+        Object.entries(schema.properties ?? {}).forEach(([key, propertySchema]) => {
+            if (record[key] !== undefined) issues.push(...validateSchema(record[key], propertySchema, path ? `${path}.${key}` : key));
+        });
+    }
+    return issues;
+};
+
+// --- Parsing ---
+
+export type GoalResponseFormat = 'json' | 'legacy-lines';
+
+export interface GoalParseResult extends GoalProviderResult {
+    format: GoalResponseFormat;
+    version?: number;
+}
+
+const parseJsonResponse = (text: string): GoalParseResult => {
+    const result: GoalParseResult = { format: 'json', goals: [], issues: [] };
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (e: any) {
+        return { ...result, error: `The response is not valid JSON: ${e.message}` };
+    }
+
+    if (typeof data?.version === 'number') result.version = data.version;
+    if (data?.version !== undefined && data.version !== GOAL_CONTRACT_VERSION) {
+        return { ...result, error: `Unsupported goal response version ${JSON.stringify(data.version)} (expected ${GOAL_CONTRACT_VERSION}).` };
+    }
+    // Check the envelope first, then each goal on its own so one bad goal doesn't discard the rest.
+    const envelopeIssues = validateSchema(data, { ...GOAL_RESPONSE_SCHEMA, properties: { ...GOAL_RESPONSE_SCHEMA.properties, goals: { type: 'array', minItems: 1 } } });
+    if (envelopeIssues.length > 0) {
+        return { ...result, issues: envelopeIssues, error: 'The response does not match the goal format.' };
+    }
+
+    (data.goals as unknown[]).forEach((item, index) => {
+        const issues = validateSchema(item, GOAL_SCHEMA, `goals[${index}]`);
+        const recurrence = (item as GeneratedGoal).recurrence;
+        if (recurrence?.type === 'weekly' && recurrence.timesPerWeek === undefined) {
+            issues.push({ location: `goals[${index}].recurrence.timesPerWeek`, message: 'is required for weekly goals' });
+        }
+        if (issues.length > 0) {
+            result.issues.push(...issues);
+            return;
+        }
+        const goal = item as Required<GeneratedGoal>;
+        result.goals.push({
+            goal: goal.goal.trim(),
+            category: goal.category,
+            difficulty: goal.difficulty,
+            rationale: goal.rationale.trim(),
+            durationDays: goal.durationDays,
+            ...(goal.recurrence ? {
+                recurrence: goal.recurrence.type === 'weekly'
+                    ? { type: 'weekly' as const, timesPerWeek: goal.recurrence.timesPerWeek }
+                    : { type: 'daily' as const },
+            } : {}),
+            ...(goal.metricTarget ? { metricTarget: {
+                metric: goal.metricTarget.metric,
+                comparator: goal.metricTarget.comparator,
+                value: goal.metricTarget.value,
+                days: goal.metricTarget.days,
+            } } : {}),
+        });
+    });
+    return result;
+};
+
+const matchEnum = <T extends string>(options: T[], raw: string): T | undefined =>
+    options.find(option => option.toLowerCase() === raw.toLowerCase());
+
+// "goal;category;difficulty" per line. Category and difficulty are taken from the end of the line,
+// so goal text may itself contain semicolons.
+const parseLegacyLines = (text: string): GoalParseResult => {
+    const result: GoalParseResult = { format: 'legacy-lines', goals: [], issues: [] };
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (!line) return;
+        const location = `line ${index + 1}`;
+        const parts = line.split(';');
+        if (parts.length < 3) {
+            result.issues.push({ location, message: `expected "goal;category;difficulty", got "${line}"` });
+            return;
+        }
+        const rawDifficulty = parts.pop()!.trim();
+        const rawCategory = parts.pop()!.trim();
+        const goal = parts.join(';').trim();
+        const category = matchEnum(CATEGORIES, rawCategory);
+        const difficulty = matchEnum(DIFFICULTIES, rawDifficulty);
+        if (!goal) result.issues.push({ location, message: 'goal text is empty' });
+        if (!category) result.issues.push({ location, message: `unknown category "${rawCategory}"` });
+        if (!difficulty) result.issues.push({ location, message: `unknown difficulty "${rawDifficulty}"` });
+        if (goal && category && difficulty) result.goals.push({ goal, category, difficulty });
+    });
+    return result;
+};
+
+export const parseGoalResponse = (text: string): GoalParseResult => {
+    const trimmed = text.trim();
+    const result = /^[[{]/.test(trimmed) ? parseJsonResponse(trimmed) : parseLegacyLines(trimmed);
+    if (!result.error && result.goals.length === 0) {
+        result.error = trimmed ? 'No valid goals were found in the response.' : 'The response was empty.';
+    }
+    return result;
+};
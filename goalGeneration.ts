@@ -0,0 +1,79 @@
+import { GoalSource } from '../types';
+import { GeneratedGoal, GoalParseIssue, GoalProvider, GoalProviderResult, GoalRequest } from './goalProvider';
+import { n8nGoalProvider } from './n8nGoalProvider';
+import { geminiGoalProvider } from './geminiService';
+import { localGoalProvider } from './localGoalEngine';
+import { scheduleGoal } from './habits';
+import { screenGoals, ScreeningNote } from './goalSafety';
+import { todayKey } from './dateUtils';
+
+export const GOAL_PROVIDERS: GoalProvider[] = [n8nGoalProvider, geminiGoalProvider, localGoalProvider];
+
+const DEFAULT_GOAL_SOURCE: GoalSource = 'n8n';
+
+export const getGoalProvider = (id: GoalSource): GoalProvider =>
+    GOAL_PROVIDERS.find(provider => provider.id === id) ?? localGoalProvider;
+
+// The choice is per device; it only affects where goals come from, not how many may be generated.
+const preferenceKey = (userId: string) => `goalProvider_${userId}`;
+
+export const getPreferredGoalSource = (userId: string): GoalSource => {
+    const stored = localStorage.getItem(preferenceKey(userId)) as GoalSource | null;
+    const provider = stored && GOAL_PROVIDERS.find(p => p.id === stored);
+    return provider && provider.isAvailable() ? provider.id : DEFAULT_GOAL_SOURCE;
+};
+
+export const setPreferredGoalSource = (userId: string, source: GoalSource) => {
+    localStorage.setItem(preferenceKey(userId), source);
+};
+
+export interface GoalGenerationResult {
+    goals: GeneratedGoal[];
+    source: GoalSource;
+    issues: GoalParseIssue[]; // goals the provider suggested but that were dropped
+    screening: ScreeningNote[]; // goals removed or made easier by safety screening
+    // Set when the preferred provider failed and the on-device engine was used instead.
+    fallback?: { from: GoalProvider; error: string; issues: GoalParseIssue[] };
+}
+
+// Runs the provider and screens its goals, so nothing unsafe for this profile reaches the caller.
+const runProvider = async (provider: GoalProvider, request: GoalRequest): Promise<GoalProviderResult & { screening: ScreeningNote[] }> => {
+    if (!provider.isAvailable()) {
+        return { goals: [], issues: [], screening: [], error: `${provider.label} is not configured.` };
+    }
+    let result: GoalProviderResult;
+    try {
+        result = await provider.generate(request);
+    } catch (error: any) {
+        return { goals: [], issues: [], screening: [], error: error?.message || String(error) };
+    }
+    if (result.goals.length === 0) {
+        return { ...result, screening: [], error: result.error ?? 'No goals were returned.' };
+    }
+    const { goals, notes } = screenGoals(result.goals, request.health, request.language);
+    return { ...result, goals, screening: notes, error: goals.length === 0 ? 'Every suggested goal was removed by safety screening.' : result.error };
+};
+
+// Tags goals with their provider and schedules them to start today.
+const prepareGoals = (goals: GeneratedGoal[], source: GoalSource) => {
+    const today = todayKey();
+    return goals.map(goal => scheduleGoal({ ...goal, source }, today));
+};
+
+export const generateGoals = async (request: GoalRequest, preferred: GoalSource): Promise<GoalGenerationResult> => {
+    const provider = getGoalProvider(preferred);
+    const result = await runProvider(provider, request);
+    if (!result.error) {
+        return { goals: prepareGoals(result.goals, provider.id), source: provider.id, issues: result.issues, screening: result.screening };
+    }
+
+    console.error(`${provider.label} goal generation failed:`, result.error, result.issues);
+    const local = await runProvider(localGoalProvider, request);
+    return {
+        goals: prepareGoals(local.goals, 'local'),
+        source: 'local',
+        issues: local.issues,
+        screening: [...result.screening, ...local.screening],
+        fallback: provider === localGoalProvider ? undefined : { from: provider, error: result.error, issues: result.issues },
+    };
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { GoalBatch, Recommendation } from '../types';
+import { summarizeGoalHistory } from './goalHistoryStats';
+
+const batch = (id: number, createdAt: string): GoalBatch => ({ id, userId: 'user-1', createdAt, archivedAt: null });
+
+const goal = (id: number, batchId: number | null | undefined, isCompleted: boolean): Recommendation => ({
+    id,
+    userId: 'user-1',
+    goal: `Goal ${id}`,
+    category: 'Exercise',
+    difficulty: 'Easy',
+    isCompleted,
+    // Supabase rows carry a null batch_id; the local backend leaves it out.
+    batchId: batchId as number | undefined,
+});
+
+describe('summarizeGoalHistory', () => {
+    it('groups goals without a batch as earlier goals, whether batchId is null or missing', () => {
+        const summary = summarizeGoalHistory(
+            [batch(1, '2026-10-01T08:00:00.000Z'), batch(2, '2026-10-15T08:00:00.000Z')],
+            [goal(1, 1, true), goal(2, 2, false), goal(3, null, true), goal(4, undefined, false)],
+        );
+
+        expect(summary.batches.map(b => [b.batch?.id ?? null, b.goals.map(g => g.id)])).toEqual([
+            [2, [2]],
+            [1, [1]],
+            [null, [3, 4]],
+        ]);
+        expect(summary.batches[2]).toMatchObject({ completed: 1, total: 2, rate: 0.5 });
+        expect(summary.overall).toMatchObject({ completed: 2, total: 4 });
+    });
+});
@@ -0,0 +1,59 @@
+import { GoalBatch, Recommendation } from '../types';
+
+export interface CompletionStat {
+    label: string;
+    completed: number;
+    total: number;
+    rate: number; // 0–1; 0 when there are no goals
+}
+
+export interface BatchSummary extends CompletionStat {
+    batch: GoalBatch | null; // null groups goals created before batches were recorded
+    goals: Recommendation[];
+}
+
+export interface GoalHistorySummary {
+    overall: CompletionStat;
+    batches: BatchSummary[]; // newest first, earlier unbatched goals last
+    byCategory: CompletionStat[];
+    byDifficulty: CompletionStat[];
+}
+
+const CATEGORY_ORDER: Recommendation['category'][] = ['Diet', 'Exercise', 'Mental Health', 'General'];
+const DIFFICULTY_ORDER: Recommendation['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+const completionOf = (label: string, goals: Recommendation[]): CompletionStat => {
+    const completed = goals.filter(goal => goal.isCompleted).length;
+    return { label, completed, total: goals.length, rate: goals.length > 0 ? completed / goals.length : 0 };
+};
+
+export const summarizeGoalHistory = (batches: GoalBatch[], recommendations: Recommendation[]): GoalHistorySummary => {
+    const byBatch = new Map<number | undefined, Recommendation[]>();
+    recommendations.forEach(rec => {
+        // Rows from Supabase have a null batch_id rather than none.
+        const batchId = rec.batchId ?? undefined;
+        byBatch.set(batchId, [...(byBatch.get(batchId) ?? []), rec]);
+    });
+
+    const batchSummaries: BatchSummary[] = [...batches]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(batch => {
+            const goals = byBatch.get(batch.id) ?? [];
+            return { ...completionOf(batch.createdAt, goals), batch, goals };
+        });
+    const unbatched = byBatch.get(undefined) ?? [];
+    if (unbatched.length > 0) {
+        batchSummaries.push({ ...completionOf('Earlier goals', unbatched), batch: null, goals: unbatched });
+    }
+
+    return {
+        overall: completionOf('All goals', recommendations),
+        batches: batchSummaries,
+        byCategory: CATEGORY_ORDER
+            .map(category => completionOf(category, recommendations.filter(rec => rec.category === category)))
+            .filter(stat => stat.total > 0),
+        byDifficulty: DIFFICULTY_ORDER
+            .map(difficulty => completionOf(difficulty, recommendations.filter(rec => rec.difficulty === difficulty)))
+            .filter(stat => stat.total > 0),
+    };
+};
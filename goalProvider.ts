@@ -0,0 +1,40 @@
+import { DailyMetrics, GoalSource, HealthData, Recommendation } from '../types';
+import { LanguageCode } from './i18n';
+
+// Every goal source (remote workflow, LLM, on-device rules) implements GoalProvider so the Progress
+// page and settings don't need to know which one is in use.
+
+export type GeneratedGoal = Omit<Recommendation, 'id' | 'userId' | 'isCompleted' | 'verifiedAt'>;
+
+export interface GoalRequest {
+    userId: string;
+    health: HealthData | null;
+    recentMetrics: DailyMetrics[]; // oldest first, covering GOAL_LOOKBACK_DAYS
+    language: LanguageCode; // goal and rationale text is written in it; enum fields stay in English
+}
+
+export interface GoalParseIssue {
+    location: string; // e.g. "line 3" or "goals[1].category"
+    message: string;
+}
+
+// `goals` holds every usable goal; `issues` explains anything that was dropped. `error` is set when
+// the provider produced nothing usable.
+export interface GoalProviderResult {
+    goals: GeneratedGoal[];
+    issues: GoalParseIssue[];
+    error?: string;
+}
+
+export interface GoalProvider {
+    id: GoalSource;
+    label: string;
+    description: string;
+    // False when the provider can't run in this build, e.g. no API key configured.
+    isAvailable: () => boolean;
+    // Failures may be reported through `error` or by rejecting.
+    generate: (request: GoalRequest) => Promise<GoalProviderResult>;
+}
+
+// Days of metrics passed to providers.
+export const GOAL_LOOKBACK_DAYS = 14;
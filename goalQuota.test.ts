@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { GoalQuotaPolicy, evaluateGoalQuota, quotaLimit, quotaPeriodStart } from './goalQuota';
+
+const daily: GoalQuotaPolicy = { period: 'day', perPeriod: 1, tiers: [{ minPoints: 500, extra: 1 }, { minPoints: 2000, extra: 2 }] };
+const weekly: GoalQuotaPolicy = { ...daily, period: 'week', perPeriod: 3 };
+
+// Local times, so the periods start at local midnight wherever the tests run. 2026-10-19 is a Monday.
+const local = (day: number, hours = 0, minutes = 0, ms = 0) => new Date(2026, 9, day, hours, minutes, 0, ms);
+
+describe('quotaLimit', () => {
+    it('adds the highest tier reached, starting exactly at its minimum', () => {
+        expect(quotaLimit(daily, 499)).toBe(1);
+        expect(quotaLimit(daily, 500)).toBe(2);
+        expect(quotaLimit(daily, 1999)).toBe(2);
+        expect(quotaLimit(daily, 2000)).toBe(3);
+    });
+});
+
+describe('evaluateGoalQuota', () => {
+    it('counts a batch made exactly at local midnight but not one just before', () => {
+        const now = local(21, 15);
+        const quota = evaluateGoalQuota(daily, [local(20, 23, 59, 999).toISOString(), local(21).toISOString()], 0, now);
+
+        expect(quota).toEqual({ period: 'day', limit: 1, used: 1, remaining: 0, nextAllowedAt: local(22).toISOString() });
+        expect(quotaPeriodStart(daily, now)).toBe(local(21).toISOString());
+    });
+
+    it('runs weekly periods from Monday to Sunday', () => {
+        const sundayNight = local(25, 23, 59);
+        const batches = [local(18, 12), local(19), local(22, 9), local(25, 20)].map(date => date.toISOString());
+
+        const quota = evaluateGoalQuota(weekly, batches, 0, sundayNight);
+
+        expect(quota).toMatchObject({ period: 'week', limit: 3, used: 3, remaining: 0, nextAllowedAt: local(26).toISOString() });
+        expect(evaluateGoalQuota(weekly, batches, 0, local(26))).toMatchObject({ used: 0, remaining: 3, nextAllowedAt: null });
+    });
+
+    it('allows one more generation once the points reach a tier', () => {
+        const batches = [local(21, 8).toISOString()];
+
+        expect(evaluateGoalQuota(daily, batches, 499, local(21, 9)).remaining).toBe(0);
+        expect(evaluateGoalQuota(daily, batches, 500, local(21, 9))).toMatchObject({ limit: 2, used: 1, remaining: 1, nextAllowedAt: null });
+    });
+});
@@ -0,0 +1,51 @@
+import { addDays, fromDateKey, toDateKey, weekStartKey } from './dateUtils';
+
+// How often a user may generate a new goal batch. The data layer counts the batches created in
+// the current period, so the limit holds across devices and cleared storage.
+export interface GoalQuotaPolicy {
+    period: 'day' | 'week';
+    perPeriod: number;
+    // Extra generations per period once the points balance reaches `minPoints`. The highest tier reached applies.
+    tiers: { minPoints: number; extra: number }[];
+}
+
+export interface GoalQuota {
+    period: GoalQuotaPolicy['period'];
+    limit: number;
+    used: number;
+    remaining: number;
+    // Start of the next period when nothing is left, otherwise null.
+    nextAllowedAt: string | null;
+}
+
+// Set GOAL_QUOTA_PERIOD ('day' or 'week') and GOAL_QUOTA_PER_PERIOD in .env.local to change the base limit.
+export const GOAL_QUOTA_POLICY: GoalQuotaPolicy = {
+    period: process.env.GOAL_QUOTA_PERIOD === 'week' ? 'week' : 'day',
+    perPeriod: Math.max(1, Number(process.env.GOAL_QUOTA_PER_PERIOD) || 1),
+    tiers: [
+        { minPoints: 500, extra: 1 },
+        { minPoints: 2000, extra: 2 },
+    ],
+};
+
+export const quotaLimit = (policy: GoalQuotaPolicy, points: number): number =>
+    policy.perPeriod + policy.tiers.reduce((extra, tier) => points >= tier.minPoints ? Math.max(extra, tier.extra) : extra, 0);
+
+// Local midnight starting the period that contains `now`, and the one after it.
+const periodBounds = (period: GoalQuotaPolicy['period'], now: Date): [Date, Date] => {
+    const today = toDateKey(now);
+    const start = period === 'day' ? today : weekStartKey(today);
+    return [fromDateKey(start), fromDateKey(addDays(start, period === 'day' ? 1 : 7))];
+};
+
+// `batchCreatedAt` holds the creation times of the user's goal batches (any order, any age).
+export const evaluateGoalQuota = (policy: GoalQuotaPolicy, batchCreatedAt: string[], points: number, now = new Date()): GoalQuota => {
+    const [start, next] = periodBounds(policy.period, now);
+    const limit = quotaLimit(policy, points);
+    const used = batchCreatedAt.filter(createdAt => new Date(createdAt) >= start).length;
+    const remaining = Math.max(0, limit - used);
+    return { period: policy.period, limit, used, remaining, nextAllowedAt: remaining > 0 ? null : next.toISOString() };
+};
+
+// Earliest creation time that counts toward the period containing `now`; lets backends fetch only recent batches.
+export const quotaPeriodStart = (policy: GoalQuotaPolicy, now = new Date()): string => periodBounds(policy.period, now)[0].toISOString();
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HealthData } from '../types';
+import { GeneratedGoal } from './goalProvider';
+import { screenGoals } from './goalSafety';
+
+const health = (allergies: string): HealthData => ({
+    userId: 'user-1',
+    age: 35,
+    height: 170,
+    weight: 70,
+    gender: 'Other',
+    fitnessLevel: 'Intermediate',
+    existingConditions: '',
+    allergies,
+    medications: '',
+    preferredLanguage: 'en',
+});
+
+const goal = (text: string): GeneratedGoal => ({ goal: text, category: 'Diet', difficulty: 'Easy' });
+
+describe('screenGoals language-specific keywords', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    it('does not read the English word "pan" as Spanish bread', () => {
+        const { goals, notes } = screenGoals([goal('Cook a pan-seared salmon dinner twice this week')], health('gluten'), 'en');
+        expect(goals).toHaveLength(1);
+        expect(notes).toEqual([]);
+    });
+
+    it('rejects Spanish goals that mention bread', () => {
+        const { goals, notes } = screenGoals([goal('Cambia el pan blanco por verduras en la cena')], health('celiaquía'), 'es');
+        expect(goals).toEqual([]);
+        expect(notes.map(note => note.ruleId)).toEqual(['gluten-intolerance']);
+    });
+
+    it('treats tortilla as egg only in Spanish', () => {
+        expect(screenGoals([goal('Have a bean tortilla wrap for lunch')], health('egg'), 'en').goals).toHaveLength(1);
+        expect(screenGoals([goal('Desayuna una tortilla de verduras')], health('huevo'), 'es').goals).toEqual([]);
+    });
+});
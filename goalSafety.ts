@@ -0,0 +1,67 @@
+import { HealthData, Recommendation } from '../types';
+import { GeneratedGoal } from './goalProvider';
+import { SAFETY_RULES, SafetyRule } from './goalSafetyRules';
+import { LanguageCode } from './i18n';
+
+// Screens generated goals against the user's conditions, allergies and medications using
+// SAFETY_RULES. Runs on every provider's output before anything is saved.
+
+export interface ScreeningNote {
+    goal: string; // the goal text as the provider wrote it
+    ruleId: string;
+    outcome: 'rejected' | 'downgraded';
+    reason: string; // English; the UI shows the catalog's `safety.<ruleId>` text
+    difficulty?: Recommendation['difficulty']; // the capped difficulty, for downgrades
+}
+
+export interface ScreeningResult {
+    goals: GeneratedGoal[];
+    notes: ScreeningNote[];
+}
+
+const DIFFICULTY_ORDER: Recommendation['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match that also accepts plurals, so "nut" matches "nuts" but not "nutrition". \b only
+// knows ASCII letters, so word edges are any letter, combining mark or digit in any script.
+export const mentions = (text: string, keywords: string[]) =>
+    keywords.some(keyword => new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${escapeRegExp(keyword)}(s|es)?(?![\\p{L}\\p{M}\\p{N}])`, 'iu').test(text));
+
+// `language` is the one the goals are written in.
+const ruleMatches = (rule: SafetyRule, health: HealthData, goal: GeneratedGoal, language: LanguageCode): boolean => {
+    if (!mentions(health[rule.field] ?? '', rule.profileKeywords)) return false;
+    if (rule.categories && !rule.categories.includes(goal.category)) return false;
+    if (!rule.goalKeywords && !rule.languageGoalKeywords) return true;
+    const keywords = [...(rule.goalKeywords ?? []), ...(rule.languageGoalKeywords?.[language] ?? [])];
+    return mentions(`${goal.goal} ${goal.rationale ?? ''}`, keywords);
+};
+
+export const screenGoals = (goals: GeneratedGoal[], health: HealthData | null, language: LanguageCode, rules: SafetyRule[] = SAFETY_RULES): ScreeningResult => {
+    if (!health) return { goals, notes: [] };
+
+    const notes: ScreeningNote[] = [];
+    const kept: GeneratedGoal[] = [];
+    goals.forEach(goal => {
+        const matched = rules.filter(rule => ruleMatches(rule, health, goal, language));
+        const rejection = matched.find(rule => rule.action.type === 'reject');
+        if (rejection) {
+            notes.push({ goal: goal.goal, ruleId: rejection.id, outcome: 'rejected', reason: rejection.reason });
+            return;
+        }
+
+        let screened = goal;
+        matched.forEach(rule => {
+            if (rule.action.type !== 'cap') return;
+            const cap = rule.action.maxDifficulty;
+            if (DIFFICULTY_ORDER.indexOf(screened.difficulty) > DIFFICULTY_ORDER.indexOf(cap)) {
+                screened = { ...screened, difficulty: cap };
+                notes.push({ goal: goal.goal, ruleId: rule.id, outcome: 'downgraded', reason: rule.reason, difficulty: cap });
+            }
+        });
+        kept.push(screened);
+    });
+
+    notes.forEach(note => console.warn(`Goal ${note.outcome} by safety rule "${note.ruleId}": "${note.goal}" - ${note.reason}${note.difficulty ? ` (now ${note.difficulty})` : ''}`));
+    return { goals: kept, notes };
+};
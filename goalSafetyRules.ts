@@ -0,0 +1,135 @@
+import { HealthData, Recommendation } from '../types';
+import { LanguageCode } from './i18n';
+
+// Contraindications checked against every generated goal before it is saved. A rule applies when
+// one of its `profileKeywords` appears in the named health-profile field; it then matches goals
+// whose text or rationale mentions one of its `goalKeywords` (or, with no goal keywords, every goal
+// in `categories`). Keywords match whole words, plural forms included. Goals are written in the
+// user's language, so keyword lists include the Spanish and Hindi terms too (lower case). A word
+// that means something else in another language, such as Spanish "pan" (bread), goes under
+// `languageGoalKeywords` so it is only looked for in goals written in that language.
+//
+// To add a contraindication, append a rule. Prefer 'cap' when a gentler version of the goal is still
+// useful, and 'reject' when any version of it could cause harm.
+
+export type SafetyAction =
+    | { type: 'reject' }
+    | { type: 'cap'; maxDifficulty: Exclude<Recommendation['difficulty'], 'Hard'> };
+
+export interface SafetyRule {
+    id: string;
+    field: keyof Pick<HealthData, 'existingConditions' | 'allergies' | 'medications'>;
+    profileKeywords: string[];
+    goalKeywords?: string[];
+    languageGoalKeywords?: Partial<Record<LanguageCode, string[]>>;
+    categories?: Recommendation['category'][];
+    action: SafetyAction;
+    reason: string; // shown to the user and logged
+}
+
+const HIGH_INTENSITY = [
+    'sprint', 'hiit', 'interval training', 'high-intensity', 'high intensity', 'max effort', 'all-out', 'tabata',
+    'intervalos', 'entrenamiento por intervalos', 'alta intensidad', 'esfuerzo máximo',
+    'स्प्रिंट', 'इंटरवल ट्रेनिंग', 'उच्च तीव्रता', 'तेज़ तीव्रता',
+];
+const HEART_CONDITIONS = [
+    'heart', 'cardiac', 'arrhythmia', 'atrial fibrillation', 'afib', 'angina', 'coronary', 'heart failure', 'cardiomyopathy',
+    'corazón', 'cardíaca', 'cardiaca', 'cardíaco', 'cardiaco', 'arritmia', 'fibrilación auricular', 'coronaria', 'insuficiencia cardíaca', 'cardiopatía',
+    'हृदय', 'दिल', 'हृदय रोग', 'एनजाइना', 'अतालता',
+];
+const HYPERTENSION = ['hypertension', 'high blood pressure', 'hipertensión', 'presión arterial alta', 'tensión alta', 'उच्च रक्तचाप', 'हाई ब्लड प्रेशर'];
+const FASTING = ['fasting', 'skip breakfast', 'skip a meal', 'skip meals', 'ayuno', 'ayunar', 'saltarse el desayuno', 'saltarse comidas', 'उपवास', 'व्रत'];
+
+export const SAFETY_RULES: SafetyRule[] = [
+    // Allergies
+    {
+        id: 'peanut-allergy', field: 'allergies', profileKeywords: ['peanut', 'cacahuete', 'maní', 'mani', 'मूंगफली'],
+        goalKeywords: ['peanut', 'peanut butter', 'satay', 'groundnut', 'cacahuete', 'maní', 'crema de cacahuete', 'mantequilla de maní', 'मूंगफली'],
+        action: { type: 'reject' }, reason: 'mentions peanuts, which you are allergic to',
+    },
+    {
+        id: 'tree-nut-allergy', field: 'allergies', profileKeywords: ['tree nut', 'nut', 'almond', 'walnut', 'cashew', 'hazelnut', 'pecan', 'pistachio', 'frutos secos', 'nuez', 'nueces', 'almendra', 'anacardo', 'avellana', 'pistacho', 'मेवा', 'बादाम', 'अखरोट', 'काजू', 'पिस्ता'],
+        goalKeywords: ['nut', 'almond', 'walnut', 'cashew', 'hazelnut', 'pecan', 'pistachio', 'trail mix', 'nut butter', 'frutos secos', 'nuez', 'nueces', 'almendra', 'anacardo', 'avellana', 'pistacho', 'मेवा', 'मेवे', 'बादाम', 'अखरोट', 'काजू', 'पिस्ता'],
+        action: { type: 'reject' }, reason: 'mentions nuts, which you are allergic to',
+    },
+    {
+        id: 'dairy-allergy', field: 'allergies', profileKeywords: ['dairy', 'milk', 'lactose', 'casein', 'whey', 'lácteos', 'leche', 'lactosa', 'दूध', 'डेयरी', 'लैक्टोज'],
+        goalKeywords: ['milk', 'dairy', 'yogurt', 'yoghurt', 'cheese', 'kefir', 'whey', 'leche', 'lácteos', 'yogur', 'queso', 'दूध', 'दही', 'पनीर', 'डेयरी'],
+        action: { type: 'reject' }, reason: 'mentions dairy, which you are allergic or intolerant to',
+    },
+    {
+        id: 'gluten-intolerance', field: 'allergies', profileKeywords: ['gluten', 'wheat', 'celiac', 'coeliac', 'trigo', 'celíaca', 'celíaco', 'celiaquía', 'ग्लूटेन', 'गेहूं', 'सीलिएक'],
+        goalKeywords: ['wheat', 'whole grain', 'wholegrain', 'bread', 'pasta', 'barley', 'rye', 'couscous', 'trigo', 'cereales integrales', 'cebada', 'centeno', 'गेहूं', 'साबुत अनाज', 'रोटी', 'ब्रेड', 'जौ'],
+        languageGoalKeywords: { es: ['pan'] },
+        action: { type: 'reject' }, reason: 'mentions gluten-containing foods',
+    },
+    {
+        id: 'fish-allergy', field: 'allergies', profileKeywords: ['fish', 'shellfish', 'seafood', 'shrimp', 'prawn', 'pescado', 'marisco', 'gamba', 'camarón', 'मछली', 'समुद्री भोजन', 'झींगा'],
+        goalKeywords: ['fish', 'salmon', 'tuna', 'sardine', 'mackerel', 'shellfish', 'shrimp', 'prawn', 'seafood', 'fish oil', 'pescado', 'salmón', 'atún', 'sardina', 'caballa', 'marisco', 'gamba', 'camarón', 'मछली', 'सैल्मन', 'टूना', 'झींगा'],
+        action: { type: 'reject' }, reason: 'mentions fish or seafood, which you are allergic to',
+    },
+    {
+        id: 'egg-allergy', field: 'allergies', profileKeywords: ['egg', 'huevo', 'अंडा', 'अंडे'],
+        goalKeywords: ['egg', 'omelette', 'omelet', 'huevo', 'अंडा', 'अंडे', 'ऑमलेट'],
+        // In English a tortilla is a flatbread; in Spanish it is an omelette.
+        languageGoalKeywords: { es: ['tortilla'] },
+        action: { type: 'reject' }, reason: 'mentions eggs, which you are allergic to',
+    },
+    // Conditions
+    {
+        id: 'cardiac-high-intensity', field: 'existingConditions', profileKeywords: HEART_CONDITIONS,
+        goalKeywords: [...HIGH_INTENSITY, 'heavy lifting', 'powerlifting', 'levantamiento de pesas pesadas', 'भारी वजन'],
+        action: { type: 'reject' }, reason: 'high-intensity exercise is not advised with a heart condition without medical clearance',
+    },
+    {
+        id: 'cardiac-hard-exercise', field: 'existingConditions', profileKeywords: HEART_CONDITIONS,
+        categories: ['Exercise'],
+        action: { type: 'cap', maxDifficulty: 'Easy' }, reason: 'exercise goals are kept gentle because of your heart condition',
+    },
+    {
+        id: 'hypertension-strain', field: 'existingConditions', profileKeywords: HYPERTENSION,
+        goalKeywords: ['heavy lifting', 'powerlifting', 'max lift', 'one-rep max', '1rm', 'breath-hold', 'breath hold', 'apnea', 'contener la respiración', 'repetición máxima', 'भारी वजन', 'सांस रोक'],
+        action: { type: 'reject' }, reason: 'straining and breath-holding exercise can spike blood pressure',
+    },
+    {
+        id: 'hypertension-hard-exercise', field: 'existingConditions', profileKeywords: HYPERTENSION,
+        categories: ['Exercise'],
+        action: { type: 'cap', maxDifficulty: 'Medium' }, reason: 'exercise goals are kept moderate because of high blood pressure',
+    },
+    {
+        id: 'respiratory-high-intensity', field: 'existingConditions', profileKeywords: ['asthma', 'copd', 'emphysema', 'asma', 'epoc', 'enfisema', 'अस्थमा', 'दमा', 'सीओपीडी'],
+        goalKeywords: HIGH_INTENSITY,
+        action: { type: 'cap', maxDifficulty: 'Medium' }, reason: 'high-intensity exercise can trigger breathing problems',
+    },
+    {
+        id: 'diabetes-fasting', field: 'existingConditions', profileKeywords: ['diabetes', 'diabetic', 'diabético', 'diabética', 'मधुमेह', 'डायबिटीज'],
+        goalKeywords: [...FASTING, 'juice cleanse', 'dieta de zumos', 'जूस क्लींज'],
+        action: { type: 'reject' }, reason: 'fasting or skipping meals can cause dangerous blood-sugar swings with diabetes',
+    },
+    {
+        id: 'pregnancy-intense', field: 'existingConditions', profileKeywords: ['pregnant', 'pregnancy', 'embarazada', 'embarazo', 'गर्भवती', 'गर्भावस्था'],
+        goalKeywords: [...HIGH_INTENSITY, ...FASTING, 'hot yoga', 'sauna', 'weight loss', 'pérdida de peso', 'perder peso', 'वजन घटाना', 'वज़न घटाना'],
+        action: { type: 'reject' }, reason: 'not advised during pregnancy without your clinician',
+    },
+    // Medications
+    {
+        id: 'glucose-lowering-fasting', field: 'medications', profileKeywords: ['insulin', 'metformin', 'glipizide', 'gliclazide', 'glibenclamide', 'sulfonylurea', 'insulina', 'metformina', 'इंसुलिन', 'मेटफॉर्मिन'],
+        goalKeywords: FASTING,
+        action: { type: 'reject' }, reason: 'fasting while on glucose-lowering medication risks low blood sugar',
+    },
+    {
+        id: 'anticoagulant-vitamin-k', field: 'medications', profileKeywords: ['warfarin', 'coumadin', 'warfarina', 'वारफारिन'],
+        goalKeywords: ['kale', 'spinach', 'leafy green', 'vitamin k', 'broccoli', 'col rizada', 'espinaca', 'verduras de hoja verde', 'vitamina k', 'brócoli', 'पालक', 'हरी पत्तेदार', 'विटामिन k', 'ब्रोकली'],
+        action: { type: 'reject' }, reason: 'sudden changes in vitamin K intake affect how warfarin works',
+    },
+    {
+        id: 'statin-grapefruit', field: 'medications', profileKeywords: ['statin', 'atorvastatin', 'simvastatin', 'lovastatin', 'estatina', 'atorvastatina', 'simvastatina', 'lovastatina', 'स्टैटिन', 'एटोरवास्टेटिन'],
+        goalKeywords: ['grapefruit', 'pomelo', 'toronja', 'चकोतरा', 'ग्रेपफ्रूट'],
+        action: { type: 'reject' }, reason: 'grapefruit interacts with some statins',
+    },
+    {
+        id: 'beta-blocker-heart-rate', field: 'medications', profileKeywords: ['beta blocker', 'beta-blocker', 'metoprolol', 'atenolol', 'propranolol', 'bisoprolol', 'betabloqueante', 'बीटा ब्लॉकर'],
+        goalKeywords: ['heart rate zone', 'target heart rate', 'max heart rate', 'bpm', 'zona de frecuencia cardíaca', 'frecuencia cardíaca objetivo', 'frecuencia cardíaca máxima', 'lpm', 'हृदय गति'],
+        action: { type: 'reject' }, reason: 'beta blockers change your heart rate, so heart-rate targets are unreliable',
+    },
+];
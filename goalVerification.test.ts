@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DailyMetrics, Recommendation } from '../types';
+import { targetProgress, targetWindow, verifyMetricGoals } from './goalVerification';
+
+const api = vi.hoisted(() => ({
+    recommendations: { get: vi.fn(), updateStatus: vi.fn() },
+    metrics: { getRange: vi.fn() },
+    points: { award: vi.fn() },
+}));
+
+vi.mock('./apiService', () => ({ apiService: api }));
+
+const stepsGoal: Recommendation = {
+    id: 12,
+    userId: 'user-1',
+    goal: 'Walk 8,000 steps a day',
+    category: 'Exercise',
+    difficulty: 'Medium',
+    isCompleted: false,
+    durationDays: 7,
+    startDate: '2026-10-13',
+    dueDate: '2026-10-19',
+    metricTarget: { metric: 'steps', comparator: 'atLeast', value: 8000, days: 3 },
+};
+
+const day = (date: string, values: Partial<DailyMetrics>): DailyMetrics => ({ userId: 'user-1', date, ...values });
+
+describe('targetWindow', () => {
+    it('runs from the start date to the due date, cut off at today', () => {
+        expect(targetWindow(stepsGoal, '2026-10-25')).toEqual(['2026-10-13', '2026-10-19']);
+        expect(targetWindow(stepsGoal, '2026-10-16')).toEqual(['2026-10-13', '2026-10-16']);
+    });
+
+    it('looks back over the duration, including today, when there is no start date', () => {
+        expect(targetWindow({ durationDays: 7 }, '2026-10-19')).toEqual(['2026-10-13', '2026-10-19']);
+    });
+});
+
+describe('targetProgress', () => {
+    it('counts readings exactly at the target', () => {
+        const metrics = [day('2026-10-13', { steps: 8000 }), day('2026-10-15', { steps: 7999 }), day('2026-10-16', { steps: 12000 })];
+
+        expect(targetProgress(stepsGoal, metrics, '2026-10-19')).toEqual({ metDays: 2, requiredDays: 3, met: false });
+    });
+
+    it('is met on exactly the required number of days', () => {
+        const sleepGoal: Recommendation = { ...stepsGoal, metricTarget: { metric: 'sleepHours', comparator: 'atMost', value: 7, days: 2 } };
+        const metrics = [day('2026-10-14', { sleepHours: 7 }), day('2026-10-15', { sleepHours: 6.5 }), day('2026-10-16', { sleepHours: 7.25 })];
+
+        expect(targetProgress(sleepGoal, metrics, '2026-10-19')).toEqual({ metDays: 2, requiredDays: 2, met: true });
+    });
+
+    it('counts the first and last day of the window but not the days around it', () => {
+        const metrics = ['2026-10-12', '2026-10-13', '2026-10-19', '2026-10-20'].map(date => day(date, { steps: 9000 }));
+
+        expect(targetProgress(stepsGoal, metrics, '2026-10-25')?.metDays).toBe(2);
+        // Entries dated after today are ignored too.
+        expect(targetProgress(stepsGoal, metrics, '2026-10-18')?.metDays).toBe(1);
+    });
+
+    it('ignores days without the metric and goals without a target', () => {
+        expect(targetProgress(stepsGoal, [day('2026-10-14', { heartRate: 60 })], '2026-10-19')?.metDays).toBe(0);
+        expect(targetProgress({ ...stepsGoal, metricTarget: undefined }, [], '2026-10-19')).toBeNull();
+    });
+});
+
+describe('verifyMetricGoals', () => {
+    beforeEach(() => {
+        vi.resetAllMocks();
+        api.recommendations.updateStatus.mockResolvedValue({});
+        api.points.award.mockResolvedValue({ balance: 140, awarded: true });
+    });
+
+    it('completes a goal once its target is met and awards its points and the bonus', async () => {
+        api.recommendations.get.mockResolvedValue([stepsGoal]);
+        api.metrics.getRange.mockResolvedValue(['2026-10-13', '2026-10-14', '2026-10-15'].map(date => day(date, { steps: 8000 })));
+
+        const result = await verifyMetricGoals('user-1', '2026-10-19');
+
+        expect(api.metrics.getRange).toHaveBeenCalledWith('user-1', '2026-10-13', '2026-10-19');
+        expect(result.verified).toEqual([expect.objectContaining({ id: 12, isCompleted: true, verifiedAt: expect.any(String) })]);
+        expect(api.points.award.mock.calls.map(([, entry]) => entry)).toEqual([
+            { source: 'goal', amount: 5, referenceId: '12:verified' },
+            { source: 'goal', amount: 5, referenceId: '12' },
+        ]);
+        expect(result).toMatchObject({ pointsEarned: 10, balance: 140 });
+    });
+
+    it('leaves goals alone one day short of the target', async () => {
+        api.recommendations.get.mockResolvedValue([stepsGoal]);
+        api.metrics.getRange.mockResolvedValue(['2026-10-13', '2026-10-14'].map(date => day(date, { steps: 8000 })));
+
+        const result = await verifyMetricGoals('user-1', '2026-10-19');
+
+        expect(result).toEqual({ verified: [], pointsEarned: 0, balance: null });
+        expect(api.recommendations.updateStatus).not.toHaveBeenCalled();
+        expect(api.points.award).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,88 @@
+import { DailyMetrics, GoalMetricTarget, Recommendation } from '../types';
+import { apiService } from './apiService';
+import { addDays, todayKey } from './dateUtils';
+import { GOAL_LOOKBACK_DAYS } from './goalProvider';
+import { GOAL_DIFFICULTY_POINTS, VERIFIED_GOAL_BONUS_POINTS } from './pointsRules';
+import { isHabit } from './habits';
+import { DEFAULT_LANGUAGE, LanguageCode, translate } from './i18n';
+
+// Goals with a metricTarget are completed automatically once enough logged days meet the target.
+
+export interface TargetProgress {
+    metDays: number;
+    requiredDays: number;
+    met: boolean;
+}
+
+// Days whose metrics count toward the goal: its start to its due date, cut off at `today`.
+// Goals without a start date look back over their duration.
+export const targetWindow = (rec: Pick<Recommendation, 'startDate' | 'dueDate' | 'durationDays'>, today: string): [string, string] => {
+    const from = rec.startDate ?? addDays(today, -((rec.durationDays ?? GOAL_LOOKBACK_DAYS) - 1));
+    const to = rec.dueDate && rec.dueDate < today ? rec.dueDate : today;
+    return [from, to];
+};
+
+export const meetsTarget = (entry: DailyMetrics, { metric, comparator, value }: GoalMetricTarget): boolean => {
+    const reading = entry[metric];
+    if (reading == null) return false;
+    return comparator === 'atLeast' ? reading >= value : reading <= value;
+};
+
+// `metrics` may cover any range; only entries inside the goal's window are counted.
+export const targetProgress = (rec: Recommendation, metrics: DailyMetrics[], today: string): TargetProgress | null => {
+    if (!rec.metricTarget) return null;
+    const [from, to] = targetWindow(rec, today);
+    const metDays = metrics.filter(entry => entry.date >= from && entry.date <= to && meetsTarget(entry, rec.metricTarget!)).length;
+    return { metDays, requiredDays: rec.metricTarget.days, met: metDays >= rec.metricTarget.days };
+};
+
+export interface VerificationResult {
+    verified: Recommendation[];
+    pointsEarned: number;
+    balance: number | null; // new points balance, or null when nothing was awarded
+}
+
+// Checks the user's current goals against their logged metrics. Call it after metrics are saved or
+// imported. Newly met goals are marked completed and verified and earn their points plus a bonus.
+export const verifyMetricGoals = async (userId: string, today = todayKey()): Promise<VerificationResult> => {
+    const pending = (await apiService.recommendations.get(userId)).filter(rec => rec.metricTarget && !rec.verifiedAt);
+    if (pending.length === 0) return { verified: [], pointsEarned: 0, balance: null };
+
+    const from = pending.map(rec => targetWindow(rec, today)[0]).sort()[0];
+    const metrics = await apiService.metrics.getRange(userId, from, today);
+    const now = new Date().toISOString();
+    const verified = pending
+        .filter(rec => targetProgress(rec, metrics, today)?.met)
+        .map(rec => ({ ...rec, isCompleted: true, verifiedAt: now }));
+    if (verified.length === 0) return { verified, pointsEarned: 0, balance: null };
+
+    const { error } = await apiService.recommendations.updateStatus(userId, verified);
+    if (error) {
+        console.error('Error saving verified goals:', error);
+        return { verified: [], pointsEarned: 0, balance: null };
+    }
+
+    // A one-off goal's own points use the same reference as a manual tick, so a goal ticked earlier
+    // only gets the bonus. Habits already earn their points per check-in.
+    let pointsEarned = 0;
+    let balance: number | null = null;
+    for (const rec of verified) {
+        const awards = [{ amount: VERIFIED_GOAL_BONUS_POINTS, referenceId: `${rec.id}:verified` }];
+        if (!isHabit(rec)) awards.push({ amount: GOAL_DIFFICULTY_POINTS[rec.difficulty], referenceId: String(rec.id) });
+        for (const { amount, referenceId } of awards) {
+            const result = await apiService.points.award(userId, { source: 'goal', amount, referenceId });
+            if (result.awarded) pointsEarned += amount;
+            balance = result.balance;
+        }
+    }
+    return { verified, pointsEarned, balance };
+};
+
+// Sentence appended to save and import messages, or '' when no goal was verified.
+export const describeVerification = ({ verified, pointsEarned }: VerificationResult, language: LanguageCode = DEFAULT_LANGUAGE): string => {
+    if (verified.length === 0) return '';
+    const sentence = verified.length === 1
+        ? translate(language, 'progress.verifiedGoal', { goal: verified[0].goal })
+        : translate(language, 'progress.verifiedGoals', { count: verified.length });
+    return ` ${sentence}${pointsEarned > 0 ? ` ${translate(language, 'progress.verifiedPoints', { points: pointsEarned })}` : ''}`;
+};
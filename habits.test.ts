@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { GoalCheckIn, Recommendation } from '../types';
+import { checkInPointsReference } from './habits';
+
+const habit = (recurrence: Recommendation['recurrence']): Recommendation => ({
+    id: 7,
+    userId: 'user-1',
+    goal: 'Take a brisk 20-minute walk',
+    category: 'Exercise',
+    difficulty: 'Medium',
+    isCompleted: false,
+    recurrence,
+});
+
+const checkIn = (date: string): GoalCheckIn => ({ userId: 'user-1', recommendationId: 7, date, createdAt: `${date}T08:00:00.000Z` });
+
+describe('checkInPointsReference', () => {
+    it('rewards a daily habit once per date', () => {
+        const daily = habit({ type: 'daily' });
+        expect(checkInPointsReference(daily, [checkIn('2026-10-19')], '2026-10-20')).toBe('7:2026-10-20');
+    });
+
+    it('stops rewarding a weekly habit after timesPerWeek check-ins in the same week', () => {
+        const weekly = habit({ type: 'weekly', timesPerWeek: 2 });
+        // 2026-10-19 is a Monday.
+        expect(checkInPointsReference(weekly, [], '2026-10-19')).toBe('7:2026-10-19:1');
+        expect(checkInPointsReference(weekly, [checkIn('2026-10-19')], '2026-10-21')).toBe('7:2026-10-19:2');
+        expect(checkInPointsReference(weekly, [checkIn('2026-10-19'), checkIn('2026-10-21')], '2026-10-23')).toBeNull();
+        // A new week starts the count again.
+        expect(checkInPointsReference(weekly, [checkIn('2026-10-19'), checkIn('2026-10-21')], '2026-10-26')).toBe('7:2026-10-26:1');
+    });
+
+    it('reuses a slot when a day is unchecked and another day in the week is checked', () => {
+        const weekly = habit({ type: 'weekly', timesPerWeek: 2 });
+        // Monday and Wednesday earned slots 1 and 2; Monday was then unchecked.
+        expect(checkInPointsReference(weekly, [checkIn('2026-10-21')], '2026-10-24')).toBe('7:2026-10-19:2');
+    });
+});
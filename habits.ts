@@ -0,0 +1,128 @@
+import { GoalCheckIn, GoalRecurrence, Recommendation } from '../types';
+import { addDays, weekStartKey } from './dateUtils';
+import { DEFAULT_LANGUAGE, LanguageCode, translate } from './i18n';
+
+// Scheduling, streaks and calendar data for recurring ("habit") goals.
+
+export const DEFAULT_HABIT_DURATION_DAYS = 7;
+
+export const isHabit = (rec: Pick<Recommendation, 'recurrence'>): boolean => !!rec.recurrence;
+
+export const recurrenceLabel = (recurrence: GoalRecurrence, language: LanguageCode = DEFAULT_LANGUAGE): string =>
+    recurrence.type === 'daily'
+        ? translate(language, 'habits.daily')
+        : translate(language, 'habits.weekly', { count: recurrence.timesPerWeek });
+
+// Start and due dates for a goal generated on `today`.
+export const scheduleGoal = <T extends Pick<Recommendation, 'recurrence' | 'durationDays'>>(goal: T, today: string): T & { startDate: string; dueDate?: string } => {
+    const duration = goal.durationDays ?? (goal.recurrence ? DEFAULT_HABIT_DURATION_DAYS : undefined);
+    return { ...goal, startDate: today, dueDate: duration ? addDays(today, duration - 1) : undefined };
+};
+
+// Check-ins needed over the goal's whole duration for it to count as completed.
+export const requiredOccurrences = (rec: Pick<Recommendation, 'recurrence' | 'startDate' | 'dueDate'>): number => {
+    if (!rec.recurrence) return 1;
+    const days = rec.startDate && rec.dueDate
+        ? Math.round((Date.parse(rec.dueDate) - Date.parse(rec.startDate)) / 86_400_000) + 1
+        : DEFAULT_HABIT_DURATION_DAYS;
+    return rec.recurrence.type === 'daily' ? days : rec.recurrence.timesPerWeek * Math.ceil(days / 7);
+};
+
+export interface HabitStatus {
+    active: boolean; // today falls between the start and due dates
+    doneToday: boolean;
+    periodCount: number; // check-ins today (daily) or this week (weekly)
+    periodTarget: number;
+    currentStreak: number;
+    longestStreak: number;
+    streakUnit: 'day' | 'week';
+    totalCheckIns: number;
+    fulfilled: boolean; // every required occurrence has been checked in
+}
+
+// Longest run of consecutive keys; `keys` must be sorted and unique.
+const longestRun = (keys: string[], next: (key: string) => string): number => {
+    let longest = 0;
+    let current = 0;
+    keys.forEach((key, index) => {
+        current = index > 0 && next(keys[index - 1]) === key ? current + 1 : 1;
+        longest = Math.max(longest, current);
+    });
+    return longest;
+};
+
+const runEndingAt = (present: Set<string>, start: string, back: (key: string) => string): number => {
+    let length = 0;
+    for (let cursor = start; present.has(cursor); cursor = back(cursor)) length++;
+    return length;
+};
+
+export const habitStatus = (rec: Recommendation, checkIns: GoalCheckIn[], today: string): HabitStatus => {
+    const dates = Array.from(new Set(checkIns.filter(c => c.recommendationId === rec.id).map(c => c.date))).sort();
+    const active = (!rec.startDate || rec.startDate <= today) && (!rec.dueDate || today <= rec.dueDate);
+    const doneToday = dates.includes(today);
+    const base = { active, doneToday, totalCheckIns: dates.length, fulfilled: dates.length >= requiredOccurrences(rec) };
+
+    if (!rec.recurrence || rec.recurrence.type === 'daily') {
+        const present = new Set(dates);
+        // Today still counts toward the streak until the day is over.
+        const anchor = doneToday ? today : addDays(today, -1);
+        return {
+            ...base,
+            periodCount: doneToday ? 1 : 0,
+            periodTarget: 1,
+            currentStreak: runEndingAt(present, anchor, key => addDays(key, -1)),
+            longestStreak: longestRun(dates, key => addDays(key, 1)),
+            streakUnit: 'day',
+        };
+    }
+
+    const target = rec.recurrence.timesPerWeek;
+    const perWeek = new Map<string, number>();
+    dates.forEach(date => {
+        const week = weekStartKey(date);
+        perWeek.set(week, (perWeek.get(week) ?? 0) + 1);
+    });
+    const metWeeks = Array.from(perWeek.entries()).filter(([, count]) => count >= target).map(([week]) => week).sort();
+    const thisWeek = weekStartKey(today);
+    const periodCount = perWeek.get(thisWeek) ?? 0;
+    const anchor = periodCount >= target ? thisWeek : addDays(thisWeek, -7);
+    return {
+        ...base,
+        periodCount,
+        periodTarget: target,
+        currentStreak: runEndingAt(new Set(metWeeks), anchor, key => addDays(key, -7)),
+        longestStreak: longestRun(metWeeks, key => addDays(key, 7)),
+        streakUnit: 'week',
+    };
+};
+
+// The points reference for a check-in on `date`, or null when it earns nothing. Daily habits earn
+// once per date. Weekly habits earn for up to `timesPerWeek` check-ins per Monday-to-Sunday week:
+// the reference names the week and the check-in's place in it, so unchecking a day and checking
+// another can't earn a week's points twice.
+export const checkInPointsReference = (rec: Pick<Recommendation, 'id' | 'recurrence'>, checkIns: GoalCheckIn[], date: string): string | null => {
+    if (rec.recurrence?.type !== 'weekly') return `${rec.id}:${date}`;
+    const week = weekStartKey(date);
+    const earlier = checkIns.filter(c => c.recommendationId === rec.id && c.date !== date && weekStartKey(c.date) === week);
+    return earlier.length < rec.recurrence.timesPerWeek ? `${rec.id}:${week}:${earlier.length + 1}` : null;
+};
+
+export interface HeatmapDay {
+    date: string;
+    count: number; // habit check-ins on this day
+    inRange: boolean; // false for days after `today`
+}
+
+// Week columns (Monday first) covering the last `weeks` weeks up to `today`.
+export const buildHeatmap = (checkIns: GoalCheckIn[], today: string, weeks = 12): HeatmapDay[][] => {
+    const counts = new Map<string, number>();
+    checkIns.forEach(c => counts.set(c.date, (counts.get(c.date) ?? 0) + 1));
+    const firstWeek = addDays(weekStartKey(today), -7 * (weeks - 1));
+    return Array.from({ length: weeks }, (_, week) =>
+        Array.from({ length: 7 }, (_, day) => {
+            const date = addDays(firstWeek, week * 7 + day);
+            return { date, count: counts.get(date) ?? 0, inRange: date <= today };
+        })
+    );
+};
@@ -0,0 +1,35 @@
+import { HealthData } from '../types';
+import { DEFAULT_LANGUAGE, LanguageCode, MessageKey, translate } from './i18n';
+
+export type HealthProfile = Omit<HealthData, 'userId'>;
+export type HealthProfileErrors = Partial<Record<keyof HealthProfile, string>>;
+
+export const GENDERS: HealthData['gender'][] = ['Male', 'Female', 'Other'];
+export const FITNESS_LEVELS: HealthData['fitnessLevel'][] = ['Beginner', 'Intermediate', 'Advanced'];
+
+const MAX_TEXT_LENGTH = 500;
+
+const checkRange = (language: LanguageCode, value: number, min: number, max: number, label: MessageKey) => {
+    const field = translate(language, label);
+    if (!Number.isFinite(value)) return translate(language, 'validation.required', { field });
+    if (value < min || value > max) return translate(language, 'validation.range', { field, min, max });
+    return undefined;
+};
+
+// Returns an error message per invalid field; an empty object means the profile is valid.
+export const validateHealthProfile = (profile: HealthProfile, language: LanguageCode = DEFAULT_LANGUAGE): HealthProfileErrors => {
+    const errors: HealthProfileErrors = {
+        age: checkRange(language, profile.age, 1, 120, 'common.age'),
+        height: checkRange(language, profile.height, 50, 250, 'common.heightCm'),
+        weight: checkRange(language, profile.weight, 20, 350, 'common.weightKg'),
+    };
+    if (!Number.isInteger(profile.age)) errors.age = errors.age ?? translate(language, 'validation.wholeNumber', { field: translate(language, 'common.age') });
+    if (!GENDERS.includes(profile.gender)) errors.gender = translate(language, 'validation.chooseGender');
+    if (!FITNESS_LEVELS.includes(profile.fitnessLevel)) errors.fitnessLevel = translate(language, 'validation.chooseFitness');
+    (['existingConditions', 'allergies', 'medications'] as const).forEach(field => {
+        if (profile[field].length > MAX_TEXT_LENGTH) errors[field] = translate(language, 'validation.tooLong', { max: MAX_TEXT_LENGTH });
+    });
+    if (!profile.preferredLanguage.trim()) errors.preferredLanguage = translate(language, 'validation.language');
+
+    return Object.fromEntries(Object.entries(errors).filter(([, message]) => message)) as HealthProfileErrors;
+};
@@ -0,0 +1,32 @@
+import { DailyMetrics, HealthData } from '../types';
+import { METRIC_FIELDS } from './metricFields';
+import { bmiFor } from './localGoalEngine';
+
+// Plain-text summary of a profile and recent metrics for model prompts. It is always English; each
+// prompt says separately which language to write in.
+export const describeHealthData = (health: HealthData | null, recentMetrics: DailyMetrics[]): string[] => {
+    const lines: string[] = [];
+    if (health) {
+        const bmi = bmiFor(health);
+        lines.push(
+            `Age: ${health.age}`,
+            `Gender: ${health.gender}`,
+            `Height: ${health.height} cm, weight: ${health.weight} kg${bmi !== null ? `, BMI ${bmi.toFixed(1)}` : ''}`,
+            `Fitness level: ${health.fitnessLevel}`,
+            `Existing conditions: ${health.existingConditions || 'none'}`,
+            `Allergies: ${health.allergies || 'none'}`,
+            `Medications: ${health.medications || 'none'}`,
+        );
+    } else {
+        lines.push('No health profile on file.');
+    }
+
+    lines.push('', `Daily metrics for the last ${recentMetrics.length} logged day(s):`);
+    recentMetrics.forEach(entry => {
+        const values = METRIC_FIELDS
+            .filter(({ key }) => entry[key] != null)
+            .map(({ key, label, unit }) => `${label} ${entry[key]} ${unit}`);
+        lines.push(`${entry.date}: ${values.join(', ') || 'no readings'}`);
+    });
+    return lines;
+};
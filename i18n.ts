@@ -0,0 +1,87 @@
+import { en, MessageKey, Message } from './messages.en';
+import { hi } from './messages.hi';
+import { es } from './messages.es';
+import { fromDateKey } from './dateUtils';
+import { MetricKey } from './metricFields';
+
+export type { MessageKey } from './messages.en';
+
+export type LanguageCode = 'en' | 'hi' | 'es';
+
+export interface Language {
+    code: LanguageCode;
+    name: string; // English name, stored in HealthData.preferredLanguage
+    nativeName: string;
+    locale: string; // BCP 47 tag for Intl formatting
+    dir: 'ltr' | 'rtl';
+}
+
+// To add a language, add a catalog typed as Record<MessageKey, Message> and list it here. Right-to-left languages only
+// need `dir: 'rtl'`; layouts use logical (start/end) spacing.
+export const LANGUAGES: Language[] = [
+    { code: 'en', name: 'English', nativeName: 'English', locale: 'en', dir: 'ltr' },
+    { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', locale: 'hi-IN', dir: 'ltr' },
+    { code: 'es', name: 'Spanish', nativeName: 'Español', locale: 'es', dir: 'ltr' },
+];
+
+const CATALOGS: Record<LanguageCode, Record<MessageKey, Message>> = { en, hi, es };
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const getLanguage = (code: LanguageCode): Language => LANGUAGES.find(l => l.code === code)!;
+
+// preferredLanguage is free text on older profiles ("English", "es", "Español"), so match loosely.
+export const resolveLanguage = (preferred: string | null | undefined): LanguageCode | null => {
+    const text = preferred?.trim().toLowerCase();
+    if (!text) return null;
+    const match = LANGUAGES.find(l =>
+        [l.code, l.name.toLowerCase(), l.nativeName.toLowerCase()].includes(text) || text.startsWith(`${l.code}-`));
+    return match?.code ?? null;
+};
+
+// For keys built from data, such as `safety.${ruleId}`.
+export const hasMessage = (key: string): key is MessageKey => key in en;
+
+export type MessageParams = Record<string, string | number>;
+
+// Looks up `key` in the language's catalog (falling back to English) and fills in {placeholders}.
+// Numbers are formatted for the locale; a `count` param selects the plural form.
+export const translate = (language: LanguageCode, key: MessageKey, params: MessageParams = {}): string => {
+    const { locale } = getLanguage(language);
+    const message = CATALOGS[language][key] ?? en[key];
+    const template = typeof message === 'string'
+        ? message
+        : message[new Intl.PluralRules(locale).select(Number(params.count ?? 0)) as keyof typeof message] ?? message.other;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        const value = params[name];
+        if (value === undefined) return placeholder;
+        return typeof value === 'number' ? formatNumber(language, value) : value;
+    });
+};
+
+export const formatNumber = (language: LanguageCode, value: number, options?: Intl.NumberFormatOptions): string =>
+    new Intl.NumberFormat(getLanguage(language).locale, options).format(value);
+
+// Accepts a Date, an ISO timestamp or a 'YYYY-MM-DD' date key (read as a local date).
+export const formatDate = (language: LanguageCode, date: Date | string, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string => {
+    const value = typeof date === 'string' ? (/^\d{4}-\d{2}-\d{2}$/.test(date) ? fromDateKey(date) : new Date(date)) : date;
+    return new Intl.DateTimeFormat(getLanguage(language).locale, options).format(value);
+};
+
+// Units Intl can format natively; the rest come from the catalog.
+const INTL_UNITS: Record<string, string> = { km: 'kilometer', kg: 'kilogram', cm: 'centimeter', hours: 'hour' };
+
+export const formatUnit = (language: LanguageCode, value: number, unit: string): string => {
+    if (INTL_UNITS[unit]) {
+        return formatNumber(language, value, { style: 'unit', unit: INTL_UNITS[unit], unitDisplay: 'short', maximumFractionDigits: 1 });
+    }
+    const key = `unit.${unit}`;
+    return hasMessage(key) ? translate(language, key, { value }) : `${formatNumber(language, value)} ${unit}`;
+};
+
+export const metricLabel = (language: LanguageCode, metric: MetricKey): string => translate(language, `metric.${metric}`);
+
+export const unitLabel = (language: LanguageCode, unit: string): string => {
+    const key = `unitName.${unit}`;
+    return hasMessage(key) ? translate(language, key) : unit;
+};
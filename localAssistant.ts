@@ -0,0 +1,78 @@
+import { Recommendation } from '../types';
+import { METRIC_FIELDS, MetricKey } from './metricFields';
+import { mentions } from './goalSafety';
+import { validateMetrics } from './metricValidation';
+import { LanguageCode, formatDate, formatUnit, metricLabel, translate } from './i18n';
+import type { AssistantContext, AssistantModelClient } from './assistant';
+
+// An on-device stand-in for the model, used when no API key is configured. It answers two kinds of
+// question from the context alone: how a metric has been going, and why a goal was suggested.
+
+const METRIC_KEYWORDS: Record<MetricKey, string[]> = {
+    heartRate: ['heart rate', 'heart', 'pulse', 'bpm', 'frecuencia cardíaca', 'pulso', 'corazón', 'हृदय गति', 'धड़कन', 'नब्ज़'],
+    steps: ['step', 'walk', 'walking', 'paso', 'caminar', 'कदम', 'चलना'],
+    sleepHours: ['sleep', 'sleeping', 'slept', 'sueño', 'dormir', 'dormí', 'dormido', 'duermo', 'नींद', 'सोना'],
+    breathingRate: ['breathing', 'breath', 'respiración', 'respiratoria', 'सांस', 'श्वास'],
+    distanceTravelled: ['distance', 'km', 'kilometre', 'kilometer', 'distancia', 'kilómetro', 'दूरी', 'किलोमीटर'],
+    caloriesBurnt: ['calorie', 'kcal', 'energy', 'caloría', 'energía', 'कैलोरी', 'ऊर्जा'],
+};
+
+const GOAL_KEYWORDS = ['goal', 'meta', 'objetivo', 'लक्ष्य'];
+
+// Words of four or more letters, for matching a question to one goal's text.
+const significantWords = (text: string) => (text.toLowerCase().match(/[\p{L}\p{M}]{4,}/gu) ?? []);
+
+const describeMetric = ({ health, recentMetrics, language }: AssistantContext, key: MetricKey): string => {
+    const unit = METRIC_FIELDS.find(field => field.key === key)!.unit;
+    const metric = metricLabel(language, key);
+    const readings = recentMetrics.filter(entry => entry[key] != null);
+    if (readings.length === 0) {
+        return translate(language, 'assistant.local.noMetric', { metric });
+    }
+
+    const latest = readings[readings.length - 1];
+    const average = readings.reduce((sum, entry) => sum + entry[key]!, 0) / readings.length;
+    const summary = translate(language, 'assistant.local.metric', {
+        metric,
+        count: readings.length,
+        average: formatUnit(language, Math.round(average * 10) / 10, unit),
+        latest: formatUnit(language, latest[key]!, unit),
+        date: formatDate(language, latest.date),
+    });
+    // The same limits that flag unusual entries, applied to the average.
+    const [warning] = validateMetrics({ [key]: average }, health, language).warnings;
+    return `${summary} ${warning ? translate(language, 'assistant.local.metricUnusual', { warning: warning.message }) : translate(language, 'assistant.local.metricUsual')}`;
+};
+
+const describeGoal = (language: LanguageCode, goal: Recommendation): string => goal.rationale
+    ? translate(language, 'assistant.local.goal', { goal: goal.goal, rationale: goal.rationale })
+    : translate(language, 'assistant.local.goalNoRationale', { goal: goal.goal });
+
+// The goal sharing the most words with the question, and how many it shares.
+const closestGoal = (goals: Recommendation[], question: string) => {
+    const words = new Set(significantWords(question));
+    return goals
+        .map(goal => ({ goal, shared: significantWords(goal.goal).filter(word => words.has(word)).length }))
+        .reduce<{ goal: Recommendation; shared: number } | null>((best, next) => (next.shared > (best?.shared ?? 0) ? next : best), null);
+};
+
+export const localAssistantClient: AssistantModelClient = {
+    reply: async ({ context, turns }) => {
+        const question = turns[turns.length - 1]?.content ?? '';
+        const { goals, language } = context;
+        const closest = closestGoal(goals, question);
+        // Two shared words is enough to tell "why walk 6,000 steps?" is about the goal, not the metric.
+        if (mentions(question, GOAL_KEYWORDS) || (closest && closest.shared >= 2)) {
+            if (goals.length === 0) return translate(language, 'assistant.local.noGoals');
+            return closest
+                ? describeGoal(language, closest.goal)
+                : goals.map(goal => describeGoal(language, goal)).join('\n\n');
+        }
+
+        const metrics = METRIC_FIELDS.filter(({ key }) => mentions(question, [metricLabel(language, key), ...METRIC_KEYWORDS[key]]));
+        if (metrics.length > 0) {
+            return metrics.map(({ key }) => describeMetric(context, key)).join('\n\n');
+        }
+        return translate(language, 'assistant.local.fallback');
+    },
+};
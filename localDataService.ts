@@ -0,0 +1,648 @@
+import {
+    User, HealthData, DailyMetrics, Recommendation, PointsTransaction, WeightEntry, GoalBatch, GoalCheckIn,
+    AssistantConversation, AssistantMessage, GameSession, GameType,
+} from '../types';
+import type { ApiService, AuthAccount } from './apiService';
+import { toDateKey, todayKey } from './dateUtils';
+import { GOAL_DIFFICULTY_POINTS } from './pointsRules';
+import { checkInPointsReference } from './habits';
+import { GOAL_QUOTA_POLICY, evaluateGoalQuota } from './goalQuota';
+import { defaultScoreDirection, summarizeGameHistory } from './gameStats';
+import { isOtpDevBypass } from './otpService';
+
+// A self-contained backend for offline development and demos. Data lives in memory and is
+// mirrored to localStorage (when available) so it survives page reloads.
+
+const STORAGE_KEY = 'phm_local_db_v1';
+
+interface LocalAccount extends AuthAccount {
+    password: string;
+}
+
+interface StoredMetrics extends DailyMetrics {
+    id: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Sessions stored before scoring direction, duration and status were recorded lack those fields.
+interface StoredGameSession extends Omit<GameSession, 'timestamp' | 'scoreDirection' | 'durationMs' | 'status'>,
+    Partial<Pick<GameSession, 'scoreDirection' | 'durationMs' | 'status'>> {
+    createdAt: string;
+}
+
+interface StoredAssistantMessage extends AssistantMessage {
+    userId: string;
+}
+
+interface StoredOtp {
+    email: string;
+    salt: string;
+    codeHash: string;
+    expiresAt: number;
+    failedAttempts: number;
+    lockedUntil: number | null;
+    requestTimes: number[];
+}
+
+interface LocalDb {
+    nextId: number;
+    sessionUserId: string | null;
+    // Signed in with a password but not yet through the OTP step.
+    pendingSessionUserId: string | null;
+    accounts: LocalAccount[];
+    users: Omit<User, 'points'>[];
+    healthProfiles: HealthData[];
+    weightHistory: WeightEntry[];
+    pointsTransactions: PointsTransaction[];
+    metrics: StoredMetrics[];
+    gameSessions: StoredGameSession[];
+    goalBatches: GoalBatch[];
+    recommendations: Omit<Recommendation, 'isCompleted'>[];
+    recommendationStatus: { userId: string; recommendationId: number; isCompleted: boolean; verifiedAt?: string | null }[];
+    goalCheckIns: GoalCheckIn[];
+    otps: StoredOtp[];
+    assistantConversations: AssistantConversation[];
+    assistantMessages: StoredAssistantMessage[];
+}
+
+// OTP policy, mirroring what the hosted `request_otp` / `verify_otp` functions enforce.
+const OTP_LENGTH = 6;
+const OTP_TTL_MS = 5 * 60 * 1000;
+const OTP_RESEND_COOLDOWN_MS = 60 * 1000;
+const OTP_MAX_REQUESTS_PER_HOUR = 5;
+const OTP_MAX_FAILED_ATTEMPTS = 5;
+const OTP_LOCKOUT_MS = 15 * 60 * 1000;
+
+const daysAgo = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return date;
+};
+
+const DEMO_USERS: { account: LocalAccount; firstName: string; lastName: string; health: Omit<HealthData, 'userId'> }[] = [
+    {
+        account: { id: 'demo-user-1', email: 'demo@example.com', password: 'demo1234' },
+        firstName: 'Asha',
+        lastName: 'Rao',
+        health: {
+            age: 34,
+            height: 165,
+            weight: 68,
+            gender: 'Female',
+            fitnessLevel: 'Intermediate',
+            existingConditions: 'Asthma',
+            allergies: 'Peanuts',
+            medications: 'Salbutamol inhaler',
+            preferredLanguage: 'English',
+        },
+    },
+    {
+        account: { id: 'demo-user-2', email: 'senior@example.com', password: 'demo1234' },
+        firstName: 'Ravi',
+        lastName: 'Menon',
+        health: {
+            age: 67,
+            height: 172,
+            weight: 81,
+            gender: 'Male',
+            fitnessLevel: 'Beginner',
+            existingConditions: 'Hypertension',
+            allergies: '',
+            medications: 'Amlodipine',
+            preferredLanguage: 'English',
+        },
+    },
+];
+
+// An earlier, archived batch so the goal history has something to show.
+const DEMO_PAST_GOALS: Omit<Recommendation, 'id' | 'userId' | 'isCompleted'>[] = [
+    { goal: 'Eat a vegetable with every meal', category: 'Diet', difficulty: 'Easy' },
+    { goal: 'Walk 6,000 steps every day this week', category: 'Exercise', difficulty: 'Medium', recurrence: { type: 'daily' }, durationDays: 7 },
+    { goal: 'Write down three things you are grateful for', category: 'Mental Health', difficulty: 'Easy' },
+    { goal: 'No screens for an hour before bed', category: 'General', difficulty: 'Hard' },
+];
+
+const DEMO_GOALS: Omit<Recommendation, 'id' | 'userId' | 'isCompleted'>[] = [
+    { goal: 'Drink 2 litres of water today', category: 'Diet', difficulty: 'Easy' },
+    { goal: 'Take a brisk 20-minute walk', category: 'Exercise', difficulty: 'Medium', recurrence: { type: 'weekly', timesPerWeek: 3 }, durationDays: 7 },
+    { goal: 'Practice 10 minutes of guided breathing', category: 'Mental Health', difficulty: 'Easy', recurrence: { type: 'daily' }, durationDays: 7 },
+    { goal: 'Be in bed by 11 pm', category: 'General', difficulty: 'Medium' },
+];
+
+const createEmptyDb = (): LocalDb => ({
+    nextId: 1,
+    sessionUserId: null,
+    pendingSessionUserId: null,
+    accounts: [],
+    users: [],
+    healthProfiles: [],
+    weightHistory: [],
+    pointsTransactions: [],
+    metrics: [],
+    gameSessions: [],
+    goalBatches: [],
+    recommendations: [],
+    recommendationStatus: [],
+    goalCheckIns: [],
+    otps: [],
+    assistantConversations: [],
+    assistantMessages: [],
+});
+
+const createSeedDb = (): LocalDb => {
+    const db = createEmptyDb();
+
+    DEMO_USERS.forEach((demo, userIndex) => {
+        const userId = demo.account.id;
+        db.accounts.push({ ...demo.account });
+        db.users.push({ id: userId, email: demo.account.email, firstName: demo.firstName, lastName: demo.lastName });
+        db.healthProfiles.push({ ...demo.health, userId });
+        db.weightHistory.push(
+            { userId, date: toDateKey(daysAgo(60)), weight: demo.health.weight + 2 },
+            { userId, date: toDateKey(daysAgo(30)), weight: demo.health.weight + 1 },
+            { userId, date: toDateKey(daysAgo(7)), weight: demo.health.weight },
+        );
+
+        // Thirty days of plausible, slightly noisy history, skipping today so the form is open.
+        for (let day = 30; day >= 1; day--) {
+            const wave = Math.sin((day + userIndex * 3) / 3);
+            const date = daysAgo(day);
+            db.metrics.push({
+                id: db.nextId++,
+                userId,
+                date: toDateKey(date),
+                heartRate: Math.round(68 + userIndex * 6 + wave * 5),
+                steps: Math.round(7000 - userIndex * 2500 + wave * 1800),
+                sleepHours: Math.round((7 - userIndex * 0.5 + wave * 0.8) * 10) / 10,
+                breathingRate: Math.round(15 + wave * 2),
+                distanceTravelled: Math.round((5.2 - userIndex * 1.8 + wave * 1.3) * 10) / 10,
+                caloriesBurnt: Math.round(2100 - userIndex * 300 + wave * 200),
+                createdAt: date.toISOString(),
+                updatedAt: date.toISOString(),
+            });
+            // Demo users logged most, but not all, past days.
+            if (day % 3 !== userIndex) {
+                db.pointsTransactions.push({ id: db.nextId++, userId, source: 'metrics', amount: 25, referenceId: toDateKey(date), createdAt: date.toISOString() });
+            }
+        }
+
+        // Six weeks of games. The second demo user's Memory Match results slip over the last two
+        // weeks, so the dashboard has a decline alert to show.
+        for (let day = 42; day >= 2; day -= 2) {
+            const date = daysAgo(day);
+            const wobble = Math.round(Math.sin(day * 1.7) * 2);
+            const slipping = userIndex === 1 && day < 14 ? Math.round((14 - day) * 0.8) + 4 : 0;
+            const tries = 26 + userIndex * 3 + wobble + slipping;
+            const sessions: Omit<StoredGameSession, 'id' | 'userId' | 'createdAt'>[] = [
+                { gameType: 'Memory', score: tries, scoreDirection: 'lower', durationMs: tries * 4000, difficulty: 'hard', status: 'completed', details: { pairs: 18, matchedPairs: 18 } },
+                { gameType: 'Clicker', score: 62 - userIndex * 12 + wobble * 2, scoreDirection: 'higher', durationMs: 10000, status: 'completed', details: { seconds: 10 } },
+            ];
+            sessions.forEach(session => {
+                const id = db.nextId++;
+                db.gameSessions.push({ ...session, id, userId, createdAt: date.toISOString() });
+                db.pointsTransactions.push({ id: db.nextId++, userId, source: 'game', amount: 10, referenceId: String(id), createdAt: date.toISOString() });
+            });
+        }
+
+        const pastBatchId = db.nextId++;
+        const currentBatchId = db.nextId++;
+        db.goalBatches.push(
+            { id: pastBatchId, userId, createdAt: daysAgo(8).toISOString(), archivedAt: daysAgo(1).toISOString() },
+            { id: currentBatchId, userId, createdAt: daysAgo(1).toISOString(), archivedAt: null },
+        );
+        DEMO_PAST_GOALS.forEach((goal, goalIndex) => {
+            const id = db.nextId++;
+            db.recommendations.push({ ...goal, id, userId, batchId: pastBatchId, startDate: toDateKey(daysAgo(8)), dueDate: toDateKey(daysAgo(2)) });
+            db.recommendationStatus.push({ userId, recommendationId: id, isCompleted: goalIndex !== 3 });
+            // The daily walking habit was kept up on all but one day.
+            if (goal.recurrence) {
+                [8, 7, 6, 4, 3, 2].forEach(day => {
+                    const date = toDateKey(daysAgo(day));
+                    db.goalCheckIns.push({ userId, recommendationId: id, date, createdAt: daysAgo(day).toISOString() });
+                    db.pointsTransactions.push({ id: db.nextId++, userId, source: 'goal', amount: GOAL_DIFFICULTY_POINTS[goal.difficulty], referenceId: `${id}:${date}`, createdAt: daysAgo(day).toISOString() });
+                });
+            }
+        });
+        DEMO_GOALS.forEach((goal, goalIndex) => {
+            const id = db.nextId++;
+            db.recommendations.push({ ...goal, id, userId, batchId: currentBatchId, startDate: toDateKey(daysAgo(1)), dueDate: toDateKey(daysAgo(-5)) });
+            if (goal.recurrence) {
+                const date = toDateKey(daysAgo(1));
+                db.goalCheckIns.push({ userId, recommendationId: id, date, createdAt: daysAgo(1).toISOString() });
+                db.pointsTransactions.push({ id: db.nextId++, userId, source: 'goal', amount: GOAL_DIFFICULTY_POINTS[goal.difficulty], referenceId: checkInPointsReference({ id, ...goal }, [], date)!, createdAt: daysAgo(1).toISOString() });
+            }
+            db.recommendationStatus.push({ userId, recommendationId: id, isCompleted: goalIndex === 0 });
+            if (goalIndex === 0) {
+                db.pointsTransactions.push({ id: db.nextId++, userId, source: 'goal', amount: GOAL_DIFFICULTY_POINTS[goal.difficulty], referenceId: String(id), createdAt: daysAgo(1).toISOString() });
+            }
+        });
+    });
+
+    return db;
+};
+
+const hasLocalStorage = () => {
+    try {
+        return typeof window !== 'undefined' && !!window.localStorage;
+    } catch {
+        return false;
+    }
+};
+
+const loadDb = (): LocalDb => {
+    if (hasLocalStorage()) {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        if (raw) {
+            try {
+                // Collections added after the data was first stored start out empty.
+                return { ...createEmptyDb(), ...JSON.parse(raw) } as LocalDb;
+            } catch (error) {
+                console.warn('Local data store is corrupt, reseeding:', error);
+            }
+        }
+    }
+    return createSeedDb();
+};
+
+let db = loadDb();
+
+const persist = () => {
+    if (hasLocalStorage()) {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+    }
+};
+
+// Drops all local data and restores the seeded demo users.
+export const resetLocalDb = () => {
+    db = createSeedDb();
+    persist();
+};
+
+const randomDigits = (length: number) => {
+    const values = crypto.getRandomValues(new Uint32Array(length));
+    return Array.from(values, v => String(v % 10)).join('');
+};
+
+const hashOtp = async (salt: string, code: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${code}`));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const withCompletion = (userId: string, rec: Omit<Recommendation, 'isCompleted'>): Recommendation => {
+    const status = db.recommendationStatus.find(s => s.userId === userId && s.recommendationId === rec.id);
+    return { ...rec, isCompleted: status?.isCompleted ?? false, verifiedAt: status?.verifiedAt ?? null };
+};
+
+const getBalance = (userId: string) =>
+    db.pointsTransactions.filter(t => t.userId === userId).reduce((sum, t) => sum + t.amount, 0);
+
+const goalQuotaFor = (userId: string) =>
+    evaluateGoalQuota(GOAL_QUOTA_POLICY, db.goalBatches.filter(b => b.userId === userId).map(b => b.createdAt), getBalance(userId));
+
+const upsertMetrics = (userId: string, entry: Omit<DailyMetrics, 'userId'>) => {
+    const now = new Date().toISOString();
+    const existing = db.metrics.find(m => m.userId === userId && m.date === entry.date);
+    const stored: StoredMetrics = {
+        ...entry,
+        userId,
+        id: existing?.id ?? db.nextId++,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    };
+    db.metrics = db.metrics.filter(m => m !== existing);
+    db.metrics.push(stored);
+    return { stored, created: !existing };
+};
+
+// Newest first. Older stored sessions were all completed games without a recorded duration.
+const getGameSessions = (userId: string, gameType?: GameType): GameSession[] => db.gameSessions
+    .filter(s => s.userId === userId && (!gameType || s.gameType === gameType))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id)
+    .map(({ createdAt, ...session }) => ({
+        ...session,
+        scoreDirection: session.scoreDirection ?? defaultScoreDirection(session.gameType),
+        durationMs: session.durationMs ?? null,
+        status: session.status ?? 'completed',
+        timestamp: new Date(createdAt),
+    }));
+
+const toUser = (userId: string): User | null => {
+    const profile = db.users.find(u => u.id === userId);
+    return profile ? { ...profile, points: getBalance(userId) } : null;
+};
+
+export const localApiService: ApiService = {
+    auth: {
+        signUp: async ({ email, password }) => {
+            const normalizedEmail = email.trim().toLowerCase();
+            if (db.accounts.some(a => a.email === normalizedEmail)) {
+                return { account: null, error: 'User already registered' };
+            }
+            const account: LocalAccount = { id: crypto.randomUUID(), email: normalizedEmail, password };
+            db.accounts.push(account);
+            db.sessionUserId = null;
+            db.pendingSessionUserId = account.id;
+            persist();
+            return { account: { id: account.id, email: account.email } };
+        },
+        signInWithPassword: async ({ email, password }) => {
+            const account = db.accounts.find(a => a.email === email.trim().toLowerCase());
+            if (!account || account.password !== password) {
+                return { account: null, error: 'Invalid login credentials' };
+            }
+            db.sessionUserId = null;
+            db.pendingSessionUserId = account.id;
+            persist();
+            return { account: { id: account.id, email: account.email } };
+        },
+        getSession: async () => {
+            const account = db.accounts.find(a => a.id === db.sessionUserId);
+            return account ? { id: account.id, email: account.email } : null;
+        },
+        signOut: async () => {
+            db.sessionUserId = null;
+            db.pendingSessionUserId = null;
+            persist();
+        },
+        getFullUserProfile: async (userId) => {
+            const user = toUser(userId);
+            if (!user) return { user: null, health: null, error: 'User profile not found.' };
+            const health = db.healthProfiles.find(h => h.userId === userId) ?? null;
+            return { user, health: health ? { ...health } : null, error: null };
+        },
+    },
+    otp: {
+        request: async (email) => {
+            const normalizedEmail = email.trim().toLowerCase();
+            const now = Date.now();
+            const record = db.otps.find(o => o.email === normalizedEmail);
+
+            if (record?.lockedUntil && record.lockedUntil > now) {
+                return { sent: false, error: 'Too many failed attempts. Try again later.', resendAvailableAt: new Date(record.lockedUntil).toISOString() };
+            }
+            const recentRequests = (record?.requestTimes ?? []).filter(t => now - t < 60 * 60 * 1000);
+            const lastRequest = recentRequests[recentRequests.length - 1];
+            if (lastRequest !== undefined && now - lastRequest < OTP_RESEND_COOLDOWN_MS) {
+                return { sent: false, error: 'Please wait before requesting another code.', resendAvailableAt: new Date(lastRequest + OTP_RESEND_COOLDOWN_MS).toISOString() };
+            }
+            if (recentRequests.length >= OTP_MAX_REQUESTS_PER_HOUR) {
+                return { sent: false, error: 'Too many codes requested. Try again later.', resendAvailableAt: new Date(recentRequests[0] + 60 * 60 * 1000).toISOString() };
+            }
+
+            const code = randomDigits(OTP_LENGTH);
+            const salt = randomDigits(16);
+            const nextRecord: StoredOtp = {
+                email: normalizedEmail,
+                salt,
+                codeHash: await hashOtp(salt, code),
+                expiresAt: now + OTP_TTL_MS,
+                failedAttempts: 0,
+                lockedUntil: null,
+                requestTimes: [...recentRequests, now],
+            };
+            db.otps = db.otps.filter(o => o.email !== normalizedEmail);
+            db.otps.push(nextRecord);
+            persist();
+
+            // There is no mail server offline; the console stands in for the user's inbox.
+            console.info(`[local mail] Verification code for ${normalizedEmail}: ${code}`);
+            return {
+                sent: true,
+                expiresAt: new Date(nextRecord.expiresAt).toISOString(),
+                resendAvailableAt: new Date(now + OTP_RESEND_COOLDOWN_MS).toISOString(),
+            };
+        },
+        verify: async (email, code) => {
+            const normalizedEmail = email.trim().toLowerCase();
+            const activatePendingSession = () => {
+                const pending = db.accounts.find(a => a.id === db.pendingSessionUserId);
+                if (pending?.email === normalizedEmail) {
+                    db.sessionUserId = pending.id;
+                    db.pendingSessionUserId = null;
+                }
+                persist();
+            };
+            if (isOtpDevBypass(normalizedEmail, code)) {
+                activatePendingSession();
+                return { valid: true };
+            }
+
+            const record = db.otps.find(o => o.email === normalizedEmail);
+            const now = Date.now();
+            if (!record || !record.codeHash) {
+                return { valid: false, error: 'No active code. Please request a new one.' };
+            }
+            if (record.lockedUntil && record.lockedUntil > now) {
+                return { valid: false, attemptsRemaining: 0, lockedUntil: new Date(record.lockedUntil).toISOString(), error: 'Too many failed attempts. Try again later.' };
+            }
+            if (record.expiresAt <= now) {
+                record.codeHash = '';
+                persist();
+                return { valid: false, error: 'This code has expired. Please request a new one.' };
+            }
+
+            if (await hashOtp(record.salt, code.trim()) === record.codeHash) {
+                db.otps = db.otps.filter(o => o !== record);
+                activatePendingSession();
+                return { valid: true };
+            }
+
+            record.failedAttempts += 1;
+            const attemptsRemaining = Math.max(0, OTP_MAX_FAILED_ATTEMPTS - record.failedAttempts);
+            if (attemptsRemaining === 0) {
+                record.codeHash = '';
+                record.lockedUntil = now + OTP_LOCKOUT_MS;
+            }
+            persist();
+            return {
+                valid: false,
+                attemptsRemaining,
+                lockedUntil: record.lockedUntil ? new Date(record.lockedUntil).toISOString() : undefined,
+                error: attemptsRemaining === 0 ? 'Too many failed attempts. Try again later.' : 'Invalid code.',
+            };
+        },
+    },
+    user: {
+        saveInitialDetails: async (userData, healthData) => {
+            if (db.users.some(u => u.id === userData.id)) {
+                return { user: null, error: 'User profile already exists.' };
+            }
+            db.users.push({ id: userData.id, email: userData.email, firstName: userData.firstName, lastName: userData.lastName });
+            db.healthProfiles.push({ ...healthData, userId: userData.id });
+            db.weightHistory.push({ userId: userData.id, date: todayKey(), weight: healthData.weight });
+            persist();
+            return { user: { ...userData, points: 0 }, error: null };
+        },
+        updateDetails: async (userId, updates) => {
+            const profile = db.users.find(u => u.id === userId);
+            const account = db.accounts.find(a => a.id === userId);
+            if (!profile || !account) return { updatedUser: null, error: 'User not found.' };
+
+            if (updates.password) account.password = updates.password;
+            if (updates.firstName) profile.firstName = updates.firstName;
+            if (updates.lastName) profile.lastName = updates.lastName;
+            if (updates.email) {
+                profile.email = updates.email;
+                account.email = updates.email.trim().toLowerCase();
+            }
+            persist();
+            return { updatedUser: toUser(userId) };
+        },
+        updateHealthProfile: async (userId, healthData) => {
+            const index = db.healthProfiles.findIndex(h => h.userId === userId);
+            if (index === -1) return { health: null, error: 'Health profile not found.' };
+
+            const previousWeight = db.healthProfiles[index].weight;
+            db.healthProfiles[index] = { ...healthData, userId };
+            if (previousWeight !== healthData.weight) {
+                const date = todayKey();
+                db.weightHistory = db.weightHistory.filter(w => !(w.userId === userId && w.date === date));
+                db.weightHistory.push({ userId, date, weight: healthData.weight });
+            }
+            persist();
+            return { health: { ...db.healthProfiles[index] } };
+        },
+        getWeightHistory: async (userId) => db.weightHistory
+            .filter(w => w.userId === userId)
+            .sort((a, b) => a.date.localeCompare(b.date))
+            .map(w => ({ ...w })),
+    },
+    points: {
+        award: async (userId, entry) => {
+            const isDuplicate = db.pointsTransactions.some(t =>
+                t.userId === userId && t.source === entry.source && t.referenceId === entry.referenceId);
+            if (!isDuplicate) {
+                db.pointsTransactions.push({ ...entry, id: db.nextId++, userId, createdAt: new Date().toISOString() });
+                persist();
+            }
+            return { balance: getBalance(userId), awarded: !isDuplicate };
+        },
+        getBalance: async (userId) => getBalance(userId),
+        getHistory: async (userId) => db.pointsTransactions
+            .filter(t => t.userId === userId)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+            .map(t => ({ ...t })),
+    },
+    metrics: {
+        getByDate: async (userId, date) => {
+            const stored = db.metrics.find(m => m.userId === userId && m.date === date);
+            if (!stored) return null;
+            const { id, createdAt, updatedAt, ...entry } = stored;
+            return entry;
+        },
+        upsert: async (userId, entry) => {
+            const { stored, created } = upsertMetrics(userId, entry);
+            persist();
+            return { id: stored.id, created };
+        },
+        upsertMany: async (userId, entries) => {
+            entries.forEach(entry => upsertMetrics(userId, entry));
+            persist();
+            return { count: entries.length };
+        },
+        getRange: async (userId, from, to) => db.metrics
+            .filter(m => m.userId === userId && m.date >= from && m.date <= to)
+            .sort((a, b) => a.date.localeCompare(b.date))
+            .map(({ id, createdAt, updatedAt, ...entry }) => entry),
+    },
+    games: {
+        saveSession: async (session) => {
+            const id = db.nextId++;
+            db.gameSessions.push({ ...session, id, createdAt: new Date().toISOString() });
+            persist();
+            return { id };
+        },
+        getSessions: async (userId, gameType) => getGameSessions(userId, gameType),
+        getStats: async (userId) => summarizeGameHistory(getGameSessions(userId)),
+    },
+    recommendations: {
+        get: async (userId) => {
+            const current = db.goalBatches.find(b => b.userId === userId && b.archivedAt === null);
+            return db.recommendations
+                .filter(r => r.userId === userId && r.batchId === current?.id)
+                .map(r => withCompletion(userId, r));
+        },
+        getQuota: async (userId) => goalQuotaFor(userId),
+        create: async (userId, newGoals) => {
+            if (goalQuotaFor(userId).remaining === 0) {
+                return { batch: null, recommendations: [], error: 'Goal generation limit reached for this period.' };
+            }
+            const now = new Date().toISOString();
+            db.goalBatches.forEach(b => {
+                if (b.userId === userId && b.archivedAt === null) b.archivedAt = now;
+            });
+            const batch: GoalBatch = { id: db.nextId++, userId, source: newGoals[0]?.source, createdAt: now, archivedAt: null };
+            db.goalBatches.push(batch);
+            const created = newGoals.map(g => ({ ...g, id: db.nextId++, userId, batchId: batch.id }));
+            db.recommendations.push(...created);
+            persist();
+            return { batch, recommendations: created.map(r => ({ ...r, isCompleted: false })) };
+        },
+        getHistory: async (userId) => {
+            const batches = db.goalBatches
+                .filter(b => b.userId === userId)
+                .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+            const recommendations = db.recommendations
+                .filter(r => r.userId === userId)
+                .map(r => withCompletion(userId, r));
+            return { batches, recommendations };
+        },
+        updateStatus: async (userId, updatedRecs) => {
+            updatedRecs.forEach(rec => {
+                const existing = db.recommendationStatus.find(s => s.userId === userId && s.recommendationId === rec.id);
+                if (existing) {
+                    existing.isCompleted = rec.isCompleted;
+                    existing.verifiedAt = rec.verifiedAt ?? null;
+                } else {
+                    db.recommendationStatus.push({ userId, recommendationId: rec.id, isCompleted: rec.isCompleted, verifiedAt: rec.verifiedAt ?? null });
+                }
+            });
+            persist();
+            return {};
+        },
+        getCheckIns: async (userId) => {
+            return db.goalCheckIns.filter(c => c.userId === userId).sort((a, b) => a.date.localeCompare(b.date));
+        },
+        setCheckIn: async (userId, recommendationId, date, done) => {
+            db.goalCheckIns = db.goalCheckIns.filter(c => !(c.recommendationId === recommendationId && c.date === date));
+            if (done) {
+                db.goalCheckIns.push({ userId, recommendationId, date, createdAt: new Date().toISOString() });
+            }
+            persist();
+            return {};
+        },
+    },
+    assistant: {
+        getConversations: async (userId) => db.assistantConversations
+            .filter(c => c.userId === userId)
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+            .map(c => ({ ...c })),
+        getMessages: async (userId, conversationId) => db.assistantMessages
+            .filter(m => m.userId === userId && m.conversationId === conversationId)
+            .map(({ userId: owner, ...message }) => message),
+        createConversation: async (userId, title) => {
+            const now = new Date().toISOString();
+            const conversation: AssistantConversation = { id: db.nextId++, userId, title, createdAt: now, updatedAt: now };
+            db.assistantConversations.push(conversation);
+            persist();
+            return { conversation: { ...conversation } };
+        },
+        addMessages: async (userId, conversationId, messages) => {
+            const conversation = db.assistantConversations.find(c => c.userId === userId && c.id === conversationId);
+            if (!conversation) return { messages: [], error: 'Conversation not found.' };
+            const now = new Date().toISOString();
+            const stored = messages.map(message => ({ ...message, id: db.nextId++, conversationId, createdAt: now }));
+            db.assistantMessages.push(...stored.map(message => ({ ...message, userId })));
+            conversation.updatedAt = now;
+            persist();
+            return { messages: stored };
+        },
+        deleteConversation: async (userId, conversationId) => {
+            db.assistantConversations = db.assistantConversations.filter(c => !(c.userId === userId && c.id === conversationId));
+            db.assistantMessages = db.assistantMessages.filter(m => !(m.userId === userId && m.conversationId === conversationId));
+            persist();
+            return {};
+        },
+    },
+};
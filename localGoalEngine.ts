@@ -0,0 +1,177 @@
+import { DailyMetrics, HealthData } from '../types';
+import { MetricKey } from './metricFields';
+import { GeneratedGoal, GoalProvider } from './goalProvider';
+import { DEFAULT_LANGUAGE, LanguageCode, MessageKey, MessageParams, formatNumber, translate } from './i18n';
+
+// Rule-based goal generator that runs entirely on the device. The same profile and metrics always
+// produce the same goals, so it can stand in whenever the remote goal service is unavailable.
+
+const SLEEP_TARGET_HOURS = 7;
+const LOW_STEPS = 5000;
+const ACTIVE_STEPS = 8000;
+const HIGH_RESTING_HEART_RATE = 85;
+
+const average = (entries: DailyMetrics[], key: MetricKey): number | null => {
+    const values = entries.map(entry => entry[key]).filter((value): value is number => typeof value === 'number');
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+};
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+export const bmiFor = (health: Pick<HealthData, 'height' | 'weight'>): number | null =>
+    health.height > 0 && health.weight > 0 ? health.weight / (health.height / 100) ** 2 : null;
+
+// Goal ids with a `localGoal.<id>` text and a `localGoal.<id>.why` rationale in the catalogs.
+type LocalGoalId = MessageKey extends infer Key ? Key extends `localGoal.${infer Id}.why` ? Id : never : never;
+
+const goalText = (language: LanguageCode, id: LocalGoalId, params?: MessageParams) => ({
+    goal: translate(language, `localGoal.${id}`, params),
+    rationale: translate(language, `localGoal.${id}.why`, params),
+});
+
+const oneDecimal = (language: LanguageCode, value: number) =>
+    formatNumber(language, value, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+const hasCondition = (health: HealthData | null, ...keywords: string[]) => {
+    const conditions = (health?.existingConditions ?? '').toLowerCase();
+    return keywords.some(keyword => conditions.includes(keyword));
+};
+
+const exerciseGoals = (language: LanguageCode, health: HealthData | null, avgSteps: number | null): GeneratedGoal[] => {
+    const goals: GeneratedGoal[] = [];
+    if (avgSteps !== null && avgSteps < LOW_STEPS) {
+        const target = roundTo(avgSteps + 1500, 500);
+        goals.push({
+            ...goalText(language, 'walkSteps', { target, steps: Math.round(avgSteps) }), category: 'Exercise', difficulty: 'Easy',
+            recurrence: { type: 'daily' },
+            durationDays: 7,
+            metricTarget: { metric: 'steps', comparator: 'atLeast', value: target, days: 7 },
+        });
+    } else if (avgSteps !== null && avgSteps < ACTIVE_STEPS) {
+        goals.push({
+            ...goalText(language, 'activeDays', { target: ACTIVE_STEPS, steps: Math.round(avgSteps) }), category: 'Exercise', difficulty: 'Medium',
+            recurrence: { type: 'weekly', timesPerWeek: 4 },
+            durationDays: 7,
+            metricTarget: { metric: 'steps', comparator: 'atLeast', value: ACTIVE_STEPS, days: 4 },
+        });
+    } else if (avgSteps === null) {
+        goals.push({
+            ...goalText(language, 'mealWalk'), category: 'Exercise', difficulty: 'Easy',
+            recurrence: { type: 'daily' },
+            durationDays: 7,
+        });
+    }
+
+    const level = health?.fitnessLevel ?? 'Beginner';
+    if (hasCondition(health, 'asthma', 'copd')) {
+        goals.push({
+            ...goalText(language, 'lowIntensityCardio'), category: 'Exercise', difficulty: 'Medium',
+            durationDays: 7,
+        });
+    } else if (level === 'Advanced' || (avgSteps ?? 0) >= ACTIVE_STEPS) {
+        goals.push({
+            ...goalText(language, 'intervals'), category: 'Exercise', difficulty: 'Hard',
+            recurrence: { type: 'weekly', timesPerWeek: 2 },
+            durationDays: 7,
+        });
+    } else if (level === 'Intermediate') {
+        goals.push({
+            ...goalText(language, 'strength'), category: 'Exercise', difficulty: 'Medium',
+            recurrence: { type: 'weekly', timesPerWeek: 2 },
+            durationDays: 7,
+        });
+    } else {
+        goals.push({
+            ...goalText(language, 'stretching'), category: 'Exercise', difficulty: 'Easy',
+            recurrence: { type: 'daily' },
+            durationDays: 7,
+        });
+    }
+    return goals;
+};
+
+const dietGoals = (language: LanguageCode, health: HealthData | null): GeneratedGoal[] => {
+    if (hasCondition(health, 'hypertension', 'blood pressure')) {
+        return [{
+            ...goalText(language, 'salt'), category: 'Diet', difficulty: 'Medium',
+            durationDays: 7,
+        }];
+    }
+    if (hasCondition(health, 'diabetes')) {
+        return [{
+            ...goalText(language, 'wholeGrains'), category: 'Diet', difficulty: 'Hard',
+            durationDays: 7,
+        }];
+    }
+    const bmi = health ? bmiFor(health) : null;
+    if (bmi !== null && bmi >= 25) {
+        return [{
+            ...goalText(language, 'sugaryDrinks', { bmi: oneDecimal(language, bmi) }), category: 'Diet', difficulty: 'Medium',
+            recurrence: { type: 'daily' },
+            durationDays: 7,
+        }];
+    }
+    if (bmi !== null && bmi < 18.5) {
+        return [{
+            ...goalText(language, 'proteinSnack', { bmi: oneDecimal(language, bmi) }), category: 'Diet', difficulty: 'Medium',
+            durationDays: 7,
+        }];
+    }
+    return [{
+        ...goalText(language, 'fruitVeg'), category: 'Diet', difficulty: 'Easy',
+        durationDays: 1,
+    }];
+};
+
+const mentalHealthGoals = (language: LanguageCode, avgHeartRate: number | null): GeneratedGoal[] => {
+    if (avgHeartRate !== null && avgHeartRate >= HIGH_RESTING_HEART_RATE) {
+        return [{
+            ...goalText(language, 'slowBreathing', { heartRate: Math.round(avgHeartRate) }), category: 'Mental Health', difficulty: 'Medium',
+            recurrence: { type: 'daily' },
+            durationDays: 7,
+            metricTarget: { metric: 'heartRate', comparator: 'atMost', value: HIGH_RESTING_HEART_RATE - 5, days: 3 },
+        }];
+    }
+    return [{
+        ...goalText(language, 'screenFree'), category: 'Mental Health', difficulty: 'Easy',
+        recurrence: { type: 'daily' },
+        durationDays: 7,
+    }];
+};
+
+const generalGoals = (language: LanguageCode, avgSleep: number | null): GeneratedGoal[] => {
+    if (avgSleep !== null && avgSleep < SLEEP_TARGET_HOURS) {
+        return [{
+            ...goalText(language, 'earlierBed', { hours: SLEEP_TARGET_HOURS, average: oneDecimal(language, avgSleep) }), category: 'General', difficulty: avgSleep < 6 ? 'Hard' : 'Medium',
+            recurrence: { type: 'daily' },
+            durationDays: 7,
+            metricTarget: { metric: 'sleepHours', comparator: 'atLeast', value: SLEEP_TARGET_HOURS, days: 5 },
+        }];
+    }
+    return [{
+        ...goalText(language, 'logMetrics'), category: 'General', difficulty: 'Easy',
+        durationDays: 7,
+    }];
+};
+
+// `recentMetrics` should cover the last GOAL_LOOKBACK_DAYS days; missing days are ignored.
+export const generateLocalGoals = (health: HealthData | null, recentMetrics: DailyMetrics[], language: LanguageCode = DEFAULT_LANGUAGE): GeneratedGoal[] => {
+    const avgSteps = average(recentMetrics, 'steps');
+    const avgSleep = average(recentMetrics, 'sleepHours');
+    const avgHeartRate = average(recentMetrics, 'heartRate');
+
+    return [
+        ...generalGoals(language, avgSleep),
+        ...exerciseGoals(language, health, avgSteps),
+        ...dietGoals(language, health),
+        ...mentalHealthGoals(language, avgHeartRate),
+    ];
+};
+
+export const localGoalProvider: GoalProvider = {
+    id: 'local',
+    label: 'On-device',
+    description: 'Simple rules applied to your profile and recent metrics. Nothing leaves your device.',
+    isAvailable: () => true,
+    generate: async ({ health, recentMetrics, language }) => ({ goals: generateLocalGoals(health, recentMetrics, language), issues: [] }),
+};
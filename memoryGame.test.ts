@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { MEMORY_LEVELS, dealBoard, getMemoryLevel } from './memoryGame';
+
+describe('dealBoard', () => {
+    it('deals the same board for the same level and seed', () => {
+        const medium = getMemoryLevel('medium');
+
+        expect(dealBoard(medium, 123456789)).toEqual(dealBoard(medium, 123456789));
+    });
+
+    it('deals a different board for a different seed', () => {
+        const medium = getMemoryLevel('medium');
+
+        expect(dealBoard(medium, 1)).not.toEqual(dealBoard(medium, 2));
+    });
+
+    it('deals each face exactly twice, with as many pairs as the level has', () => {
+        MEMORY_LEVELS.forEach(level => {
+            const board = dealBoard(level, 42);
+            const counts = new Map<string, number>();
+            board.forEach(face => counts.set(face, (counts.get(face) ?? 0) + 1));
+
+            expect(board).toHaveLength(level.pairs * 2);
+            expect(counts.size).toBe(level.pairs);
+            expect([...counts.values()].every(count => count === 2)).toBe(true);
+        });
+    });
+});
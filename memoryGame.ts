@@ -0,0 +1,116 @@
+import { GameSession } from '../types';
+import { LanguageCode, translate } from './i18n';
+
+// Memory Match boards, levels and adaptive difficulty. Boards are dealt from a seeded generator, and
+// the seed is saved with the session so any board can be dealt again.
+
+export type MemoryLevelId = 'easy' | 'medium' | 'hard';
+
+export interface MemoryLevel {
+    id: MemoryLevelId;
+    pairs: number;
+    gridClass: string; // Tailwind needs the class names written out in full
+    previewMs: number; // every card is shown face up for this long before play starts
+    timeLimitMs: number; // in timed mode
+}
+
+// Saved as the session's details. The level is the session's difficulty.
+export interface MemoryDetails {
+    pairs: number;
+    matchedPairs: number;
+    seed?: number; // dealBoard with this seed and the level deals the same board again
+    previewMs?: number;
+    timeLimitMs?: number; // timed games only
+    adaptive?: boolean; // the level was picked by adaptive mode
+}
+
+export const MEMORY_LEVELS: MemoryLevel[] = [
+    { id: 'easy', pairs: 6, gridClass: 'grid-cols-4', previewMs: 3000, timeLimitMs: 60_000 },
+    { id: 'medium', pairs: 10, gridClass: 'grid-cols-5', previewMs: 4000, timeLimitMs: 120_000 },
+    { id: 'hard', pairs: 18, gridClass: 'grid-cols-6', previewMs: 5000, timeLimitMs: 240_000 },
+];
+
+export const MEMORY_EMOJIS = ['🐶', '🐱', '🐭', '🐹', '🐰', '🦊', '🐻', '🐼', '🐨', '🐯', '🦁', '🐮', '🐷', '🐸', '🐵', '🐔', '🐧', '🐦'];
+
+// Adaptive mode looks at the latest sessions: it steps up after two efficient games in a row at the
+// current level and down after a game that was abandoned, timed out or took many tries. Efficiency
+// is pairs per try, so 1 is a perfect game.
+export const MEMORY_ADAPTIVE_POLICY = {
+    stepUpEfficiency: 0.6,
+    stepUpSessions: 2,
+    stepDownEfficiency: 0.35,
+};
+
+export const getMemoryLevel = (id: MemoryLevelId) => MEMORY_LEVELS.find(level => level.id === id)!;
+
+// Sessions store the level, with a suffix for timed games: 'medium' or 'medium-timed'.
+export const memoryDifficulty = (level: MemoryLevelId, timed: boolean) => (timed ? `${level}-timed` : level);
+
+export const parseMemoryDifficulty = (difficulty: string | undefined): { level: MemoryLevel; timed: boolean } | null => {
+    const [id, suffix] = (difficulty ?? '').split('-');
+    const level = MEMORY_LEVELS.find(candidate => candidate.id === id);
+    return level && (suffix === undefined || suffix === 'timed') ? { level, timed: suffix === 'timed' } : null;
+};
+
+export const memoryDifficultyLabel = (language: LanguageCode, difficulty: string) => {
+    const parsed = parseMemoryDifficulty(difficulty);
+    if (!parsed) return difficulty;
+    const level = translate(language, `game.memory.level.${parsed.level.id}` as const);
+    return parsed.timed ? translate(language, 'game.memory.levelTimed', { level }) : level;
+};
+
+// mulberry32: a small, fast generator that is plenty for dealing cards. Returns values in [0, 1).
+export const createRng = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+// Fisher–Yates: every order is equally likely, unlike sorting with a random comparator.
+export const shuffle = <T>(items: T[], random: () => number): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+// The same level and seed always deal the same board.
+export const dealBoard = (level: MemoryLevel, seed: number): string[] => {
+    const random = createRng(seed);
+    const faces = shuffle(MEMORY_EMOJIS, random).slice(0, level.pairs);
+    return shuffle([...faces, ...faces], random);
+};
+
+const efficiency = (session: GameSession, level: MemoryLevel) =>
+    session.status === 'completed' && session.score > 0 ? level.pairs / session.score : 0;
+
+// The level adaptive mode plays next, from the user's Memory Match sessions, newest first. New
+// players start on easy.
+export const chooseAdaptiveLevel = (sessions: GameSession[]): MemoryLevelId => {
+    const policy = MEMORY_ADAPTIVE_POLICY;
+    const played = sessions
+        .filter(session => session.gameType === 'Memory')
+        .map(session => ({ session, level: parseMemoryDifficulty(session.difficulty)?.level }))
+        .filter((entry): entry is { session: GameSession; level: MemoryLevel } => !!entry.level);
+    if (played.length === 0) return 'easy';
+
+    const current = played[0].level;
+    const index = MEMORY_LEVELS.indexOf(current);
+    if (efficiency(played[0].session, current) < policy.stepDownEfficiency) {
+        return MEMORY_LEVELS[Math.max(index - 1, 0)].id;
+    }
+    const streak = played.slice(0, policy.stepUpSessions);
+    if (streak.length === policy.stepUpSessions && streak.every(({ session, level }) => level === current && efficiency(session, level) >= policy.stepUpEfficiency)) {
+        return MEMORY_LEVELS[Math.min(index + 1, MEMORY_LEVELS.length - 1)].id;
+    }
+    return current.id;
+};
@@ -0,0 +1,483 @@
+// English message catalog. It is the reference: every other catalog must have the same keys.
+// Placeholders are written {name}; an object with `one`/`other` is chosen by the `count` param.
+
+export type Message = string | { one?: string; few?: string; many?: string; other: string };
+
+export const en = {
+    'app.loading': 'Loading Application...',
+    'common.saving': 'Saving...',
+    'common.saveChanges': 'Save Changes',
+    'common.loading': 'Loading...',
+    'common.close': 'Close',
+    'common.signOut': 'Sign Out',
+    'common.firstName': 'First Name',
+    'common.lastName': 'Last Name',
+    'common.email': 'Email address',
+    'common.password': 'Password',
+    'common.confirmPassword': 'Confirm Password',
+    'common.age': 'Age',
+    'common.heightCm': 'Height (cm)',
+    'common.weightKg': 'Weight (kg)',
+    'common.gender': 'Gender',
+    'common.fitnessLevel': 'Fitness Level',
+    'common.preferredLanguage': 'Preferred Language',
+    'common.existingConditions': 'Existing Conditions',
+    'common.allergies': 'Allergies',
+    'common.medications': 'Current Medications',
+    'common.points': { one: '{count} Point', other: '{count} Points' },
+
+    'gender.Male': 'Male',
+    'gender.Female': 'Female',
+    'gender.Other': 'Other',
+    'fitness.Beginner': 'Beginner',
+    'fitness.Intermediate': 'Intermediate',
+    'fitness.Advanced': 'Advanced',
+    'category.Diet': 'Diet',
+    'category.Exercise': 'Exercise',
+    'category.Mental Health': 'Mental Health',
+    'category.General': 'General',
+    'difficulty.Easy': 'Easy',
+    'difficulty.Medium': 'Medium',
+    'difficulty.Hard': 'Hard',
+
+    'metric.heartRate': 'Heart Rate',
+    'metric.steps': 'Steps',
+    'metric.sleepHours': 'Sleep',
+    'metric.breathingRate': 'Breathing Rate',
+    'metric.distanceTravelled': 'Distance Travelled',
+    'metric.caloriesBurnt': 'Calories Burnt',
+    'unitName.bpm': 'bpm',
+    'unitName.count': 'count',
+    'unitName.hours': 'hours',
+    'unitName.breaths/min': 'breaths/min',
+    'unitName.km': 'km',
+    'unitName.kcal': 'kcal',
+    'unit.bpm': '{value} bpm',
+    'unit.count': '{value}',
+    'unit.breaths/min': '{value} breaths/min',
+    'unit.kcal': '{value} kcal',
+
+    'validation.required': '{field} is required.',
+    'validation.range': '{field} must be between {min} and {max}.',
+    'validation.wholeNumber': '{field} must be a whole number.',
+    'validation.chooseGender': 'Please choose a gender.',
+    'validation.chooseFitness': 'Please choose a fitness level.',
+    'validation.tooLong': 'Please keep this under {max} characters.',
+    'validation.language': 'Preferred language is required.',
+
+    'header.brand': 'Health Monitor',
+    'header.pointsHistory': 'Points History',
+    'header.noPoints': 'No points earned yet.',
+    'points.game': 'Game played',
+    'points.metrics': 'Daily metrics logged',
+    'points.goal': 'Goal completed',
+    'points.opening': 'Earlier points',
+
+    'home.welcome': 'Welcome back, {name}!',
+    'home.intro': "Here's your personal health dashboard. What would you like to do today?",
+    'home.diagnosis': 'Diagnosis',
+    'home.diagnosisDescription': 'Engage in activities and track your daily health metrics.',
+    'home.progress': 'Progress',
+    'home.progressDescription': 'View and manage your AI-generated health goals.',
+    'home.settings': 'Settings',
+    'home.settingsDescription': 'Manage your account details and preferences.',
+    'home.assistant': 'Health Assistant',
+    'home.assistantDescription': 'Ask questions about your goals and metrics.',
+    'home.signOutDescription': 'End your session and sign out from the application.',
+    'cognitive.title': 'Cognitive trends',
+    'cognitive.intro': 'Your game results over the last {days} days, compared with your own usual level.',
+    'cognitive.gameLevel': '{game} · {level}',
+    'cognitive.baseline': 'Usual: {score}',
+    'cognitive.recent': 'Last {days} days: {score}',
+    'cognitive.noRecent': 'Not played in the last {days} days',
+    'cognitive.buildingBaseline': 'Keep playing to set your usual level',
+    'cognitive.declining': 'Worse than usual',
+    'cognitive.alertTitle': 'Some of your game results have changed',
+    'cognitive.decline': '{game}: your typical result over the last {days} days was {recent}, compared with {baseline} before.',
+    'cognitive.nextSteps': 'Suggested next steps',
+    'cognitive.step.retry': "Play again when you're rested. Poor sleep, stress, illness, alcohol and some medicines can affect results for a while.",
+    'cognitive.step.sleep': 'Look at your recent sleep and activity in your metric trends.',
+    'cognitive.step.doctor': 'If you or people close to you have noticed changes in memory, attention or reaction speed in daily life, mention it to your doctor.',
+    'cognitive.disclaimer': 'These games are not a medical test. You are only compared with your own earlier results.',
+
+    'auth.signInTitle': 'Sign in to your account',
+    'auth.notMember': 'Not a member?',
+    'auth.signUpNow': 'Sign up now',
+    'auth.signingIn': 'Signing In...',
+    'auth.getOtp': 'Get OTP',
+    'auth.otpTitle': 'Enter Verification Code',
+    'auth.backToLogin': 'Back to login',
+    'auth.otpSentTo': 'An OTP has been sent to {email}.',
+    'auth.otp': 'OTP',
+    'auth.verifying': 'Verifying...',
+    'auth.verify': 'Verify & Login',
+    'auth.resendIn': 'Resend code in {seconds}s',
+    'auth.resend': 'Resend code',
+    'auth.signUpTitle': 'Create a new account',
+    'auth.haveAccount': 'Already have an account?',
+    'auth.signIn': 'Sign In',
+    'auth.creatingAccount': 'Creating Account...',
+    'auth.signUp': 'Sign Up',
+    'auth.aboutYouTitle': 'Tell us about yourself',
+    'auth.aboutYouFooter': 'This helps us personalize your experience.',
+    'auth.conditionsHint': 'Existing Conditions (e.g., Diabetes, Asthma)',
+    'auth.allergiesHint': 'Allergies (e.g., Peanuts, Pollen)',
+    'auth.completeProfile': 'Complete Profile',
+    'auth.otpFailed': 'Failed to send OTP. Please try again.',
+    'auth.otpResent': 'A new OTP has been sent to your email.',
+    'auth.invalidCredentials': 'Invalid credentials.',
+    'auth.otpSent': 'OTP sent to your email!',
+    'auth.invalidOtp': 'Invalid OTP.',
+    'auth.attemptsRemaining': { one: '{count} attempt remaining.', other: '{count} attempts remaining.' },
+    'auth.sessionExpired': 'Session expired. Please log in again.',
+    'auth.profileFailed': 'Could not retrieve user profile.',
+    'auth.passwordTooShort': 'Password must be at least 8 characters long.',
+    'auth.passwordMismatch': 'Passwords do not match.',
+    'auth.signUpFailed': 'Could not sign up user.',
+    'auth.sessionError': 'Session error. Please start over.',
+    'auth.saveDetailsFailed': 'Could not save health details.',
+
+    'settings.title': 'Settings',
+    'settings.intro': 'Update your personal information, health profile and password.',
+    'settings.emailAddress': 'Email Address',
+    'settings.changePassword': 'Change Password',
+    'settings.newPassword': 'New Password',
+    'settings.confirmNewPassword': 'Confirm New Password',
+    'settings.keepPassword': 'Leave blank to keep current password',
+    'settings.newPasswordTooShort': 'New password must be at least 8 characters long.',
+    'settings.newPasswordMismatch': 'New passwords do not match.',
+    'settings.updateFailed': 'Failed to update settings.',
+    'settings.saved': 'Your changes have been saved successfully!',
+    'settings.signOutDescription': 'This will sign you out of your account on this device.',
+    'settings.healthProfile': 'Health Profile',
+    'settings.healthProfileIntro': 'Keeping this up to date helps us personalise your goals.',
+    'settings.weightHistory': 'Weight History',
+    'settings.fixFields': 'Please fix the highlighted fields.',
+    'settings.healthUpdateFailed': 'Failed to update your health profile.',
+    'settings.healthSaved': 'Your health profile has been updated.',
+    'settings.saveHealthProfile': 'Save Health Profile',
+    'settings.goalSource': 'Goal Source',
+    'settings.goalSourceIntro': 'Choose where new goals come from. If it is unavailable, goals are generated on your device instead.',
+    'settings.notConfigured': '(not configured)',
+    'settings.language': 'Language',
+    'settings.languageIntro': 'Used for the app and for the goals generated for you.',
+    'settings.languageFailed': 'Could not save your language.',
+
+    'goalSource.n8n': 'Goal service',
+    'goalSource.n8n.description': 'Goals from the Proactive Health Monitor workflow, based on the profile stored with your account.',
+    'goalSource.gemini': 'Gemini',
+    'goalSource.gemini.description': 'Goals written by Google Gemini. Your health profile and recent metrics are sent to Google to generate them.',
+    'goalSource.local': 'On-device',
+    'goalSource.local.description': 'Simple rules applied to your profile and recent metrics. Nothing leaves your device.',
+
+    'diagnosis.title': 'Diagnosis',
+    'diagnosis.intro': 'Choose an activity to proceed.',
+    'diagnosis.engagement': 'Engagement',
+    'diagnosis.engagementDescription': 'Play games to assess your skills.',
+    'diagnosis.tracking': 'Your Tracking',
+    'diagnosis.trackingDescription': 'Input your daily health records.',
+    'diagnosis.gamesIntro': 'Play these games to test your cognitive and physical abilities. You get points for each game played!',
+    'diagnosis.trends': 'Your Trends',
+    'diagnosis.importExport': 'Import & Export',
+    'diagnosis.viewTrends': 'View Trends',
+    'diagnosis.logTitle': 'Log Your Daily Health Records',
+    'diagnosis.alreadyLogged': 'You already logged this day. Any changes will update your entry.',
+    'diagnosis.nothingLogged': 'Nothing logged for this day yet.',
+    'diagnosis.date': 'Date',
+    'diagnosis.doubleCheck': 'Please double-check these readings:',
+    'diagnosis.saveAgainToFlag': 'If they are correct, save again and they will be flagged for review.',
+    'diagnosis.flagged': 'Flagged readings for this day:',
+    'diagnosis.saveAnyway': 'Save Anyway',
+    'diagnosis.update': 'Update',
+    'diagnosis.submit': 'Submit',
+    'diagnosis.emptyEntry': 'Enter at least one value to save this day.',
+    'diagnosis.outOfRange': 'Some values are outside the possible range. Please check the highlighted fields.',
+    'diagnosis.saveFailed': 'Could not save metrics.',
+    'diagnosis.savedWithPoints': 'Metrics saved successfully! You earned {points} points.',
+    'diagnosis.updated': 'Your metrics have been updated.',
+    'diagnosis.gameOver': 'Game over! Your score: {score}. You earned {points} points!',
+    'diagnosis.gameSaved': 'Game over! Your score: {score}.',
+    'diagnosis.gameNotSaved': "Game over! Your score: {score}. We couldn't save this session, so no points were awarded.",
+    'metricCheck.notNumber': '{metric} must be a number.',
+    'metricCheck.range': '{metric} must be between {min} and {max}.',
+    'metricCheck.low': '{metric} of {value} is unusually low.',
+    'metricCheck.high': '{metric} of {value} is unusually high.',
+    'trends.legend': 'Solid line: daily value. Dashed line: 7-day rolling average.',
+    'trends.range': '{count}d',
+    'trends.loading': 'Loading your trends...',
+    'trends.noData': 'No data in this range',
+    'trends.average': 'Average',
+    'trends.min': 'Min',
+    'trends.max': 'Max',
+    'trends.flagged': 'Flagged Readings',
+    'transfer.cancel': 'Cancel',
+    'transfer.back': 'Back',
+    'transfer.importing': 'Importing...',
+    'transfer.import': 'Import',
+    'transfer.importFailed': 'Import failed: {error}',
+    'transfer.readFailed': 'Could not read this file: {error}',
+    'transfer.date': 'Date',
+    'transfer.export': 'Export',
+    'transfer.exportIntro': 'Download your full metrics history.',
+    'transfer.downloadCsv': 'Download CSV',
+    'transfer.downloadJson': 'Download JSON',
+    'transfer.importIntro': 'Upload a CSV or JSON file with one row per day. You can map columns and check every row before anything is saved.',
+    'transfer.noRows': 'No rows found in this file.',
+    'transfer.mapIntro': { one: '{file}: {count} row. Match each field to a column in your file.', other: '{file}: {count} rows. Match each field to a column in your file.' },
+    'transfer.dontImport': "Don't import",
+    'transfer.dateFormat': 'Date format',
+    'transfer.numberFormat': 'Number format',
+    'transfer.unit': 'Unit',
+    'transfer.preview': 'Preview',
+    'transfer.previewSummary': '{ready} ready to import, {errors} with errors, {duplicates} duplicate dates.',
+    'transfer.duplicatePolicy': 'Days you have already logged',
+    'transfer.keepExisting': 'Keep my existing entries',
+    'transfer.overwrite': 'Replace with the imported values',
+    'transfer.row': 'Row',
+    'transfer.status': 'Status',
+    'transfer.sameDateInFile': 'Same date as an earlier row; skipped.',
+    'transfer.alreadyLoggedKept': 'Already logged; kept.',
+    'transfer.alreadyLoggedReplaced': 'Already logged; the imported metrics will replace the logged ones.',
+    'transfer.ok': 'OK',
+    'transfer.importRows': { one: 'Import {count} Row', other: 'Import {count} Rows' },
+    'transfer.imported': { one: 'Imported {count} day of metrics.', other: 'Imported {count} days of metrics.' },
+    'transfer.skippedRows': { one: '{count} row was skipped.', other: '{count} rows were skipped.' },
+    'transfer.importAnother': 'Import Another File',
+    'transfer.invalidDate': '"{value}" is not a valid {format} date.',
+    'transfer.missingDate': 'Missing date.',
+    'transfer.futureDate': '{date} is in the future.',
+    'transfer.notNumber': '{metric}: "{value}" is not a number.',
+    'transfer.noValues': 'No metric values in this row.',
+    'fhir.title': 'Clinical Record (FHIR)',
+    'fhir.intro': 'Share your profile and metrics with a clinician as a FHIR R4 Bundle, or restore from one.',
+    'fhir.preparing': 'Preparing...',
+    'fhir.download': 'Download FHIR Bundle',
+    'fhir.upload': 'Import FHIR Bundle',
+    'fhir.ready': 'Ready to import',
+    'fhir.name': 'Name: {name}',
+    'fhir.health': 'Health profile, including conditions, allergies and medications',
+    'fhir.noHealth': 'No complete health profile',
+    'fhir.metrics': { one: '{count} day of metrics', other: '{count} days of metrics' },
+    'fhir.invalidHealth': 'The health profile will not be imported: {errors}',
+    'fhir.skipped': { one: '{count} resource skipped', other: '{count} resources skipped' },
+    'fhir.imported': { one: 'Imported {count} day of metrics.', other: 'Imported {count} days of metrics.' },
+    'fhir.importedWithProfile': { one: 'Imported your health profile and {count} day of metrics.', other: 'Imported your health profile and {count} days of metrics.' },
+    'wearable.title': 'Import from a Wearable',
+    'wearable.intro': 'Select Apple Health\'s "{appleFile}", or files from a Google Takeout "Fit" folder ("{fitCsv}" or the JSON files in "{fitFolder}"). Unzip the export first. Files are processed on your device and only the daily totals are saved.',
+    'wearable.reading': 'Reading {file}... {percent}%',
+    'wearable.export': 'export',
+    'wearable.noReadings': 'No supported readings were found in the selected files.',
+    'wearable.readFailed': 'Could not read this export: {error}',
+    'wearable.found': { one: 'Found {count} day from {from} to {to}:', other: 'Found {count} days from {from} to {to}:' },
+    'wearable.mergeSummary': '{newDays} new, {updatedDays} to update, {unchangedDays} unchanged.',
+    'wearable.conflicts': { one: '{count} value differs from what you entered by hand.', other: '{count} values differ from what you entered by hand.' },
+    'wearable.policy': 'When a day already has values you entered',
+    'wearable.keepManual': 'Keep my values; only fill in missing fields',
+    'wearable.preferDevice': "Use the device values; keep fields the device didn't record",
+    'wearable.showingLatest': 'Showing the latest {shown} of {total} days to import.',
+    'wearable.importDays': { one: 'Import {count} Day', other: 'Import {count} Days' },
+    'wearable.imported': { one: 'Imported {count} day from your device export.', other: 'Imported {count} days from your device export.' },
+    'assistant.title': 'Health Assistant',
+    'assistant.intro': 'Ask about your goals, your logged metrics or your health profile.',
+    'assistant.disclaimer': 'The assistant gives general information, not medical advice, and cannot diagnose conditions. In an emergency, call your local emergency number.',
+    'assistant.localMode': 'No AI model is configured, so answers come from a simple helper on this device that only knows your recent metrics and goals.',
+    'assistant.conversations': 'Conversations',
+    'assistant.newConversation': 'New Conversation',
+    'assistant.noConversations': 'No conversations yet.',
+    'assistant.delete': 'Delete',
+    'assistant.deleteConfirm': 'Delete this conversation? This cannot be undone.',
+    'assistant.deleteFailed': 'Could not delete this conversation: {error}',
+    'assistant.tryAsking': 'Try asking:',
+    'assistant.suggestion.goals': 'Why was I given these goals?',
+    'assistant.suggestion.heartRate': 'Is my resting heart rate okay?',
+    'assistant.suggestion.sleep': 'How has my sleep been lately?',
+    'assistant.placeholder': 'Ask a question...',
+    'assistant.send': 'Send',
+    'assistant.thinking': 'Thinking...',
+    'assistant.failed': 'The assistant could not answer: {error}',
+    'assistant.saveFailed': 'This conversation could not be saved: {error}',
+    'assistant.urgent': 'Urgent',
+    'assistant.notADiagnosis': 'Not a diagnosis',
+    'assistant.redFlag': 'What you describe can be a sign of a medical emergency. Please call your local emergency number or see a doctor now; do not wait for an answer here. If you are thinking about harming yourself, contact a crisis line or emergency services right away.',
+    'assistant.diagnosis': "I can't diagnose conditions or tell you whether you have an illness; a doctor can, with an examination and tests. I can explain your logged metrics and goals, which may be useful to bring to that appointment.",
+    'assistant.local.metric': { one: 'Your {metric} was {average} on the {count} day you logged it recently ({date}).', other: 'Your {metric} averaged {average} over the {count} days you logged it recently, most recently {latest} on {date}.' },
+    'assistant.local.metricUsual': 'That is within the usual range for your age and fitness level.',
+    'assistant.local.metricUnusual': 'On average: {warning} Consider mentioning it to your doctor.',
+    'assistant.local.noMetric': "You haven't logged your {metric} recently.",
+    'assistant.local.goal': '"{goal}": {rationale}',
+    'assistant.local.goalNoRationale': '"{goal}" was suggested without an explanation.',
+    'assistant.local.noGoals': "You don't have any current goals. You can generate some on the Progress page.",
+    'assistant.local.fallback': 'I can only answer questions about your logged metrics, such as heart rate, steps or sleep, and about your current goals.',
+    'game.clicker': 'Click Frenzy',
+    'game.clickerDescription': 'Test your speed and reflexes.',
+    'game.clickerInstructions': 'Click the button as many times as you can in {seconds} seconds!',
+    'game.secondsLeft': 'Seconds Left',
+    'game.totalClicks': 'Total Clicks',
+    'game.clickMe': 'Click Me!',
+    'game.playAgain': 'Play Again',
+    'game.start': 'Start Game',
+    'game.memory': 'Memory Match',
+    'game.memoryDescription': 'Challenge your memory skills.',
+    'game.memoryInstructions': 'Find all the matching pairs.',
+    'game.tries': { one: '{count} Try', other: '{count} Tries' },
+    'game.pairsFound': '{found} / {total} Pairs Found',
+    'game.reset': 'Reset Game',
+    'game.memory.level.easy': 'Easy',
+    'game.memory.level.medium': 'Medium',
+    'game.memory.level.hard': 'Hard',
+    'game.memory.levelTimed': '{level}, timed',
+    'game.memory.adaptive': 'Adaptive',
+    'game.memory.adaptiveNext': 'Adaptive mode picks the level from your recent games. Next up: {level}.',
+    'game.memory.timed': 'Timed: find every pair within {seconds} seconds',
+    'game.memory.preview': 'Memorize the cards...',
+    'game.memory.timeLeft': '{seconds}s left',
+    'game.memory.timedOut': "Time's up! You found {found} of {total} pairs.",
+    'game.title.simpleReaction': 'Simple Reaction Time',
+    'game.title.choiceReaction': 'Choice Reaction Time',
+    'game.simpleReactionDescription': 'Respond as soon as a box turns green.',
+    'game.choiceReactionDescription': 'Press the side an arrow points to, as fast as you can.',
+    'game.score.clicks': { one: '{count} click', other: '{count} clicks' },
+    'game.score.tries': { one: '{count} try', other: '{count} tries' },
+    'game.score.ms': '{count} ms',
+    'game.stats.best': 'Personal best: {score}',
+    'game.stats.percentile': 'Your last game beat {percent}% of your earlier ones',
+    'game.stats.recent': 'Recent: {scores}',
+    'game.stats.abandoned': 'stopped early',
+    'game.stats.timedOut': 'ran out of time',
+    'game.reaction.simpleInstructions': 'When the box turns green, tap it or press Space as fast as you can. Pressing before it turns green counts as a false start.',
+    'game.reaction.choiceInstructions': 'An arrow will point left or right. Tap that side or press the matching arrow key as fast as you can. Pressing before the arrow appears counts as a false start.',
+    'game.reaction.trial': 'Trial {current} of {total}',
+    'game.reaction.wait': 'Wait for green...',
+    'game.reaction.waitChoice': 'Wait for the arrow...',
+    'game.reaction.go': 'Now!',
+    'game.reaction.left': 'Left',
+    'game.reaction.right': 'Right',
+    'game.reaction.tooSoon': 'Too soon!',
+    'game.reaction.wrong': 'Wrong side',
+    'game.reaction.miss': 'Too slow',
+    'game.reaction.ms': '{value} ms',
+    'game.reaction.median': 'Median reaction time',
+    'game.reaction.variability': 'Variability (standard deviation)',
+    'game.reaction.breakdown': 'Valid: {hits} · False starts: {falseStarts} · Wrong side: {wrong} · Too slow: {misses}',
+    'game.reaction.notScored': 'Too many false starts or missed trials to score this run. Try again.',
+
+    'progress.title': 'Your Progress',
+    'progress.intro': 'Complete your goals to earn points and improve your health.',
+    'progress.generate': 'Generate New Goals',
+    'progress.generating': 'Generating...',
+    'progress.userNotFound': 'User not found.',
+    'progress.fallbackSummary': '{source} could not provide goals: {error}',
+    'progress.formatIssues': 'Some suggested goals were skipped because they did not match the expected format.',
+    'progress.problemsFound': { one: '{count} problem found', other: '{count} problems found' },
+    'progress.noSuitableGoals': 'No suitable goals could be generated. Please try again later.',
+    'progress.saveGoalsFailed': 'Error saving new goals: {error}',
+    'progress.fallbackMessage': '{source} is unavailable, so these goals were generated on your device from your profile and recent metrics.',
+    'progress.generated': 'New goals have been generated!',
+    'progress.checkInFailed': 'Error saving your check-in.',
+    'progress.checkedIn': "Checked in! You've earned {points} points.",
+    'progress.saveFailed': 'Error saving changes.',
+    'progress.savedWithPoints': "Changes saved! You've earned {points} points!",
+    'progress.saved': 'Your progress has been saved.',
+    'progress.quotaLeftToday': '{count} of {limit} goal generations left today.',
+    'progress.quotaLeftWeek': '{count} of {limit} goal generations left this week.',
+    'progress.quotaUsedToday': "You've used all of today's goal generations. You can generate new goals again {next}.",
+    'progress.quotaUsedWeek': "You've used all of this week's goal generations. You can generate new goals again {next}.",
+    'progress.nextTier': 'Reach {points} points for more.',
+    'progress.safetySummary': 'Some goals were removed or made easier based on your health profile.',
+    'progress.safetyRemoved': 'Removed: "{goal}" — {reason}.',
+    'progress.safetyDowngraded': 'Made easier ({difficulty}): "{goal}" — {reason}.',
+    'progress.current': 'Current Goals',
+    'progress.history': 'History',
+    'progress.loading': 'Loading your goals...',
+    'progress.noGoals': 'No goals yet!',
+    'progress.noGoalsHint': 'Click the "Generate New Goals" button to get started.',
+    'progress.goals': 'Goals',
+    'progress.days': { one: '{count} day', other: '{count} days' },
+    'progress.target': 'Target: {metric} {comparator} {value} on {days}',
+    'progress.targetProgress': '{met} of {required} so far',
+    'progress.verified': 'Verified',
+    'progress.verifiedHint': 'Verified from your metrics',
+    'progress.verifiedGoal': '"{goal}" was verified from your metrics.',
+    'progress.verifiedGoals': { one: '{count} goal was verified from your metrics.', other: '{count} goals were verified from your metrics.' },
+    'progress.verifiedPoints': '(+{points} points)',
+
+    'habits.title': 'Habits',
+    'habits.daily': 'Daily',
+    'habits.weekly': '{count}× per week',
+    'habits.startsOn': 'Starts {date}',
+    'habits.ended': 'Ended {date}',
+    'habits.weekDone': 'Done for this week ({count}/{target})',
+    'habits.weekProgress': '{count} of {target} this week',
+    'habits.doneToday': 'Done for today',
+    'habits.dueToday': 'Due today',
+    'habits.streakDays': { one: 'Streak: {count} day', other: 'Streak: {count} days' },
+    'habits.streakWeeks': { one: 'Streak: {count} week', other: 'Streak: {count} weeks' },
+    'habits.best': 'Best: {count}',
+    'habits.pointsPerCheckIn': 'Points per check-in',
+    'habits.calendar': 'Habit Calendar',
+    'habits.calendarIntro': { one: 'Check-ins across all habits over the last week.', other: 'Check-ins across all habits over the last {count} weeks.' },
+    'habits.dayCheckIns': { one: '{date}: {count} check-in', other: '{date}: {count} check-ins' },
+
+    'history.loading': 'Loading your goal history...',
+    'history.empty': 'No goals yet. Your past goal batches will appear here.',
+    'history.byCategory': 'By Category',
+    'history.byDifficulty': 'By Difficulty',
+    'history.batches': 'Goal Batches',
+    'history.overall': '{rate} completed overall',
+    'history.earlier': 'Earlier goals',
+    'history.current': 'Current',
+    'history.batchSummary': '{completed} of {total} completed ({rate})',
+
+    'localGoal.walkSteps': 'Walk at least {target} steps a day this week',
+    'localGoal.walkSteps.why': 'You have averaged {steps} steps a day recently; a small daily increase is easy to sustain.',
+    'localGoal.activeDays': 'Reach {target} steps on at least 4 days this week',
+    'localGoal.activeDays.why': 'You average {steps} steps a day, close to the {target} that counts as an active day.',
+    'localGoal.mealWalk': 'Take a 15-minute walk after one meal each day',
+    'localGoal.mealWalk.why': 'There are no recent step counts yet; a short daily walk is a safe place to start.',
+    'localGoal.lowIntensityCardio': 'Do 20 minutes of low-intensity cardio such as swimming or cycling, with a 5-minute warm-up',
+    'localGoal.lowIntensityCardio.why': 'Steady, warmed-up cardio builds fitness with less risk of triggering breathing problems.',
+    'localGoal.intervals': 'Complete two 30-minute interval training sessions this week',
+    'localGoal.intervals.why': 'You are already active, so intervals are the next step for cardiovascular fitness.',
+    'localGoal.strength': 'Add two 20-minute bodyweight strength sessions this week',
+    'localGoal.strength.why': 'Strength work complements walking and supports joints and metabolism.',
+    'localGoal.stretching': 'Do 10 minutes of gentle stretching every morning',
+    'localGoal.stretching.why': 'Daily stretching improves mobility and is a gentle habit for beginners.',
+    'localGoal.salt': 'Keep salt under 5 g a day by skipping processed and packaged foods',
+    'localGoal.salt.why': 'Cutting salt is one of the most effective diet changes for high blood pressure.',
+    'localGoal.wholeGrains': 'Swap refined carbs for whole grains at every meal for a week',
+    'localGoal.wholeGrains.why': 'Whole grains release sugar more slowly, which helps keep blood glucose steady.',
+    'localGoal.sugaryDrinks': 'Replace sugary drinks with water or unsweetened tea every day this week',
+    'localGoal.sugaryDrinks.why': 'Your BMI is {bmi}; sugary drinks are an easy source of calories to cut.',
+    'localGoal.proteinSnack': 'Add a protein-rich snack such as nuts, yoghurt or eggs between meals each day',
+    'localGoal.proteinSnack.why': 'Your BMI is {bmi}, below the healthy range; extra protein helps build healthy weight.',
+    'localGoal.fruitVeg': 'Eat five servings of fruit and vegetables today',
+    'localGoal.fruitVeg.why': 'Five servings a day is a simple baseline for a balanced diet.',
+    'localGoal.slowBreathing': 'Practise 10 minutes of slow breathing (4 seconds in, 6 seconds out) twice a day',
+    'localGoal.slowBreathing.why': 'Your heart rate has averaged {heartRate} bpm; slow breathing helps the body relax.',
+    'localGoal.screenFree': 'Spend 10 minutes on a screen-free activity you enjoy each evening',
+    'localGoal.screenFree.why': 'A short daily break from screens helps you unwind and sleep better.',
+    'localGoal.earlierBed': 'Go to bed 30 minutes earlier to get at least {hours} hours of sleep',
+    'localGoal.earlierBed.why': 'You have averaged {average} hours of sleep, below the recommended {hours}.',
+    'localGoal.logMetrics': 'Log your health metrics every day this week',
+    'localGoal.logMetrics.why': 'Regular entries make your trends and future goals more accurate.',
+
+    'safety.peanut-allergy': 'mentions peanuts, which you are allergic to',
+    'safety.tree-nut-allergy': 'mentions nuts, which you are allergic to',
+    'safety.dairy-allergy': 'mentions dairy, which you are allergic or intolerant to',
+    'safety.gluten-intolerance': 'mentions gluten-containing foods',
+    'safety.fish-allergy': 'mentions fish or seafood, which you are allergic to',
+    'safety.egg-allergy': 'mentions eggs, which you are allergic to',
+    'safety.cardiac-high-intensity': 'high-intensity exercise is not advised with a heart condition without medical clearance',
+    'safety.cardiac-hard-exercise': 'exercise goals are kept gentle because of your heart condition',
+    'safety.hypertension-strain': 'straining and breath-holding exercise can spike blood pressure',
+    'safety.hypertension-hard-exercise': 'exercise goals are kept moderate because of high blood pressure',
+    'safety.respiratory-high-intensity': 'high-intensity exercise can trigger breathing problems',
+    'safety.diabetes-fasting': 'fasting or skipping meals can cause dangerous blood-sugar swings with diabetes',
+    'safety.pregnancy-intense': 'not advised during pregnancy without your clinician',
+    'safety.glucose-lowering-fasting': 'fasting while on glucose-lowering medication risks low blood sugar',
+    'safety.anticoagulant-vitamin-k': 'sudden changes in vitamin K intake affect how warfarin works',
+    'safety.statin-grapefruit': 'grapefruit interacts with some statins',
+    'safety.beta-blocker-heart-rate': 'beta blockers change your heart rate, so heart-rate targets are unreliable',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
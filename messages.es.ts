@@ -0,0 +1,478 @@
+import type { Message, MessageKey } from './messages.en';
+
+export const es: Record<MessageKey, Message> = {
+    'app.loading': 'Cargando la aplicación...',
+    'common.saving': 'Guardando...',
+    'common.saveChanges': 'Guardar cambios',
+    'common.loading': 'Cargando...',
+    'common.close': 'Cerrar',
+    'common.signOut': 'Cerrar sesión',
+    'common.firstName': 'Nombre',
+    'common.lastName': 'Apellido',
+    'common.email': 'Correo electrónico',
+    'common.password': 'Contraseña',
+    'common.confirmPassword': 'Confirmar contraseña',
+    'common.age': 'Edad',
+    'common.heightCm': 'Altura (cm)',
+    'common.weightKg': 'Peso (kg)',
+    'common.gender': 'Género',
+    'common.fitnessLevel': 'Nivel de forma física',
+    'common.preferredLanguage': 'Idioma preferido',
+    'common.existingConditions': 'Afecciones existentes',
+    'common.allergies': 'Alergias',
+    'common.medications': 'Medicamentos actuales',
+    'common.points': { one: '{count} punto', other: '{count} puntos' },
+
+    'gender.Male': 'Masculino',
+    'gender.Female': 'Femenino',
+    'gender.Other': 'Otro',
+    'fitness.Beginner': 'Principiante',
+    'fitness.Intermediate': 'Intermedio',
+    'fitness.Advanced': 'Avanzado',
+    'category.Diet': 'Alimentación',
+    'category.Exercise': 'Ejercicio',
+    'category.Mental Health': 'Salud mental',
+    'category.General': 'General',
+    'difficulty.Easy': 'Fácil',
+    'difficulty.Medium': 'Media',
+    'difficulty.Hard': 'Difícil',
+
+    'metric.heartRate': 'Frecuencia cardíaca',
+    'metric.steps': 'Pasos',
+    'metric.sleepHours': 'Sueño',
+    'metric.breathingRate': 'Frecuencia respiratoria',
+    'metric.distanceTravelled': 'Distancia recorrida',
+    'metric.caloriesBurnt': 'Calorías quemadas',
+    'unitName.bpm': 'lpm',
+    'unitName.count': 'cantidad',
+    'unitName.hours': 'horas',
+    'unitName.breaths/min': 'resp/min',
+    'unitName.km': 'km',
+    'unitName.kcal': 'kcal',
+    'unit.bpm': '{value} lpm',
+    'unit.count': '{value}',
+    'unit.breaths/min': '{value} resp/min',
+    'unit.kcal': '{value} kcal',
+
+    'validation.required': '{field} es obligatorio.',
+    'validation.range': '{field} debe estar entre {min} y {max}.',
+    'validation.wholeNumber': '{field} debe ser un número entero.',
+    'validation.chooseGender': 'Elige un género.',
+    'validation.chooseFitness': 'Elige un nivel de forma física.',
+    'validation.tooLong': 'Usa menos de {max} caracteres.',
+    'validation.language': 'El idioma preferido es obligatorio.',
+
+    'header.brand': 'Monitor de Salud',
+    'header.pointsHistory': 'Historial de puntos',
+    'header.noPoints': 'Aún no has ganado puntos.',
+    'points.game': 'Juego completado',
+    'points.metrics': 'Métricas diarias registradas',
+    'points.goal': 'Objetivo cumplido',
+    'points.opening': 'Puntos anteriores',
+
+    'home.welcome': '¡Hola de nuevo, {name}!',
+    'home.intro': 'Este es tu panel de salud personal. ¿Qué te gustaría hacer hoy?',
+    'home.diagnosis': 'Diagnóstico',
+    'home.diagnosisDescription': 'Participa en actividades y registra tus métricas de salud diarias.',
+    'home.progress': 'Progreso',
+    'home.progressDescription': 'Consulta y gestiona los objetivos de salud generados por IA.',
+    'home.settings': 'Ajustes',
+    'home.settingsDescription': 'Gestiona los datos de tu cuenta y tus preferencias.',
+    'home.assistant': 'Asistente de salud',
+    'home.assistantDescription': 'Haz preguntas sobre tus objetivos y métricas.',
+    'home.signOutDescription': 'Termina tu sesión y sal de la aplicación.',
+    'cognitive.title': 'Tendencias cognitivas',
+    'cognitive.intro': 'Tus resultados en los juegos de los últimos {days} días, comparados con tu propio nivel habitual.',
+    'cognitive.gameLevel': '{game} · {level}',
+    'cognitive.baseline': 'Habitual: {score}',
+    'cognitive.recent': 'Últimos {days} días: {score}',
+    'cognitive.noRecent': 'Sin partidas en los últimos {days} días',
+    'cognitive.buildingBaseline': 'Sigue jugando para fijar tu nivel habitual',
+    'cognitive.declining': 'Peor de lo habitual',
+    'cognitive.alertTitle': 'Algunos de tus resultados en los juegos han cambiado',
+    'cognitive.decline': '{game}: tu resultado típico en los últimos {days} días fue {recent}, frente a {baseline} antes.',
+    'cognitive.nextSteps': 'Próximos pasos sugeridos',
+    'cognitive.step.retry': 'Vuelve a jugar cuando estés descansado. Dormir mal, el estrés, una enfermedad, el alcohol y algunos medicamentos pueden afectar a los resultados durante un tiempo.',
+    'cognitive.step.sleep': 'Revisa tu sueño y tu actividad recientes en las tendencias de tus métricas.',
+    'cognitive.step.doctor': 'Si tú o las personas cercanas habéis notado cambios en la memoria, la atención o la rapidez de reacción en el día a día, coméntalo con tu médico.',
+    'cognitive.disclaimer': 'Estos juegos no son una prueba médica. Solo se te compara con tus propios resultados anteriores.',
+
+    'auth.signInTitle': 'Inicia sesión en tu cuenta',
+    'auth.notMember': '¿Aún no tienes cuenta?',
+    'auth.signUpNow': 'Regístrate ahora',
+    'auth.signingIn': 'Iniciando sesión...',
+    'auth.getOtp': 'Obtener código',
+    'auth.otpTitle': 'Introduce el código de verificación',
+    'auth.backToLogin': 'Volver al inicio de sesión',
+    'auth.otpSentTo': 'Hemos enviado un código a {email}.',
+    'auth.otp': 'Código',
+    'auth.verifying': 'Verificando...',
+    'auth.verify': 'Verificar y entrar',
+    'auth.resendIn': 'Reenviar código en {seconds} s',
+    'auth.resend': 'Reenviar código',
+    'auth.signUpTitle': 'Crea una cuenta nueva',
+    'auth.haveAccount': '¿Ya tienes cuenta?',
+    'auth.signIn': 'Iniciar sesión',
+    'auth.creatingAccount': 'Creando la cuenta...',
+    'auth.signUp': 'Registrarse',
+    'auth.aboutYouTitle': 'Cuéntanos sobre ti',
+    'auth.aboutYouFooter': 'Esto nos ayuda a personalizar tu experiencia.',
+    'auth.conditionsHint': 'Afecciones existentes (p. ej., diabetes, asma)',
+    'auth.allergiesHint': 'Alergias (p. ej., cacahuetes, polen)',
+    'auth.completeProfile': 'Completar perfil',
+    'auth.otpFailed': 'No se pudo enviar el código. Inténtalo de nuevo.',
+    'auth.otpResent': 'Hemos enviado un código nuevo a tu correo.',
+    'auth.invalidCredentials': 'Credenciales no válidas.',
+    'auth.otpSent': '¡Código enviado a tu correo!',
+    'auth.invalidOtp': 'Código no válido.',
+    'auth.attemptsRemaining': { one: 'Queda {count} intento.', other: 'Quedan {count} intentos.' },
+    'auth.sessionExpired': 'La sesión ha caducado. Vuelve a iniciar sesión.',
+    'auth.profileFailed': 'No se pudo obtener el perfil del usuario.',
+    'auth.passwordTooShort': 'La contraseña debe tener al menos 8 caracteres.',
+    'auth.passwordMismatch': 'Las contraseñas no coinciden.',
+    'auth.signUpFailed': 'No se pudo registrar al usuario.',
+    'auth.sessionError': 'Error de sesión. Empieza de nuevo.',
+    'auth.saveDetailsFailed': 'No se pudieron guardar los datos de salud.',
+
+    'settings.title': 'Ajustes',
+    'settings.intro': 'Actualiza tus datos personales, tu perfil de salud y tu contraseña.',
+    'settings.emailAddress': 'Correo electrónico',
+    'settings.changePassword': 'Cambiar contraseña',
+    'settings.newPassword': 'Contraseña nueva',
+    'settings.confirmNewPassword': 'Confirmar contraseña nueva',
+    'settings.keepPassword': 'Déjalo en blanco para mantener la contraseña actual',
+    'settings.newPasswordTooShort': 'La contraseña nueva debe tener al menos 8 caracteres.',
+    'settings.newPasswordMismatch': 'Las contraseñas nuevas no coinciden.',
+    'settings.updateFailed': 'No se pudieron actualizar los ajustes.',
+    'settings.saved': '¡Tus cambios se han guardado correctamente!',
+    'settings.signOutDescription': 'Se cerrará la sesión de tu cuenta en este dispositivo.',
+    'settings.healthProfile': 'Perfil de salud',
+    'settings.healthProfileIntro': 'Mantenerlo al día nos ayuda a personalizar tus objetivos.',
+    'settings.weightHistory': 'Historial de peso',
+    'settings.fixFields': 'Corrige los campos resaltados.',
+    'settings.healthUpdateFailed': 'No se pudo actualizar tu perfil de salud.',
+    'settings.healthSaved': 'Tu perfil de salud se ha actualizado.',
+    'settings.saveHealthProfile': 'Guardar perfil de salud',
+    'settings.goalSource': 'Origen de los objetivos',
+    'settings.goalSourceIntro': 'Elige de dónde vienen los objetivos nuevos. Si no está disponible, se generan en tu dispositivo.',
+    'settings.notConfigured': '(no configurado)',
+    'settings.language': 'Idioma',
+    'settings.languageIntro': 'Se usa en la aplicación y en los objetivos que se generan para ti.',
+    'settings.languageFailed': 'No se pudo guardar tu idioma.',
+
+    'goalSource.n8n': 'Servicio de objetivos',
+    'goalSource.n8n.description': 'Objetivos del flujo de Proactive Health Monitor, basados en el perfil guardado en tu cuenta.',
+    'goalSource.gemini': 'Gemini',
+    'goalSource.gemini.description': 'Objetivos redactados por Google Gemini. Tu perfil de salud y tus métricas recientes se envían a Google para generarlos.',
+    'goalSource.local': 'En el dispositivo',
+    'goalSource.local.description': 'Reglas sencillas aplicadas a tu perfil y tus métricas recientes. Nada sale de tu dispositivo.',
+
+    'diagnosis.title': 'Diagnóstico',
+    'diagnosis.intro': 'Elige una actividad para continuar.',
+    'diagnosis.engagement': 'Actividades',
+    'diagnosis.engagementDescription': 'Juega para evaluar tus habilidades.',
+    'diagnosis.tracking': 'Tu registro',
+    'diagnosis.trackingDescription': 'Introduce tus datos de salud diarios.',
+    'diagnosis.gamesIntro': 'Juega a estos juegos para poner a prueba tus capacidades cognitivas y físicas. ¡Ganas puntos con cada partida!',
+    'diagnosis.trends': 'Tus tendencias',
+    'diagnosis.importExport': 'Importar y exportar',
+    'diagnosis.viewTrends': 'Ver tendencias',
+    'diagnosis.logTitle': 'Registra tus datos de salud diarios',
+    'diagnosis.alreadyLogged': 'Ya registraste este día. Los cambios actualizarán tu registro.',
+    'diagnosis.nothingLogged': 'Todavía no hay nada registrado para este día.',
+    'diagnosis.date': 'Fecha',
+    'diagnosis.doubleCheck': 'Revisa estas lecturas:',
+    'diagnosis.saveAgainToFlag': 'Si son correctas, guarda de nuevo y se marcarán para revisión.',
+    'diagnosis.flagged': 'Lecturas marcadas para este día:',
+    'diagnosis.saveAnyway': 'Guardar de todos modos',
+    'diagnosis.update': 'Actualizar',
+    'diagnosis.submit': 'Enviar',
+    'diagnosis.emptyEntry': 'Introduce al menos un valor para guardar este día.',
+    'diagnosis.outOfRange': 'Algunos valores están fuera del rango posible. Revisa los campos resaltados.',
+    'diagnosis.saveFailed': 'No se pudieron guardar las métricas.',
+    'diagnosis.savedWithPoints': '¡Métricas guardadas! Has ganado {points} puntos.',
+    'diagnosis.updated': 'Tus métricas se han actualizado.',
+    'diagnosis.gameOver': '¡Fin del juego! Tu puntuación: {score}. ¡Has ganado {points} puntos!',
+    'diagnosis.gameSaved': '¡Fin del juego! Tu puntuación: {score}.',
+    'diagnosis.gameNotSaved': '¡Fin del juego! Tu puntuación: {score}. No pudimos guardar esta partida, así que no se otorgaron puntos.',
+    'metricCheck.notNumber': '{metric} debe ser un número.',
+    'metricCheck.range': 'El valor de {metric} debe estar entre {min} y {max}.',
+    'metricCheck.low': 'El valor de {metric} ({value}) es inusualmente bajo.',
+    'metricCheck.high': 'El valor de {metric} ({value}) es inusualmente alto.',
+    'trends.legend': 'Línea continua: valor diario. Línea discontinua: media móvil de 7 días.',
+    'trends.range': '{count} d',
+    'trends.loading': 'Cargando tus tendencias...',
+    'trends.noData': 'No hay datos en este periodo',
+    'trends.average': 'Media',
+    'trends.min': 'Mín.',
+    'trends.max': 'Máx.',
+    'trends.flagged': 'Lecturas marcadas',
+    'transfer.cancel': 'Cancelar',
+    'transfer.back': 'Atrás',
+    'transfer.importing': 'Importando...',
+    'transfer.import': 'Importar',
+    'transfer.importFailed': 'La importación falló: {error}',
+    'transfer.readFailed': 'No se pudo leer este archivo: {error}',
+    'transfer.date': 'Fecha',
+    'transfer.export': 'Exportar',
+    'transfer.exportIntro': 'Descarga el historial completo de tus métricas.',
+    'transfer.downloadCsv': 'Descargar CSV',
+    'transfer.downloadJson': 'Descargar JSON',
+    'transfer.importIntro': 'Sube un archivo CSV o JSON con una fila por día. Podrás asignar las columnas y revisar cada fila antes de guardar nada.',
+    'transfer.noRows': 'No se encontraron filas en este archivo.',
+    'transfer.mapIntro': { one: '{file}: {count} fila. Asigna cada campo a una columna de tu archivo.', other: '{file}: {count} filas. Asigna cada campo a una columna de tu archivo.' },
+    'transfer.dontImport': 'No importar',
+    'transfer.dateFormat': 'Formato de fecha',
+    'transfer.numberFormat': 'Formato de número',
+    'transfer.unit': 'Unidad',
+    'transfer.preview': 'Vista previa',
+    'transfer.previewSummary': '{ready} listas para importar, {errors} con errores, {duplicates} fechas duplicadas.',
+    'transfer.duplicatePolicy': 'Días que ya has registrado',
+    'transfer.keepExisting': 'Conservar mis registros actuales',
+    'transfer.overwrite': 'Reemplazar con los valores importados',
+    'transfer.row': 'Fila',
+    'transfer.status': 'Estado',
+    'transfer.sameDateInFile': 'Misma fecha que una fila anterior; se omite.',
+    'transfer.alreadyLoggedKept': 'Ya registrado; se conserva.',
+    'transfer.alreadyLoggedReplaced': 'Ya registrado; las métricas importadas reemplazarán las registradas.',
+    'transfer.ok': 'OK',
+    'transfer.importRows': { one: 'Importar {count} fila', other: 'Importar {count} filas' },
+    'transfer.imported': { one: 'Se importó {count} día de métricas.', other: 'Se importaron {count} días de métricas.' },
+    'transfer.skippedRows': { one: 'Se omitió {count} fila.', other: 'Se omitieron {count} filas.' },
+    'transfer.importAnother': 'Importar otro archivo',
+    'transfer.invalidDate': '"{value}" no es una fecha {format} válida.',
+    'transfer.missingDate': 'Falta la fecha.',
+    'transfer.futureDate': '{date} está en el futuro.',
+    'transfer.notNumber': '{metric}: "{value}" no es un número.',
+    'transfer.noValues': 'No hay valores de métricas en esta fila.',
+    'fhir.title': 'Historia clínica (FHIR)',
+    'fhir.intro': 'Comparte tu perfil y tus métricas con un profesional sanitario como un Bundle FHIR R4, o restáuralos desde uno.',
+    'fhir.preparing': 'Preparando...',
+    'fhir.download': 'Descargar Bundle FHIR',
+    'fhir.upload': 'Importar Bundle FHIR',
+    'fhir.ready': 'Listo para importar',
+    'fhir.name': 'Nombre: {name}',
+    'fhir.health': 'Perfil de salud, con enfermedades, alergias y medicamentos',
+    'fhir.noHealth': 'No hay un perfil de salud completo',
+    'fhir.metrics': { one: '{count} día de métricas', other: '{count} días de métricas' },
+    'fhir.invalidHealth': 'No se importará el perfil de salud: {errors}',
+    'fhir.skipped': { one: '{count} recurso omitido', other: '{count} recursos omitidos' },
+    'fhir.imported': { one: 'Se importó {count} día de métricas.', other: 'Se importaron {count} días de métricas.' },
+    'fhir.importedWithProfile': { one: 'Se importaron tu perfil de salud y {count} día de métricas.', other: 'Se importaron tu perfil de salud y {count} días de métricas.' },
+    'wearable.title': 'Importar desde un wearable',
+    'wearable.intro': 'Selecciona el archivo "{appleFile}" de Apple Health, o archivos de una carpeta "Fit" de Google Takeout ("{fitCsv}" o los archivos JSON de "{fitFolder}"). Descomprime antes la exportación. Los archivos se procesan en tu dispositivo y solo se guardan los totales diarios.',
+    'wearable.reading': 'Leyendo {file}... {percent}%',
+    'wearable.export': 'exportación',
+    'wearable.noReadings': 'No se encontraron lecturas compatibles en los archivos seleccionados.',
+    'wearable.readFailed': 'No se pudo leer esta exportación: {error}',
+    'wearable.found': { one: 'Se encontró {count} día del {from} al {to}:', other: 'Se encontraron {count} días del {from} al {to}:' },
+    'wearable.mergeSummary': '{newDays} nuevos, {updatedDays} por actualizar, {unchangedDays} sin cambios.',
+    'wearable.conflicts': { one: '{count} valor difiere de lo que introdujiste a mano.', other: '{count} valores difieren de lo que introdujiste a mano.' },
+    'wearable.policy': 'Cuando un día ya tiene valores introducidos por ti',
+    'wearable.keepManual': 'Conservar mis valores; solo completar los campos vacíos',
+    'wearable.preferDevice': 'Usar los valores del dispositivo; conservar los campos que no registró',
+    'wearable.showingLatest': 'Se muestran los {shown} más recientes de {total} días para importar.',
+    'wearable.importDays': { one: 'Importar {count} día', other: 'Importar {count} días' },
+    'wearable.imported': { one: 'Se importó {count} día desde la exportación de tu dispositivo.', other: 'Se importaron {count} días desde la exportación de tu dispositivo.' },
+    'assistant.title': 'Asistente de salud',
+    'assistant.intro': 'Pregunta sobre tus objetivos, tus métricas registradas o tu perfil de salud.',
+    'assistant.disclaimer': 'El asistente ofrece información general, no consejo médico, y no puede diagnosticar enfermedades. En una emergencia, llama al número de emergencias local.',
+    'assistant.localMode': 'No hay ningún modelo de IA configurado, así que las respuestas vienen de un asistente sencillo en este dispositivo que solo conoce tus métricas recientes y tus objetivos.',
+    'assistant.conversations': 'Conversaciones',
+    'assistant.newConversation': 'Nueva conversación',
+    'assistant.noConversations': 'Aún no hay conversaciones.',
+    'assistant.delete': 'Eliminar',
+    'assistant.deleteConfirm': '¿Eliminar esta conversación? No se puede deshacer.',
+    'assistant.deleteFailed': 'No se pudo eliminar esta conversación: {error}',
+    'assistant.tryAsking': 'Prueba a preguntar:',
+    'assistant.suggestion.goals': '¿Por qué me dieron estos objetivos?',
+    'assistant.suggestion.heartRate': '¿Está bien mi frecuencia cardíaca en reposo?',
+    'assistant.suggestion.sleep': '¿Cómo he dormido últimamente?',
+    'assistant.placeholder': 'Haz una pregunta...',
+    'assistant.send': 'Enviar',
+    'assistant.thinking': 'Pensando...',
+    'assistant.failed': 'El asistente no pudo responder: {error}',
+    'assistant.saveFailed': 'No se pudo guardar esta conversación: {error}',
+    'assistant.urgent': 'Urgente',
+    'assistant.notADiagnosis': 'No es un diagnóstico',
+    'assistant.redFlag': 'Lo que describes puede ser señal de una emergencia médica. Llama ahora al número de emergencias local o acude a un médico; no esperes una respuesta aquí. Si estás pensando en hacerte daño, contacta de inmediato con una línea de crisis o con los servicios de emergencia.',
+    'assistant.diagnosis': 'No puedo diagnosticar enfermedades ni decirte si tienes alguna; un médico puede hacerlo con una exploración y pruebas. Sí puedo explicarte tus métricas registradas y tus objetivos, que pueden serte útiles en esa consulta.',
+    'assistant.local.metric': { one: 'Tu {metric} fue de {average} el único día que la registraste recientemente ({date}).', other: 'Tu {metric} tuvo una media de {average} en los {count} días que la registraste recientemente; la última vez, {latest} el {date}.' },
+    'assistant.local.metricUsual': 'Está dentro del rango habitual para tu edad y nivel de forma física.',
+    'assistant.local.metricUnusual': 'De media: {warning} Plantéate comentarlo con tu médico.',
+    'assistant.local.noMetric': 'No has registrado tu {metric} recientemente.',
+    'assistant.local.goal': '"{goal}": {rationale}',
+    'assistant.local.goalNoRationale': '"{goal}" se sugirió sin una explicación.',
+    'assistant.local.noGoals': 'No tienes objetivos actuales. Puedes generar algunos en la página de Progreso.',
+    'assistant.local.fallback': 'Solo puedo responder preguntas sobre tus métricas registradas, como la frecuencia cardíaca, los pasos o el sueño, y sobre tus objetivos actuales.',
+    'game.clicker': 'Clic frenético',
+    'game.clickerDescription': 'Pon a prueba tu velocidad y tus reflejos.',
+    'game.clickerInstructions': '¡Pulsa el botón tantas veces como puedas en {seconds} segundos!',
+    'game.secondsLeft': 'Segundos restantes',
+    'game.totalClicks': 'Clics totales',
+    'game.clickMe': '¡Púlsame!',
+    'game.playAgain': 'Jugar otra vez',
+    'game.start': 'Empezar',
+    'game.memory': 'Memoria',
+    'game.memoryDescription': 'Pon a prueba tu memoria.',
+    'game.memoryInstructions': 'Encuentra todas las parejas.',
+    'game.tries': { one: '{count} intento', other: '{count} intentos' },
+    'game.pairsFound': '{found} / {total} parejas encontradas',
+    'game.reset': 'Reiniciar',
+    'game.memory.level.easy': 'Fácil',
+    'game.memory.level.medium': 'Medio',
+    'game.memory.level.hard': 'Difícil',
+    'game.memory.levelTimed': '{level}, contrarreloj',
+    'game.memory.adaptive': 'Adaptativo',
+    'game.memory.adaptiveNext': 'El modo adaptativo elige el nivel según tus partidas recientes. Siguiente: {level}.',
+    'game.memory.timed': 'Contrarreloj: encuentra todas las parejas en {seconds} segundos',
+    'game.memory.preview': 'Memoriza las cartas...',
+    'game.memory.timeLeft': 'Quedan {seconds} s',
+    'game.memory.timedOut': '¡Se acabó el tiempo! Encontraste {found} de {total} parejas.',
+    'game.title.simpleReaction': 'Tiempo de reacción simple',
+    'game.title.choiceReaction': 'Tiempo de reacción de elección',
+    'game.simpleReactionDescription': 'Responde en cuanto un recuadro se ponga verde.',
+    'game.choiceReactionDescription': 'Pulsa el lado al que apunta la flecha lo más rápido que puedas.',
+    'game.score.clicks': { one: '{count} clic', other: '{count} clics' },
+    'game.score.tries': { one: '{count} intento', other: '{count} intentos' },
+    'game.score.ms': '{count} ms',
+    'game.stats.best': 'Mejor marca personal: {score}',
+    'game.stats.percentile': 'Tu última partida superó al {percent}% de las anteriores',
+    'game.stats.recent': 'Recientes: {scores}',
+    'game.stats.abandoned': 'sin terminar',
+    'game.stats.timedOut': 'sin tiempo',
+    'game.reaction.simpleInstructions': 'Cuando el recuadro se ponga verde, tócalo o pulsa Espacio lo más rápido que puedas. Pulsar antes de que se ponga verde cuenta como salida en falso.',
+    'game.reaction.choiceInstructions': 'Una flecha apuntará a la izquierda o a la derecha. Toca ese lado o pulsa la tecla de flecha correspondiente lo más rápido que puedas. Pulsar antes de que aparezca la flecha cuenta como salida en falso.',
+    'game.reaction.trial': 'Intento {current} de {total}',
+    'game.reaction.wait': 'Espera al verde...',
+    'game.reaction.waitChoice': 'Espera a la flecha...',
+    'game.reaction.go': '¡Ya!',
+    'game.reaction.left': 'Izquierda',
+    'game.reaction.right': 'Derecha',
+    'game.reaction.tooSoon': '¡Demasiado pronto!',
+    'game.reaction.wrong': 'Lado equivocado',
+    'game.reaction.miss': 'Demasiado lento',
+    'game.reaction.ms': '{value} ms',
+    'game.reaction.median': 'Tiempo de reacción mediano',
+    'game.reaction.variability': 'Variabilidad (desviación estándar)',
+    'game.reaction.breakdown': 'Válidos: {hits} · Salidas en falso: {falseStarts} · Lado equivocado: {wrong} · Demasiado lentos: {misses}',
+    'game.reaction.notScored': 'Demasiadas salidas en falso o intentos fallidos para puntuar esta ronda. Inténtalo de nuevo.',
+
+    'progress.title': 'Tu progreso',
+    'progress.intro': 'Cumple tus objetivos para ganar puntos y mejorar tu salud.',
+    'progress.generate': 'Generar objetivos nuevos',
+    'progress.generating': 'Generando...',
+    'progress.userNotFound': 'No se encontró el usuario.',
+    'progress.fallbackSummary': '{source} no pudo ofrecer objetivos: {error}',
+    'progress.formatIssues': 'Se omitieron algunos objetivos sugeridos porque no tenían el formato esperado.',
+    'progress.problemsFound': { one: '{count} problema encontrado', other: '{count} problemas encontrados' },
+    'progress.noSuitableGoals': 'No se pudieron generar objetivos adecuados. Inténtalo más tarde.',
+    'progress.saveGoalsFailed': 'Error al guardar los objetivos nuevos: {error}',
+    'progress.fallbackMessage': '{source} no está disponible, así que estos objetivos se generaron en tu dispositivo a partir de tu perfil y tus métricas recientes.',
+    'progress.generated': '¡Se han generado objetivos nuevos!',
+    'progress.checkInFailed': 'Error al guardar tu registro.',
+    'progress.checkedIn': '¡Registrado! Has ganado {points} puntos.',
+    'progress.saveFailed': 'Error al guardar los cambios.',
+    'progress.savedWithPoints': '¡Cambios guardados! ¡Has ganado {points} puntos!',
+    'progress.saved': 'Tu progreso se ha guardado.',
+    'progress.quotaLeftToday': 'Te quedan {count} de {limit} generaciones de objetivos hoy.',
+    'progress.quotaLeftWeek': 'Te quedan {count} de {limit} generaciones de objetivos esta semana.',
+    'progress.quotaUsedToday': 'Has usado todas las generaciones de objetivos de hoy. Podrás generar objetivos nuevos de nuevo {next}.',
+    'progress.quotaUsedWeek': 'Has usado todas las generaciones de objetivos de esta semana. Podrás generar objetivos nuevos de nuevo {next}.',
+    'progress.nextTier': 'Consigue {points} puntos para tener más.',
+    'progress.safetySummary': 'Algunos objetivos se eliminaron o se hicieron más fáciles según tu perfil de salud.',
+    'progress.safetyRemoved': 'Eliminado: "{goal}" — {reason}.',
+    'progress.safetyDowngraded': 'Más fácil ({difficulty}): "{goal}" — {reason}.',
+    'progress.current': 'Objetivos actuales',
+    'progress.history': 'Historial',
+    'progress.loading': 'Cargando tus objetivos...',
+    'progress.noGoals': '¡Aún no tienes objetivos!',
+    'progress.noGoalsHint': 'Pulsa el botón "Generar objetivos nuevos" para empezar.',
+    'progress.goals': 'Objetivos',
+    'progress.days': { one: '{count} día', other: '{count} días' },
+    'progress.target': 'Meta: {metric} {comparator} {value} durante {days}',
+    'progress.targetProgress': '{met} de {required} por ahora',
+    'progress.verified': 'Verificado',
+    'progress.verifiedHint': 'Verificado con tus métricas',
+    'progress.verifiedGoal': '"{goal}" se verificó con tus métricas.',
+    'progress.verifiedGoals': { one: 'Se verificó {count} objetivo con tus métricas.', other: 'Se verificaron {count} objetivos con tus métricas.' },
+    'progress.verifiedPoints': '(+{points} puntos)',
+
+    'habits.title': 'Hábitos',
+    'habits.daily': 'Diario',
+    'habits.weekly': '{count} veces por semana',
+    'habits.startsOn': 'Empieza el {date}',
+    'habits.ended': 'Terminó el {date}',
+    'habits.weekDone': 'Hecho esta semana ({count}/{target})',
+    'habits.weekProgress': '{count} de {target} esta semana',
+    'habits.doneToday': 'Hecho por hoy',
+    'habits.dueToday': 'Pendiente hoy',
+    'habits.streakDays': { one: 'Racha: {count} día', other: 'Racha: {count} días' },
+    'habits.streakWeeks': { one: 'Racha: {count} semana', other: 'Racha: {count} semanas' },
+    'habits.best': 'Mejor: {count}',
+    'habits.pointsPerCheckIn': 'Puntos por registro',
+    'habits.calendar': 'Calendario de hábitos',
+    'habits.calendarIntro': { one: 'Registros de todos los hábitos durante la última semana.', other: 'Registros de todos los hábitos durante las últimas {count} semanas.' },
+    'habits.dayCheckIns': { one: '{date}: {count} registro', other: '{date}: {count} registros' },
+
+    'history.loading': 'Cargando tu historial de objetivos...',
+    'history.empty': 'Aún no tienes objetivos. Aquí aparecerán tus tandas de objetivos anteriores.',
+    'history.byCategory': 'Por categoría',
+    'history.byDifficulty': 'Por dificultad',
+    'history.batches': 'Tandas de objetivos',
+    'history.overall': '{rate} completado en total',
+    'history.earlier': 'Objetivos anteriores',
+    'history.current': 'Actual',
+    'history.batchSummary': '{completed} de {total} completados ({rate})',
+
+    'localGoal.walkSteps': 'Camina al menos {target} pasos al día esta semana',
+    'localGoal.walkSteps.why': 'Últimamente has caminado una media de {steps} pasos al día; un pequeño aumento diario es fácil de mantener.',
+    'localGoal.activeDays': 'Llega a {target} pasos al menos 4 días esta semana',
+    'localGoal.activeDays.why': 'Caminas una media de {steps} pasos al día, cerca de los {target} que cuentan como un día activo.',
+    'localGoal.mealWalk': 'Da un paseo de 15 minutos después de una comida cada día',
+    'localGoal.mealWalk.why': 'Aún no hay pasos registrados; un paseo corto diario es un buen punto de partida.',
+    'localGoal.lowIntensityCardio': 'Haz 20 minutos de cardio suave, como nadar o ir en bici, con 5 minutos de calentamiento',
+    'localGoal.lowIntensityCardio.why': 'El cardio constante y con calentamiento mejora la forma física con menos riesgo de provocar problemas respiratorios.',
+    'localGoal.intervals': 'Completa dos sesiones de 30 minutos de entrenamiento por intervalos esta semana',
+    'localGoal.intervals.why': 'Ya eres activo, así que los intervalos son el siguiente paso para tu forma cardiovascular.',
+    'localGoal.strength': 'Añade dos sesiones de fuerza de 20 minutos con tu peso corporal esta semana',
+    'localGoal.strength.why': 'El trabajo de fuerza complementa las caminatas y ayuda a las articulaciones y al metabolismo.',
+    'localGoal.stretching': 'Haz 10 minutos de estiramientos suaves cada mañana',
+    'localGoal.stretching.why': 'Estirar a diario mejora la movilidad y es un hábito suave para principiantes.',
+    'localGoal.salt': 'Toma menos de 5 g de sal al día evitando los alimentos procesados y envasados',
+    'localGoal.salt.why': 'Reducir la sal es uno de los cambios de dieta más eficaces contra la presión arterial alta.',
+    'localGoal.wholeGrains': 'Cambia los carbohidratos refinados por cereales integrales en cada comida durante una semana',
+    'localGoal.wholeGrains.why': 'Los cereales integrales liberan el azúcar más despacio, lo que ayuda a mantener estable la glucosa.',
+    'localGoal.sugaryDrinks': 'Sustituye las bebidas azucaradas por agua o té sin azúcar cada día esta semana',
+    'localGoal.sugaryDrinks.why': 'Tu IMC es {bmi}; las bebidas azucaradas son una fuente de calorías fácil de eliminar.',
+    'localGoal.proteinSnack': 'Toma un tentempié rico en proteínas, como frutos secos, yogur o huevos, entre comidas cada día',
+    'localGoal.proteinSnack.why': 'Tu IMC es {bmi}, por debajo del rango saludable; más proteína ayuda a alcanzar un peso sano.',
+    'localGoal.fruitVeg': 'Come hoy cinco raciones de fruta y verdura',
+    'localGoal.fruitVeg.why': 'Cinco raciones al día son una base sencilla para una dieta equilibrada.',
+    'localGoal.slowBreathing': 'Practica 10 minutos de respiración lenta (4 segundos al inspirar, 6 al espirar) dos veces al día',
+    'localGoal.slowBreathing.why': 'Tu frecuencia cardíaca media ha sido de {heartRate} lpm; respirar despacio ayuda al cuerpo a relajarse.',
+    'localGoal.screenFree': 'Dedica 10 minutos cada noche a una actividad sin pantallas que te guste',
+    'localGoal.screenFree.why': 'Un breve descanso diario de las pantallas te ayuda a desconectar y dormir mejor.',
+    'localGoal.earlierBed': 'Acuéstate 30 minutos antes para dormir al menos {hours} horas',
+    'localGoal.earlierBed.why': 'Has dormido una media de {average} horas, menos de las {hours} recomendadas.',
+    'localGoal.logMetrics': 'Registra tus métricas de salud cada día esta semana',
+    'localGoal.logMetrics.why': 'Los registros regulares hacen más precisas tus tendencias y tus próximos objetivos.',
+
+    'safety.peanut-allergy': 'menciona cacahuetes, a los que eres alérgico',
+    'safety.tree-nut-allergy': 'menciona frutos secos, a los que eres alérgico',
+    'safety.dairy-allergy': 'menciona lácteos, a los que eres alérgico o intolerante',
+    'safety.gluten-intolerance': 'menciona alimentos con gluten',
+    'safety.fish-allergy': 'menciona pescado o marisco, a los que eres alérgico',
+    'safety.egg-allergy': 'menciona huevos, a los que eres alérgico',
+    'safety.cardiac-high-intensity': 'no se recomienda el ejercicio de alta intensidad con una afección cardíaca sin autorización médica',
+    'safety.cardiac-hard-exercise': 'los objetivos de ejercicio se mantienen suaves por tu afección cardíaca',
+    'safety.hypertension-strain': 'el ejercicio con esfuerzo intenso o apnea puede disparar la presión arterial',
+    'safety.hypertension-hard-exercise': 'los objetivos de ejercicio se mantienen moderados por tu presión arterial alta',
+    'safety.respiratory-high-intensity': 'el ejercicio de alta intensidad puede provocar problemas respiratorios',
+    'safety.diabetes-fasting': 'ayunar o saltarse comidas puede causar variaciones peligrosas de glucosa con diabetes',
+    'safety.pregnancy-intense': 'no se recomienda durante el embarazo sin tu médico',
+    'safety.glucose-lowering-fasting': 'ayunar mientras tomas medicación para bajar la glucosa puede causar hipoglucemia',
+    'safety.anticoagulant-vitamin-k': 'los cambios bruscos de vitamina K alteran el efecto de la warfarina',
+    'safety.statin-grapefruit': 'el pomelo interactúa con algunas estatinas',
+    'safety.beta-blocker-heart-rate': 'los betabloqueantes alteran tu frecuencia cardíaca, así que los objetivos de frecuencia cardíaca no son fiables',
+};
@@ -0,0 +1,478 @@
+import type { Message, MessageKey } from './messages.en';
+
+export const hi: Record<MessageKey, Message> = {
+    'app.loading': 'ऐप लोड हो रहा है...',
+    'common.saving': 'सहेजा जा रहा है...',
+    'common.saveChanges': 'बदलाव सहेजें',
+    'common.loading': 'लोड हो रहा है...',
+    'common.close': 'बंद करें',
+    'common.signOut': 'साइन आउट',
+    'common.firstName': 'पहला नाम',
+    'common.lastName': 'उपनाम',
+    'common.email': 'ईमेल पता',
+    'common.password': 'पासवर्ड',
+    'common.confirmPassword': 'पासवर्ड की पुष्टि करें',
+    'common.age': 'आयु',
+    'common.heightCm': 'लंबाई (सेमी)',
+    'common.weightKg': 'वज़न (किग्रा)',
+    'common.gender': 'लिंग',
+    'common.fitnessLevel': 'फ़िटनेस स्तर',
+    'common.preferredLanguage': 'पसंदीदा भाषा',
+    'common.existingConditions': 'मौजूदा बीमारियाँ',
+    'common.allergies': 'एलर्जी',
+    'common.medications': 'वर्तमान दवाइयाँ',
+    'common.points': { one: '{count} पॉइंट', other: '{count} पॉइंट' },
+
+    'gender.Male': 'पुरुष',
+    'gender.Female': 'महिला',
+    'gender.Other': 'अन्य',
+    'fitness.Beginner': 'शुरुआती',
+    'fitness.Intermediate': 'मध्यम',
+    'fitness.Advanced': 'उन्नत',
+    'category.Diet': 'आहार',
+    'category.Exercise': 'व्यायाम',
+    'category.Mental Health': 'मानसिक स्वास्थ्य',
+    'category.General': 'सामान्य',
+    'difficulty.Easy': 'आसान',
+    'difficulty.Medium': 'मध्यम',
+    'difficulty.Hard': 'कठिन',
+
+    'metric.heartRate': 'हृदय गति',
+    'metric.steps': 'कदम',
+    'metric.sleepHours': 'नींद',
+    'metric.breathingRate': 'साँस की दर',
+    'metric.distanceTravelled': 'तय की गई दूरी',
+    'metric.caloriesBurnt': 'खर्च की गई कैलोरी',
+    'unitName.bpm': 'धड़कन/मिनट',
+    'unitName.count': 'संख्या',
+    'unitName.hours': 'घंटे',
+    'unitName.breaths/min': 'साँस/मिनट',
+    'unitName.km': 'किमी',
+    'unitName.kcal': 'किलो कैलोरी',
+    'unit.bpm': '{value} धड़कन/मिनट',
+    'unit.count': '{value}',
+    'unit.breaths/min': '{value} साँस/मिनट',
+    'unit.kcal': '{value} किलो कैलोरी',
+
+    'validation.required': '{field} आवश्यक है।',
+    'validation.range': '{field} {min} और {max} के बीच होना चाहिए।',
+    'validation.wholeNumber': '{field} पूर्ण संख्या होनी चाहिए।',
+    'validation.chooseGender': 'कृपया लिंग चुनें।',
+    'validation.chooseFitness': 'कृपया फ़िटनेस स्तर चुनें।',
+    'validation.tooLong': 'कृपया इसे {max} अक्षरों से कम रखें।',
+    'validation.language': 'पसंदीदा भाषा आवश्यक है।',
+
+    'header.brand': 'हेल्थ मॉनिटर',
+    'header.pointsHistory': 'पॉइंट इतिहास',
+    'header.noPoints': 'अभी तक कोई पॉइंट नहीं मिला।',
+    'points.game': 'गेम खेला',
+    'points.metrics': 'दैनिक माप दर्ज किए',
+    'points.goal': 'लक्ष्य पूरा किया',
+    'points.opening': 'पहले के पॉइंट',
+
+    'home.welcome': 'फिर से स्वागत है, {name}!',
+    'home.intro': 'यह आपका निजी स्वास्थ्य डैशबोर्ड है। आज आप क्या करना चाहेंगे?',
+    'home.diagnosis': 'जाँच',
+    'home.diagnosisDescription': 'गतिविधियों में भाग लें और अपने दैनिक स्वास्थ्य माप दर्ज करें।',
+    'home.progress': 'प्रगति',
+    'home.progressDescription': 'AI द्वारा बनाए गए अपने स्वास्थ्य लक्ष्य देखें और प्रबंधित करें।',
+    'home.settings': 'सेटिंग्स',
+    'home.settingsDescription': 'अपने खाते का विवरण और पसंद प्रबंधित करें।',
+    'home.assistant': 'स्वास्थ्य सहायक',
+    'home.assistantDescription': 'अपने लक्ष्यों और मेट्रिक्स के बारे में सवाल पूछें।',
+    'home.signOutDescription': 'अपना सत्र समाप्त करें और ऐप से साइन आउट करें।',
+    'cognitive.title': 'संज्ञानात्मक रुझान',
+    'cognitive.intro': 'पिछले {days} दिनों के आपके गेम परिणाम, आपके अपने सामान्य स्तर की तुलना में।',
+    'cognitive.gameLevel': '{game} · {level}',
+    'cognitive.baseline': 'सामान्य: {score}',
+    'cognitive.recent': 'पिछले {days} दिन: {score}',
+    'cognitive.noRecent': 'पिछले {days} दिनों में नहीं खेला',
+    'cognitive.buildingBaseline': 'अपना सामान्य स्तर तय करने के लिए खेलते रहें',
+    'cognitive.declining': 'सामान्य से खराब',
+    'cognitive.alertTitle': 'आपके कुछ गेम परिणाम बदल गए हैं',
+    'cognitive.decline': '{game}: पिछले {days} दिनों में आपका सामान्य परिणाम {recent} रहा, जबकि पहले यह {baseline} था।',
+    'cognitive.nextSteps': 'सुझाए गए अगले कदम',
+    'cognitive.step.retry': 'आराम करने के बाद फिर से खेलें। कम नींद, तनाव, बीमारी, शराब और कुछ दवाएँ कुछ समय के लिए परिणामों पर असर डाल सकती हैं।',
+    'cognitive.step.sleep': 'अपने मेट्रिक रुझानों में हाल की नींद और गतिविधि देखें।',
+    'cognitive.step.doctor': 'अगर आपने या आपके करीबी लोगों ने रोज़मर्रा के जीवन में याददाश्त, ध्यान या प्रतिक्रिया की गति में बदलाव देखा है, तो अपने डॉक्टर को बताएँ।',
+    'cognitive.disclaimer': 'ये गेम कोई चिकित्सा जाँच नहीं हैं। आपकी तुलना केवल आपके अपने पहले के परिणामों से की जाती है।',
+
+    'auth.signInTitle': 'अपने खाते में साइन इन करें',
+    'auth.notMember': 'सदस्य नहीं हैं?',
+    'auth.signUpNow': 'अभी साइन अप करें',
+    'auth.signingIn': 'साइन इन हो रहा है...',
+    'auth.getOtp': 'OTP पाएँ',
+    'auth.otpTitle': 'सत्यापन कोड दर्ज करें',
+    'auth.backToLogin': 'लॉगिन पर वापस जाएँ',
+    'auth.otpSentTo': '{email} पर OTP भेजा गया है।',
+    'auth.otp': 'OTP',
+    'auth.verifying': 'सत्यापित हो रहा है...',
+    'auth.verify': 'सत्यापित करें और लॉगिन करें',
+    'auth.resendIn': '{seconds} सेकंड में कोड दोबारा भेजें',
+    'auth.resend': 'कोड दोबारा भेजें',
+    'auth.signUpTitle': 'नया खाता बनाएँ',
+    'auth.haveAccount': 'पहले से खाता है?',
+    'auth.signIn': 'साइन इन',
+    'auth.creatingAccount': 'खाता बन रहा है...',
+    'auth.signUp': 'साइन अप',
+    'auth.aboutYouTitle': 'हमें अपने बारे में बताएँ',
+    'auth.aboutYouFooter': 'इससे हम आपका अनुभव आपके अनुसार बना पाते हैं।',
+    'auth.conditionsHint': 'मौजूदा बीमारियाँ (जैसे मधुमेह, दमा)',
+    'auth.allergiesHint': 'एलर्जी (जैसे मूंगफली, पराग)',
+    'auth.completeProfile': 'प्रोफ़ाइल पूरी करें',
+    'auth.otpFailed': 'OTP भेजा नहीं जा सका। कृपया फिर से कोशिश करें।',
+    'auth.otpResent': 'आपके ईमेल पर नया OTP भेजा गया है।',
+    'auth.invalidCredentials': 'गलत ईमेल या पासवर्ड।',
+    'auth.otpSent': 'आपके ईमेल पर OTP भेजा गया!',
+    'auth.invalidOtp': 'गलत OTP।',
+    'auth.attemptsRemaining': { one: '{count} प्रयास बाकी है।', other: '{count} प्रयास बाकी हैं।' },
+    'auth.sessionExpired': 'सत्र समाप्त हो गया। कृपया फिर से लॉगिन करें।',
+    'auth.profileFailed': 'उपयोगकर्ता प्रोफ़ाइल नहीं मिल सकी।',
+    'auth.passwordTooShort': 'पासवर्ड कम से कम 8 अक्षरों का होना चाहिए।',
+    'auth.passwordMismatch': 'पासवर्ड मेल नहीं खाते।',
+    'auth.signUpFailed': 'साइन अप नहीं हो सका।',
+    'auth.sessionError': 'सत्र में त्रुटि। कृपया फिर से शुरू करें।',
+    'auth.saveDetailsFailed': 'स्वास्थ्य विवरण सहेजे नहीं जा सके।',
+
+    'settings.title': 'सेटिंग्स',
+    'settings.intro': 'अपनी निजी जानकारी, स्वास्थ्य प्रोफ़ाइल और पासवर्ड अपडेट करें।',
+    'settings.emailAddress': 'ईमेल पता',
+    'settings.changePassword': 'पासवर्ड बदलें',
+    'settings.newPassword': 'नया पासवर्ड',
+    'settings.confirmNewPassword': 'नए पासवर्ड की पुष्टि करें',
+    'settings.keepPassword': 'मौजूदा पासवर्ड रखने के लिए खाली छोड़ें',
+    'settings.newPasswordTooShort': 'नया पासवर्ड कम से कम 8 अक्षरों का होना चाहिए।',
+    'settings.newPasswordMismatch': 'नए पासवर्ड मेल नहीं खाते।',
+    'settings.updateFailed': 'सेटिंग्स अपडेट नहीं हो सकीं।',
+    'settings.saved': 'आपके बदलाव सहेज लिए गए हैं!',
+    'settings.signOutDescription': 'इससे आप इस डिवाइस पर अपने खाते से साइन आउट हो जाएँगे।',
+    'settings.healthProfile': 'स्वास्थ्य प्रोफ़ाइल',
+    'settings.healthProfileIntro': 'इसे अपडेट रखने से हम आपके लक्ष्य बेहतर बना पाते हैं।',
+    'settings.weightHistory': 'वज़न इतिहास',
+    'settings.fixFields': 'कृपया चिह्नित फ़ील्ड ठीक करें।',
+    'settings.healthUpdateFailed': 'आपकी स्वास्थ्य प्रोफ़ाइल अपडेट नहीं हो सकी।',
+    'settings.healthSaved': 'आपकी स्वास्थ्य प्रोफ़ाइल अपडेट हो गई है।',
+    'settings.saveHealthProfile': 'स्वास्थ्य प्रोफ़ाइल सहेजें',
+    'settings.goalSource': 'लक्ष्य का स्रोत',
+    'settings.goalSourceIntro': 'चुनें कि नए लक्ष्य कहाँ से आएँ। अगर यह उपलब्ध न हो, तो लक्ष्य आपके डिवाइस पर बनाए जाएँगे।',
+    'settings.notConfigured': '(सेट नहीं है)',
+    'settings.language': 'भाषा',
+    'settings.languageIntro': 'ऐप और आपके लिए बनाए गए लक्ष्यों में इस्तेमाल होती है।',
+    'settings.languageFailed': 'आपकी भाषा सहेजी नहीं जा सकी।',
+
+    'goalSource.n8n': 'लक्ष्य सेवा',
+    'goalSource.n8n.description': 'Proactive Health Monitor वर्कफ़्लो से लक्ष्य, आपके खाते में सहेजी गई प्रोफ़ाइल के आधार पर।',
+    'goalSource.gemini': 'Gemini',
+    'goalSource.gemini.description': 'Google Gemini द्वारा लिखे गए लक्ष्य। इन्हें बनाने के लिए आपकी स्वास्थ्य प्रोफ़ाइल और हाल के माप Google को भेजे जाते हैं।',
+    'goalSource.local': 'डिवाइस पर',
+    'goalSource.local.description': 'आपकी प्रोफ़ाइल और हाल के मापों पर सरल नियम। कुछ भी आपके डिवाइस से बाहर नहीं जाता।',
+
+    'diagnosis.title': 'जाँच',
+    'diagnosis.intro': 'आगे बढ़ने के लिए कोई गतिविधि चुनें।',
+    'diagnosis.engagement': 'गतिविधियाँ',
+    'diagnosis.engagementDescription': 'अपने कौशल को परखने के लिए गेम खेलें।',
+    'diagnosis.tracking': 'आपकी ट्रैकिंग',
+    'diagnosis.trackingDescription': 'अपने दैनिक स्वास्थ्य रिकॉर्ड दर्ज करें।',
+    'diagnosis.gamesIntro': 'अपनी मानसिक और शारीरिक क्षमता परखने के लिए ये गेम खेलें। हर गेम खेलने पर पॉइंट मिलते हैं!',
+    'diagnosis.trends': 'आपके रुझान',
+    'diagnosis.importExport': 'इम्पोर्ट और एक्सपोर्ट',
+    'diagnosis.viewTrends': 'रुझान देखें',
+    'diagnosis.logTitle': 'अपने दैनिक स्वास्थ्य रिकॉर्ड दर्ज करें',
+    'diagnosis.alreadyLogged': 'आप इस दिन का रिकॉर्ड पहले ही दर्ज कर चुके हैं। कोई भी बदलाव आपकी प्रविष्टि को अपडेट करेगा।',
+    'diagnosis.nothingLogged': 'इस दिन के लिए अभी कुछ दर्ज नहीं है।',
+    'diagnosis.date': 'तारीख',
+    'diagnosis.doubleCheck': 'कृपया इन मापों को दोबारा जाँचें:',
+    'diagnosis.saveAgainToFlag': 'अगर ये सही हैं, तो फिर से सहेजें; इन्हें समीक्षा के लिए चिह्नित कर दिया जाएगा।',
+    'diagnosis.flagged': 'इस दिन के चिह्नित माप:',
+    'diagnosis.saveAnyway': 'फिर भी सहेजें',
+    'diagnosis.update': 'अपडेट करें',
+    'diagnosis.submit': 'जमा करें',
+    'diagnosis.emptyEntry': 'इस दिन को सहेजने के लिए कम से कम एक मान दर्ज करें।',
+    'diagnosis.outOfRange': 'कुछ मान संभव सीमा से बाहर हैं। कृपया चिह्नित फ़ील्ड जाँचें।',
+    'diagnosis.saveFailed': 'माप सहेजे नहीं जा सके।',
+    'diagnosis.savedWithPoints': 'माप सहेज लिए गए! आपको {points} पॉइंट मिले।',
+    'diagnosis.updated': 'आपके माप अपडेट हो गए हैं।',
+    'diagnosis.gameOver': 'गेम खत्म! आपका स्कोर: {score}। आपको {points} पॉइंट मिले!',
+    'diagnosis.gameSaved': 'गेम खत्म! आपका स्कोर: {score}।',
+    'diagnosis.gameNotSaved': 'गेम खत्म! आपका स्कोर: {score}। यह सत्र सहेजा नहीं जा सका, इसलिए कोई पॉइंट नहीं मिले।',
+    'metricCheck.notNumber': '{metric} एक संख्या होनी चाहिए।',
+    'metricCheck.range': '{metric} का मान {min} और {max} के बीच होना चाहिए।',
+    'metricCheck.low': '{metric} का मान {value} असामान्य रूप से कम है।',
+    'metricCheck.high': '{metric} का मान {value} असामान्य रूप से अधिक है।',
+    'trends.legend': 'ठोस रेखा: दैनिक मान। डैश वाली रेखा: 7 दिन का चलता औसत।',
+    'trends.range': '{count} दिन',
+    'trends.loading': 'आपके रुझान लोड हो रहे हैं...',
+    'trends.noData': 'इस अवधि में कोई डेटा नहीं',
+    'trends.average': 'औसत',
+    'trends.min': 'न्यूनतम',
+    'trends.max': 'अधिकतम',
+    'trends.flagged': 'चिह्नित रीडिंग',
+    'transfer.cancel': 'रद्द करें',
+    'transfer.back': 'वापस',
+    'transfer.importing': 'इम्पोर्ट हो रहा है...',
+    'transfer.import': 'इम्पोर्ट',
+    'transfer.importFailed': 'इम्पोर्ट विफल: {error}',
+    'transfer.readFailed': 'यह फ़ाइल पढ़ी नहीं जा सकी: {error}',
+    'transfer.date': 'तारीख',
+    'transfer.export': 'एक्सपोर्ट',
+    'transfer.exportIntro': 'अपने मेट्रिक्स का पूरा इतिहास डाउनलोड करें।',
+    'transfer.downloadCsv': 'CSV डाउनलोड करें',
+    'transfer.downloadJson': 'JSON डाउनलोड करें',
+    'transfer.importIntro': 'हर दिन की एक पंक्ति वाली CSV या JSON फ़ाइल अपलोड करें। कुछ भी सहेजने से पहले आप कॉलम मिला सकते हैं और हर पंक्ति जाँच सकते हैं।',
+    'transfer.noRows': 'इस फ़ाइल में कोई पंक्ति नहीं मिली।',
+    'transfer.mapIntro': { one: '{file}: {count} पंक्ति। हर फ़ील्ड को अपनी फ़ाइल के किसी कॉलम से मिलाएँ।', other: '{file}: {count} पंक्तियाँ। हर फ़ील्ड को अपनी फ़ाइल के किसी कॉलम से मिलाएँ।' },
+    'transfer.dontImport': 'इम्पोर्ट न करें',
+    'transfer.dateFormat': 'तारीख का प्रारूप',
+    'transfer.numberFormat': 'संख्या का प्रारूप',
+    'transfer.unit': 'इकाई',
+    'transfer.preview': 'पूर्वावलोकन',
+    'transfer.previewSummary': '{ready} इम्पोर्ट के लिए तैयार, {errors} में त्रुटियाँ, {duplicates} दोहराई गई तारीखें।',
+    'transfer.duplicatePolicy': 'जिन दिनों को आप पहले ही दर्ज कर चुके हैं',
+    'transfer.keepExisting': 'मेरी मौजूदा प्रविष्टियाँ रखें',
+    'transfer.overwrite': 'इम्पोर्ट किए गए मानों से बदलें',
+    'transfer.row': 'पंक्ति',
+    'transfer.status': 'स्थिति',
+    'transfer.sameDateInFile': 'पिछली पंक्ति वाली ही तारीख; छोड़ी गई।',
+    'transfer.alreadyLoggedKept': 'पहले से दर्ज; रखी गई।',
+    'transfer.alreadyLoggedReplaced': 'पहले से दर्ज; इम्पोर्ट किए गए मेट्रिक्स दर्ज मानों की जगह लेंगे।',
+    'transfer.ok': 'ठीक',
+    'transfer.importRows': { one: '{count} पंक्ति इम्पोर्ट करें', other: '{count} पंक्तियाँ इम्पोर्ट करें' },
+    'transfer.imported': { one: '{count} दिन के मेट्रिक्स इम्पोर्ट किए गए।', other: '{count} दिनों के मेट्रिक्स इम्पोर्ट किए गए।' },
+    'transfer.skippedRows': { one: '{count} पंक्ति छोड़ी गई।', other: '{count} पंक्तियाँ छोड़ी गईं।' },
+    'transfer.importAnother': 'दूसरी फ़ाइल इम्पोर्ट करें',
+    'transfer.invalidDate': '"{value}" मान्य {format} तारीख नहीं है।',
+    'transfer.missingDate': 'तारीख नहीं है।',
+    'transfer.futureDate': '{date} भविष्य की तारीख है।',
+    'transfer.notNumber': '{metric}: "{value}" संख्या नहीं है।',
+    'transfer.noValues': 'इस पंक्ति में कोई मेट्रिक मान नहीं है।',
+    'fhir.title': 'क्लिनिकल रिकॉर्ड (FHIR)',
+    'fhir.intro': 'अपनी प्रोफ़ाइल और मेट्रिक्स किसी चिकित्सक के साथ FHIR R4 बंडल के रूप में साझा करें, या किसी बंडल से वापस लाएँ।',
+    'fhir.preparing': 'तैयार हो रहा है...',
+    'fhir.download': 'FHIR बंडल डाउनलोड करें',
+    'fhir.upload': 'FHIR बंडल इम्पोर्ट करें',
+    'fhir.ready': 'इम्पोर्ट के लिए तैयार',
+    'fhir.name': 'नाम: {name}',
+    'fhir.health': 'स्वास्थ्य प्रोफ़ाइल, जिसमें बीमारियाँ, एलर्जी और दवाएँ शामिल हैं',
+    'fhir.noHealth': 'कोई पूरी स्वास्थ्य प्रोफ़ाइल नहीं',
+    'fhir.metrics': { one: '{count} दिन के मेट्रिक्स', other: '{count} दिनों के मेट्रिक्स' },
+    'fhir.invalidHealth': 'स्वास्थ्य प्रोफ़ाइल इम्पोर्ट नहीं की जाएगी: {errors}',
+    'fhir.skipped': { one: '{count} संसाधन छोड़ा गया', other: '{count} संसाधन छोड़े गए' },
+    'fhir.imported': { one: '{count} दिन के मेट्रिक्स इम्पोर्ट किए गए।', other: '{count} दिनों के मेट्रिक्स इम्पोर्ट किए गए।' },
+    'fhir.importedWithProfile': { one: 'आपकी स्वास्थ्य प्रोफ़ाइल और {count} दिन के मेट्रिक्स इम्पोर्ट किए गए।', other: 'आपकी स्वास्थ्य प्रोफ़ाइल और {count} दिनों के मेट्रिक्स इम्पोर्ट किए गए।' },
+    'wearable.title': 'वियरेबल से इम्पोर्ट करें',
+    'wearable.intro': 'Apple Health की "{appleFile}" फ़ाइल चुनें, या Google Takeout के "Fit" फ़ोल्डर की फ़ाइलें ("{fitCsv}" या "{fitFolder}" में मौजूद JSON फ़ाइलें)। पहले एक्सपोर्ट को अनज़िप करें। फ़ाइलें आपके डिवाइस पर ही प्रोसेस होती हैं और केवल दैनिक योग सहेजे जाते हैं।',
+    'wearable.reading': '{file} पढ़ी जा रही है... {percent}%',
+    'wearable.export': 'एक्सपोर्ट',
+    'wearable.noReadings': 'चुनी गई फ़ाइलों में कोई समर्थित रीडिंग नहीं मिली।',
+    'wearable.readFailed': 'यह एक्सपोर्ट पढ़ा नहीं जा सका: {error}',
+    'wearable.found': { one: '{from} से {to} तक {count} दिन मिला:', other: '{from} से {to} तक {count} दिन मिले:' },
+    'wearable.mergeSummary': '{newDays} नए, {updatedDays} अपडेट होंगे, {unchangedDays} अपरिवर्तित।',
+    'wearable.conflicts': { one: '{count} मान आपके हाथ से दर्ज किए गए मान से अलग है।', other: '{count} मान आपके हाथ से दर्ज किए गए मानों से अलग हैं।' },
+    'wearable.policy': 'जब किसी दिन पहले से आपके दर्ज किए मान हों',
+    'wearable.keepManual': 'मेरे मान रखें; केवल खाली फ़ील्ड भरें',
+    'wearable.preferDevice': 'डिवाइस के मान इस्तेमाल करें; जो फ़ील्ड डिवाइस ने दर्ज नहीं किए, वे रखें',
+    'wearable.showingLatest': 'इम्पोर्ट होने वाले {total} दिनों में से नवीनतम {shown} दिखाए जा रहे हैं।',
+    'wearable.importDays': { one: '{count} दिन इम्पोर्ट करें', other: '{count} दिन इम्पोर्ट करें' },
+    'wearable.imported': { one: 'आपके डिवाइस एक्सपोर्ट से {count} दिन इम्पोर्ट किया गया।', other: 'आपके डिवाइस एक्सपोर्ट से {count} दिन इम्पोर्ट किए गए।' },
+    'assistant.title': 'स्वास्थ्य सहायक',
+    'assistant.intro': 'अपने लक्ष्यों, दर्ज मेट्रिक्स या स्वास्थ्य प्रोफ़ाइल के बारे में पूछें।',
+    'assistant.disclaimer': 'सहायक सामान्य जानकारी देता है, चिकित्सा सलाह नहीं, और बीमारियों का निदान नहीं कर सकता। आपात स्थिति में अपने स्थानीय आपातकालीन नंबर पर कॉल करें।',
+    'assistant.localMode': 'कोई AI मॉडल कॉन्फ़िगर नहीं है, इसलिए जवाब इस डिवाइस पर चलने वाले एक सरल सहायक से आते हैं जो केवल आपके हाल के मेट्रिक्स और लक्ष्य जानता है।',
+    'assistant.conversations': 'बातचीत',
+    'assistant.newConversation': 'नई बातचीत',
+    'assistant.noConversations': 'अभी तक कोई बातचीत नहीं।',
+    'assistant.delete': 'हटाएँ',
+    'assistant.deleteConfirm': 'यह बातचीत हटाएँ? इसे वापस नहीं लाया जा सकता।',
+    'assistant.deleteFailed': 'यह बातचीत हटाई नहीं जा सकी: {error}',
+    'assistant.tryAsking': 'यह पूछकर देखें:',
+    'assistant.suggestion.goals': 'मुझे ये लक्ष्य क्यों दिए गए?',
+    'assistant.suggestion.heartRate': 'क्या मेरी आराम की हृदय गति ठीक है?',
+    'assistant.suggestion.sleep': 'हाल में मेरी नींद कैसी रही है?',
+    'assistant.placeholder': 'सवाल पूछें...',
+    'assistant.send': 'भेजें',
+    'assistant.thinking': 'सोच रहा है...',
+    'assistant.failed': 'सहायक जवाब नहीं दे सका: {error}',
+    'assistant.saveFailed': 'यह बातचीत सहेजी नहीं जा सकी: {error}',
+    'assistant.urgent': 'तत्काल',
+    'assistant.notADiagnosis': 'निदान नहीं',
+    'assistant.redFlag': 'आप जो बता रहे हैं वह किसी चिकित्सा आपात स्थिति का संकेत हो सकता है। कृपया अभी अपने स्थानीय आपातकालीन नंबर पर कॉल करें या डॉक्टर से मिलें; यहाँ जवाब का इंतज़ार न करें। अगर आप खुद को नुकसान पहुँचाने के बारे में सोच रहे हैं, तो तुरंत किसी संकट हेल्पलाइन या आपातकालीन सेवा से संपर्क करें।',
+    'assistant.diagnosis': 'मैं बीमारियों का निदान नहीं कर सकता या यह नहीं बता सकता कि आपको कोई बीमारी है या नहीं; यह डॉक्टर जाँच और टेस्ट से बता सकते हैं। मैं आपके दर्ज मेट्रिक्स और लक्ष्य समझा सकता हूँ, जो उस मुलाक़ात में काम आ सकते हैं।',
+    'assistant.local.metric': { one: 'हाल में आपने {count} दिन ({date}) अपनी {metric} दर्ज की, जो {average} थी।', other: 'हाल में जिन {count} दिनों आपने अपनी {metric} दर्ज की, उनका औसत {average} रहा; सबसे हाल में {date} को {latest}।' },
+    'assistant.local.metricUsual': 'यह आपकी उम्र और फ़िटनेस स्तर के लिए सामान्य सीमा में है।',
+    'assistant.local.metricUnusual': 'औसतन: {warning} इसके बारे में अपने डॉक्टर से बात करने पर विचार करें।',
+    'assistant.local.noMetric': 'आपने हाल में अपनी {metric} दर्ज नहीं की है।',
+    'assistant.local.goal': '"{goal}": {rationale}',
+    'assistant.local.goalNoRationale': '"{goal}" बिना किसी कारण के सुझाया गया था।',
+    'assistant.local.noGoals': 'अभी आपके कोई लक्ष्य नहीं हैं। आप प्रगति पेज पर नए लक्ष्य बना सकते हैं।',
+    'assistant.local.fallback': 'मैं केवल आपके दर्ज मेट्रिक्स, जैसे हृदय गति, कदम या नींद, और आपके मौजूदा लक्ष्यों के बारे में सवालों के जवाब दे सकता हूँ।',
+    'game.clicker': 'क्लिक फ़्रेंज़ी',
+    'game.clickerDescription': 'अपनी गति और प्रतिक्रिया परखें।',
+    'game.clickerInstructions': '{seconds} सेकंड में जितनी बार हो सके बटन दबाएँ!',
+    'game.secondsLeft': 'सेकंड बाकी',
+    'game.totalClicks': 'कुल क्लिक',
+    'game.clickMe': 'मुझे दबाएँ!',
+    'game.playAgain': 'फिर से खेलें',
+    'game.start': 'गेम शुरू करें',
+    'game.memory': 'मेमोरी मैच',
+    'game.memoryDescription': 'अपनी याददाश्त को चुनौती दें।',
+    'game.memoryInstructions': 'सभी मिलते-जुलते जोड़े खोजें।',
+    'game.tries': { one: '{count} प्रयास', other: '{count} प्रयास' },
+    'game.pairsFound': '{found} / {total} जोड़े मिले',
+    'game.reset': 'गेम रीसेट करें',
+    'game.memory.level.easy': 'आसान',
+    'game.memory.level.medium': 'मध्यम',
+    'game.memory.level.hard': 'कठिन',
+    'game.memory.levelTimed': '{level}, समयबद्ध',
+    'game.memory.adaptive': 'अनुकूली',
+    'game.memory.adaptiveNext': 'अनुकूली मोड आपके हाल के गेम के आधार पर स्तर चुनता है। अगला स्तर: {level}।',
+    'game.memory.timed': 'समयबद्ध: {seconds} सेकंड में सभी जोड़े खोजें',
+    'game.memory.preview': 'कार्ड याद कर लें...',
+    'game.memory.timeLeft': '{seconds} सेकंड बाकी',
+    'game.memory.timedOut': 'समय खत्म! आपने {total} में से {found} जोड़े खोजे।',
+    'game.title.simpleReaction': 'सरल प्रतिक्रिया समय',
+    'game.title.choiceReaction': 'चयन प्रतिक्रिया समय',
+    'game.simpleReactionDescription': 'बॉक्स के हरा होते ही प्रतिक्रिया दें।',
+    'game.choiceReactionDescription': 'तीर जिस ओर इशारा करे, उस ओर जितनी जल्दी हो सके दबाएँ।',
+    'game.score.clicks': { one: '{count} क्लिक', other: '{count} क्लिक' },
+    'game.score.tries': { one: '{count} प्रयास', other: '{count} प्रयास' },
+    'game.score.ms': '{count} मि.से.',
+    'game.stats.best': 'व्यक्तिगत सर्वश्रेष्ठ: {score}',
+    'game.stats.percentile': 'आपका पिछला गेम आपके पहले के {percent}% गेम से बेहतर रहा',
+    'game.stats.recent': 'हाल के: {scores}',
+    'game.stats.abandoned': 'बीच में छोड़ा',
+    'game.stats.timedOut': 'समय खत्म',
+    'game.reaction.simpleInstructions': 'जब बॉक्स हरा हो जाए, तो जितनी जल्दी हो सके उसे टैप करें या Space दबाएँ। हरा होने से पहले दबाना फ़ॉल्स स्टार्ट गिना जाता है।',
+    'game.reaction.choiceInstructions': 'एक तीर बाईं या दाईं ओर इशारा करेगा। जितनी जल्दी हो सके उसी तरफ़ टैप करें या मिलती हुई तीर कुंजी दबाएँ। तीर दिखने से पहले दबाना फ़ॉल्स स्टार्ट गिना जाता है।',
+    'game.reaction.trial': 'प्रयास {current} / {total}',
+    'game.reaction.wait': 'हरे रंग का इंतज़ार करें...',
+    'game.reaction.waitChoice': 'तीर का इंतज़ार करें...',
+    'game.reaction.go': 'अभी!',
+    'game.reaction.left': 'बाएँ',
+    'game.reaction.right': 'दाएँ',
+    'game.reaction.tooSoon': 'बहुत जल्दी!',
+    'game.reaction.wrong': 'गलत तरफ़',
+    'game.reaction.miss': 'बहुत धीमा',
+    'game.reaction.ms': '{value} मि.से.',
+    'game.reaction.median': 'माध्यिका प्रतिक्रिया समय',
+    'game.reaction.variability': 'परिवर्तनशीलता (मानक विचलन)',
+    'game.reaction.breakdown': 'मान्य: {hits} · फ़ॉल्स स्टार्ट: {falseStarts} · गलत तरफ़: {wrong} · बहुत धीमा: {misses}',
+    'game.reaction.notScored': 'बहुत ज़्यादा फ़ॉल्स स्टार्ट या छूटे प्रयासों के कारण इस दौर का स्कोर नहीं बन सका। फिर से कोशिश करें।',
+
+    'progress.title': 'आपकी प्रगति',
+    'progress.intro': 'पॉइंट कमाने और अपनी सेहत सुधारने के लिए अपने लक्ष्य पूरे करें।',
+    'progress.generate': 'नए लक्ष्य बनाएँ',
+    'progress.generating': 'बनाए जा रहे हैं...',
+    'progress.userNotFound': 'उपयोगकर्ता नहीं मिला।',
+    'progress.fallbackSummary': '{source} लक्ष्य नहीं दे सका: {error}',
+    'progress.formatIssues': 'कुछ सुझाए गए लक्ष्य छोड़ दिए गए क्योंकि वे अपेक्षित प्रारूप में नहीं थे।',
+    'progress.problemsFound': { one: '{count} समस्या मिली', other: '{count} समस्याएँ मिलीं' },
+    'progress.noSuitableGoals': 'कोई उपयुक्त लक्ष्य नहीं बन सका। कृपया बाद में फिर से कोशिश करें।',
+    'progress.saveGoalsFailed': 'नए लक्ष्य सहेजने में त्रुटि: {error}',
+    'progress.fallbackMessage': '{source} उपलब्ध नहीं है, इसलिए ये लक्ष्य आपकी प्रोफ़ाइल और हाल के मापों से आपके डिवाइस पर बनाए गए।',
+    'progress.generated': 'नए लक्ष्य बन गए हैं!',
+    'progress.checkInFailed': 'आपका चेक-इन सहेजने में त्रुटि।',
+    'progress.checkedIn': 'चेक-इन हो गया! आपको {points} पॉइंट मिले।',
+    'progress.saveFailed': 'बदलाव सहेजने में त्रुटि।',
+    'progress.savedWithPoints': 'बदलाव सहेज लिए गए! आपको {points} पॉइंट मिले!',
+    'progress.saved': 'आपकी प्रगति सहेज ली गई है।',
+    'progress.quotaLeftToday': 'आज {limit} में से {count} बार लक्ष्य बनाए जा सकते हैं।',
+    'progress.quotaLeftWeek': 'इस हफ़्ते {limit} में से {count} बार लक्ष्य बनाए जा सकते हैं।',
+    'progress.quotaUsedToday': 'आज के लिए आप सभी बार लक्ष्य बना चुके हैं। आप {next} फिर से नए लक्ष्य बना सकते हैं।',
+    'progress.quotaUsedWeek': 'इस हफ़्ते के लिए आप सभी बार लक्ष्य बना चुके हैं। आप {next} फिर से नए लक्ष्य बना सकते हैं।',
+    'progress.nextTier': 'और पाने के लिए {points} पॉइंट तक पहुँचें।',
+    'progress.safetySummary': 'आपकी स्वास्थ्य प्रोफ़ाइल के आधार पर कुछ लक्ष्य हटाए गए या आसान किए गए।',
+    'progress.safetyRemoved': 'हटाया गया: "{goal}" — {reason}।',
+    'progress.safetyDowngraded': 'आसान किया गया ({difficulty}): "{goal}" — {reason}।',
+    'progress.current': 'मौजूदा लक्ष्य',
+    'progress.history': 'इतिहास',
+    'progress.loading': 'आपके लक्ष्य लोड हो रहे हैं...',
+    'progress.noGoals': 'अभी कोई लक्ष्य नहीं!',
+    'progress.noGoalsHint': 'शुरू करने के लिए "नए लक्ष्य बनाएँ" बटन दबाएँ।',
+    'progress.goals': 'लक्ष्य',
+    'progress.days': { one: '{count} दिन', other: '{count} दिन' },
+    'progress.target': 'लक्ष्य: {metric} {comparator} {value}, {days}',
+    'progress.targetProgress': 'अब तक {required} में से {met}',
+    'progress.verified': 'सत्यापित',
+    'progress.verifiedHint': 'आपके मापों से सत्यापित',
+    'progress.verifiedGoal': '"{goal}" आपके मापों से सत्यापित हुआ।',
+    'progress.verifiedGoals': { one: '{count} लक्ष्य आपके मापों से सत्यापित हुआ।', other: '{count} लक्ष्य आपके मापों से सत्यापित हुए।' },
+    'progress.verifiedPoints': '(+{points} पॉइंट)',
+
+    'habits.title': 'आदतें',
+    'habits.daily': 'रोज़',
+    'habits.weekly': 'हफ़्ते में {count} बार',
+    'habits.startsOn': '{date} से शुरू',
+    'habits.ended': '{date} को खत्म',
+    'habits.weekDone': 'इस हफ़्ते के लिए पूरा ({count}/{target})',
+    'habits.weekProgress': 'इस हफ़्ते {target} में से {count}',
+    'habits.doneToday': 'आज के लिए पूरा',
+    'habits.dueToday': 'आज करना है',
+    'habits.streakDays': { one: 'लगातार: {count} दिन', other: 'लगातार: {count} दिन' },
+    'habits.streakWeeks': { one: 'लगातार: {count} हफ़्ता', other: 'लगातार: {count} हफ़्ते' },
+    'habits.best': 'सबसे अच्छा: {count}',
+    'habits.pointsPerCheckIn': 'हर चेक-इन के पॉइंट',
+    'habits.calendar': 'आदत कैलेंडर',
+    'habits.calendarIntro': { one: 'पिछले हफ़्ते में सभी आदतों के चेक-इन।', other: 'पिछले {count} हफ़्तों में सभी आदतों के चेक-इन।' },
+    'habits.dayCheckIns': { one: '{date}: {count} चेक-इन', other: '{date}: {count} चेक-इन' },
+
+    'history.loading': 'आपके लक्ष्यों का इतिहास लोड हो रहा है...',
+    'history.empty': 'अभी कोई लक्ष्य नहीं। आपके पिछले लक्ष्य यहाँ दिखेंगे।',
+    'history.byCategory': 'श्रेणी के अनुसार',
+    'history.byDifficulty': 'कठिनाई के अनुसार',
+    'history.batches': 'लक्ष्य समूह',
+    'history.overall': 'कुल मिलाकर {rate} पूरे',
+    'history.earlier': 'पिछले लक्ष्य',
+    'history.current': 'मौजूदा',
+    'history.batchSummary': '{total} में से {completed} पूरे ({rate})',
+
+    'localGoal.walkSteps': 'इस हफ़्ते रोज़ कम से कम {target} कदम चलें',
+    'localGoal.walkSteps.why': 'हाल में आप रोज़ औसतन {steps} कदम चले हैं; रोज़ थोड़ी बढ़ोतरी आसानी से बनी रहती है।',
+    'localGoal.activeDays': 'इस हफ़्ते कम से कम 4 दिन {target} कदम पूरे करें',
+    'localGoal.activeDays.why': 'आप रोज़ औसतन {steps} कदम चलते हैं, जो सक्रिय दिन के {target} कदमों के करीब है।',
+    'localGoal.mealWalk': 'हर दिन एक भोजन के बाद 15 मिनट टहलें',
+    'localGoal.mealWalk.why': 'अभी हाल के कदमों का कोई रिकॉर्ड नहीं है; रोज़ थोड़ा टहलना एक सुरक्षित शुरुआत है।',
+    'localGoal.lowIntensityCardio': '5 मिनट वार्म-अप के साथ 20 मिनट हल्का कार्डियो करें, जैसे तैरना या साइकिल चलाना',
+    'localGoal.lowIntensityCardio.why': 'वार्म-अप के साथ स्थिर कार्डियो से फ़िटनेस बढ़ती है और साँस की तकलीफ़ का खतरा कम रहता है।',
+    'localGoal.intervals': 'इस हफ़्ते 30 मिनट के दो इंटरवल ट्रेनिंग सत्र पूरे करें',
+    'localGoal.intervals.why': 'आप पहले से सक्रिय हैं, इसलिए दिल की फ़िटनेस के लिए इंटरवल अगला कदम है।',
+    'localGoal.strength': 'इस हफ़्ते शरीर के वज़न से 20 मिनट के दो शक्ति सत्र जोड़ें',
+    'localGoal.strength.why': 'शक्ति व्यायाम चलने का पूरक है और जोड़ों व मेटाबॉलिज़्म को सहारा देता है।',
+    'localGoal.stretching': 'हर सुबह 10 मिनट हल्की स्ट्रेचिंग करें',
+    'localGoal.stretching.why': 'रोज़ स्ट्रेचिंग से लचीलापन बढ़ता है और शुरुआत करने वालों के लिए यह आसान आदत है।',
+    'localGoal.salt': 'प्रोसेस्ड और पैकेट वाले खाने से बचकर रोज़ 5 ग्राम से कम नमक लें',
+    'localGoal.salt.why': 'हाई ब्लड प्रेशर में नमक कम करना आहार का सबसे असरदार बदलाव है।',
+    'localGoal.wholeGrains': 'एक हफ़्ते तक हर भोजन में मैदे की जगह साबुत अनाज लें',
+    'localGoal.wholeGrains.why': 'साबुत अनाज शुगर धीरे-धीरे छोड़ते हैं, जिससे ब्लड ग्लूकोज़ स्थिर रहता है।',
+    'localGoal.sugaryDrinks': 'इस हफ़्ते हर दिन मीठे पेय की जगह पानी या बिना चीनी की चाय लें',
+    'localGoal.sugaryDrinks.why': 'आपका BMI {bmi} है; मीठे पेय कैलोरी कम करने का आसान ज़रिया हैं।',
+    'localGoal.proteinSnack': 'हर दिन भोजन के बीच प्रोटीन वाला नाश्ता लें, जैसे मेवे, दही या अंडे',
+    'localGoal.proteinSnack.why': 'आपका BMI {bmi} है, जो स्वस्थ सीमा से कम है; ज़्यादा प्रोटीन स्वस्थ वज़न बढ़ाने में मदद करता है।',
+    'localGoal.fruitVeg': 'आज फल और सब्ज़ियों के पाँच हिस्से खाएँ',
+    'localGoal.fruitVeg.why': 'रोज़ पाँच हिस्से संतुलित आहार की सरल शुरुआत है।',
+    'localGoal.slowBreathing': 'दिन में दो बार 10 मिनट धीमी साँस लें (4 सेकंड अंदर, 6 सेकंड बाहर)',
+    'localGoal.slowBreathing.why': 'आपकी हृदय गति औसतन {heartRate} धड़कन/मिनट रही है; धीमी साँस शरीर को आराम देती है।',
+    'localGoal.screenFree': 'हर शाम 10 मिनट बिना स्क्रीन वाली कोई पसंदीदा गतिविधि करें',
+    'localGoal.screenFree.why': 'स्क्रीन से रोज़ का छोटा ब्रेक आराम करने और बेहतर नींद में मदद करता है।',
+    'localGoal.earlierBed': 'कम से कम {hours} घंटे की नींद के लिए 30 मिनट पहले सोएँ',
+    'localGoal.earlierBed.why': 'आपकी औसत नींद {average} घंटे रही है, जो अनुशंसित {hours} घंटे से कम है।',
+    'localGoal.logMetrics': 'इस हफ़्ते हर दिन अपने स्वास्थ्य माप दर्ज करें',
+    'localGoal.logMetrics.why': 'नियमित प्रविष्टियों से आपके रुझान और आगे के लक्ष्य ज़्यादा सटीक बनते हैं।',
+
+    'safety.peanut-allergy': 'इसमें मूंगफली है, जिससे आपको एलर्जी है',
+    'safety.tree-nut-allergy': 'इसमें मेवे हैं, जिनसे आपको एलर्जी है',
+    'safety.dairy-allergy': 'इसमें डेयरी है, जिससे आपको एलर्जी या असहिष्णुता है',
+    'safety.gluten-intolerance': 'इसमें ग्लूटेन वाले खाद्य पदार्थ हैं',
+    'safety.fish-allergy': 'इसमें मछली या समुद्री भोजन है, जिससे आपको एलर्जी है',
+    'safety.egg-allergy': 'इसमें अंडे हैं, जिनसे आपको एलर्जी है',
+    'safety.cardiac-high-intensity': 'दिल की बीमारी में डॉक्टर की अनुमति के बिना तेज़ व्यायाम की सलाह नहीं दी जाती',
+    'safety.cardiac-hard-exercise': 'आपकी दिल की बीमारी के कारण व्यायाम के लक्ष्य हल्के रखे गए हैं',
+    'safety.hypertension-strain': 'ज़ोर लगाने और साँस रोकने वाले व्यायाम से ब्लड प्रेशर अचानक बढ़ सकता है',
+    'safety.hypertension-hard-exercise': 'हाई ब्लड प्रेशर के कारण व्यायाम के लक्ष्य मध्यम रखे गए हैं',
+    'safety.respiratory-high-intensity': 'तेज़ व्यायाम से साँस की तकलीफ़ हो सकती है',
+    'safety.diabetes-fasting': 'मधुमेह में उपवास या भोजन छोड़ने से ब्लड शुगर खतरनाक रूप से ऊपर-नीचे हो सकती है',
+    'safety.pregnancy-intense': 'गर्भावस्था में डॉक्टर की सलाह के बिना इसकी सलाह नहीं दी जाती',
+    'safety.glucose-lowering-fasting': 'शुगर कम करने वाली दवा लेते समय उपवास से ब्लड शुगर बहुत कम हो सकती है',
+    'safety.anticoagulant-vitamin-k': 'विटामिन K की मात्रा में अचानक बदलाव से वारफारिन का असर बदल जाता है',
+    'safety.statin-grapefruit': 'चकोतरा कुछ स्टैटिन दवाओं के साथ प्रतिक्रिया करता है',
+    'safety.beta-blocker-heart-rate': 'बीटा ब्लॉकर हृदय गति बदल देते हैं, इसलिए हृदय गति के लक्ष्य भरोसेमंद नहीं हैं',
+};
@@ -0,0 +1,19 @@
+import { DailyMetrics } from '../types';
+
+export type MetricKey = keyof Omit<DailyMetrics, 'userId' | 'date' | 'flags'>;
+
+export interface MetricField {
+    key: MetricKey;
+    label: string;
+    unit: string;
+}
+
+// The tracked daily metrics, in display order.
+export const METRIC_FIELDS: MetricField[] = [
+    { key: 'heartRate', label: 'Heart Rate', unit: 'bpm' },
+    { key: 'steps', label: 'Steps', unit: 'count' },
+    { key: 'sleepHours', label: 'Sleep', unit: 'hours' },
+    { key: 'breathingRate', label: 'Breathing Rate', unit: 'breaths/min' },
+    { key: 'distanceTravelled', label: 'Distance Travelled', unit: 'km' },
+    { key: 'caloriesBurnt', label: 'Calories Burnt', unit: 'kcal' },
+];
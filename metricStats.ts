@@ -0,0 +1,62 @@
+import { DailyMetrics } from '../types';
+import { MetricKey } from './metricFields';
+import { addDays } from './dateUtils';
+
+export interface MetricPoint {
+    date: string;
+    value: number | null;
+    rollingAverage: number | null;
+}
+
+export interface MetricSummary {
+    count: number;
+    latest: number | null;
+    average: number | null;
+    min: { value: number; date: string } | null;
+    max: { value: number; date: string } | null;
+}
+
+// One point per calendar day from `from` to `to`, with gaps as null so charts show missing days.
+// The rolling average covers the trailing `window` days that have a value.
+export const buildSeries = (entries: DailyMetrics[], key: MetricKey, from: string, to: string, window = 7): MetricPoint[] => {
+    const byDate = new Map<string, number>();
+    entries.forEach(entry => {
+        const value = entry[key];
+        if (typeof value === 'number' && !isNaN(value)) byDate.set(entry.date, value);
+    });
+
+    const points: MetricPoint[] = [];
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+        const trailing: number[] = [];
+        for (let offset = 0; offset < window; offset++) {
+            const value = byDate.get(addDays(date, -offset));
+            if (value !== undefined) trailing.push(value);
+        }
+        points.push({
+            date,
+            value: byDate.get(date) ?? null,
+            rollingAverage: trailing.length > 0 ? trailing.reduce((a, b) => a + b, 0) / trailing.length : null,
+        });
+    }
+    return points;
+};
+
+export const summarize = (points: MetricPoint[]): MetricSummary => {
+    const present = points.filter((p): p is MetricPoint & { value: number } => p.value !== null);
+    if (present.length === 0) {
+        return { count: 0, latest: null, average: null, min: null, max: null };
+    }
+    let min = present[0];
+    let max = present[0];
+    present.forEach(p => {
+        if (p.value < min.value) min = p;
+        if (p.value > max.value) max = p;
+    });
+    return {
+        count: present.length,
+        latest: present[present.length - 1].value,
+        average: present.reduce((sum, p) => sum + p.value, 0) / present.length,
+        min: { value: min.value, date: min.date },
+        max: { value: max.value, date: max.date },
+    };
+};
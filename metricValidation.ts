@@ -0,0 +1,71 @@
+import { DailyMetrics, HealthData, MetricFlag } from '../types';
+import { METRIC_FIELDS, MetricKey } from './metricFields';
+import { DEFAULT_LANGUAGE, LanguageCode, formatNumber, formatUnit, metricLabel, translate } from './i18n';
+
+export interface MetricValidationResult {
+    // Physiologically impossible or mistyped values; the entry must not be saved with these.
+    errors: Partial<Record<MetricKey, string>>;
+    // Plausible but unusual values; the entry may be saved and is stored with these flags.
+    warnings: MetricFlag[];
+}
+
+interface MetricLimits {
+    hard: [number, number];
+    soft: [number, number];
+}
+
+type Profile = Pick<HealthData, 'age' | 'fitnessLevel'> | null;
+
+// Limits are for a single daily reading. Heart rate and breathing rate are resting values.
+const limitsFor = (key: MetricKey, profile: Profile): MetricLimits => {
+    const age = profile?.age ?? 40;
+    const fitness = profile?.fitnessLevel ?? 'Intermediate';
+
+    switch (key) {
+        case 'heartRate':
+            // Trained athletes commonly rest in the 40s; older adults trend slightly higher.
+            return {
+                hard: [25, Math.max(120, 220 - age)],
+                soft: [fitness === 'Advanced' ? 38 : fitness === 'Intermediate' ? 45 : 50, age >= 65 ? 105 : 100],
+            };
+        case 'breathingRate':
+            return { hard: [4, 60], soft: [age >= 65 ? 10 : 12, age >= 65 ? 24 : 20] };
+        case 'sleepHours':
+            return { hard: [0, 24], soft: [4, 12] };
+        case 'steps':
+            return { hard: [0, 100000], soft: [0, fitness === 'Advanced' ? 50000 : 35000] };
+        case 'distanceTravelled':
+            return { hard: [0, 300], soft: [0, fitness === 'Advanced' ? 60 : 40] };
+        case 'caloriesBurnt':
+            return { hard: [0, 15000], soft: [800, age >= 65 ? 4000 : 5000] };
+    }
+};
+
+// Warning messages are stored with the entry, so they stay in the language they were saved in.
+export const validateMetrics = (entry: Partial<DailyMetrics>, profile: Profile, language: LanguageCode = DEFAULT_LANGUAGE): MetricValidationResult => {
+    const result: MetricValidationResult = { errors: {}, warnings: [] };
+
+    METRIC_FIELDS.forEach(({ key, unit }) => {
+        const value = entry[key];
+        if (value === undefined) return;
+        const metric = metricLabel(language, key);
+        if (!Number.isFinite(value)) {
+            result.errors[key] = translate(language, 'metricCheck.notNumber', { metric });
+            return;
+        }
+
+        const { hard, soft } = limitsFor(key, profile);
+        const formatted = formatUnit(language, value, unit);
+        if (value < hard[0] || value > hard[1]) {
+            result.errors[key] = translate(language, 'metricCheck.range', {
+                metric, min: formatNumber(language, hard[0]), max: formatUnit(language, hard[1], unit),
+            });
+        } else if (value < soft[0]) {
+            result.warnings.push({ field: key, value, message: translate(language, 'metricCheck.low', { metric, value: formatted }) });
+        } else if (value > soft[1]) {
+            result.warnings.push({ field: key, value, message: translate(language, 'metricCheck.high', { metric, value: formatted }) });
+        }
+    });
+
+    return result;
+};
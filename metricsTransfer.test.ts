@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { buildEntryImportPreview, decimalSeparatorFor, parseImportNumber } from './metricsTransfer';
+
+describe('parseImportNumber', () => {
+    it('reads plain and decimal-point numbers', () => {
+        expect(parseImportNumber('72', '.')).toBe(72);
+        expect(parseImportNumber('7.5', '.')).toBe(7.5);
+        expect(parseImportNumber('1,234.5', '.')).toBe(1234.5);
+        expect(parseImportNumber(' 12 500 ', '.')).toBe(12500);
+    });
+
+    it('reads decimal-comma numbers', () => {
+        expect(parseImportNumber('72', ',')).toBe(72);
+        expect(parseImportNumber('1,5', ',')).toBe(1.5);
+        expect(parseImportNumber('1.234,5', ',')).toBe(1234.5);
+        expect(parseImportNumber('12.500', ',')).toBe(12500);
+    });
+
+    it('only accepts the grouping separator between groups of three digits', () => {
+        expect(parseImportNumber('7,5', '.')).toBeNaN();
+        expect(parseImportNumber('1,5', '.')).toBeNaN();
+        expect(parseImportNumber('1.5', ',')).toBeNaN();
+        expect(parseImportNumber('12,34,567', '.')).toBeNaN();
+    });
+
+    it('returns NaN for blank or non-numeric values', () => {
+        expect(parseImportNumber('', '.')).toBeNaN();
+        expect(parseImportNumber('  ', ',')).toBeNaN();
+        expect(parseImportNumber('n/a', '.')).toBeNaN();
+    });
+});
+
+describe('decimalSeparatorFor', () => {
+    it("follows the language's number format", () => {
+        expect(decimalSeparatorFor('en')).toBe('.');
+        expect(decimalSeparatorFor('hi')).toBe('.');
+        expect(decimalSeparatorFor('es')).toBe(',');
+    });
+});
+
+describe('buildEntryImportPreview', () => {
+    const options = {
+        existing: new Map([['2026-10-17', { date: '2026-10-17', heartRate: 64, sleepHours: 7.5 }]]),
+        today: '2026-10-19',
+        profile: null,
+    };
+
+    it('keeps the logged metrics an imported day has no value for', () => {
+        const [row] = buildEntryImportPreview([{ date: '2026-10-17', steps: 9000 }], options);
+
+        expect(row.duplicateOf).toBe('existing');
+        expect(row.entry).toEqual({ date: '2026-10-17', heartRate: 64, sleepHours: 7.5, steps: 9000, flags: [] });
+    });
+
+    it('applies the hard limits and rejects future dates', () => {
+        const [impossible, future] = buildEntryImportPreview([
+            { date: '2026-10-18', heartRate: 400 },
+            { date: '2026-10-20', steps: 5000 },
+        ], options);
+
+        expect(impossible.entry).toBeNull();
+        expect(impossible.errors).toHaveLength(1);
+        expect(future.entry).toBeNull();
+        expect(future.errors).toEqual(['2026-10-20 is in the future.']);
+    });
+});
@@ -0,0 +1,285 @@
+import { DailyMetrics, HealthData, MetricFlag } from '../types';
+import { METRIC_FIELDS, MetricKey } from './metricFields';
+import { validateMetrics } from './metricValidation';
+import { DEFAULT_LANGUAGE, LanguageCode, getLanguage, metricLabel, translate } from './i18n';
+
+// --- Export ---
+
+const escapeCsv = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const metricsToCsv = (entries: DailyMetrics[]): string => {
+    const header = ['date', ...METRIC_FIELDS.map(f => f.key), 'flags'];
+    const lines = entries.map(entry => [
+        entry.date,
+        ...METRIC_FIELDS.map(f => entry[f.key] != null ? String(entry[f.key]) : ''),
+        (entry.flags ?? []).map(flag => flag.message).join('; '),
+    ].map(escapeCsv).join(','));
+    return [header.join(','), ...lines].join('\n');
+};
+
+export const metricsToJson = (entries: DailyMetrics[]): string =>
+    JSON.stringify(entries.map(({ userId, ...entry }) => entry), null, 2);
+
+// --- Import: parsing ---
+
+export type ImportRecord = Record<string, string>;
+
+export interface ParsedImportFile {
+    format: 'csv' | 'json';
+    columns: string[];
+    records: ImportRecord[];
+}
+
+// RFC 4180 CSV: quoted fields may contain the delimiter, newlines and doubled quotes.
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const parseImportFile = (fileName: string, text: string): ParsedImportFile => {
+    const content = text.replace(/^\uFEFF/, '');
+    if (fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(content)) {
+        const data = JSON.parse(content);
+        const list: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.entries) ? data.entries : [];
+        const records = list
+            .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+            .map(item => Object.fromEntries(
+                Object.entries(item)
+                    .filter(([, value]) => value === null || ['string', 'number'].includes(typeof value))
+                    .map(([key, value]) => [key, value === null ? '' : String(value)])
+            ));
+        const columns = Array.from(new Set(records.flatMap(r => Object.keys(r))));
+        return { format: 'json', columns, records };
+    }
+
+    // Spreadsheets in locales with a decimal comma separate columns with semicolons.
+    const firstLine = content.slice(0, content.search(/[\r\n]|$/));
+    const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+    const [header, ...rows] = parseCsv(content, delimiter);
+    if (!header) return { format: 'csv', columns: [], records: [] };
+    const columns = header.map(h => h.trim());
+    const records = rows.map(cells => Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? '').trim()])));
+    return { format: 'csv', columns, records };
+};
+
+// --- Import: column mapping and units ---
+
+export type ImportTarget = 'date' | MetricKey;
+export type ColumnMapping = Partial<Record<ImportTarget, string>>;
+
+export type DateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+export const DATE_FORMATS: DateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+export type DecimalSeparator = '.' | ',';
+export const DECIMAL_SEPARATORS: DecimalSeparator[] = ['.', ','];
+
+// The decimal separator numbers are written with in the language's locale, e.g. ',' for Spanish.
+export const decimalSeparatorFor = (language: LanguageCode): DecimalSeparator =>
+    new Intl.NumberFormat(getLanguage(language).locale).formatToParts(1.5).find(part => part.type === 'decimal')?.value === ',' ? ',' : '.';
+
+// Reads "1,234.5" or, with a decimal comma, "1.234,5". The other separator is only accepted between
+// groups of three digits, so "7,5" is never read as 75. NaN when the value isn't a number.
+export const parseImportNumber = (value: string, decimalSeparator: DecimalSeparator): number => {
+    const group = decimalSeparator === '.' ? ',' : '.';
+    const compact = value.replace(/\s/g, '');
+    if (compact === '') return NaN;
+    const grouped = new RegExp(`^[-+]?\\d{1,3}(\\${group}\\d{3})+(\\${decimalSeparator}\\d*)?$`);
+    if (compact.includes(group) && !grouped.test(compact)) return NaN;
+    return Number(compact.split(group).join('').replace(decimalSeparator, '.'));
+};
+
+export interface UnitOption {
+    label: string;
+    // Multiplier that converts a value in this unit into the unit stored in DailyMetrics.
+    factor: number;
+}
+
+export const UNIT_OPTIONS: Partial<Record<MetricKey, UnitOption[]>> = {
+    sleepHours: [{ label: 'hours', factor: 1 }, { label: 'minutes', factor: 1 / 60 }],
+    distanceTravelled: [{ label: 'km', factor: 1 }, { label: 'miles', factor: 1.609344 }, { label: 'metres', factor: 0.001 }],
+    caloriesBurnt: [{ label: 'kcal', factor: 1 }, { label: 'kJ', factor: 1 / 4.184 }],
+};
+
+export type UnitSelection = Partial<Record<MetricKey, string>>;
+
+const COLUMN_ALIASES: Record<ImportTarget, string[]> = {
+    date: ['date', 'day', 'start date', 'startdate'],
+    heartRate: ['heartrate', 'heart rate', 'resting heart rate', 'hr', 'bpm', 'pulse'],
+    steps: ['steps', 'step count', 'stepcount'],
+    sleepHours: ['sleephours', 'sleep', 'sleep hours', 'sleep duration', 'hours asleep'],
+    breathingRate: ['breathingrate', 'breathing rate', 'respiratory rate', 'respiration'],
+    distanceTravelled: ['distancetravelled', 'distance', 'distance km', 'distance (km)'],
+    caloriesBurnt: ['caloriesburnt', 'calories', 'calories burned', 'active calories', 'energy'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const guessColumnMapping = (columns: string[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    (Object.keys(COLUMN_ALIASES) as ImportTarget[]).forEach(target => {
+        const aliases = COLUMN_ALIASES[target];
+        const match = columns.find(c => aliases.includes(normalizeHeader(c)));
+        if (match) mapping[target] = match;
+    });
+    return mapping;
+};
+
+// Returns a 'YYYY-MM-DD' key, or null if the value does not match the format or is not a real date.
+export const parseImportDate = (value: string, format: DateFormat): string | null => {
+    const trimmed = value.trim();
+    let year: number, month: number, day: number;
+    if (format === 'YYYY-MM-DD') {
+        const match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+        if (!match) return null;
+        [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    } else {
+        const match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+        if (!match) return null;
+        const [first, second] = [Number(match[1]), Number(match[2])];
+        [month, day] = format === 'MM/DD/YYYY' ? [first, second] : [second, first];
+        year = Number(match[3]);
+    }
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// --- Import: preview ---
+
+export interface ImportPreviewRow {
+    rowNumber: number; // 1-based, counting data rows only
+    entry: Omit<DailyMetrics, 'userId'> | null;
+    errors: string[];
+    warnings: MetricFlag[];
+    duplicateOf: 'existing' | 'file' | null;
+}
+
+// What every import is checked against, whatever the file format.
+export interface ImportCheckOptions {
+    // Entries already logged, by date. Replacing one keeps the metrics the import has no value for.
+    existing: ReadonlyMap<string, Omit<DailyMetrics, 'userId'>>;
+    today: string;
+    profile: Pick<HealthData, 'age' | 'fitnessLevel'> | null;
+    language?: LanguageCode; // for row errors and warnings
+}
+
+export interface ImportOptions extends ImportCheckOptions {
+    mapping: ColumnMapping;
+    units: UnitSelection;
+    dateFormat: DateFormat;
+    decimalSeparator: DecimalSeparator;
+}
+
+// Marks dates already seen in the file or logged, fills a logged day's other metrics into the entry,
+// then applies the hard limits and flags from validateMetrics. Sets `row.entry` if nothing failed.
+const checkImportRow = (row: ImportPreviewRow, entry: Omit<DailyMetrics, 'userId'>, seenDates: Set<string>, options: ImportCheckOptions) => {
+    const language = options.language ?? DEFAULT_LANGUAGE;
+    const saved = entry.date && !seenDates.has(entry.date) ? options.existing.get(entry.date) : undefined;
+    if (entry.date) {
+        if (seenDates.has(entry.date)) row.duplicateOf = 'file';
+        else if (saved) row.duplicateOf = 'existing';
+        seenDates.add(entry.date);
+    }
+
+    let merged = entry;
+    if (saved) {
+        const { flags, ...values } = saved;
+        merged = { ...values, ...entry };
+    }
+    const { errors, warnings } = validateMetrics(merged, options.profile, language);
+    row.errors.push(...Object.values(errors).filter((e): e is string => !!e));
+    row.warnings = warnings;
+
+    if (row.errors.length === 0) {
+        row.entry = { ...merged, flags: warnings };
+    }
+};
+
+export const buildImportPreview = (records: ImportRecord[], options: ImportOptions): ImportPreviewRow[] => {
+    const seenDates = new Set<string>();
+    const language = options.language ?? DEFAULT_LANGUAGE;
+
+    return records.map((record, index) => {
+        const row: ImportPreviewRow = { rowNumber: index + 1, entry: null, errors: [], warnings: [], duplicateOf: null };
+
+        const rawDate = options.mapping.date ? record[options.mapping.date] ?? '' : '';
+        const date = parseImportDate(rawDate, options.dateFormat);
+        if (!date) {
+            row.errors.push(rawDate
+                ? translate(language, 'transfer.invalidDate', { value: rawDate, format: options.dateFormat })
+                : translate(language, 'transfer.missingDate'));
+        } else if (date > options.today) {
+            row.errors.push(translate(language, 'transfer.futureDate', { date }));
+        }
+
+        const entry: Omit<DailyMetrics, 'userId'> = { date: date ?? '' };
+        METRIC_FIELDS.forEach(({ key }) => {
+            const column = options.mapping[key];
+            const raw = column ? (record[column] ?? '').trim() : '';
+            if (raw === '') return;
+            const value = parseImportNumber(raw, options.decimalSeparator);
+            if (!Number.isFinite(value)) {
+                row.errors.push(translate(language, 'transfer.notNumber', { metric: metricLabel(language, key), value: raw }));
+                return;
+            }
+            const factor = UNIT_OPTIONS[key]?.find(u => u.label === options.units[key])?.factor ?? 1;
+            entry[key] = Math.round(value * factor * 100) / 100;
+        });
+
+        if (METRIC_FIELDS.every(({ key }) => entry[key] === undefined) && row.errors.length === 0) {
+            row.errors.push(translate(language, 'transfer.noValues'));
+        }
+
+        checkImportRow(row, entry, seenDates, options);
+        return row;
+    });
+};
+
+// The same checks for entries that are already typed, such as the Observations in a FHIR Bundle.
+export const buildEntryImportPreview = (entries: Omit<DailyMetrics, 'userId'>[], options: ImportCheckOptions): ImportPreviewRow[] => {
+    const seenDates = new Set<string>();
+    const language = options.language ?? DEFAULT_LANGUAGE;
+
+    return entries.map((entry, index) => {
+        const row: ImportPreviewRow = { rowNumber: index + 1, entry: null, errors: [], warnings: [], duplicateOf: null };
+        if (entry.date > options.today) {
+            row.errors.push(translate(language, 'transfer.futureDate', { date: entry.date }));
+        }
+        checkImportRow(row, entry, seenDates, options);
+        return row;
+    });
+};
@@ -0,0 +1,24 @@
+import { GoalProvider, GoalProviderResult } from './goalProvider';
+import { parseGoalResponse } from './goalContract';
+import { DEFAULT_LANGUAGE, LanguageCode } from './i18n';
+
+const N8N_GOAL_WEBHOOK_URL = 'https://shreyopb.app.n8n.cloud/webhook/cb52693f-9da6-4d2c-99e4-8549f15bac40/';
+
+// Fetches goals from the n8n workflow. The workflow may answer in the versioned JSON format or in
+// the older "goal;category;difficulty" lines; see goalContract.ts. `language` asks the workflow to
+// write its goals in that language.
+export const fetchHealthGoalsFromN8n = async (userId: string, language: LanguageCode = DEFAULT_LANGUAGE): Promise<GoalProviderResult> => {
+    const response = await fetch(`${N8N_GOAL_WEBHOOK_URL}${userId}?language=${language}`);
+    if (!response.ok) {
+        return { goals: [], issues: [], error: `n8n workflow failed with status: ${response.status}` };
+    }
+    return parseGoalResponse(await response.text());
+};
+
+export const n8nGoalProvider: GoalProvider = {
+    id: 'n8n',
+    label: 'Goal service',
+    description: 'Goals from the Proactive Health Monitor workflow, based on the profile stored with your account.',
+    isAvailable: () => true,
+    generate: ({ userId, language }) => fetchHealthGoalsFromN8n(userId, language),
+};
@@ -0,0 +1,11 @@
+// Development-only escape hatch. It is empty unless OTP_DEV_BYPASS_CODE is set in .env.local,
+// and vite.config.ts only injects it for `vite` dev builds, so production bundles never accept it.
+// Only the local backend checks it; Supabase sessions are verified by the database, which a
+// browser setting can't skip.
+const DEV_BYPASS_CODE = process.env.OTP_DEV_BYPASS_CODE || '';
+
+export const isOtpDevBypass = (email: string, code: string) => {
+    if (!DEV_BYPASS_CODE || code.trim() !== DEV_BYPASS_CODE) return false;
+    console.warn(`(DEV) OTP bypass used for ${email}`);
+    return true;
+};
@@ -0,0 +1,28 @@
+import { Recommendation } from '../types';
+import { addDays } from './dateUtils';
+
+// Metrics points are keyed by the entry's date in the points ledger, so each day can earn at most
+// once no matter how often it is edited.
+export const METRICS_SAME_DAY_POINTS = 25;
+export const METRICS_BACKFILL_POINTS = 10;
+export const METRICS_BACKFILL_WINDOW_DAYS = 7;
+
+// Points for the first save of the entry dated `date`, made on `today`.
+export const metricsEntryPoints = (date: string, today: string): number => {
+    if (date === today) return METRICS_SAME_DAY_POINTS;
+    if (date < today && date >= addDays(today, -METRICS_BACKFILL_WINDOW_DAYS)) return METRICS_BACKFILL_POINTS;
+    return 0;
+};
+
+// Points for completing a one-off goal, or for each check-in of a habit goal.
+export const GOAL_DIFFICULTY_POINTS: Record<Recommendation['difficulty'], number> = {
+    Easy: 2,
+    Medium: 5,
+    Hard: 8,
+};
+
+// Extra points when logged metrics, rather than a checkbox, show a goal's target was met.
+export const VERIFIED_GOAL_BONUS_POINTS = 5;
+
+// Points for each completed game session, whatever the score.
+export const GAME_SESSION_POINTS = 10;
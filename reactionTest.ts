@@ -0,0 +1,95 @@
+// Simple and choice reaction-time tests. The component measures the times; this module picks delays
+// and stimuli, classifies each response and summarizes a run.
+
+export type ReactionMode = 'simple' | 'choice';
+
+// One stimulus in a reaction-time test. Times are in milliseconds, measured with performance.now().
+export interface ReactionTrial {
+    delayMs: number; // randomized wait before the stimulus appeared
+    stimulus?: 'left' | 'right'; // choice tests only
+    response?: 'left' | 'right';
+    reactionMs: number | null; // null for false starts and misses
+    outcome: 'hit' | 'wrong' | 'false-start' | 'miss';
+}
+
+export type ReactionSide = NonNullable<ReactionTrial['stimulus']>;
+
+export const REACTION_TEST = {
+    trials: 10,
+    // The wait before each stimulus is drawn uniformly from this range so it can't be anticipated.
+    minDelayMs: 1500,
+    maxDelayMs: 4000,
+    // Responses faster than this are anticipations, not reactions, and count as false starts.
+    anticipationMs: 100,
+    // No response within this long after the stimulus is a miss.
+    timeoutMs: 1500,
+    // Runs with fewer hits than this are not scored.
+    minValidTrials: 6,
+};
+
+export const randomDelay = (random: () => number = Math.random) =>
+    Math.round(REACTION_TEST.minDelayMs + random() * (REACTION_TEST.maxDelayMs - REACTION_TEST.minDelayMs));
+
+export const randomSide = (random: () => number = Math.random): ReactionSide => (random() < 0.5 ? 'left' : 'right');
+
+// `reactionMs` is the time from stimulus to response, or null when the user pressed before the
+// stimulus or never responded (`pressedEarly` tells which).
+export const classifyResponse = (
+    delayMs: number,
+    stimulus: ReactionSide | undefined,
+    response: ReactionSide | undefined,
+    reactionMs: number | null,
+    pressedEarly = false,
+): ReactionTrial => {
+    const trial: ReactionTrial = { delayMs, stimulus, response, reactionMs: null, outcome: 'miss' };
+    if (pressedEarly || (reactionMs !== null && reactionMs < REACTION_TEST.anticipationMs)) {
+        return { ...trial, outcome: 'false-start' };
+    }
+    if (reactionMs === null || reactionMs > REACTION_TEST.timeoutMs) {
+        return trial;
+    }
+    const rounded = Math.round(reactionMs * 10) / 10;
+    return { ...trial, reactionMs: rounded, outcome: stimulus && response !== stimulus ? 'wrong' : 'hit' };
+};
+
+export interface ReactionSummary {
+    medianMs: number | null;
+    sdMs: number | null; // sample standard deviation of hit times: trial-to-trial variability
+    hits: number;
+    wrong: number;
+    falseStarts: number;
+    misses: number;
+    scored: boolean; // enough hits for the median to mean something
+}
+
+// Saved as the session's details. The median is the session's score.
+export interface ReactionDetails {
+    trials: ReactionTrial[];
+    sdMs: number | null;
+    hits: number;
+    wrong: number;
+    falseStarts: number;
+    misses: number;
+}
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Only hits count towards timing; wrong-side responses are fast guesses as often as not.
+export const summarizeTrials = (trials: ReactionTrial[]): ReactionSummary => {
+    const times = trials.filter(t => t.outcome === 'hit' && t.reactionMs !== null).map(t => t.reactionMs!);
+    const count = (outcome: ReactionTrial['outcome']) => trials.filter(t => t.outcome === outcome).length;
+    const mean = times.reduce((sum, t) => sum + t, 0) / (times.length || 1);
+    return {
+        medianMs: times.length > 0 ? Math.round(median(times)) : null,
+        sdMs: times.length > 1 ? Math.round(Math.sqrt(times.reduce((sum, t) => sum + (t - mean) ** 2, 0) / (times.length - 1))) : null,
+        hits: times.length,
+        wrong: count('wrong'),
+        falseStarts: count('false-start'),
+        misses: count('miss'),
+        scored: times.length >= REACTION_TEST.minValidTrials,
+    };
+};
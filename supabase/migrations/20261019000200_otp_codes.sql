@@ -0,0 +1,196 @@
+-- One-time sign-in codes for the OTP step (supabaseService.ts `otp`). Codes are generated and
+-- hashed here, never in the browser. Clients can't read either table; they only call the two
+-- functions below. The policy matches localDataService.ts: 6 digits, valid for 5 minutes, one
+-- request a minute and 5 an hour per email, and a 15-minute lockout after 5 wrong codes.
+--
+-- Supabase considers a session signed in as soon as the password is checked, so the OTP step is
+-- also enforced here: a valid code marks the session verified, and a restrictive policy on every
+-- table the app uses lets only verified sessions through.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.otp_codes (
+    email text primary key,
+    code_hash text, -- bcrypt; null once the code is used, expired or locked
+    expires_at timestamptz,
+    failed_attempts integer not null default 0,
+    locked_until timestamptz,
+    request_times timestamptz[] not null default '{}'
+);
+
+alter table public.otp_codes enable row level security;
+
+-- Codes waiting to be emailed. A database webhook or Edge Function on insert sends the email
+-- and deletes the row.
+create table if not exists public.otp_email_outbox (
+    id bigint generated always as identity primary key,
+    email text not null,
+    code text not null,
+    created_at timestamptz not null default now()
+);
+
+alter table public.otp_email_outbox enable row level security;
+
+-- Sessions that passed the OTP step. Rows go when the session ends (sign-out or expiry).
+create table if not exists public.otp_verified_sessions (
+    session_id uuid primary key references auth.sessions (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    verified_at timestamptz not null default now()
+);
+
+alter table public.otp_verified_sessions enable row level security;
+
+-- Whether the session making the request passed the OTP step. Security definer functions that
+-- write user data must check it themselves, since they bypass row-level security.
+create or replace function public.otp_verified()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1 from public.otp_verified_sessions
+        where session_id = nullif(auth.jwt() ->> 'session_id', '')::uuid and user_id = auth.uid()
+    );
+$$;
+
+create or replace function public.request_otp(p_email text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+    v_email text := lower(trim(p_email));
+    v_now timestamptz := now();
+    v_record public.otp_codes%rowtype;
+    v_recent timestamptz[];
+    v_code text;
+begin
+    -- Called right after the password check, so codes can only be sent to the signed-in account.
+    if v_email is distinct from lower(auth.jwt() ->> 'email') then
+        return jsonb_build_object('sent', false, 'error', 'Codes can only be requested for your own account.');
+    end if;
+
+    select * into v_record from public.otp_codes where email = v_email for update;
+
+    if v_record.locked_until > v_now then
+        return jsonb_build_object('sent', false, 'error', 'Too many failed attempts. Try again later.',
+            'resend_available_at', v_record.locked_until);
+    end if;
+
+    select coalesce(array_agg(t order by t), '{}') into v_recent
+    from unnest(coalesce(v_record.request_times, '{}')) as t
+    where t > v_now - interval '1 hour';
+
+    if cardinality(v_recent) > 0 and v_recent[cardinality(v_recent)] > v_now - interval '1 minute' then
+        return jsonb_build_object('sent', false, 'error', 'Please wait before requesting another code.',
+            'resend_available_at', v_recent[cardinality(v_recent)] + interval '1 minute');
+    end if;
+    if cardinality(v_recent) >= 5 then
+        return jsonb_build_object('sent', false, 'error', 'Too many codes requested. Try again later.',
+            'resend_available_at', v_recent[1] + interval '1 hour');
+    end if;
+
+    v_code := lpad((('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::bigint % 1000000)::text, 6, '0');
+
+    insert into public.otp_codes (email, code_hash, expires_at, failed_attempts, locked_until, request_times)
+    values (v_email, crypt(v_code, gen_salt('bf')), v_now + interval '5 minutes', 0, null, v_recent || v_now)
+    on conflict (email) do update set
+        code_hash = excluded.code_hash,
+        expires_at = excluded.expires_at,
+        failed_attempts = 0,
+        locked_until = null,
+        request_times = excluded.request_times;
+
+    insert into public.otp_email_outbox (email, code) values (v_email, v_code);
+
+    return jsonb_build_object('sent', true, 'expires_at', v_now + interval '5 minutes',
+        'resend_available_at', v_now + interval '1 minute');
+end;
+$$;
+
+create or replace function public.verify_otp(p_email text, p_code text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+    v_email text := lower(trim(p_email));
+    v_now timestamptz := now();
+    v_record public.otp_codes%rowtype;
+    v_remaining integer;
+    v_locked_until timestamptz;
+begin
+    if v_email is distinct from lower(auth.jwt() ->> 'email') then
+        return jsonb_build_object('valid', false, 'error', 'Codes can only be checked for your own account.');
+    end if;
+    if nullif(auth.jwt() ->> 'session_id', '') is null then
+        return jsonb_build_object('valid', false, 'error', 'Your session has expired. Please sign in again.');
+    end if;
+
+    select * into v_record from public.otp_codes where email = v_email for update;
+
+    if v_record.locked_until > v_now then
+        return jsonb_build_object('valid', false, 'attempts_remaining', 0, 'locked_until', v_record.locked_until,
+            'error', 'Too many failed attempts. Try again later.');
+    end if;
+    if v_record.code_hash is null then
+        return jsonb_build_object('valid', false, 'error', 'No active code. Please request a new one.');
+    end if;
+    if v_record.expires_at <= v_now then
+        update public.otp_codes set code_hash = null where email = v_email;
+        return jsonb_build_object('valid', false, 'error', 'This code has expired. Please request a new one.');
+    end if;
+
+    if crypt(trim(p_code), v_record.code_hash) = v_record.code_hash then
+        update public.otp_codes set code_hash = null, failed_attempts = 0 where email = v_email;
+        insert into public.otp_verified_sessions (session_id, user_id)
+        values ((auth.jwt() ->> 'session_id')::uuid, auth.uid())
+        on conflict (session_id) do nothing;
+        return jsonb_build_object('valid', true);
+    end if;
+
+    v_remaining := greatest(0, 5 - (v_record.failed_attempts + 1));
+    if v_remaining = 0 then
+        v_locked_until := v_now + interval '15 minutes';
+    end if;
+    update public.otp_codes set
+        failed_attempts = failed_attempts + 1,
+        code_hash = case when v_remaining = 0 then null else code_hash end,
+        locked_until = coalesce(v_locked_until, locked_until)
+    where email = v_email;
+
+    return jsonb_strip_nulls(jsonb_build_object(
+        'valid', false,
+        'attempts_remaining', v_remaining,
+        'locked_until', v_locked_until,
+        'error', case when v_remaining = 0 then 'Too many failed attempts. Try again later.' else 'Invalid code.' end));
+end;
+$$;
+
+revoke all on function public.request_otp(text) from public, anon;
+revoke all on function public.verify_otp(text, text) from public, anon;
+grant execute on function public.request_otp(text) to authenticated;
+grant execute on function public.verify_otp(text, text) to authenticated;
+revoke all on function public.otp_verified() from public, anon;
+grant execute on function public.otp_verified() to authenticated;
+
+-- The original tables. They already have row-level security with per-user policies; a restrictive
+-- policy narrows those to verified sessions. Migrations that add a table add the same policy.
+create policy "Requires a verified sign-in" on public.users
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
+create policy "Requires a verified sign-in" on public.user_health_profiles
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
+create policy "Requires a verified sign-in" on public.user_points
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
+create policy "Requires a verified sign-in" on public.daily_metrics
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
+create policy "Requires a verified sign-in" on public.game_sessions
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
+create policy "Requires a verified sign-in" on public.recommendations
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
+create policy "Requires a verified sign-in" on public.recommendation_status
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
@@ -0,0 +1,31 @@
+-- The append-only points ledger (supabaseService.ts `points`). A user's balance is the sum of
+-- their rows. Awards are idempotent through the unique (user_id, source, reference_id)
+-- constraint. Clients can't write to the ledger; award_points (next migration) adds each award.
+
+create table if not exists public.points_transactions (
+    id bigint generated always as identity primary key,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    source text not null check (source in ('game', 'metrics', 'goal', 'opening')),
+    amount integer not null,
+    reference_id text not null,
+    created_at timestamptz not null default now(),
+    constraint points_transactions_award_once unique (user_id, source, reference_id)
+);
+
+alter table public.points_transactions enable row level security;
+
+create policy "Users read their own points" on public.points_transactions
+    for select using (auth.uid() = user_id);
+
+-- There are no insert, update or delete policies.
+create policy "Requires a verified sign-in" on public.points_transactions
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
+
+-- Balances used to be a single total in `user_points`. Carry each one over as an opening entry so
+-- nobody loses points; the unique constraint makes this safe to run again. `user_points` is no
+-- longer read and can be dropped once this has run.
+insert into public.points_transactions (user_id, source, amount, reference_id)
+select user_id, 'opening', points, 'user_points'
+from public.user_points
+where coalesce(points, 0) <> 0
+on conflict (user_id, source, reference_id) do nothing;
@@ -0,0 +1,122 @@
+-- Points are only earned through award_points (supabaseService.ts `points.award`). The client
+-- names what earned the points and the function works out the amount from the user's own rows,
+-- using the rules in pointsRules.ts, so nobody can add points by inserting into the ledger.
+-- The function body is resolved when it is called, so it may read the goal and game columns
+-- added by later migrations.
+
+-- GOAL_DIFFICULTY_POINTS.
+create or replace function public.goal_difficulty_points(p_difficulty text)
+returns integer
+language sql
+immutable
+as $$
+    select case p_difficulty when 'Easy' then 2 when 'Medium' then 5 when 'Hard' then 8 else 0 end;
+$$;
+
+-- p_utc_offset_minutes is the device's offset from UTC, used to decide which day is "today" for
+-- metrics entries. Returns { awarded, amount, balance }; amount is 0 when nothing was earned.
+create or replace function public.award_points(p_source text, p_reference_id text, p_utc_offset_minutes integer default 0)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+    v_today date := (now() + make_interval(mins => greatest(-840, least(840, coalesce(p_utc_offset_minutes, 0)))))::date;
+    v_amount integer := 0;
+    v_parts text[] := string_to_array(p_reference_id, ':');
+    v_date date;
+    v_rec public.recommendations%rowtype;
+    v_rows integer;
+begin
+    if v_user is null then
+        raise exception 'Not signed in.' using errcode = '42501';
+    end if;
+    if not public.otp_verified() then
+        raise exception 'Enter your sign-in code to earn points.' using errcode = '42501';
+    end if;
+
+    if p_source = 'game' and p_reference_id ~ '^\d+$' then
+        -- Completed game sessions: GAME_SESSION_POINTS.
+        if exists (
+            select 1 from public.game_sessions
+            where id = p_reference_id::bigint and user_id = v_user and coalesce(status, 'completed') = 'completed'
+        ) then
+            v_amount := 10;
+        end if;
+    elsif p_source = 'metrics' and p_reference_id ~ '^\d{4}-\d{2}-\d{2}$' then
+        -- A saved metrics entry: metricsEntryPoints.
+        v_date := p_reference_id::date;
+        if exists (select 1 from public.daily_metrics where user_id = v_user and date = v_date) then
+            v_amount := case
+                when v_date = v_today then 25
+                when v_date < v_today and v_date >= v_today - 7 then 10
+                else 0
+            end;
+        end if;
+    elsif p_source = 'goal' and v_parts[1] ~ '^\d+$' then
+        select * into v_rec from public.recommendations where id = v_parts[1]::bigint and user_id = v_user;
+        if found then
+            if array_length(v_parts, 1) = 1 then
+                -- A one-off goal ticked off or verified: GOAL_DIFFICULTY_POINTS.
+                if v_rec.recurrence is null and exists (
+                    select 1 from public.recommendation_status
+                    where recommendation_id = v_rec.id and user_id = v_user and is_completed
+                ) then
+                    v_amount := public.goal_difficulty_points(v_rec.difficulty);
+                end if;
+            elsif array_length(v_parts, 1) = 2 and v_parts[2] = 'verified' then
+                -- Logged metrics met the goal's target: VERIFIED_GOAL_BONUS_POINTS.
+                if exists (
+                    select 1 from public.recommendation_status
+                    where recommendation_id = v_rec.id and user_id = v_user and verified_at is not null
+                ) then
+                    v_amount := 5;
+                end if;
+            elsif array_length(v_parts, 1) = 2 and v_parts[2] ~ '^\d{4}-\d{2}-\d{2}$' then
+                -- A daily habit check-in (checkInPointsReference).
+                v_date := v_parts[2]::date;
+                if v_rec.recurrence ->> 'type' = 'daily'
+                    and v_date between coalesce(v_rec.start_date, v_date) and coalesce(v_rec.due_date, v_date)
+                    and exists (select 1 from public.goal_check_ins where recommendation_id = v_rec.id and date = v_date)
+                then
+                    v_amount := public.goal_difficulty_points(v_rec.difficulty);
+                end if;
+            elsif array_length(v_parts, 1) = 3 and v_parts[2] ~ '^\d{4}-\d{2}-\d{2}$' and v_parts[3] ~ '^\d+$' then
+                -- The nth check-in of a weekly habit in the Monday-to-Sunday week starting v_date.
+                v_date := v_parts[2]::date;
+                if v_rec.recurrence ->> 'type' = 'weekly'
+                    and extract(isodow from v_date) = 1
+                    and v_parts[3]::integer between 1 and (v_rec.recurrence ->> 'timesPerWeek')::integer
+                then
+                    select count(*) into v_rows from public.goal_check_ins
+                    where recommendation_id = v_rec.id
+                        and date >= v_date and date < v_date + 7
+                        and date between coalesce(v_rec.start_date, date) and coalesce(v_rec.due_date, date);
+                    if v_rows >= v_parts[3]::integer then
+                        v_amount := public.goal_difficulty_points(v_rec.difficulty);
+                    end if;
+                end if;
+            end if;
+        end if;
+    end if;
+
+    v_rows := 0;
+    if v_amount > 0 then
+        insert into public.points_transactions (user_id, source, amount, reference_id)
+        values (v_user, p_source, v_amount, p_reference_id)
+        on conflict (user_id, source, reference_id) do nothing;
+        get diagnostics v_rows = row_count;
+    end if;
+
+    return jsonb_build_object(
+        'awarded', v_rows > 0,
+        'amount', case when v_rows > 0 then v_amount else 0 end,
+        'balance', (select coalesce(sum(amount), 0) from public.points_transactions where user_id = v_user)
+    );
+end;
+$$;
+
+revoke all on function public.award_points(text, text, integer) from public, anon;
+grant execute on function public.award_points(text, text, integer) to authenticated;
@@ -0,0 +1,18 @@
+-- Daily metrics are keyed by the user's local calendar date (supabaseService.ts `metrics`), with
+-- at most one entry per user per date. Entries are upserted with onConflict 'user_id,date', which
+-- needs the unique index below.
+
+alter table public.daily_metrics add column if not exists date date;
+alter table public.daily_metrics add column if not exists updated_at timestamptz not null default now();
+
+-- Older rows only have their UTC creation time, which is the best guess at their date.
+update public.daily_metrics set date = (created_at at time zone 'utc')::date where date is null;
+
+-- Keep the newest entry where a day was logged more than once.
+delete from public.daily_metrics older
+using public.daily_metrics newer
+where newer.user_id = older.user_id and newer.date = older.date and newer.id > older.id;
+
+alter table public.daily_metrics alter column date set not null;
+
+create unique index if not exists daily_metrics_user_id_date_key on public.daily_metrics (user_id, date);
@@ -0,0 +1,24 @@
+-- Weight over time (supabaseService.ts `user.getWeightHistory`). Saving a health profile with a new
+-- weight upserts today's row, so there is at most one row per user per date.
+
+create table if not exists public.weight_history (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    date date not null,
+    weight numeric not null check (weight > 0),
+    primary key (user_id, date)
+);
+
+alter table public.weight_history enable row level security;
+
+create policy "Users manage their own weight history" on public.weight_history
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Requires a verified sign-in" on public.weight_history
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
+
+-- Start each existing user's history with the weight in their profile.
+insert into public.weight_history (user_id, date, weight)
+select user_id, current_date, weight
+from public.user_health_profiles
+where weight > 0
+on conflict (user_id, date) do nothing;
@@ -0,0 +1,4 @@
+-- Readings that passed validation but looked unusual when saved (types.ts `MetricFlag`), stored
+-- with the entry as [{ field, value, message }].
+
+alter table public.daily_metrics add column if not exists flags jsonb not null default '[]';
@@ -0,0 +1,6 @@
+-- The goal provider that wrote each goal (`GoalSource` in types.ts). Goals created before
+-- sources were recorded keep a null source.
+
+alter table public.recommendations
+    add column if not exists source text
+        constraint recommendations_source_check check (source in ('n8n', 'gemini', 'local'));
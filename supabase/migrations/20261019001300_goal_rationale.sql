@@ -0,0 +1,7 @@
+-- Why each goal was suggested and how many days it should run (goalContract.ts). Goals from
+-- providers that don't send these, and goals created before they were recorded, keep nulls.
+
+alter table public.recommendations
+    add column if not exists rationale text,
+    add column if not exists duration_days integer
+        constraint recommendations_duration_days_check check (duration_days between 1 and 90);
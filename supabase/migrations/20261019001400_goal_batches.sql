@@ -0,0 +1,29 @@
+-- Goal batches (supabaseService.ts `recommendations`). Each generation archives the user's current
+-- batch and starts a new one, so old goals and their completion rows are kept as history.
+
+create table if not exists public.goal_batches (
+    id bigint generated always as identity primary key,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    source text check (source in ('n8n', 'gemini', 'local')),
+    created_at timestamptz not null default now(),
+    archived_at timestamptz
+);
+
+-- `recommendations.get` reads the one batch that is not archived.
+create unique index if not exists goal_batches_one_current
+    on public.goal_batches (user_id) where archived_at is null;
+
+alter table public.goal_batches enable row level security;
+
+create policy "Users manage their own goal batches" on public.goal_batches
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Requires a verified sign-in" on public.goal_batches
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
+
+-- Goals created before batches existed keep a null batch_id and are shown until the first batch
+-- is generated.
+alter table public.recommendations
+    add column if not exists batch_id bigint references public.goal_batches (id);
+
+create index if not exists recommendations_batch_id_idx on public.recommendations (batch_id);
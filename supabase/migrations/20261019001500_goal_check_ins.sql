@@ -0,0 +1,30 @@
+-- Recurring ("habit") goals (habits.ts). A habit repeats daily or a number of times per week
+-- between its start and due dates, and each occurrence done is a row in goal_check_ins.
+
+alter table public.recommendations
+    add column if not exists recurrence jsonb,
+    add column if not exists start_date date,
+    add column if not exists due_date date;
+
+create table if not exists public.goal_check_ins (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    recommendation_id bigint not null references public.recommendations (id) on delete cascade,
+    date date not null,
+    created_at timestamptz not null default now(),
+    primary key (recommendation_id, date)
+);
+
+create index if not exists goal_check_ins_user_id_idx on public.goal_check_ins (user_id);
+
+alter table public.goal_check_ins enable row level security;
+
+-- Users may only check in on their own goals.
+create policy "Users manage their own goal check-ins" on public.goal_check_ins
+    for all using (auth.uid() = user_id)
+    with check (
+        auth.uid() = user_id
+        and exists (select 1 from public.recommendations r where r.id = recommendation_id and r.user_id = auth.uid())
+    );
+
+create policy "Requires a verified sign-in" on public.goal_check_ins
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
@@ -0,0 +1,100 @@
+-- Goal-generation quota (goalQuota.ts), enforced by the database. Goal batches can only be created
+-- through `create_goal_batch`, which counts the user's batches in the current period and archives
+-- the old batch, starts the new one and saves its goals in a single transaction.
+
+-- One row. Keep it in step with GOAL_QUOTA_POLICY: the app reads its own copy to show the
+-- remaining quota, and this one decides.
+create table if not exists public.goal_quota_policy (
+    id boolean primary key default true check (id),
+    period text not null default 'day' check (period in ('day', 'week')),
+    per_period integer not null default 1 check (per_period >= 1),
+    -- Extra generations per period once the points balance reaches min_points; the highest tier reached applies.
+    tiers jsonb not null default '[{"min_points": 500, "extra": 1}, {"min_points": 2000, "extra": 2}]'
+);
+
+insert into public.goal_quota_policy default values on conflict (id) do nothing;
+
+alter table public.goal_quota_policy enable row level security;
+
+create policy "Anyone signed in reads the goal quota policy" on public.goal_quota_policy
+    for select to authenticated using (true);
+
+-- Batches are now only written by create_goal_batch.
+drop policy if exists "Users manage their own goal batches" on public.goal_batches;
+
+create policy "Users read their own goal batches" on public.goal_batches
+    for select using (auth.uid() = user_id);
+
+-- Periods start at the user's local midnight (Monday for weekly quotas). The database doesn't know
+-- the user's time zone, so the app passes its UTC offset in minutes, as in -Date.getTimezoneOffset().
+-- `p_goals` is an array of recommendations rows as JSON; user_id and batch_id are set here.
+-- Returns { batch, recommendations } in snake_case, or raises once the quota is used up.
+create or replace function public.create_goal_batch(p_source text, p_goals jsonb, p_utc_offset_minutes integer default 0)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+    v_policy public.goal_quota_policy;
+    v_points integer;
+    v_limit integer;
+    v_local_start date;
+    v_period_start timestamptz;
+    v_used integer;
+    v_batch public.goal_batches;
+    v_recommendations jsonb;
+begin
+    if v_user is null then
+        raise exception 'Sign in to generate goals.' using errcode = '28000';
+    end if;
+    if not public.otp_verified() then
+        raise exception 'Enter your sign-in code to generate goals.' using errcode = '42501';
+    end if;
+    if p_utc_offset_minutes is null or p_utc_offset_minutes not between -840 and 840 then
+        raise exception 'Invalid UTC offset.' using errcode = '22023';
+    end if;
+    if jsonb_typeof(p_goals) is distinct from 'array' or jsonb_array_length(p_goals) = 0 then
+        raise exception 'No goals to save.' using errcode = '22023';
+    end if;
+
+    -- Two generations started at once must not both see the last free slot.
+    perform pg_advisory_xact_lock(hashtext('create_goal_batch:' || v_user::text));
+
+    select * into v_policy from public.goal_quota_policy;
+    select coalesce(sum(amount), 0) into v_points from public.points_transactions where user_id = v_user;
+    select v_policy.per_period + coalesce(max((tier ->> 'extra')::integer), 0) into v_limit
+    from jsonb_array_elements(v_policy.tiers) as tier
+    where v_points >= (tier ->> 'min_points')::integer;
+
+    v_local_start := (now() at time zone 'UTC' + make_interval(mins => p_utc_offset_minutes))::date;
+    if v_policy.period = 'week' then
+        v_local_start := date_trunc('week', v_local_start)::date;
+    end if;
+    v_period_start := (v_local_start - make_interval(mins => p_utc_offset_minutes)) at time zone 'UTC';
+
+    select count(*) into v_used from public.goal_batches where user_id = v_user and created_at >= v_period_start;
+    if v_used >= v_limit then
+        raise exception 'Goal generation limit reached for this period.' using errcode = 'P0001';
+    end if;
+
+    update public.goal_batches set archived_at = now() where user_id = v_user and archived_at is null;
+    insert into public.goal_batches (user_id, source) values (v_user, p_source) returning * into v_batch;
+
+    with inserted as (
+        insert into public.recommendations (user_id, batch_id, goal, category, difficulty, source, rationale,
+            duration_days, metric_target, recurrence, start_date, due_date)
+        select v_user, v_batch.id, goal, category, difficulty, source, rationale,
+            duration_days, metric_target, recurrence, start_date, due_date
+        from jsonb_populate_recordset(null::public.recommendations, p_goals)
+        returning *
+    )
+    select jsonb_agg(to_jsonb(inserted) order by id) into v_recommendations from inserted;
+
+    return jsonb_build_object('batch', to_jsonb(v_batch), 'recommendations', v_recommendations);
+end;
+$$;
+
+revoke all on function public.create_goal_batch(text, jsonb, integer) from public, anon;
+grant execute on function public.create_goal_batch(text, jsonb, integer) to authenticated;
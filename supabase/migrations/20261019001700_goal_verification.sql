@@ -0,0 +1,8 @@
+-- Goals verified from logged metrics (goalVerification.ts). A goal's metric_target is the
+-- `GoalMetricTarget` it was generated with, and verified_at is set when the metrics met it.
+
+alter table public.recommendations
+    add column if not exists metric_target jsonb;
+
+alter table public.recommendation_status
+    add column if not exists verified_at timestamptz;
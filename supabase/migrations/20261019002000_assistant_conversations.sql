@@ -0,0 +1,45 @@
+-- Saved health assistant chats (supabaseService.ts `assistant`). Deleting a conversation deletes its
+-- messages through the foreign key.
+
+create table if not exists public.assistant_conversations (
+    id bigint generated always as identity primary key,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    title text not null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists assistant_conversations_user_id_updated_at_idx
+    on public.assistant_conversations (user_id, updated_at desc);
+
+create table if not exists public.assistant_messages (
+    id bigint generated always as identity primary key,
+    conversation_id bigint not null references public.assistant_conversations (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    role text not null check (role in ('user', 'assistant')),
+    content text not null,
+    -- Set on replies written by a guardrail instead of the model.
+    guardrail text check (guardrail in ('red-flag', 'diagnosis')),
+    created_at timestamptz not null default now()
+);
+
+create index if not exists assistant_messages_conversation_id_idx on public.assistant_messages (conversation_id, id);
+
+alter table public.assistant_conversations enable row level security;
+alter table public.assistant_messages enable row level security;
+
+create policy "Users manage their own assistant conversations" on public.assistant_conversations
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Messages may only be added to the user's own conversations.
+create policy "Users manage their own assistant messages" on public.assistant_messages
+    for all using (auth.uid() = user_id)
+    with check (
+        auth.uid() = user_id
+        and exists (select 1 from public.assistant_conversations c where c.id = conversation_id and c.user_id = auth.uid())
+    );
+
+create policy "Requires a verified sign-in" on public.assistant_conversations
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
+create policy "Requires a verified sign-in" on public.assistant_messages
+    as restrictive to authenticated using ((select public.otp_verified())) with check ((select public.otp_verified()));
@@ -0,0 +1,12 @@
+-- What each game session records besides its score (`GameSession` in types.ts). All of these are
+-- null for sessions saved before they were recorded; those count as completed.
+
+alter table public.game_sessions
+    add column if not exists score_direction text
+        constraint game_sessions_score_direction_check check (score_direction in ('higher', 'lower')),
+    add column if not exists duration_ms integer
+        constraint game_sessions_duration_ms_check check (duration_ms >= 0),
+    add column if not exists difficulty text,
+    add column if not exists status text
+        constraint game_sessions_status_check check (status in ('completed', 'abandoned', 'timed-out')),
+    add column if not exists details jsonb;
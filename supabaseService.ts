@@ -1,37 +1,24 @@
 import { createClient } from '@supabase/supabase-js';
-import { User, HealthData, GameSession, Recommendation, DailyMetrics } from '../types';
+import {
+    User, HealthData, GameSession, GameType, Recommendation, DailyMetrics, PointsTransaction, WeightEntry, GoalBatch, GoalCheckIn,
+    AssistantConversation, AssistantMessage,
+} from '../types';
+import type { ApiService, NewGameSession, OtpRequestResult, OtpVerifyResult } from './apiService';
+import { METRIC_FIELDS } from './metricFields';
+import { todayKey } from './dateUtils';
+import { GOAL_QUOTA_POLICY, GoalQuota, evaluateGoalQuota, quotaPeriodStart } from './goalQuota';
+import { defaultScoreDirection, summarizeGameHistory } from './gameStats';
 
 const supabaseUrl = 'https://aopykppwwbjbsnopqniy.supabase.co';
 const supabaseAnonKey = 'sb_publishable_SJtTIl8I2urhjrXubpTTXw_9lGAQvwr';
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
-const N8N_WEBHOOK_URL = 'https://shreyopb.app.n8n.cloud/webhook/03b19fbf-8717-4fc6-b7c8-3e5a92b71461/';
-let otpCache: { [email: string]: string } = {};
-
-export const getOtp = async (email: string): Promise<string> => {
-    try {
-        const response = await fetch(`${N8N_WEBHOOK_URL}${email}`);
-        if (!response.ok) throw new Error(`Webhook failed with status: ${response.status}`);
-        const otp = await response.text();
-        otpCache[email] = otp;
-        return otp;
-    } catch (error) {
-        console.error("Error fetching OTP from n8n:", error);
-        const mockOtp = "123456";
-        otpCache[email] = mockOtp;
-        // In a real app, we wouldn't alert the OTP. This is for dev purposes.
-        console.log(`(DEV) OTP for ${email} is ${mockOtp}`);
-        return mockOtp;
-    }
-};
-
-export const verifyOtp = async (email: string, otp: string): Promise<boolean> => {
-    const storedOtp = otpCache[email];
-    const isValid = (otp === storedOtp || otp === "123456"); // Allow fallback for dev
-    if (isValid) delete otpCache[email];
-    return isValid;
-};
+// Supabase signs the user in as soon as the password checks out. Until the OTP step succeeds, the
+// user's id is kept here and getSession treats their session as signed out, so a reload on the
+// code screen doesn't skip it. This only drives the screens: the database refuses every table to a
+// session that hasn't passed verify_otp (see 20261019000200_otp_codes.sql).
+const PENDING_OTP_KEY = 'phm_pending_otp_user';
 
 const toSnakeCase = (obj: any) => {
     if (obj === null || typeof obj !== 'object') return obj;
@@ -58,16 +45,87 @@ const toCamelCase = (obj: any) => {
 };
 
 
-export const apiService = {
+// Every metric column is sent so that fields cleared in an edit are nulled rather than kept.
+const toMetricsRow = (userId: string, entry: Omit<DailyMetrics, 'userId'>) => {
+    const metricColumns = Object.fromEntries(METRIC_FIELDS.map(({ key }) => [key, entry[key] ?? null]));
+    return toSnakeCase({ ...metricColumns, userId, date: entry.date, flags: entry.flags ?? [], updatedAt: new Date().toISOString() });
+};
+
+// Joins goal rows with the user's completion rows from `recommendation_status`.
+const withCompletion = async (userId: string, recs: any[]): Promise<Recommendation[]> => {
+    const { data: statuses, error: statusError } = await supabase.from('recommendation_status').select('recommendation_id, is_completed, verified_at').eq('user_id', userId);
+    if (statusError) {
+        console.error("Error fetching recommendation statuses:", statusError);
+    }
+    const statusMap = new Map(statuses?.map(s => [s.recommendation_id, s]) || []);
+    return recs.map(r => ({ ...toCamelCase(r), isCompleted: statusMap.get(r.id)?.is_completed || false, verifiedAt: statusMap.get(r.id)?.verified_at ?? null }));
+};
+
+// Rows saved before sessions recorded their direction and status were all completed games.
+const toGameSession = ({ created_at, score_direction, status, difficulty, details, ...row }: any): GameSession => ({
+    ...toCamelCase(row),
+    scoreDirection: score_direction ?? defaultScoreDirection(row.game_type),
+    status: status ?? 'completed',
+    difficulty: difficulty ?? undefined,
+    details: details ?? undefined,
+    timestamp: new Date(created_at),
+});
+
+const getGameSessions = async (userId: string, gameType?: GameType): Promise<GameSession[]> => {
+    let query = supabase.from('game_sessions').select('*').eq('user_id', userId);
+    if (gameType) query = query.eq('game_type', gameType);
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error || !data) {
+        console.error("Error fetching game sessions:", error);
+        return [];
+    }
+    return data.map(toGameSession);
+};
+
+// `guardrail` is a nullable column; the app type leaves it unset on ordinary replies.
+const toAssistantMessage = ({ user_id, guardrail, ...row }: any): AssistantMessage => ({ ...toCamelCase(row), guardrail: guardrail ?? undefined });
+
+// Counts only this period's batches; older rows can't affect the quota.
+const goalQuotaFor = async (userId: string): Promise<{ quota: GoalQuota; error?: string }> => {
+    const [{ data: batches, error }, points] = await Promise.all([
+        supabase.from('goal_batches').select('created_at').eq('user_id', userId).gte('created_at', quotaPeriodStart(GOAL_QUOTA_POLICY)),
+        supabaseApiService.points.getBalance(userId),
+    ]);
+    if (error) {
+        console.error("Error fetching goal batches for quota:", error);
+    }
+    return { quota: evaluateGoalQuota(GOAL_QUOTA_POLICY, (batches ?? []).map(b => b.created_at), points), error: error?.message };
+};
+
+export const supabaseApiService: ApiService = {
     auth: {
-        signUp: (c) => supabase.auth.signUp(c),
-        signInWithPassword: (c) => supabase.auth.signInWithPassword(c),
+        signUp: async (c) => {
+            const { data, error } = await supabase.auth.signUp(c);
+            if (error || !data.user) return { account: null, error: error?.message };
+            localStorage.setItem(PENDING_OTP_KEY, data.user.id);
+            return { account: { id: data.user.id, email: data.user.email ?? c.email } };
+        },
+        signInWithPassword: async (c) => {
+            const { data, error } = await supabase.auth.signInWithPassword(c);
+            if (error || !data.user) return { account: null, error: error?.message };
+            localStorage.setItem(PENDING_OTP_KEY, data.user.id);
+            return { account: { id: data.user.id, email: data.user.email ?? c.email } };
+        },
+        getSession: async () => {
+            const { data: { session } } = await supabase.auth.getSession();
+            if (session && session.user.id === localStorage.getItem(PENDING_OTP_KEY)) return null;
+            return session ? { id: session.user.id, email: session.user.email ?? '' } : null;
+        },
+        signOut: async () => {
+            localStorage.removeItem(PENDING_OTP_KEY);
+            await supabase.auth.signOut();
+        },
         getFullUserProfile: async (userId: string) => {
             const { data: userProfile, error: userError } = await supabase.from('users').select('*').eq('id', userId).single();
             if (userError) return { user: null, health: null, error: userError.message };
 
             const { data: healthProfile } = await supabase.from('user_health_profiles').select('*').eq('user_id', userId).single();
-            const points = await apiService.user.getPoints(userId);
+            const points = await supabaseApiService.points.getBalance(userId);
 
             const user = { ...toCamelCase(userProfile), points };
             const health = healthProfile ? toCamelCase(healthProfile) : null;
@@ -75,6 +133,22 @@ export const apiService = {
             return { user, health, error: null };
         }
     },
+    otp: {
+        // Backed by the `request_otp` / `verify_otp` database functions, which generate the code,
+        // store only its salted hash, email it, and enforce expiry, rate limits and lockout.
+        request: async (email) => {
+            const { data, error } = await supabase.rpc('request_otp', { p_email: email });
+            if (error) return { sent: false, error: error.message };
+            return toCamelCase(data) as OtpRequestResult;
+        },
+        verify: async (email, code) => {
+            const { data, error } = await supabase.rpc('verify_otp', { p_email: email, p_code: code });
+            if (error) return { valid: false, error: error.message };
+            const result = toCamelCase(data) as OtpVerifyResult;
+            if (result.valid) localStorage.removeItem(PENDING_OTP_KEY);
+            return result;
+        }
+    },
     user: {
         saveInitialDetails: async (userData: Omit<User, 'points' | 'id'> & { id: string }, healthData: Omit<HealthData, 'userId'>) => {
             const { error: userError } = await supabase.from('users').insert({
@@ -87,10 +161,10 @@ export const apiService = {
             
             const { error: healthError } = await supabase.from('user_health_profiles').insert({ ...toSnakeCase(healthData), user_id: userData.id });
             if (healthError) return { user: null, error: healthError.message };
-            
-            const { error: pointsError } = await supabase.from('user_points').insert({ user_id: userData.id, points: 0 });
-            if (pointsError) return { user: null, error: pointsError.message };
 
+            const { error: weightError } = await supabase.from('weight_history').insert({ user_id: userData.id, date: todayKey(), weight: healthData.weight });
+            if (weightError) return { user: null, error: weightError.message };
+            
             return { user: { ...userData, points: 0 }, error: null };
         },
         updateDetails: async (userId: string, updates: Partial<User> & { password?: string }) => {
@@ -106,69 +180,195 @@ export const apiService = {
             const { data, error } = await supabase.from('users').update(profileUpdates).eq('id', userId).select().single();
             return { updatedUser: data ? toCamelCase(data) : null, error: error?.message };
         },
-        getPoints: async (userId: string): Promise<number> => {
-            const { data, error } = await supabase.from('user_points').select('points').eq('user_id', userId).single();
-            if(error || !data) return 0;
-            return data.points ?? 0;
+        updateHealthProfile: async (userId: string, healthData: Omit<HealthData, 'userId'>) => {
+            const { data: previous } = await supabase.from('user_health_profiles').select('weight').eq('user_id', userId).single();
+            const { data, error } = await supabase.from('user_health_profiles').update(toSnakeCase(healthData)).eq('user_id', userId).select().single();
+            if (error || !data) return { health: null, error: error?.message || 'Could not update health profile.' };
+
+            if (previous?.weight !== healthData.weight) {
+                const { error: weightError } = await supabase.from('weight_history').upsert({ user_id: userId, date: todayKey(), weight: healthData.weight }, { onConflict: 'user_id,date' });
+                if (weightError) return { health: toCamelCase(data), error: weightError.message };
+            }
+            return { health: toCamelCase(data) };
+        },
+        getWeightHistory: async (userId: string): Promise<WeightEntry[]> => {
+            const { data, error } = await supabase.from('weight_history').select('user_id, date, weight').eq('user_id', userId).order('date', { ascending: true });
+            if (error || !data) {
+                console.error("Error fetching weight history:", error);
+                return [];
+            }
+            return data.map(row => toCamelCase(row) as WeightEntry);
+        }
+    },
+    points: {
+        // award_points works out the amount from the user's saved rows; `entry.amount` is only the
+        // client's expectation. Clients can't insert into `points_transactions` directly.
+        award: async (userId, entry) => {
+            const { data, error } = await supabase.rpc('award_points', {
+                p_source: entry.source,
+                p_reference_id: entry.referenceId,
+                p_utc_offset_minutes: -new Date().getTimezoneOffset(),
+            });
+            if (error || !data) {
+                const balance = await supabaseApiService.points.getBalance(userId);
+                return { balance, awarded: false, error: error?.message ?? 'The points could not be awarded.' };
+            }
+            return { balance: data.balance, awarded: data.awarded };
         },
-        updatePoints: async (userId: string, points: number) => {
-            const { error } = await supabase.from('user_points').upsert({ user_id: userId, points }, { onConflict: 'user_id' });
-            return { error: error?.message };
+        getBalance: async (userId) => {
+            const { data, error } = await supabase.from('points_transactions').select('amount').eq('user_id', userId);
+            if (error || !data) return 0;
+            return data.reduce((sum, row) => sum + (row.amount ?? 0), 0);
+        },
+        getHistory: async (userId) => {
+            const { data, error } = await supabase.from('points_transactions').select('*').eq('user_id', userId).order('created_at', { ascending: false });
+            if (error || !data) {
+                console.error("Error fetching points history:", error);
+                return [];
+            }
+            return data.map(row => toCamelCase(row) as PointsTransaction);
         }
     },
     metrics: {
-        hasSubmittedToday: async (userId: string): Promise<boolean> => {
-            const today = new Date().toISOString().split('T')[0];
-            const { data, error } = await supabase.from('daily_metrics').select('id', { count: 'exact', head: true }).eq('user_id', userId).gte('created_at', `${today}T00:00:00Z`);
-            return (data?.length || 0) > 0 || (error ? false : (supabase.rpc as any).count > 0);
+        getByDate: async (userId: string, date: string): Promise<DailyMetrics | null> => {
+            const { data, error } = await supabase.from('daily_metrics').select('*').eq('user_id', userId).eq('date', date).maybeSingle();
+            if (error || !data) return null;
+            const { id, created_at, updated_at, ...row } = data;
+            return toCamelCase(row) as DailyMetrics;
         },
-        save: async (userId: string, metrics: Partial<DailyMetrics>) => {
-            const { error } = await supabase.from('daily_metrics').insert({ user_id: userId, ...toSnakeCase(metrics) });
-            return { error: error?.message };
+        upsert: async (userId: string, entry: Omit<DailyMetrics, 'userId'>) => {
+            const { data: existing } = await supabase.from('daily_metrics').select('id').eq('user_id', userId).eq('date', entry.date).maybeSingle();
+            const { data, error } = await supabase.from('daily_metrics').upsert(toMetricsRow(userId, entry), { onConflict: 'user_id,date' }).select('id').single();
+            return { id: data?.id ?? null, created: !existing, error: error?.message };
+        },
+        upsertMany: async (userId: string, entries: Omit<DailyMetrics, 'userId'>[]) => {
+            if (entries.length === 0) return { count: 0 };
+            const { error } = await supabase.from('daily_metrics').upsert(entries.map(entry => toMetricsRow(userId, entry)), { onConflict: 'user_id,date' });
+            return { count: error ? 0 : entries.length, error: error?.message };
+        },
+        getRange: async (userId: string, from: string, to: string): Promise<DailyMetrics[]> => {
+            const { data, error } = await supabase.from('daily_metrics').select('*').eq('user_id', userId).gte('date', from).lte('date', to).order('date', { ascending: true });
+            if (error || !data) {
+                console.error("Error fetching metrics history:", error);
+                return [];
+            }
+            return data.map(({ id, created_at, updated_at, ...row }) => toCamelCase(row) as DailyMetrics);
         }
     },
     games: {
-        saveSession: async (session: Omit<GameSession, 'timestamp'>) => {
-            const { error } = await supabase.from('game_sessions').insert({ user_id: session.userId, game_type: session.gameType, score: session.score });
-            return { error: error?.message };
-        }
+        saveSession: async (session: NewGameSession) => {
+            const row = toSnakeCase({ ...session, difficulty: session.difficulty ?? null, details: session.details ?? null });
+            const { data, error } = await supabase.from('game_sessions').insert(row).select('id').single();
+            return { id: data?.id ?? null, error: error?.message };
+        },
+        getSessions: getGameSessions,
+        getStats: async (userId: string) => summarizeGameHistory(await getGameSessions(userId)),
     },
     recommendations: {
         get: async (userId: string): Promise<Recommendation[]> => {
-            const { data: recs, error: recsError } = await supabase.from('recommendations').select('*').eq('user_id', userId);
+            const { data: batch, error: batchError } = await supabase.from('goal_batches').select('id').eq('user_id', userId).is('archived_at', null).maybeSingle();
+            if (batchError) {
+                console.error("Error fetching current goal batch:", batchError);
+                return [];
+            }
+            // Before batches existed every goal row was current; those rows have no batch_id.
+            const query = supabase.from('recommendations').select('*').eq('user_id', userId);
+            const { data: recs, error: recsError } = await (batch ? query.eq('batch_id', batch.id) : query.is('batch_id', null));
             if (recsError) {
                 console.error("Error fetching recommendations:", recsError);
                 return [];
             }
-            
-            const { data: statuses, error: statusError } = await supabase.from('recommendation_status').select('recommendation_id, is_completed').eq('user_id', userId);
-            if (statusError) {
-                console.error("Error fetching recommendation statuses:", statusError);
+            return withCompletion(userId, recs);
+        },
+        getQuota: async (userId: string) => (await goalQuotaFor(userId)).quota,
+        // create_goal_batch checks the quota and archives, creates and fills the batch in one
+        // transaction, so the limit holds even when the client's own count is stale.
+        create: async (_userId: string, newGoals: Omit<Recommendation, 'id' | 'userId' | 'isCompleted' | 'batchId' | 'verifiedAt'>[]) => {
+            const { data, error } = await supabase.rpc('create_goal_batch', {
+                p_source: newGoals[0]?.source ?? null,
+                p_goals: newGoals.map(toSnakeCase),
+                p_utc_offset_minutes: -new Date().getTimezoneOffset(),
+            });
+            if (error || !data) {
+                return { batch: null, recommendations: [], error: error?.message ?? 'The goals could not be saved.' };
             }
-            const statusMap = new Map(statuses?.map(s => [s.recommendation_id, s.is_completed]) || []);
-
-            return recs.map(r => ({ ...toCamelCase(r), isCompleted: statusMap.get(r.id) || false }));
+            return {
+                batch: toCamelCase(data.batch) as GoalBatch,
+                recommendations: (data.recommendations ?? []).map((r: any) => ({ ...toCamelCase(r), isCompleted: false })),
+            };
         },
-        create: async (userId: string, newGoals: Omit<Recommendation, 'id' | 'userId' | 'isCompleted'>[]) => {
-            // This is a transaction to ensure data integrity
-            const { error: deleteError } = await supabase.from('recommendations').delete().eq('user_id', userId);
-            if (deleteError) {
-                 return { recommendations: [], error: deleteError.message };
+        getHistory: async (userId: string) => {
+            const [{ data: batches, error: batchError }, { data: recs, error: recsError }] = await Promise.all([
+                supabase.from('goal_batches').select('*').eq('user_id', userId).order('created_at', { ascending: false }),
+                supabase.from('recommendations').select('*').eq('user_id', userId),
+            ]);
+            if (batchError || recsError) {
+                console.error("Error fetching goal history:", batchError || recsError);
+                return { batches: [], recommendations: [] };
             }
-            
-            const goalsToInsert = newGoals.map(g => ({ ...toSnakeCase(g), user_id: userId }));
-            const { data, error } = await supabase.from('recommendations').insert(goalsToInsert).select();
-            
-            return { recommendations: data ? data.map(r => ({ ...toCamelCase(r), isCompleted: false })) : [], error: error?.message };
+            return { batches: batches.map(b => toCamelCase(b) as GoalBatch), recommendations: await withCompletion(userId, recs) };
         },
         updateStatus: async (userId: string, updatedRecs: Recommendation[]) => {
             const statusesToUpsert = updatedRecs.map(rec => ({
                 user_id: userId,
                 recommendation_id: rec.id, // now a number
-                is_completed: rec.isCompleted
+                is_completed: rec.isCompleted,
+                verified_at: rec.verifiedAt ?? null,
             }));
             const { error } = await supabase.from('recommendation_status').upsert(statusesToUpsert, { onConflict: 'user_id, recommendation_id' });
             return { error: error?.message };
+        },
+        getCheckIns: async (userId: string): Promise<GoalCheckIn[]> => {
+            const { data, error } = await supabase.from('goal_check_ins').select('*').eq('user_id', userId).order('date');
+            if (error) {
+                console.error("Error fetching goal check-ins:", error);
+                return [];
+            }
+            return data.map(row => toCamelCase(row) as GoalCheckIn);
+        },
+        setCheckIn: async (userId: string, recommendationId: number, date: string, done: boolean) => {
+            const { error } = done
+                ? await supabase.from('goal_check_ins').upsert({ user_id: userId, recommendation_id: recommendationId, date }, { onConflict: 'recommendation_id,date' })
+                : await supabase.from('goal_check_ins').delete().eq('user_id', userId).eq('recommendation_id', recommendationId).eq('date', date);
+            return { error: error?.message };
+        }
+    },
+    assistant: {
+        getConversations: async (userId: string): Promise<AssistantConversation[]> => {
+            const { data, error } = await supabase.from('assistant_conversations').select('*').eq('user_id', userId).order('updated_at', { ascending: false });
+            if (error) {
+                console.error("Error fetching assistant conversations:", error);
+                return [];
+            }
+            return data.map(row => toCamelCase(row) as AssistantConversation);
+        },
+        getMessages: async (userId: string, conversationId: number): Promise<AssistantMessage[]> => {
+            const { data, error } = await supabase.from('assistant_messages').select('*').eq('user_id', userId).eq('conversation_id', conversationId).order('id');
+            if (error) {
+                console.error("Error fetching assistant messages:", error);
+                return [];
+            }
+            return data.map(toAssistantMessage);
+        },
+        createConversation: async (userId: string, title: string) => {
+            const { data, error } = await supabase.from('assistant_conversations').insert({ user_id: userId, title }).select().single();
+            return { conversation: data ? toCamelCase(data) as AssistantConversation : null, error: error?.message };
+        },
+        addMessages: async (userId: string, conversationId: number, messages) => {
+            const rows = messages.map(message => ({ ...toSnakeCase(message), user_id: userId, conversation_id: conversationId }));
+            const { data, error } = await supabase.from('assistant_messages').insert(rows).select().order('id');
+            if (error || !data) return { messages: [], error: error?.message };
+
+            const { error: touchError } = await supabase.from('assistant_conversations')
+                .update({ updated_at: new Date().toISOString() })
+                .eq('user_id', userId)
+                .eq('id', conversationId);
+            return { messages: data.map(toAssistantMessage), error: touchError?.message };
+        },
+        deleteConversation: async (userId: string, conversationId: number) => {
+            // Messages are removed by the foreign key's ON DELETE CASCADE.
+            const { error } = await supabase.from('assistant_conversations').delete().eq('user_id', userId).eq('id', conversationId);
+            return { error: error?.message };
         }
     }
 };
\ No newline at end of file
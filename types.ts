@@ -20,6 +20,13 @@ export interface HealthData {
   preferredLanguage: string;
 }
 
+// Weight is tracked over time; HealthData.weight always holds the most recent value.
+export interface WeightEntry {
+    userId: string;
+    date: string; // YYYY-MM-DD
+    weight: number; // in kg
+}
+
 export interface DailyMetrics {
     userId: string;
     date: string; // YYYY-MM-DD
@@ -29,14 +36,40 @@ export interface DailyMetrics {
     breathingRate?: number;
     distanceTravelled?: number; // in km
     caloriesBurnt?: number;
+    flags?: MetricFlag[]; // readings that passed validation but looked unusual when saved
 }
 
-export type GameType = 'Clicker' | 'Memory';
+export interface MetricFlag {
+    field: keyof Omit<DailyMetrics, 'userId' | 'date' | 'flags'>;
+    value: number;
+    message: string;
+}
+
+// The id of a game in the game registry (see gameRegistry.ts), such as 'Memory'.
+export type GameType = string;
+
+// Whether a higher or a lower score is the better result: more clicks, but fewer memory tries and faster reactions.
+export type ScoreDirection = 'higher' | 'lower';
+
+// Abandoned sessions were stopped early, or for reaction tests had too few valid trials to score;
+// timed-out ones ran out of time in a timed game. Only completed sessions earn points and count
+// towards personal bests.
+export type GameStatus = 'completed' | 'abandoned' | 'timed-out';
+
+// Each game saves its own details as JSON; the type is defined next to the game, such as
+// MemoryDetails in memoryGame.ts.
+export type GameDetails = object;
 
 export interface GameSession {
+    id: number;
     userId: string;
     gameType: GameType;
-    score: number;
+    score: number; // clicks, memory tries, or the median reaction time in ms
+    scoreDirection: ScoreDirection;
+    durationMs: number | null; // null for sessions saved before durations were recorded
+    difficulty?: string; // the game's own level name, for games that have levels
+    status: GameStatus;
+    details?: GameDetails;
     timestamp: Date;
 }
 
@@ -47,4 +80,81 @@ export interface Recommendation {
     category: 'Diet' | 'Exercise' | 'Mental Health' | 'General';
     difficulty: 'Easy' | 'Medium' | 'Hard';
     isCompleted: boolean;
-}
\ No newline at end of file
+    source?: GoalSource; // unset on goals created before sources were recorded
+    rationale?: string;
+    durationDays?: number; // how long the goal is meant to run
+    metricTarget?: GoalMetricTarget;
+    batchId?: number; // unset on goals created before batches were recorded
+    recurrence?: GoalRecurrence; // unset for one-off goals
+    startDate?: string; // YYYY-MM-DD
+    dueDate?: string; // YYYY-MM-DD, last day the goal (or habit) runs
+    verifiedAt?: string | null; // set when logged metrics met the goal's metricTarget
+}
+
+// Habit goals repeat: every day, or a number of times in each Monday-to-Sunday week.
+export type GoalRecurrence =
+    | { type: 'daily' }
+    | { type: 'weekly'; timesPerWeek: number };
+
+// One occurrence of a habit goal being done.
+export interface GoalCheckIn {
+    userId: string;
+    recommendationId: number;
+    date: string; // YYYY-MM-DD
+    createdAt: string;
+}
+
+// Each "Generate New Goals" creates a batch. The previous batch is archived, not deleted, so its
+// goals and their completion stay available for history.
+export interface GoalBatch {
+    id: number;
+    userId: string;
+    source?: GoalSource;
+    createdAt: string;
+    archivedAt: string | null;
+}
+
+// A measurable target tied to a daily metric, e.g. steps at least 8000 on 5 days.
+export interface GoalMetricTarget {
+    metric: keyof Omit<DailyMetrics, 'userId' | 'date' | 'flags'>;
+    comparator: 'atLeast' | 'atMost';
+    value: number;
+    days: number; // days within the goal's duration on which the target must be met
+}
+
+// Where a batch of goals came from: the remote n8n workflow, Gemini, or the on-device rule engine.
+export type GoalSource = 'n8n' | 'gemini' | 'local';
+
+// 'opening' is the balance carried over when the ledger replaced the single points total.
+export type PointsSource = 'game' | 'metrics' | 'goal' | 'opening';
+
+// One entry in the append-only points ledger. A user's balance is the sum of their entries.
+export interface PointsTransaction {
+    id: number;
+    userId: string;
+    source: PointsSource;
+    amount: number;
+    referenceId: string; // id of the game session, metrics entry or goal that earned the points
+    createdAt: string; // ISO timestamp
+}
+
+// A chat with the health assistant. Its messages are stored separately, in order.
+export interface AssistantConversation {
+    id: number;
+    userId: string;
+    title: string; // the opening question, shortened
+    createdAt: string;
+    updatedAt: string; // time of the latest message
+}
+
+// Set on replies written by a guardrail instead of the model.
+export type AssistantGuardrail = 'red-flag' | 'diagnosis';
+
+export interface AssistantMessage {
+    id: number;
+    conversationId: number;
+    role: 'user' | 'assistant';
+    content: string;
+    guardrail?: AssistantGuardrail;
+    createdAt: string;
+}
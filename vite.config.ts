@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DATA_BACKEND': JSON.stringify(env.DATA_BACKEND),
+        'process.env.GOAL_QUOTA_PERIOD': JSON.stringify(env.GOAL_QUOTA_PERIOD),
+        'process.env.GOAL_QUOTA_PER_PERIOD': JSON.stringify(env.GOAL_QUOTA_PER_PERIOD),
+        'process.env.OTP_DEV_BYPASS_CODE': JSON.stringify(mode === 'development' ? env.OTP_DEV_BYPASS_CODE : '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { DailyAggregator, parseAppleHealthXml, parseGoogleFitDailyCsv, parseGoogleFitJson } from './wearableImport';
+
+// A file whose stream hands out `chunkSize` bytes at a time, so tags, strings, rows and multi-byte
+// characters are split across chunks the way they are in a large export.
+const chunkedFile = (name: string, text: string, chunkSize: number) => {
+    const bytes = new TextEncoder().encode(text);
+    return {
+        name,
+        size: bytes.byteLength,
+        stream: () => new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (let i = 0; i < bytes.byteLength; i += chunkSize) controller.enqueue(bytes.slice(i, i + chunkSize));
+                controller.close();
+            },
+        }),
+    } as unknown as Blob & { name: string };
+};
+
+const CHUNK_SIZES = [1, 7, 64, 100_000];
+
+// Local times, as Google Fit days are, so a sample's date doesn't depend on where the tests run.
+const nanos = (date: string, hour = 12) => String(Date.parse(`${date}T${String(hour).padStart(2, '0')}:00:00`) * 1e6);
+
+const point = (dataTypeName: string | undefined, date: string, value: { intVal?: number; fpVal?: number }, source = 'phone', hour = 12) => ({
+    ...(dataTypeName && { dataTypeName }),
+    startTimeNanos: nanos(date, hour),
+    endTimeNanos: nanos(date, hour),
+    originDataSourceId: source,
+    fitValue: [{ value }],
+});
+
+describe('parseGoogleFitJson', () => {
+    const json = JSON.stringify({
+        'Data Source': { dataType: { name: 'com.google.step_count.delta' } },
+        'Data Points': [
+            point('com.google.step_count.delta', '2026-10-17', { intVal: 3000 }, 'phone {"watch"}'),
+            point('com.google.step_count.delta', '2026-10-17', { intVal: 2500 }, 'phone {"watch"}'),
+            point('com.google.step_count.delta', '2026-10-17', { intVal: 4000 }, 'watch \\ [ü]'),
+            point('com.google.heart_rate.bpm', '2026-10-17', { fpVal: 118 }, 'watch', 11),
+            point('com.google.heart_rate.bpm', '2026-10-17', { fpVal: 57.6 }, 'watch', 12),
+            point('com.google.heart_rate.bpm', '2026-10-17', { fpVal: 74 }, 'watch', 13),
+            point(undefined, '2026-10-18', { intVal: 1200 }),
+        ],
+    }, null, 2);
+
+    it.each(CHUNK_SIZES)('gives the same days when read %i bytes at a time', async chunkSize => {
+        const aggregator = new DailyAggregator();
+
+        await parseGoogleFitJson(chunkedFile('steps.json', json, chunkSize), aggregator);
+
+        expect(aggregator.result()).toEqual([
+            // The larger source's steps win; the resting heart rate is the day's lowest sample.
+            { date: '2026-10-17', steps: 5500, heartRate: 58 },
+            // A point without its own type takes the data source's.
+            { date: '2026-10-18', steps: 1200 },
+        ]);
+    });
+});
+
+describe('parseGoogleFitDailyCsv', () => {
+    const csv = '\uFEFFDate,Step count,Distance (m),Average heart rate (bpm),Min heart rate (bpm),Notes\n'
+        + '2026-10-17,8200,6100,81.2,56,"walk, then\nrun"\r\n'
+        + '2026-10-18,10450,7300,79,58,\n'
+        + 'Total,18650,13400,,,\n';
+
+    it.each(CHUNK_SIZES)('gives the same days when read %i bytes at a time', async chunkSize => {
+        const aggregator = new DailyAggregator();
+
+        await parseGoogleFitDailyCsv(chunkedFile('Daily activity metrics.csv', csv, chunkSize), aggregator);
+
+        expect(aggregator.result()).toEqual([
+            { date: '2026-10-17', steps: 8200, distanceTravelled: 6.1, heartRate: 56 },
+            { date: '2026-10-18', steps: 10450, distanceTravelled: 7.3, heartRate: 58 },
+        ]);
+    });
+
+    it('uses the average heart rate when there is no minimum column', async () => {
+        const aggregator = new DailyAggregator();
+
+        await parseGoogleFitDailyCsv(chunkedFile('daily.csv', 'Date,Average heart rate (bpm)\n2026-10-17,71.4\n', 5), aggregator);
+
+        expect(aggregator.result()).toEqual([{ date: '2026-10-17', heartRate: 71 }]);
+    });
+});
+
+describe('parseAppleHealthXml', () => {
+    const xml = '<?xml version="1.0" encoding="UTF-8"?>\n<HealthData locale="de_DE">\n'
+        + ' <Record type="HKQuantityTypeIdentifierStepCount" sourceName="Äpfel iPhone" unit="count" value="4200" startDate="2026-10-17 08:00:00 +0200" endDate="2026-10-17 09:00:00 +0200"/>\n'
+        + ' <Record type="HKQuantityTypeIdentifierRestingHeartRate" sourceName="Watch" unit="count/min" value="55" startDate="2026-10-17 07:00:00 +0200" endDate="2026-10-17 07:00:00 +0200">\n'
+        + '  <MetadataEntry key="HKMetadataKeyHeartRateMotionContext" value="1"/>\n </Record>\n'
+        + ' <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Watch" value="HKCategoryValueSleepAnalysisAsleepCore" startDate="2026-10-17 23:30:00 +0200" endDate="2026-10-18 06:00:00 +0200"/>\n'
+        + '</HealthData>\n';
+
+    it.each(CHUNK_SIZES)('gives the same days when read %i bytes at a time', async chunkSize => {
+        const aggregator = new DailyAggregator();
+
+        await parseAppleHealthXml(chunkedFile('export.xml', xml, chunkSize), aggregator);
+
+        expect(aggregator.result()).toEqual([
+            { date: '2026-10-17', steps: 4200, heartRate: 55 },
+            { date: '2026-10-18', sleepHours: 6.5 },
+        ]);
+    });
+});
@@ -0,0 +1,406 @@
+import { DailyMetrics, HealthData } from '../types';
+import { METRIC_FIELDS, MetricKey } from './metricFields';
+import { parseCsv } from './metricsTransfer';
+import { validateMetrics } from './metricValidation';
+import { DEFAULT_LANGUAGE, LanguageCode } from './i18n';
+import { toDateKey } from './dateUtils';
+
+// Parsers for Apple Health `export.xml` and Google Fit Takeout files. Raw samples are reduced to one
+// DailyMetrics entry per day. Everything here works on streams and plain data so it can run inside
+// a Web Worker (see wearableImport.worker.ts).
+
+export type ImportedDay = Omit<DailyMetrics, 'userId' | 'flags'>;
+
+export interface WearableParseProgress {
+    fileName: string;
+    bytesRead: number;
+    totalBytes: number;
+}
+
+// --- Daily aggregation ---
+
+// Totals (steps, distance, energy, sleep) are summed per source and the largest source wins, because
+// phones and watches both record the same walk. Rates (heart and breathing) are averaged. Readings
+// taken all day, rather than at rest, go through `addLowest` instead and the day keeps the lowest.
+const SUMMED: MetricKey[] = ['steps', 'distanceTravelled', 'caloriesBurnt', 'sleepHours'];
+
+interface DayAccumulator {
+    totals: Partial<Record<MetricKey, Map<string, number>>>;
+    means: Partial<Record<MetricKey, { sum: number; count: number }>>;
+    lowest: Partial<Record<MetricKey, number>>;
+}
+
+export class DailyAggregator {
+    private days = new Map<string, DayAccumulator>();
+
+    private day(date: string): DayAccumulator {
+        let day = this.days.get(date);
+        if (!day) {
+            day = { totals: {}, means: {}, lowest: {} };
+            this.days.set(date, day);
+        }
+        return day;
+    }
+
+    add(date: string, key: MetricKey, value: number, source = 'default') {
+        if (!Number.isFinite(value)) return;
+        const day = this.day(date);
+        if (SUMMED.includes(key)) {
+            const bySource = day.totals[key] ?? new Map<string, number>();
+            bySource.set(source, (bySource.get(source) ?? 0) + value);
+            day.totals[key] = bySource;
+        } else {
+            const mean = day.means[key] ?? { sum: 0, count: 0 };
+            mean.sum += value;
+            mean.count += 1;
+            day.means[key] = mean;
+        }
+    }
+
+    // A resting rate is the lowest of the day's readings. Averaged rates from `add` take precedence.
+    addLowest(date: string, key: MetricKey, value: number) {
+        if (!Number.isFinite(value) || value <= 0) return;
+        const day = this.day(date);
+        day.lowest[key] = Math.min(day.lowest[key] ?? Infinity, value);
+    }
+
+    result(): ImportedDay[] {
+        const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+        return Array.from(this.days.entries())
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([date, day]) => {
+                const entry: ImportedDay = { date };
+                (Object.entries(day.lowest) as [MetricKey, number][]).forEach(([key, value]) => {
+                    entry[key] = Math.round(value);
+                });
+                (Object.entries(day.totals) as [MetricKey, Map<string, number>][]).forEach(([key, bySource]) => {
+                    const total = Math.max(...bySource.values());
+                    entry[key] = key === 'steps' || key === 'caloriesBurnt' ? Math.round(total) : round(total, 2);
+                });
+                (Object.entries(day.means) as [MetricKey, { sum: number; count: number }][]).forEach(([key, { sum, count }]) => {
+                    entry[key] = Math.round(sum / count);
+                });
+                return entry;
+            });
+    }
+}
+
+// --- Streaming text reader ---
+
+// Reads a file as text in chunks, handing each chunk to `onText`. Only the current chunk is held in memory.
+const readInChunks = async (file: Blob & { name?: string }, onText: (text: string) => void, onProgress?: (progress: WearableParseProgress) => void) => {
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder();
+    let bytesRead = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        bytesRead += value.byteLength;
+        onText(decoder.decode(value, { stream: true }));
+        onProgress?.({ fileName: file.name ?? '', bytesRead, totalBytes: file.size });
+    }
+    onText(decoder.decode());
+};
+
+// --- Apple Health ---
+
+const APPLE_SLEEP_ASLEEP = /^HKCategoryValueSleepAnalysisAsleep/;
+
+// Apple writes timestamps as "2024-01-02 07:30:00 -0800"; the leading date is already local to the user.
+const appleDate = (timestamp: string) => timestamp.slice(0, 10);
+const appleTime = (timestamp: string) => {
+    const [date, time, offset] = timestamp.split(' ');
+    return Date.parse(`${date}T${time}${offset ? `${offset.slice(0, 3)}:${offset.slice(3)}` : ''}`);
+};
+
+const parseAttributes = (tag: string) => {
+    const attributes: Record<string, string> = {};
+    for (const match of tag.matchAll(/(\w+)="([^"]*)"/g)) {
+        attributes[match[1]] = match[2];
+    }
+    return attributes;
+};
+
+const handleAppleRecord = (attrs: Record<string, string>, aggregator: DailyAggregator) => {
+    const { type, value, unit, sourceName = 'default', startDate, endDate } = attrs;
+    if (!type || !startDate) return;
+    const amount = Number(value);
+
+    switch (type) {
+        case 'HKQuantityTypeIdentifierStepCount':
+            aggregator.add(appleDate(startDate), 'steps', amount, sourceName);
+            break;
+        case 'HKQuantityTypeIdentifierDistanceWalkingRunning':
+            aggregator.add(appleDate(startDate), 'distanceTravelled', unit === 'mi' ? amount * 1.609344 : unit === 'm' ? amount / 1000 : amount, sourceName);
+            break;
+        case 'HKQuantityTypeIdentifierActiveEnergyBurned':
+            aggregator.add(appleDate(startDate), 'caloriesBurnt', unit === 'kJ' ? amount / 4.184 : amount, sourceName);
+            break;
+        case 'HKQuantityTypeIdentifierRestingHeartRate':
+            aggregator.add(appleDate(startDate), 'heartRate', amount);
+            break;
+        case 'HKQuantityTypeIdentifierRespiratoryRate':
+            aggregator.add(appleDate(startDate), 'breathingRate', amount);
+            break;
+        case 'HKCategoryTypeIdentifierSleepAnalysis':
+            // Sleep counts toward the day the user woke up.
+            if (endDate && APPLE_SLEEP_ASLEEP.test(value ?? '')) {
+                const hours = (appleTime(endDate) - appleTime(startDate)) / 3_600_000;
+                if (hours > 0) aggregator.add(appleDate(endDate), 'sleepHours', hours, sourceName);
+            }
+            break;
+    }
+};
+
+export const parseAppleHealthXml = async (file: Blob & { name?: string }, aggregator: DailyAggregator, onProgress?: (progress: WearableParseProgress) => void) => {
+    let buffer = '';
+    await readInChunks(file, text => {
+        buffer += text;
+        // Only scan up to the last complete tag; the rest waits for the next chunk.
+        const end = buffer.lastIndexOf('>') + 1;
+        const complete = buffer.slice(0, end);
+        buffer = buffer.slice(end);
+        for (const match of complete.matchAll(/<Record\s([^>]*?)\/?>/g)) {
+            handleAppleRecord(parseAttributes(match[1]), aggregator);
+        }
+    }, onProgress);
+};
+
+// --- Google Fit Takeout ---
+
+interface GoogleFitPoint {
+    dataTypeName?: string;
+    startTimeNanos?: string | number;
+    endTimeNanos?: string | number;
+    originDataSourceId?: string;
+    fitValue?: { value?: { intVal?: number; fpVal?: number } }[];
+}
+
+const GOOGLE_SLEEP_STAGES_ASLEEP = [2, 4, 5, 6]; // sleep, light, deep, REM
+const nanosToDate = (nanos: string | number) => new Date(Number(nanos) / 1e6);
+
+const handleGoogleFitPoint = (point: GoogleFitPoint, aggregator: DailyAggregator) => {
+    if (!point.dataTypeName || point.startTimeNanos === undefined) return;
+    const start = nanosToDate(point.startTimeNanos);
+    const end = point.endTimeNanos !== undefined ? nanosToDate(point.endTimeNanos) : start;
+    const value = point.fitValue?.[0]?.value;
+    const number = value?.intVal ?? value?.fpVal;
+    const source = point.originDataSourceId ?? 'default';
+    if (number === undefined) return;
+
+    switch (point.dataTypeName) {
+        case 'com.google.step_count.delta':
+            aggregator.add(toDateKey(start), 'steps', number, source);
+            break;
+        case 'com.google.distance.delta':
+            aggregator.add(toDateKey(start), 'distanceTravelled', number / 1000, source);
+            break;
+        case 'com.google.calories.expended':
+            aggregator.add(toDateKey(start), 'caloriesBurnt', number, source);
+            break;
+        case 'com.google.heart_rate.bpm':
+            // Samples are taken through the day, including during exercise.
+            aggregator.addLowest(toDateKey(start), 'heartRate', number);
+            break;
+        case 'com.google.sleep.segment':
+            if (GOOGLE_SLEEP_STAGES_ASLEEP.includes(number)) {
+                aggregator.add(toDateKey(end), 'sleepHours', (end.getTime() - start.getTime()) / 3_600_000, source);
+            }
+            break;
+    }
+};
+
+const GOOGLE_FIT_POINT_ARRAYS = ['Data Points', 'point'];
+
+// Each point is parsed and added as soon as it has streamed past, so only one point is in memory at a
+// time. The rest of the document (the data source and its type) is small; it is kept, with the
+// points array left empty, and parsed at the end.
+export const parseGoogleFitJson = async (file: Blob & { name?: string }, aggregator: DailyAggregator, onProgress?: (progress: WearableParseProgress) => void) => {
+    let skeleton = '';
+    let point = '';
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let string = ''; // the latest string at the top level, which is the key when a ':' follows
+    let key = '';
+    let inPoints = false;
+    // Points normally name their own type. The rest wait for the document's type at the end.
+    const untyped: GoogleFitPoint[] = [];
+
+    await readInChunks(file, text => {
+        let skeletonFrom: number | null = inPoints ? null : 0;
+        let pointFrom: number | null = point ? 0 : null;
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (inString) {
+                if (escaped) escaped = false;
+                else if (char === '\\') escaped = true;
+                else if (char === '"') inString = false;
+                else if (depth === 1) string += char;
+                continue;
+            }
+            if (char === '"') {
+                inString = true;
+                string = '';
+            } else if (char === ':' && depth === 1) {
+                key = string;
+            } else if (char === '{' || char === '[') {
+                depth++;
+                if (depth === 2 && char === '[' && GOOGLE_FIT_POINT_ARRAYS.includes(key)) {
+                    inPoints = true;
+                    skeleton += text.slice(skeletonFrom!, i + 1);
+                    skeletonFrom = null;
+                } else if (inPoints && depth === 3) {
+                    pointFrom = i;
+                }
+            } else if (char === '}' || char === ']') {
+                if (inPoints && depth === 3) {
+                    const parsed: GoogleFitPoint = JSON.parse(point + text.slice(pointFrom!, i + 1));
+                    if (parsed.dataTypeName) handleGoogleFitPoint(parsed, aggregator);
+                    else untyped.push(parsed);
+                    point = '';
+                    pointFrom = null;
+                } else if (inPoints && depth === 2) {
+                    inPoints = false;
+                    skeletonFrom = i;
+                }
+                depth--;
+            }
+        }
+        if (skeletonFrom !== null) skeleton += text.slice(skeletonFrom);
+        if (pointFrom !== null) point += text.slice(pointFrom);
+    }, onProgress);
+
+    const data = JSON.parse(skeleton);
+    const fallbackType: string | undefined = data?.['Data Source']?.dataType?.name ?? data?.dataTypeName;
+    untyped.forEach(untypedPoint => handleGoogleFitPoint({ dataTypeName: fallbackType, ...untypedPoint }, aggregator));
+};
+
+// "Daily activity metrics.csv" has one row per day. It has no resting heart rate, so the day's
+// minimum heart rate is used instead, or the average in files without that column.
+// Rows are parsed as complete lines arrive; a line break inside quotes doesn't end a row.
+export const parseGoogleFitDailyCsv = async (file: Blob & { name?: string }, aggregator: DailyAggregator, onProgress?: (progress: WearableParseProgress) => void) => {
+    let header: string[] | null = null;
+    let handleRow: (cells: string[]) => void = () => {};
+    const onRow = (cells: string[]) => {
+        if (header) {
+            handleRow(cells);
+            return;
+        }
+        header = cells.map(h => h.replace(/^\uFEFF/, ''));
+        handleRow = googleFitDailyRowHandler(header, aggregator);
+    };
+
+    let buffer = '';
+    await readInChunks(file, text => {
+        buffer += text;
+        let end = -1;
+        let inQuotes = false;
+        for (let i = 0; i < buffer.length; i++) {
+            if (buffer[i] === '"') inQuotes = !inQuotes;
+            else if (buffer[i] === '\n' && !inQuotes) end = i;
+        }
+        if (end === -1) return;
+        parseCsv(buffer.slice(0, end + 1)).forEach(onRow);
+        buffer = buffer.slice(end + 1);
+    }, onProgress);
+    parseCsv(buffer).forEach(onRow);
+};
+
+const googleFitDailyRowHandler = (header: string[], aggregator: DailyAggregator) => {
+    const column = (name: string) => header.findIndex(h => h.trim().toLowerCase() === name.toLowerCase());
+    const minHeartRate = column('Min heart rate (bpm)');
+    const columns: { index: number; key: MetricKey; factor: number }[] = [
+        { index: column('Step count'), key: 'steps', factor: 1 },
+        { index: column('Distance (m)'), key: 'distanceTravelled', factor: 0.001 },
+        { index: column('Calories (kcal)'), key: 'caloriesBurnt', factor: 1 },
+        { index: minHeartRate >= 0 ? minHeartRate : column('Average heart rate (bpm)'), key: 'heartRate', factor: 1 },
+    ];
+    const dateIndex = column('Date');
+    if (dateIndex === -1) throw new Error('The CSV has no "Date" column. Is this the Google Fit "Daily activity metrics" file?');
+
+    return (cells: string[]) => {
+        const date = cells[dateIndex]?.trim();
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date ?? '')) return;
+        columns.forEach(({ index, key, factor }) => {
+            const raw = index >= 0 ? cells[index]?.trim() : '';
+            if (raw) aggregator.add(date, key, Number(raw) * factor);
+        });
+    };
+};
+
+// --- Entry point ---
+
+export const parseWearableFiles = async (files: (Blob & { name: string })[], onProgress?: (progress: WearableParseProgress) => void): Promise<ImportedDay[]> => {
+    const aggregator = new DailyAggregator();
+    for (const file of files) {
+        const name = file.name.toLowerCase();
+        if (name.endsWith('.xml')) {
+            await parseAppleHealthXml(file, aggregator, onProgress);
+        } else if (name.endsWith('.json')) {
+            await parseGoogleFitJson(file, aggregator, onProgress);
+        } else if (name.endsWith('.csv')) {
+            await parseGoogleFitDailyCsv(file, aggregator, onProgress);
+        } else {
+            throw new Error(`${file.name} is not an Apple Health export.xml or a Google Fit JSON/CSV file. Unzip the export first.`);
+        }
+    }
+    return aggregator.result();
+};
+
+// --- Merging with manually entered days ---
+
+// 'keep-manual': values the user typed always win; device data only fills in empty fields.
+// 'prefer-device': device values replace typed values where both exist; typed-only fields are kept.
+export type MergePolicy = 'keep-manual' | 'prefer-device';
+
+export interface MergeSummary {
+    entries: Omit<DailyMetrics, 'userId'>[];
+    newDays: number;
+    updatedDays: number;
+    unchangedDays: number;
+    conflicts: number; // fields where both sources had different values
+}
+
+export const mergeWithExisting = (
+    imported: ImportedDay[],
+    existing: DailyMetrics[],
+    policy: MergePolicy,
+    profile: Pick<HealthData, 'age' | 'fitnessLevel'> | null,
+    language: LanguageCode = DEFAULT_LANGUAGE,
+): MergeSummary => {
+    const existingByDate = new Map(existing.map(entry => [entry.date, entry]));
+    const summary: MergeSummary = { entries: [], newDays: 0, updatedDays: 0, unchangedDays: 0, conflicts: 0 };
+
+    imported.forEach(day => {
+        const current = existingByDate.get(day.date);
+        const merged: Omit<DailyMetrics, 'userId'> = { date: day.date };
+        let changed = !current;
+
+        METRIC_FIELDS.forEach(({ key }) => {
+            const manual = current?.[key] ?? undefined;
+            const device = day[key];
+            if (manual !== undefined && device !== undefined && manual !== device) {
+                summary.conflicts += 1;
+            }
+            const value = policy === 'keep-manual' ? manual ?? device : device ?? manual;
+            if (value !== undefined) merged[key] = value;
+            if (value !== manual) changed = true;
+        });
+
+        if (!changed) {
+            summary.unchangedDays += 1;
+            return;
+        }
+        // Drop impossible readings rather than the whole day, and re-flag what remains.
+        const { errors } = validateMetrics(merged, profile, language);
+        (Object.keys(errors) as MetricKey[]).forEach(key => { delete merged[key]; });
+        merged.flags = validateMetrics(merged, profile, language).warnings;
+
+        summary.entries.push(merged);
+        if (current) summary.updatedDays += 1;
+        else summary.newDays += 1;
+    });
+
+    return summary;
+};
@@ -0,0 +1,28 @@
+import { parseWearableFiles, ImportedDay, WearableParseProgress } from './wearableImport';
+
+// Runs wearable export parsing off the main thread so multi-hundred-MB files don't freeze the page.
+
+export type WearableWorkerRequest = { files: File[] };
+export type WearableWorkerResponse =
+    | { type: 'progress'; progress: WearableParseProgress }
+    | { type: 'result'; days: ImportedDay[] }
+    | { type: 'error'; message: string };
+
+const post = (message: WearableWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<WearableWorkerRequest>) => {
+    // Report at most once per percent so large files don't flood the main thread with messages.
+    let lastPercent = -1;
+    const onProgress = (progress: WearableParseProgress) => {
+        const percent = Math.floor((progress.bytesRead / (progress.totalBytes || 1)) * 100);
+        if (percent === lastPercent) return;
+        lastPercent = percent;
+        post({ type: 'progress', progress });
+    };
+    try {
+        const days = await parseWearableFiles(event.data.files, onProgress);
+        post({ type: 'result', days });
+    } catch (error: unknown) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};